@@ -0,0 +1,49 @@
+/**
+ * Headless intent evaluation
+ *
+ * Loads src/tests/intentEvaluation.ts through Vite's SSR module loader, runs the
+ * labeled corpus, prints the report and compares it with the stored baseline.
+ * Exits with code 1 when any metric regressed.
+ *
+ *   npm run eval:intents                      # Evaluate and compare
+ *   npm run eval:intents -- --update-baseline # Accept the current numbers
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { withSourceModules } from './viteModules.mjs';
+
+const BASELINE_PATH = fileURLToPath(new URL('../src/tests/intentBaseline.json', import.meta.url));
+const updateBaseline = process.argv.includes('--update-baseline');
+
+let exitCode = 0;
+try {
+    await withSourceModules(async load => {
+        const { evaluateIntents, toBaseline, compareWithBaseline, formatEvaluationReport } = await load('/src/tests/intentEvaluation.ts');
+        const { INTENT_CORPUS } = await load('/src/tests/intentCorpus.ts');
+
+        const report = evaluateIntents(INTENT_CORPUS);
+        console.log(formatEvaluationReport(report));
+
+        if (updateBaseline) {
+            writeFileSync(BASELINE_PATH, `${JSON.stringify(toBaseline(report), null, 4)}\n`);
+            console.log(`\nBaseline written to ${BASELINE_PATH}`);
+        } else if (!existsSync(BASELINE_PATH)) {
+            console.log('\nNo baseline yet - run with --update-baseline to store one.');
+        } else {
+            const regressions = compareWithBaseline(report, JSON.parse(readFileSync(BASELINE_PATH, 'utf8')));
+            if (regressions.length > 0) {
+                console.log(`\n✗ ${regressions.length} metric(s) regressed against the baseline:`);
+                regressions.forEach(r => console.log(`  ${r}`));
+                exitCode = 1;
+            } else {
+                console.log('\n✓ No regressions against the baseline');
+            }
+        }
+    });
+} catch (error) {
+    console.error(error);
+    exitCode = 1;
+}
+
+process.exit(exitCode);
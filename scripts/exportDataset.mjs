@@ -0,0 +1,36 @@
+/**
+ * Generate a seeded dataset fixture
+ *
+ * Takes the same options as the app's URL query (seed, brands, campaigns,
+ * anchor, mix) and writes the fixture JSON to a file, or to stdout.
+ *
+ *   npm run data:export -- seed=7 brands=3 anchor=2026-06-30 out=fixtures/demo.json
+ *   npm run data:export -- seed=7 mix=Search:3,Social:1 > demo.json
+ */
+
+import { writeFileSync } from 'node:fs';
+import { withSourceModules } from './viteModules.mjs';
+
+const params = new URLSearchParams(process.argv.slice(2).join('&'));
+const out = params.get('out');
+params.delete('out');
+
+let exitCode = 0;
+try {
+    await withSourceModules(async load => {
+        const { createDatasetFixture, parseDatasetQuery } = await load('/src/data/datasetFixture.ts');
+        const json = `${JSON.stringify(createDatasetFixture(parseDatasetQuery(params.toString())), null, 2)}\n`;
+
+        if (out) {
+            writeFileSync(out, json);
+            console.error(`Dataset fixture written to ${out}`);
+        } else {
+            process.stdout.write(json);
+        }
+    });
+} catch (error) {
+    console.error(error);
+    exitCode = 1;
+}
+
+process.exit(exitCode);
@@ -0,0 +1,40 @@
+/**
+ * Headless conversation scenarios
+ *
+ * Plays every scenario in src/tests/conversationScenarios.ts against AgentBrain
+ * and exits with code 1 when any turn's expectations fail.
+ *
+ *   npm run test:scenarios              # All scenarios
+ *   npm run test:scenarios -- undo      # Only scenarios whose name contains "undo"
+ */
+
+import { withSourceModules } from './viteModules.mjs';
+
+const filter = process.argv.slice(2).join(' ').toLowerCase();
+
+let exitCode = 0;
+try {
+    await withSourceModules(async load => {
+        const { runScenarios, formatScenarioResults } = await load('/src/tests/scenarioRunner.ts');
+        const { CONVERSATION_SCENARIOS } = await load('/src/tests/conversationScenarios.ts');
+
+        const scenarios = CONVERSATION_SCENARIOS.filter(s => s.name.toLowerCase().includes(filter));
+        // Agent modules log command matches; keep the output to the results
+        const log = console.log;
+        console.log = () => {};
+        let results;
+        try {
+            results = await runScenarios(scenarios);
+        } finally {
+            console.log = log;
+        }
+
+        console.log(formatScenarioResults(results));
+        if (results.some(r => !r.passed)) exitCode = 1;
+    });
+} catch (error) {
+    console.error(error);
+    exitCode = 1;
+}
+
+process.exit(exitCode);
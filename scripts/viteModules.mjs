@@ -0,0 +1,26 @@
+/**
+ * Load src/ TypeScript modules in Node through Vite's SSR module loader
+ *
+ * Shared by the headless scripts (evalIntents, runScenarios). No app config or
+ * dependency pre-bundling: only plain TS modules are loaded.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+export async function withSourceModules(run) {
+    const server = await createServer({
+        configFile: false,
+        root: fileURLToPath(new URL('..', import.meta.url)),
+        server: { middlewareMode: true, hmr: false, watch: null },
+        optimizeDeps: { noDiscovery: true, include: [] },
+        appType: 'custom',
+        logLevel: 'error'
+    });
+
+    try {
+        return await run(path => server.ssrLoadModule(path));
+    } finally {
+        await server.close();
+    }
+}
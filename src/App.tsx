@@ -13,11 +13,22 @@ import { PortfolioDashboard } from './components/PortfolioDashboard';
 import { GlobalShortcuts } from './components/GlobalShortcuts';
 import { AttributionDashboard } from './components/AttributionDashboard';
 import { PredictiveAnalyticsDashboard } from './components/PredictiveAnalyticsDashboard';
+import { PlanVersionHistory } from './components/PlanVersionHistory';
+import { PlanComparisonView } from './components/PlanComparisonView';
+import { HistoryTimelinePanel } from './components/HistoryTimelinePanel';
 
 import { AgentBrain, AgentState } from './logic/agentBrain';
-import { AgentMessage, MediaPlan, User, Brand, Campaign, Flight, LayoutPosition, Placement } from './types';
+import { SessionListItem } from './logic/contextManager';
+import { channelManager } from './logic/ChannelManager';
+import { AgentMessage, MediaPlan, User, Brand, Campaign, Flight, LayoutPosition, Placement, IOStatus } from './types';
 import { generateLargeScaleData } from './data/largeScaleData';
+import { exportDatasetFixture, importDatasetFixture, parseDatasetQuery } from './data/datasetFixture';
+import { setRandomSeed } from './utils/random';
 import { initialPortfolio } from './data/portfolioData';
+import { planStorage, PlanVersionSummary } from './utils/planStorage';
+import { diffPlans, getLineChangeMap } from './utils/planDiff';
+import { actionHistory } from './utils/actionHistory';
+import { getPlanScope, PatchConflictError } from './utils/planPatch';
 import {
     generateFlight,
     generateId,
@@ -57,16 +68,34 @@ const updateBrandMetrics = (brand: Brand): Brand => {
 
 import { generateMediaPlanPDF } from './utils/pdfGenerator';
 import { generateMediaPlanPPT } from './utils/pptGenerator';
-import { Layout, LogOut, PieChart, Settings, Users, Moon, Sun, BarChart2, ChevronLeft, ChevronRight, Briefcase, TrendingUp } from 'lucide-react';
+import { generateMediaPlanXLSX } from './utils/xlsxGenerator';
+import { buildInsertionOrders, generateInsertionOrderPDFs } from './utils/ioGenerator';
+import { generateMediaPlanReport, getDefaultReportConfig } from './utils/pdfReportBuilder';
+import { DateChange } from './utils/campaignTimeline';
+import { getForecastOptions } from './utils/forecastingEngine';
+import { runMonteCarlo } from './utils/monteCarloClient';
+import { formatMonteCarloResult } from './utils/monteCarloSimulation';
+import { createAgentMessage } from './logic/AgentContext';
+import { Layout, LogOut, PieChart, Settings, Users, Moon, Sun, BarChart2, ChevronLeft, ChevronRight, Briefcase, TrendingUp, GitBranch, Download, Upload } from 'lucide-react';
 
 type ViewState = 'LOGIN' | 'CLIENT_SELECTION' | 'CAMPAIGN_LIST' | 'FLIGHT_LIST' | 'MEDIA_PLAN' | 'AGENCY_ANALYTICS' | 'INTEGRATIONS' | 'PORTFOLIO' | 'ATTRIBUTION' | 'PREDICTIVE_ANALYTICS';
 
 function App() {
     // Mutable Data State
+    // The generated portfolio can be reshaped from the URL, e.g. ?seed=7&brands=3
+    const datasetConfigRef = useRef(parseDatasetQuery(window.location.search));
     const [brands, setBrands] = useState(() => {
         // Use large scale data generator
-        return generateLargeScaleData();
+        return generateLargeScaleData(datasetConfigRef.current);
     });
+    const datasetFileInputRef = useRef<HTMLInputElement>(null);
+
+    // With ?seed= in the URL, plans the agent generates are repeatable too
+    useEffect(() => {
+        const { seed } = datasetConfigRef.current;
+        if (seed !== undefined) setRandomSeed(seed);
+        return () => setRandomSeed(null);
+    }, []);
 
     // Navigation & Context State
     const [view, setView] = useState<ViewState>('LOGIN');
@@ -92,6 +121,20 @@ function App() {
     const [mediaPlan, setMediaPlan] = useState<MediaPlan | null>(null);
     const [agentState, setAgentState] = useState<AgentState>('INIT');
     const [isTyping, setIsTyping] = useState(false);
+    const [planVersions, setPlanVersions] = useState<PlanVersionSummary[]>([]);
+    const [comparisonPlan, setComparisonPlan] = useState<MediaPlan | null>(null);
+    const [showHistoryTimeline, setShowHistoryTimeline] = useState(false);
+    const [chatSessions, setChatSessions] = useState<SessionListItem[]>([]);
+
+    // Restore saved brand workspaces over the generated data
+    useEffect(() => {
+        planStorage.loadBrands()
+            .then(savedBrands => {
+                if (savedBrands.length === 0) return;
+                setBrands(prevBrands => prevBrands.map(b => savedBrands.find(s => s.id === b.id) || b));
+            })
+            .catch(error => console.error('Failed to load saved plans:', error));
+    }, []);
 
     // Theme State
     const [theme, setTheme] = useState<'light' | 'dark'>('light');
@@ -115,6 +158,13 @@ function App() {
         }
     }, [currentBrand]);
 
+    // Each user + brand gets its own conversation; past ones can be resumed from the chat
+    useEffect(() => {
+        if (!currentUser) return;
+        brainRef.current.startSession(currentUser.id, currentBrand?.id);
+        setChatSessions(brainRef.current.listSessions());
+    }, [currentUser?.id, currentBrand?.id]);
+
     // Sidebar State
     const [sidebarCollapsed, setSidebarCollapsed] = useState(() => {
         const saved = localStorage.getItem('fuseiq-sidebar-collapsed');
@@ -257,6 +307,20 @@ function App() {
         }
 
         setMediaPlan(initialPlan);
+        setPlanVersions([]);
+        setComparisonPlan(null);
+
+        // Continue numbering from the last saved version of this flight
+        if (currentBrand) {
+            planStorage.listVersions(currentBrand.id, flight.id)
+                .then(versions => {
+                    setPlanVersions(versions);
+                    if (versions.length === 0) return;
+                    setMediaPlan(prev => prev && prev.id === initialPlan.id ? { ...prev, version: versions[0].version } : prev);
+                })
+                .catch(error => console.error('Failed to load plan versions:', error));
+        }
+
         setMessages([{
             id: 'init',
             role: 'agent',
@@ -700,6 +764,197 @@ function App() {
         }
     };
 
+    // --- Plan Persistence ---
+
+    const showToast = (message: string) => {
+        const toast = document.createElement('div');
+        toast.className = 'fixed bottom-4 right-4 bg-gray-900 dark:bg-white text-white dark:text-gray-900 px-4 py-2 rounded-lg shadow-lg z-50 animate-in fade-in slide-in-from-bottom-4';
+        toast.innerHTML = `<div class="flex items-center gap-2"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17 21 17 13 7 13 7 21"></polyline><polyline points="7 3 7 8 15 8"></polyline></svg></div>`;
+        // Messages carry checkpoint, vendor and file names, so they go in as text, never markup
+        toast.firstElementChild!.append(` ${message}`);
+        document.body.appendChild(toast);
+        setTimeout(() => toast.remove(), 3000);
+    };
+
+    const refreshPlanVersions = async () => {
+        if (!currentBrand || !mediaPlan) return;
+        const versions = await planStorage.listVersions(currentBrand.id, planStorage.getPlanKey(mediaPlan));
+        setPlanVersions(versions);
+    };
+
+    const handleSavePlan = async () => {
+        if (!currentBrand || !mediaPlan) return;
+
+        try {
+            const savedPlan = await planStorage.savePlan(currentBrand.id, mediaPlan);
+
+            // Write the plan's placements back into the brand so the workspace survives a reload
+            const brandData = brands.find(b => b.id === currentBrand.id) || currentBrand;
+            const updatedBrand = updateBrandMetrics({
+                ...brandData,
+                campaigns: brandData.campaigns.map(c => ({
+                    ...c,
+                    flights: c.flights.map(f => f.id === savedPlan.activeFlightId
+                        ? { ...f, lines: savedPlan.campaign.placements || f.lines }
+                        : f)
+                }))
+            });
+            await planStorage.saveBrand(updatedBrand);
+
+            setBrands(prevBrands => prevBrands.map(b => b.id === updatedBrand.id ? updatedBrand : b));
+            setCurrentBrand(updatedBrand);
+            setMediaPlan(savedPlan);
+            brainRef.current.setMediaPlan(savedPlan);
+            await refreshPlanVersions();
+
+            showToast(`Plan Saved as Version ${savedPlan.version}`);
+        } catch (error) {
+            console.error('Failed to save plan:', error);
+            showToast('Plan could not be saved');
+        }
+    };
+
+    const handleOpenPlanVersion = async (version: number) => {
+        if (!currentBrand || !mediaPlan) return;
+
+        let savedPlan: MediaPlan | null;
+        try {
+            savedPlan = await planStorage.loadVersion(currentBrand.id, planStorage.getPlanKey(mediaPlan), version);
+        } catch (error) {
+            console.error('Failed to open plan version:', error);
+            showToast(`Version ${version} could not be opened`);
+            return;
+        }
+        if (!savedPlan) return;
+
+        setMediaPlan(savedPlan);
+        brainRef.current.setMediaPlan(savedPlan);
+        setMessages(prev => [...prev, {
+            id: `version-${Date.now()}`,
+            role: 'agent',
+            content: `Reopened **version ${version}** of this plan (${savedPlan.campaign.placements?.length || 0} placements, $${savedPlan.totalSpend.toLocaleString()}). Save to make it the latest version.`,
+            timestamp: Date.now()
+        }]);
+    };
+
+    const handleComparePlanVersion = async (version: number) => {
+        if (!currentBrand || !mediaPlan) return;
+
+        try {
+            const savedPlan = await planStorage.loadVersion(currentBrand.id, planStorage.getPlanKey(mediaPlan), version);
+            setComparisonPlan(savedPlan);
+        } catch (error) {
+            console.error('Failed to load plan version:', error);
+            showToast(`Version ${version} could not be loaded for comparison`);
+        }
+    };
+
+    // --- Dataset Fixtures ---
+
+    const handleExportDataset = () => {
+        const blob = new Blob([exportDatasetFixture(brands, datasetConfigRef.current)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `fuseiq-dataset-seed-${datasetConfigRef.current.seed ?? 42}.json`;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportDataset = async (file: File) => {
+        try {
+            const fixture = importDatasetFixture(await file.text());
+            datasetConfigRef.current = fixture.config;
+            setBrands(fixture.brands);
+            setCurrentBrand(null);
+            setCurrentCampaign(null);
+            setCurrentFlight(null);
+            setView('CLIENT_SELECTION');
+            showToast(`Loaded ${fixture.brands.length} brands from ${file.name}`);
+        } catch (error) {
+            console.error('Failed to import dataset:', error);
+            showToast(error instanceof Error ? error.message : 'Dataset could not be imported');
+        }
+    };
+
+    // --- Plan Import ---
+
+    const handleImportLines = (lines: Placement[], fileName: string) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        const message = channelManager.addImportedPlacements(plan, lines, fileName);
+        brainRef.current.getContext().history.push(message);
+        setMessages([...brainRef.current.getContext().history]);
+        setMediaPlan({ ...plan });
+    };
+
+    // --- Insertion Orders ---
+
+    const handleGenerateInsertionOrders = (vendor?: string) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        const orders = channelManager.issueInsertionOrders(plan, vendor ? `generate ${vendor} insertion order` : 'generate insertion orders')
+            .filter(order => !vendor || order.vendor === vendor);
+        generateInsertionOrderPDFs(orders, { preparedBy: currentUser?.name });
+        setMediaPlan({ ...plan });
+        showToast(`Generated ${orders.length} insertion order${orders.length === 1 ? '' : 's'}`);
+    };
+
+    const handleSetIOStatus = (vendor: string, status: IOStatus) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        const message = channelManager.setInsertionOrderStatus(plan, vendor, status, `mark ${vendor} io as ${status.toLowerCase()}`);
+        if (!message) return;
+        setMediaPlan({ ...plan });
+        showToast(`${vendor} IO marked as ${status.toLowerCase()}`);
+    };
+
+    // --- Flight Timeline ---
+
+    const handleRescheduleDates = (change: DateChange) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        const message = channelManager.changeDates(
+            `run from ${change.startDate} to ${change.endDate}`,
+            brainRef.current.getContext(),
+            change
+        );
+        if (!message) return;
+        setMediaPlan({ ...plan });
+        showToast(message.content.replace(/\*\*/g, ''));
+    };
+
+    // --- History Timeline ---
+
+    const handleHistoryJump = (nodeId: string | null) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        try {
+            const { reverted, applied } = actionHistory.jumpTo(getPlanScope(plan), nodeId, plan);
+            setMediaPlan({ ...plan });
+            showToast(`Moved through history (${reverted.length} reverted, ${applied.length} re-applied)`);
+        } catch (error) {
+            if (!(error instanceof PatchConflictError)) throw error;
+            showToast(`Can't jump there cleanly - ${error.message}`);
+        }
+    };
+
+    const handleCreateCheckpoint = (name: string) => {
+        const plan = brainRef.current.getContext().mediaPlan;
+        if (!plan) return;
+
+        const checkpoint = actionHistory.createCheckpoint(getPlanScope(plan), name);
+        setMediaPlan({ ...plan });
+        showToast(`Checkpoint "${checkpoint.name}" saved`);
+    };
+
     // Sync media plan to brain whenever it changes
     // (Force reload for AgentBrain updates)
     useEffect(() => {
@@ -724,7 +979,7 @@ function App() {
         await new Promise(resolve => setTimeout(resolve, 500));
 
         // Process input
-        const agentResponse = brainRef.current.processInput(text);
+        const agentResponse = await brainRef.current.processInputAsync(text);
 
         // Update state
         const ctx = brainRef.current.getContext();
@@ -742,14 +997,23 @@ function App() {
 
         setAgentState(ctx.state);
         setIsTyping(false);
+        setChatSessions(brainRef.current.listSessions());
 
         // Handle side effects
-        const action = agentResponse.action as any;
+        const action = agentResponse.action;
         if (action) {
             if (action === 'EXPORT_PDF' && ctx.mediaPlan) {
                 generateMediaPlanPDF(ctx.mediaPlan);
             } else if (action === 'EXPORT_PPT' && ctx.mediaPlan) {
-                generateMediaPlanPPT(ctx.mediaPlan);
+                generateMediaPlanPPT(ctx.mediaPlan, currentBrand)
+                    .catch(error => console.error('Failed to build PowerPoint:', error));
+            } else if (action === 'EXPORT_XLSX' && ctx.mediaPlan) {
+                generateMediaPlanXLSX(ctx.mediaPlan);
+            } else if (action === 'EXPORT_IO' && ctx.mediaPlan) {
+                generateInsertionOrderPDFs(buildInsertionOrders(ctx.mediaPlan), { preparedBy: currentUser?.name });
+            } else if (action === 'EXPORT_REPORT' && ctx.mediaPlan) {
+                generateMediaPlanReport(ctx.mediaPlan, getDefaultReportConfig(ctx.mediaPlan, currentBrand))
+                    .catch(error => console.error('Failed to build report:', error));
             } else if (typeof action === 'string' && action.startsWith('LAYOUT_')) {
                 // Handle layout changes from conversational commands
                 const newLayout = action.replace('LAYOUT_', '') as LayoutPosition;
@@ -778,11 +1042,54 @@ function App() {
                     );
                 } else if (action.type === 'CREATE_FLIGHT') {
                     handleCreateFlight(action.payload.name);
+                } else if (action.type === 'OPEN_FLIGHT') {
+                    const flight = currentCampaign?.flights.find(f => f.id === action.payload.flightId);
+                    if (flight) handleSelectFlight(flight);
+                } else if (action.type === 'RUN_SIMULATION' && ctx.mediaPlan) {
+                    handleRunSimulation(ctx.mediaPlan, action.payload.iterations);
                 }
             }
         }
     };
 
+    // Monte Carlo runs in a worker; the result is posted as a follow-up agent message
+    const handleRunSimulation = (plan: MediaPlan, iterations: number) => {
+        const { campaign } = plan;
+        runMonteCarlo({
+            placements: campaign.placements || [],
+            startDate: campaign.startDate,
+            endDate: campaign.endDate,
+            options: { ...getForecastOptions(campaign, currentBrand), iterations, goals: campaign.numericGoals }
+        })
+            .then(result => {
+                brainRef.current.getContext().history.push(createAgentMessage(
+                    formatMonteCarloResult(result),
+                    campaign.numericGoals ? ['Optimize my plan', 'Show goals'] : ['Set goal conversions 5000', 'Forecast campaign']
+                ));
+                setMessages([...brainRef.current.getContext().history]);
+            })
+            .catch(error => {
+                console.error('Simulation failed:', error);
+                showToast('Simulation could not be completed');
+            });
+    };
+
+    const handleResumeSession = (sessionId: string) => {
+        if (!brainRef.current.resumeSession(sessionId)) {
+            showToast('That conversation is no longer available');
+            setChatSessions(brainRef.current.listSessions());
+            return;
+        }
+        setMessages([...brainRef.current.getContext().history]);
+        setChatSessions(brainRef.current.listSessions());
+    };
+
+    const handleNewSession = () => {
+        brainRef.current.startSession(currentUser?.id, currentBrand?.id);
+        setMessages([...brainRef.current.getContext().history]);
+        setChatSessions(brainRef.current.listSessions());
+    };
+
     // --- Render Logic ---
 
     if (view === 'LOGIN') {
@@ -917,6 +1224,33 @@ function App() {
                             <TrendingUp className="w-4 h-4 flex-shrink-0" />
                             {!sidebarCollapsed && 'Predictive Analytics'}
                         </button>
+                        <button
+                            onClick={handleExportDataset}
+                            className="w-full flex items-center gap-2 px-2 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            title={sidebarCollapsed ? 'Export Dataset' : undefined}
+                        >
+                            <Download className="w-4 h-4 flex-shrink-0" />
+                            {!sidebarCollapsed && 'Export Dataset'}
+                        </button>
+                        <button
+                            onClick={() => datasetFileInputRef.current?.click()}
+                            className="w-full flex items-center gap-2 px-2 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            title={sidebarCollapsed ? 'Import Dataset' : undefined}
+                        >
+                            <Upload className="w-4 h-4 flex-shrink-0" />
+                            {!sidebarCollapsed && 'Import Dataset'}
+                        </button>
+                        <input
+                            ref={datasetFileInputRef}
+                            type="file"
+                            accept=".json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImportDataset(file);
+                                e.target.value = '';
+                            }}
+                        />
                         <button
                             onClick={() => alert('Team management coming soon!')}
                             className="w-full flex items-center gap-2 px-2 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -990,6 +1324,25 @@ function App() {
 
                     <div className="flex items-center gap-3">
                         {/* Layout Controls - only show in media plan view */}
+                        {view === 'MEDIA_PLAN' && mediaPlan && (
+                            <PlanVersionHistory
+                                currentVersion={mediaPlan.version}
+                                versions={planVersions}
+                                onOpen={refreshPlanVersions}
+                                onSave={handleSavePlan}
+                                onOpenVersion={handleOpenPlanVersion}
+                                onCompareVersion={handleComparePlanVersion}
+                            />
+                        )}
+                        {view === 'MEDIA_PLAN' && mediaPlan && (
+                            <button
+                                onClick={() => setShowHistoryTimeline(!showHistoryTimeline)}
+                                className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${showHistoryTimeline ? 'text-purple-700 bg-purple-50' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'}`}
+                                title="Undo History & Checkpoints"
+                            >
+                                <GitBranch className="h-4 w-4" />
+                            </button>
+                        )}
                         {view === 'MEDIA_PLAN' && (
                             <LayoutControls currentLayout={layout} onLayoutChange={handleLayoutChange} />
                         )}
@@ -1023,6 +1376,7 @@ function App() {
                 {view === 'FLIGHT_LIST' && currentCampaign && (
                     <FlightList
                         flights={currentCampaign.flights}
+                        campaign={currentCampaign}
                         onSelectFlight={handleSelectFlight}
                         onBack={() => setView('CAMPAIGN_LIST')}
                         onCreateFlight={handleCreateFlight}
@@ -1059,6 +1413,10 @@ function App() {
                                 agentState={agentState}
                                 hasPlan={mediaPlan !== null}
                                 layout={layout}
+                                sessions={chatSessions}
+                                activeSessionId={brainRef.current.getSessionId()}
+                                onResumeSession={handleResumeSession}
+                                onNewSession={handleNewSession}
                             />
                         </div>
 
@@ -1079,30 +1437,48 @@ function App() {
                         <div className={`flex-1 flex flex-col overflow-hidden relative bg-gray-50 dark:bg-gray-900 transition-colors duration-200 ${layout === 'BOTTOM' ? 'order-1' : layout === 'RIGHT' ? 'order-1' : 'order-3'
                             }`}>
                             <GlobalShortcuts
-                                onSave={() => {
-                                    // Simulate save
-                                    const toast = document.createElement('div');
-                                    toast.className = 'fixed bottom-4 right-4 bg-gray-900 dark:bg-white text-white dark:text-gray-900 px-4 py-2 rounded-lg shadow-lg z-50 animate-in fade-in slide-in-from-bottom-4';
-                                    toast.innerHTML = '<div class="flex items-center gap-2"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17 21 17 13 7 13 7 21"></polyline><polyline points="7 3 7 8 15 8"></polyline></svg> Plan Saved Successfully</div>';
-                                    document.body.appendChild(toast);
-                                    setTimeout(() => toast.remove(), 3000);
-                                }}
+                                onSave={handleSavePlan}
                                 onFocusChat={() => {
                                     // Dispatch custom event that ChatInterface listens to
                                     window.dispatchEvent(new CustomEvent('focus-chat'));
                                 }}
                             />
-                            <PlanVisualizer
-                                mediaPlan={mediaPlan}
-                                onGroupingChange={(mode) => {
-                                    if (brainRef.current!.getContext().mediaPlan) {
-                                        brainRef.current!.getContext().mediaPlan!.groupingMode = mode;
-                                        setMediaPlan({ ...brainRef.current!.getContext().mediaPlan! });
-                                    }
-                                }}
-                                onUpdatePlacement={handleUpdatePlacement}
-                                onDeletePlacement={handleDeletePlacement}
-                            />
+                            <div className="flex-1 flex flex-row overflow-hidden">
+                                <div className="flex-1 flex flex-col overflow-hidden min-w-0">
+                                    <PlanVisualizer
+                                        mediaPlan={mediaPlan}
+                                        onGroupingChange={(mode) => {
+                                            if (brainRef.current!.getContext().mediaPlan) {
+                                                brainRef.current!.getContext().mediaPlan!.groupingMode = mode;
+                                                setMediaPlan({ ...brainRef.current!.getContext().mediaPlan! });
+                                            }
+                                        }}
+                                        onUpdatePlacement={handleUpdatePlacement}
+                                        onDeletePlacement={handleDeletePlacement}
+                                        changeHighlights={comparisonPlan && mediaPlan ? getLineChangeMap(diffPlans(comparisonPlan, mediaPlan)) : undefined}
+                                        onImportLines={handleImportLines}
+                                        onGenerateInsertionOrders={handleGenerateInsertionOrders}
+                                        onSetIOStatus={handleSetIOStatus}
+                                        brand={currentBrand}
+                                        onRescheduleDates={handleRescheduleDates}
+                                    />
+                                </div>
+                                {comparisonPlan && mediaPlan && (
+                                    <PlanComparisonView
+                                        basePlan={comparisonPlan}
+                                        currentPlan={mediaPlan}
+                                        onClose={() => setComparisonPlan(null)}
+                                    />
+                                )}
+                                {showHistoryTimeline && mediaPlan && (
+                                    <HistoryTimelinePanel
+                                        mediaPlan={mediaPlan}
+                                        onJump={handleHistoryJump}
+                                        onCreateCheckpoint={handleCreateCheckpoint}
+                                        onClose={() => setShowHistoryTimeline(false)}
+                                    />
+                                )}
+                            </div>
                             <OnboardingHints state={agentState} />
                         </div>
                     </div>
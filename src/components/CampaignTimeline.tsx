@@ -0,0 +1,308 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CalendarRange, MoonStar } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Campaign, Line } from '../types';
+import {
+    DateChange,
+    buildCampaignTimeline,
+    daysBetween,
+    shiftDate,
+    toDayNumber,
+    fromDayNumber
+} from '../utils/campaignTimeline';
+
+interface CampaignTimelineProps {
+    campaign: Campaign;
+    /** Flight open in the plan editor; its lines are read from campaign.placements */
+    activeFlightId?: string;
+    /** Called when a bar is dropped on new dates; omit for a read-only timeline */
+    onReschedule?: (change: DateChange) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+    key: string;
+    change: Omit<DateChange, 'startDate' | 'endDate'>;
+    mode: DragMode;
+    originX: number;
+    startDate: string;
+    endDate: string;
+    offsetDays: number;
+}
+
+// Same hues as the channel pills in the plan table
+const CHANNEL_BAR_STYLES: Record<Line['channel'], string> = {
+    'Search': 'bg-blue-500',
+    'Social': 'bg-pink-500',
+    'Display': 'bg-purple-500',
+    'Streaming Audio': 'bg-green-500',
+    'Podcast': 'bg-teal-500',
+    'Place-based Audio': 'bg-amber-500',
+    'TV': 'bg-orange-500',
+    'Radio': 'bg-orange-500',
+    'OOH': 'bg-orange-500',
+    'Print': 'bg-orange-500'
+};
+
+const formatShortDate = (date: string) =>
+    new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export const CampaignTimeline: React.FC<CampaignTimelineProps> = ({ campaign, activeFlightId, onReschedule }) => {
+    // Not memoized: plan edits mutate the campaign in place, so its identity doesn't change
+    const timeline = buildCampaignTimeline(campaign, activeFlightId);
+    const trackRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<DragState | null>(null);
+
+    const firstDay = toDayNumber(timeline.startDate);
+    const toPercent = (date: string) => ((toDayNumber(date) - firstDay) / timeline.totalDays) * 100;
+    const widthPercent = (startDate: string, endDate: string) =>
+        (Math.max(daysBetween(startDate, endDate), 1) / timeline.totalDays) * 100;
+
+    const maxWeeklySpend = Math.max(...timeline.weeklySpend.map(w => w.spend), 1);
+    const channels = Array.from(new Set(timeline.flights.flatMap(f => f.lines.map(l => l.channel))));
+
+    // Month boundaries for the scale
+    const monthTicks = useMemo(() => {
+        const ticks: string[] = [];
+        const [year, month] = timeline.startDate.split('-').map(Number);
+        const cursor = new Date(Date.UTC(year, month - 1, 1));
+        const last = toDayNumber(timeline.endDate);
+        while (toDayNumber(cursor.toISOString()) <= last) {
+            const tick = cursor.toISOString().split('T')[0];
+            if (toDayNumber(tick) >= firstDay) ticks.push(tick);
+            cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+        }
+        return ticks;
+    }, [timeline.startDate, timeline.endDate, firstDay]);
+
+    const previewDates = (state: DragState) => {
+        const { mode, offsetDays, startDate, endDate } = state;
+        if (mode === 'move') {
+            return { startDate: shiftDate(startDate, offsetDays), endDate: shiftDate(endDate, offsetDays) };
+        }
+        if (mode === 'start') {
+            const last = toDayNumber(endDate);
+            return { startDate: fromDayNumber(Math.min(toDayNumber(startDate) + offsetDays, last)), endDate };
+        }
+        const first = toDayNumber(startDate);
+        return { startDate, endDate: fromDayNumber(Math.max(toDayNumber(endDate) + offsetDays, first)) };
+    };
+
+    const handlePointerDown = (
+        e: React.PointerEvent<HTMLElement>,
+        key: string,
+        change: DragState['change'],
+        startDate: string,
+        endDate: string,
+        mode: DragMode
+    ) => {
+        if (!onReschedule) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ key, change, mode, originX: e.clientX, startDate, endDate, offsetDays: 0 });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!drag || !trackRef.current) return;
+        const pxPerDay = trackRef.current.getBoundingClientRect().width / timeline.totalDays;
+        const offsetDays = Math.round((e.clientX - drag.originX) / pxPerDay);
+        if (offsetDays !== drag.offsetDays) {
+            setDrag({ ...drag, offsetDays });
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        const dates = previewDates(drag);
+        setDrag(null);
+        if (dates.startDate !== drag.startDate || dates.endDate !== drag.endDate) {
+            onReschedule?.({ ...drag.change, ...dates });
+        }
+    };
+
+    const renderBar = (
+        key: string,
+        change: DragState['change'],
+        startDate: string,
+        endDate: string,
+        className: string,
+        title: string,
+        label?: string
+    ) => {
+        const isDragging = drag?.key === key;
+        const dates = isDragging ? previewDates(drag!) : { startDate, endDate };
+        return (
+            <div
+                className={clsx(
+                    "absolute top-1 bottom-1 rounded-md text-[10px] text-white font-medium overflow-hidden whitespace-nowrap flex items-center px-2 select-none",
+                    className,
+                    onReschedule && "cursor-grab",
+                    isDragging && "ring-2 ring-offset-1 ring-gray-900 cursor-grabbing z-10"
+                )}
+                style={{ left: `${toPercent(dates.startDate)}%`, width: `${widthPercent(dates.startDate, dates.endDate)}%` }}
+                title={`${title}\n${dates.startDate} – ${dates.endDate}`}
+                onPointerDown={(e) => handlePointerDown(e, key, change, startDate, endDate, 'move')}
+            >
+                {onReschedule && (
+                    <span
+                        className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-black/20"
+                        onPointerDown={(e) => handlePointerDown(e, key, change, startDate, endDate, 'start')}
+                    />
+                )}
+                <span className="truncate">{label}</span>
+                {onReschedule && (
+                    <span
+                        className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-black/20"
+                        onPointerDown={(e) => handlePointerDown(e, key, change, startDate, endDate, 'end')}
+                    />
+                )}
+            </div>
+        );
+    };
+
+    if (timeline.flights.length === 0) {
+        return (
+            <div className="p-8 text-center text-sm text-gray-500">
+                No flights or lines to put on a timeline yet.
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 space-y-4">
+            {/* Summary + legend */}
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+                <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                    <CalendarRange className="w-4 h-4 text-purple-600" />
+                    {formatShortDate(timeline.startDate)} – {formatShortDate(timeline.endDate)}, {timeline.totalDays} days
+                </span>
+                {channels.map(channel => (
+                    <span key={channel} className="flex items-center gap-1">
+                        <span className={clsx("w-2.5 h-2.5 rounded-sm", CHANNEL_BAR_STYLES[channel])} />
+                        {channel}
+                    </span>
+                ))}
+                {onReschedule && (
+                    <span className="ml-auto text-gray-400">Drag a bar to move it, or its edges to change dates</span>
+                )}
+            </div>
+
+            <div
+                className="border border-gray-200 rounded-lg overflow-hidden"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+            >
+                {/* Scale */}
+                <div className="flex bg-gray-50 border-b border-gray-200">
+                    <div className="w-48 flex-shrink-0 px-3 py-2 text-xs font-medium text-gray-500 uppercase">Flight / Line</div>
+                    <div className="relative flex-1 h-8" ref={trackRef}>
+                        {monthTicks.map(tick => (
+                            <span
+                                key={tick}
+                                className="absolute top-0 bottom-0 border-l border-gray-200 pl-1 pt-2 text-[10px] text-gray-500"
+                                style={{ left: `${toPercent(tick)}%` }}
+                            >
+                                {new Date(`${tick}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Weekly spend density */}
+                <div className="flex border-b border-gray-200">
+                    <div className="w-48 flex-shrink-0 px-3 py-2 text-xs text-gray-500">Weekly spend</div>
+                    <div className="relative flex-1 h-8">
+                        {timeline.weeklySpend.map(week => (
+                            <div
+                                key={week.weekStart}
+                                className="absolute bottom-0 bg-purple-500"
+                                style={{
+                                    left: `${toPercent(week.weekStart)}%`,
+                                    width: `${(7 / timeline.totalDays) * 100}%`,
+                                    height: `${(week.spend / maxWeeklySpend) * 100}%`,
+                                    opacity: 0.25 + 0.75 * (week.spend / maxWeeklySpend)
+                                }}
+                                title={`Week of ${week.weekStart}: $${Math.round(week.spend).toLocaleString()}`}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                {/* Flights and lines */}
+                <div className="relative">
+                    {/* Dark periods shaded across every row */}
+                    <div className="absolute inset-y-0 left-48 right-0 pointer-events-none">
+                        {timeline.darkPeriods.map(period => (
+                            <div
+                                key={period.startDate}
+                                className="absolute inset-y-0 bg-gray-200/60 border-x border-dashed border-gray-300"
+                                style={{ left: `${toPercent(period.startDate)}%`, width: `${widthPercent(period.startDate, period.endDate)}%` }}
+                            />
+                        ))}
+                    </div>
+
+                    {timeline.flights.map(({ flight, lines }) => (
+                        <div key={flight.id} className="border-b border-gray-100 last:border-b-0">
+                            <div className="flex bg-gray-50/50">
+                                <div className="w-48 flex-shrink-0 px-3 py-1.5 text-xs font-semibold text-gray-900 truncate" title={flight.name}>
+                                    {flight.name}
+                                </div>
+                                <div className="relative flex-1 h-8">
+                                    {renderBar(
+                                        `flight:${flight.id}`,
+                                        { flightId: flight.id },
+                                        flight.startDate,
+                                        flight.endDate,
+                                        clsx("bg-gray-700", flight.status === 'PAUSED' && "opacity-50"),
+                                        `${flight.name} · $${flight.budget.toLocaleString()}`,
+                                        `${flight.name} · ${lines.length} line${lines.length === 1 ? '' : 's'}`
+                                    )}
+                                </div>
+                            </div>
+                            {lines.map(line => (
+                                <div key={line.id} className="flex">
+                                    <div className="w-48 flex-shrink-0 pl-6 pr-3 py-1 text-xs text-gray-600 truncate" title={line.name}>
+                                        {line.vendor} <span className="text-gray-400">· {line.channel}</span>
+                                    </div>
+                                    <div className="relative flex-1 h-7">
+                                        {renderBar(
+                                            `line:${line.id}`,
+                                            { flightId: flight.id, lineId: line.id },
+                                            line.startDate,
+                                            line.endDate,
+                                            clsx(CHANNEL_BAR_STYLES[line.channel] || 'bg-gray-500', line.status === 'PAUSED' && "opacity-40"),
+                                            `${line.name} · $${line.totalCost.toLocaleString()}`,
+                                            line.name
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Dark periods */}
+            {timeline.darkPeriods.length > 0 ? (
+                <div className="p-3 rounded-lg border border-amber-200 bg-amber-50">
+                    <div className="flex items-center gap-2 text-sm font-medium text-amber-900 mb-1">
+                        <MoonStar className="w-4 h-4" />
+                        {timeline.darkPeriods.length} dark period{timeline.darkPeriods.length === 1 ? '' : 's'} - no media live
+                    </div>
+                    <ul className="text-xs text-amber-800 space-y-0.5">
+                        {timeline.darkPeriods.map(period => (
+                            <li key={period.startDate}>
+                                {formatShortDate(period.startDate)} – {formatShortDate(period.endDate)} ({period.days} day{period.days === 1 ? '' : 's'})
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">Media is live on every day of the campaign.</p>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AgentMessage } from '../types';
 import { AgentState } from '../logic/agentBrain';
-import { Send, Cpu, ChevronDown, ChevronRight } from 'lucide-react';
+import { SessionListItem } from '../logic/contextManager';
+import { Send, Cpu, ChevronDown, ChevronRight, History, Plus } from 'lucide-react';
 import { ContextualHelp } from './ContextualHelp';
 import { ForecastCards, ForecastCardData } from './ForecastCards';
 
@@ -13,11 +14,16 @@ interface ChatInterfaceProps {
   agentState?: AgentState;
   hasPlan?: boolean;
   layout?: 'LEFT' | 'RIGHT' | 'BOTTOM';
+  sessions?: SessionListItem[];
+  activeSessionId?: string;
+  onResumeSession?: (sessionId: string) => void;
+  onNewSession?: () => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isTyping, currentView, agentState, hasPlan, layout = 'LEFT' }) => {
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isTyping, currentView, agentState, hasPlan, layout = 'LEFT', sessions, activeSessionId, onResumeSession, onNewSession }) => {
   const [input, setInput] = useState('');
   const [expandedAgents, setExpandedAgents] = useState<Set<string>>(new Set());
+  const [showSessions, setShowSessions] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -338,6 +344,50 @@ class AudienceOptimizer {
 
   return (
     <div className="flex flex-col h-full bg-white shadow-sm">
+      {onResumeSession && (
+        <div className="relative flex items-center justify-end gap-1 px-3 py-2 border-b border-gray-100">
+          <button
+            onClick={() => setShowSessions(!showSessions)}
+            className="flex items-center gap-1 text-xs text-gray-600 hover:text-purple-700 px-2 py-1 rounded-lg hover:bg-purple-50 transition-colors"
+            title="Past conversations"
+          >
+            <History className="h-3 w-3" />
+            Sessions{sessions && sessions.length > 0 ? ` (${sessions.length})` : ''}
+          </button>
+          {onNewSession && (
+            <button
+              onClick={() => { setShowSessions(false); onNewSession(); }}
+              className="flex items-center gap-1 text-xs text-gray-600 hover:text-purple-700 px-2 py-1 rounded-lg hover:bg-purple-50 transition-colors"
+              title="Start a new conversation"
+            >
+              <Plus className="h-3 w-3" />
+              New chat
+            </button>
+          )}
+          {showSessions && (
+            <div className="absolute right-3 top-full mt-1 w-72 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+              {!sessions || sessions.length === 0 ? (
+                <p className="p-3 text-xs text-gray-500">No past conversations for this brand yet.</p>
+              ) : (
+                sessions.map(session => (
+                  <button
+                    key={session.sessionId}
+                    onClick={() => { setShowSessions(false); onResumeSession(session.sessionId); }}
+                    disabled={session.sessionId === activeSessionId}
+                    className="w-full text-left px-3 py-2 border-b border-gray-100 last:border-b-0 hover:bg-purple-50 disabled:bg-purple-50 disabled:cursor-default transition-colors"
+                  >
+                    <div className="text-sm text-gray-800 truncate">{session.title}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(session.updatedAt).toLocaleString()} · {session.messageCount} messages
+                      {session.sessionId === activeSessionId ? ' · current' : ''}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((msg) => (
           <div
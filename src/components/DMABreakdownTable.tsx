@@ -0,0 +1,103 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { Brand, Campaign } from '../types';
+import { getForecastOptions } from '../utils/forecastingEngine';
+import { forecastByDMA } from '../utils/geoPlanning';
+
+interface DMABreakdownTableProps {
+    campaign: Campaign;
+    /** Whose delivery history refines the forecast benchmarks */
+    brand?: Brand | null;
+}
+
+const formatCompact = (value: number) => {
+    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `${Math.round(value / 1000)}K`;
+    return Math.round(value).toLocaleString();
+};
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+export const DMABreakdownTable: React.FC<DMABreakdownTableProps> = ({ campaign, brand }) => {
+    const placements = campaign.placements || [];
+    // Not memoized: plan edits mutate the campaign in place, so its identity doesn't change
+    const geo = forecastByDMA(
+        placements,
+        campaign.startDate || new Date().toISOString(),
+        campaign.geoPlan,
+        getForecastOptions(campaign, brand)
+    );
+    const { national, coverage } = geo;
+
+    if (placements.length === 0) {
+        return (
+            <div className="p-8 text-center text-sm text-gray-500">
+                No lines to break down by DMA yet.
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 space-y-4">
+            {/* Coverage summary */}
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+                <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                    <MapPin className="w-4 h-4 text-purple-600" />
+                    {coverage.national ? 'National (all 210 DMAs)' : `${coverage.dmaCount} DMA${coverage.dmaCount === 1 ? '' : 's'}`}
+                </span>
+                <span>{formatCompact(coverage.households)} TV households ({coverage.percentUS.toFixed(1)}% of US)</span>
+                <span>
+                    Split by {campaign.geoPlan?.weighting === 'INDEX' ? 'households × market index' : 'TV households'}
+                </span>
+            </div>
+
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0 z-10">
+                        <tr className="text-xs font-medium text-gray-500 uppercase">
+                            <th className="px-3 py-2 text-left">Rank</th>
+                            <th className="px-3 py-2 text-left">DMA</th>
+                            <th className="px-3 py-2 text-right">TV HH</th>
+                            <th className="px-3 py-2 text-right">Index</th>
+                            <th className="px-3 py-2 text-right">Lines</th>
+                            <th className="px-3 py-2 text-right">Spend</th>
+                            <th className="px-3 py-2 text-right">Impressions</th>
+                            <th className="px-3 py-2 text-right">Reach</th>
+                            <th className="px-3 py-2 text-right">Conversions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {geo.rows.map(row => (
+                            <tr key={row.dmaId} className="hover:bg-gray-50">
+                                <td className="px-3 py-2 text-gray-500">#{row.dmaId}</td>
+                                <td className="px-3 py-2 font-medium text-gray-900">{row.name}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{formatCompact(row.tvHouseholds)}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{row.index}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{row.lines}</td>
+                                <td className="px-3 py-2 text-right text-gray-900">{formatMoney(row.spend)}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{formatCompact(row.impressions)}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{formatCompact(row.reach)}</td>
+                                <td className="px-3 py-2 text-right text-gray-600">{formatCompact(row.conversions)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 border-t border-gray-200 font-medium text-gray-900">
+                        <tr>
+                            <td className="px-3 py-2" colSpan={2}>National</td>
+                            <td className="px-3 py-2 text-right">{formatCompact(coverage.households)}</td>
+                            <td className="px-3 py-2" />
+                            <td className="px-3 py-2 text-right">{placements.length}</td>
+                            <td className="px-3 py-2 text-right">{formatMoney(national.spend)}</td>
+                            <td className="px-3 py-2 text-right">{formatCompact(national.impressions)}</td>
+                            <td className="px-3 py-2 text-right">
+                                {formatCompact(national.reach)}
+                                <span className="ml-1 text-xs text-gray-500">@ {national.frequency.toFixed(1)}x</span>
+                            </td>
+                            <td className="px-3 py-2 text-right">{formatCompact(national.conversions)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
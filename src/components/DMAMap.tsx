@@ -0,0 +1,337 @@
+import React, { useRef, useState } from 'react';
+import { Crosshair, Map as MapIcon, MonitorPlay } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Brand, Campaign, Line } from '../types';
+import { DOOH_VENUES, getDMAById, getDOOHByRadius } from '../data/dmaDatabase';
+import { LonLat, MapRegion, getDMARegion } from '../data/dmaGeometry';
+import { getForecastOptions } from '../utils/forecastingEngine';
+import { forecastByDMA, resolveLineDMAs, toggleLineDMA } from '../utils/geoPlanning';
+import {
+    DMAMapMetric,
+    DMA_MAP_METRICS,
+    MAP_HEIGHT,
+    MAP_WIDTH,
+    PACING_COLORS,
+    SEQUENTIAL_COLORS,
+    getDMAMetricValues,
+    getDMAShapes,
+    getLakePaths,
+    getMetricColor,
+    getPacingBand,
+    getPointRegion,
+    getRegionPaths,
+    invertPoint,
+    milesToMapUnits,
+    projectPoint
+} from '../utils/dmaMap';
+
+interface DMAMapProps {
+    campaign: Campaign;
+    /** Whose delivery history refines the forecast benchmarks */
+    brand?: Brand | null;
+    /** Called with a line whose DMA targeting changed; omit for a read-only map */
+    onUpdatePlacement?: (line: Line) => void;
+}
+
+const RADIUS_OPTIONS = [5, 10, 25, 50];
+
+const PACING_LABELS = { UNDER_PACING: 'Under (<95%)', ON_TRACK: 'On track', OVER_PACING: 'Over (>105%)' };
+
+// Fixed geometry, projected once
+const REGION_PATHS = getRegionPaths();
+const LAKE_PATHS = getLakePaths();
+const VENUE_POINTS = DOOH_VENUES.map(venue => ({
+    venue,
+    point: projectPoint([venue.longitude, venue.latitude], getDMARegion(venue.state))
+}));
+
+const formatCompact = (value: number) => {
+    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `${Math.round(value / 1000)}K`;
+    return Math.round(value).toLocaleString();
+};
+
+const formatMetric = (metric: DMAMapMetric, value: number) => {
+    if (metric === 'spend') return `$${formatCompact(value)}`;
+    if (metric === 'pacing') return `${Math.round(value)}%`;
+    return formatCompact(value);
+};
+
+export const DMAMap: React.FC<DMAMapProps> = ({ campaign, brand, onUpdatePlacement }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [metric, setMetric] = useState<DMAMapMetric>('spend');
+    const [hoveredDmaId, setHoveredDmaId] = useState<number | null>(null);
+    const [selectedLineId, setSelectedLineId] = useState<string>('');
+    const [showVenues, setShowVenues] = useState(false);
+    const [radiusMiles, setRadiusMiles] = useState<number | null>(null);
+    const [radiusCenter, setRadiusCenter] = useState<{ lonlat: LonLat; region: MapRegion } | null>(null);
+
+    const placements = campaign.placements || [];
+    const startDate = campaign.startDate || new Date().toISOString();
+
+    // Not memoized: plan edits mutate the campaign in place, so its identity doesn't change
+    const geo = forecastByDMA(placements, startDate, campaign.geoPlan, getForecastOptions(campaign, brand));
+
+    const shapes = getDMAShapes();
+
+    const values = getDMAMetricValues(geo.rows, metric);
+    const max = Math.max(0, ...values.values());
+    const rowsById = new Map(geo.rows.map(row => [row.dmaId, row]));
+
+    const selectedLine = placements.find(p => p.id === selectedLineId);
+    const targeted = new Set(selectedLine ? resolveLineDMAs(selectedLine) : []);
+
+    const radiusVenues = radiusCenter && radiusMiles
+        ? getDOOHByRadius(radiusCenter.lonlat[1], radiusCenter.lonlat[0], radiusMiles)
+        : [];
+    const radiusIds = new Set(radiusVenues.map(v => v.id));
+
+    const toMapPoint = (event: React.MouseEvent): [number, number] | null => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return null;
+        const point = svg.createSVGPoint();
+        point.x = event.clientX;
+        point.y = event.clientY;
+        const { x, y } = point.matrixTransform(matrix.inverse());
+        return [x, y];
+    };
+
+    const handleMapClick = (event: React.MouseEvent) => {
+        if (!radiusMiles) return;
+        const point = toMapPoint(event);
+        if (point) setRadiusCenter({ lonlat: invertPoint(point), region: getPointRegion(point) });
+    };
+
+    const handleDMAClick = (dmaId: number) => {
+        if (radiusMiles || !selectedLine || !onUpdatePlacement) return;
+        onUpdatePlacement({ ...selectedLine, targeting: toggleLineDMA(selectedLine, dmaId) });
+    };
+
+    const hovered = hoveredDmaId !== null ? getDMAById(hoveredDmaId) : undefined;
+    const hoveredRow = hoveredDmaId !== null ? rowsById.get(hoveredDmaId) : undefined;
+
+    if (placements.length === 0) {
+        return (
+            <div className="p-8 text-center text-sm text-gray-500">
+                No lines to map yet.
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 space-y-4">
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                    <MapIcon className="w-4 h-4 text-purple-600" />
+                    Shade by
+                </span>
+                <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                    {(Object.keys(DMA_MAP_METRICS) as DMAMapMetric[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setMetric(key)}
+                            className={clsx(
+                                "px-2.5 py-1 font-medium rounded-md transition-all",
+                                metric === key ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                            )}
+                        >
+                            {DMA_MAP_METRICS[key]}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input type="checkbox" checked={showVenues} onChange={e => setShowVenues(e.target.checked)} />
+                    <MonitorPlay className="w-3.5 h-3.5" />
+                    DOOH venues
+                </label>
+
+                <label className="flex items-center gap-1.5">
+                    <Crosshair className="w-3.5 h-3.5" />
+                    Radius
+                    <select
+                        value={radiusMiles ?? ''}
+                        onChange={e => {
+                            setRadiusMiles(e.target.value ? Number(e.target.value) : null);
+                            if (!e.target.value) setRadiusCenter(null);
+                        }}
+                        className="border border-gray-200 rounded px-1.5 py-0.5 bg-white"
+                    >
+                        <option value="">Off</option>
+                        {RADIUS_OPTIONS.map(miles => <option key={miles} value={miles}>{miles} mi</option>)}
+                    </select>
+                </label>
+
+                {onUpdatePlacement && (
+                    <label className="flex items-center gap-1.5">
+                        Target line
+                        <select
+                            value={selectedLineId}
+                            onChange={e => setSelectedLineId(e.target.value)}
+                            className="border border-gray-200 rounded px-1.5 py-0.5 bg-white max-w-[220px]"
+                        >
+                            <option value="">None</option>
+                            {placements.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                    </label>
+                )}
+
+                <span className="ml-auto text-gray-400">
+                    {radiusMiles
+                        ? 'Click the map to find venues within the radius'
+                        : selectedLine ? 'Click a DMA to add or remove it from the line' : 'Approximate DMA areas'}
+                </span>
+            </div>
+
+            <div className="flex gap-4 items-start">
+                <div className="flex-1 border border-gray-200 rounded-lg overflow-hidden bg-sky-50">
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+                        className={clsx("w-full h-auto", radiusMiles && "cursor-crosshair")}
+                        onClick={handleMapClick}
+                        onMouseLeave={() => setHoveredDmaId(null)}
+                    >
+                        <defs>
+                            {Object.entries(REGION_PATHS).map(([region, path]) => (
+                                <clipPath key={region} id={`dma-map-${region}`}>
+                                    <path d={path} />
+                                </clipPath>
+                            ))}
+                        </defs>
+
+                        {Object.keys(REGION_PATHS).map(region => (
+                            <g key={region} clipPath={`url(#dma-map-${region})`}>
+                                {shapes.filter(s => s.region === region).map(shape => (
+                                    <path
+                                        key={shape.dmaId}
+                                        d={shape.path}
+                                        fill={getMetricColor(metric, values.get(shape.dmaId), max)}
+                                        stroke={targeted.has(shape.dmaId) ? '#1f2937' : '#ffffff'}
+                                        strokeWidth={targeted.has(shape.dmaId) ? 2 : 0.75}
+                                        className={clsx(
+                                            "transition-opacity",
+                                            hoveredDmaId === shape.dmaId && "opacity-75",
+                                            selectedLine && onUpdatePlacement && !radiusMiles && "cursor-pointer"
+                                        )}
+                                        onMouseEnter={() => setHoveredDmaId(shape.dmaId)}
+                                        onClick={() => handleDMAClick(shape.dmaId)}
+                                    />
+                                ))}
+                                {region === 'LOWER_48' && LAKE_PATHS.map((path, i) => (
+                                    <path key={i} d={path} className="fill-sky-50 pointer-events-none" />
+                                ))}
+                            </g>
+                        ))}
+
+                        {Object.entries(REGION_PATHS).map(([region, path]) => (
+                            <path key={region} d={path} fill="none" stroke="#9ca3af" strokeWidth={0.75} className="pointer-events-none" />
+                        ))}
+
+                        {(showVenues || radiusCenter) && VENUE_POINTS
+                            .filter(({ venue }) => showVenues || radiusIds.has(venue.id))
+                            .map(({ venue, point }) => (
+                                <circle
+                                    key={venue.id}
+                                    cx={point[0]}
+                                    cy={point[1]}
+                                    r={radiusIds.has(venue.id) ? 3.5 : 2.5}
+                                    className={clsx(
+                                        "pointer-events-none stroke-white",
+                                        radiusIds.has(venue.id) ? "fill-blue-600" : "fill-gray-700"
+                                    )}
+                                    strokeWidth={0.75}
+                                />
+                            ))}
+
+                        {radiusCenter && radiusMiles && (() => {
+                            const [cx, cy] = projectPoint(radiusCenter.lonlat, radiusCenter.region);
+                            return (
+                                <circle
+                                    cx={cx}
+                                    cy={cy}
+                                    r={milesToMapUnits(radiusCenter.lonlat, radiusMiles, radiusCenter.region)}
+                                    className="fill-blue-500/10 stroke-blue-600 pointer-events-none"
+                                    strokeWidth={1.5}
+                                    strokeDasharray="4 3"
+                                />
+                            );
+                        })()}
+                    </svg>
+                </div>
+
+                {/* Details */}
+                <div className="w-64 flex-shrink-0 space-y-3 text-xs">
+                    <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+                        <div className="font-medium text-gray-900">{DMA_MAP_METRICS[metric]}</div>
+                        {metric === 'pacing' ? (
+                            <div className="space-y-1">
+                                {(Object.keys(PACING_COLORS) as (keyof typeof PACING_COLORS)[]).map(band => (
+                                    <div key={band} className="flex items-center gap-2 text-gray-600">
+                                        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: PACING_COLORS[band] }} />
+                                        {PACING_LABELS[band]}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div>
+                                <div className="flex h-2.5 rounded overflow-hidden">
+                                    {SEQUENTIAL_COLORS.map(color => <span key={color} className="flex-1" style={{ backgroundColor: color }} />)}
+                                </div>
+                                <div className="flex justify-between text-gray-500 mt-1">
+                                    <span>0</span>
+                                    <span>{formatMetric(metric, max)}</span>
+                                </div>
+                            </div>
+                        )}
+                        <div className="text-gray-500">
+                            {geo.coverage.national ? 'National' : `${geo.coverage.dmaCount} DMAs`} · {geo.coverage.percentUS.toFixed(1)}% of US TV households
+                        </div>
+                    </div>
+
+                    {hovered && (
+                        <div className="border border-gray-200 rounded-lg p-3 space-y-1">
+                            <div className="font-medium text-gray-900">#{hovered.id} {hovered.name}</div>
+                            <div className="text-gray-600">{formatCompact(hovered.tvHouseholds)} TV households</div>
+                            {hoveredRow ? (
+                                <>
+                                    <div className="text-gray-600">${formatCompact(hoveredRow.spend)} spend · {hoveredRow.lines} line{hoveredRow.lines === 1 ? '' : 's'}</div>
+                                    <div className="text-gray-600">{formatCompact(hoveredRow.impressions)} impressions · {formatCompact(hoveredRow.reach)} reach</div>
+                                    {hoveredRow.pacing !== null && (
+                                        <div className="text-gray-600">
+                                            Pacing {Math.round(hoveredRow.pacing)}% ({PACING_LABELS[getPacingBand(hoveredRow.pacing)]})
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                <div className="text-gray-400">Not in the plan</div>
+                            )}
+                            {selectedLine && (
+                                <div className="text-gray-500">{targeted.has(hovered.id) ? 'Targeted by' : 'Not targeted by'} the selected line</div>
+                            )}
+                        </div>
+                    )}
+
+                    {radiusCenter && radiusMiles && (
+                        <div className="border border-gray-200 rounded-lg p-3 space-y-1">
+                            <div className="font-medium text-gray-900">
+                                {radiusVenues.length} venue{radiusVenues.length === 1 ? '' : 's'} within {radiusMiles} mi
+                            </div>
+                            {radiusVenues.length > 0 && (
+                                <div className="text-gray-600">
+                                    {radiusVenues.reduce((sum, v) => sum + v.screens, 0)} screens · {formatCompact(radiusVenues.reduce((sum, v) => sum + v.weeklyImpressions, 0))} weekly impressions
+                                </div>
+                            )}
+                            {radiusVenues.slice(0, 6).map(v => (
+                                <div key={v.id} className="text-gray-500 truncate">{v.name} ({v.venueType})</div>
+                            ))}
+                            {radiusVenues.length > 6 && <div className="text-gray-400">...and {radiusVenues.length - 6} more</div>}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
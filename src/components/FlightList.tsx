@@ -1,11 +1,13 @@
 import React, { useState, useMemo } from 'react';
-import { Flight, CampaignTemplate } from '../types';
-import { Calendar, DollarSign, ArrowRight, Layers, Pause, Plus, Send, Rocket, Sparkles, ExternalLink, Search, Filter, TrendingUp } from 'lucide-react';
+import { Flight, Campaign, CampaignTemplate } from '../types';
+import { Calendar, DollarSign, ArrowRight, Layers, Pause, Plus, Send, Rocket, Sparkles, ExternalLink, Search, Filter, TrendingUp, GanttChart } from 'lucide-react';
 import { TemplateLibrary } from './TemplateLibrary';
 import { TemplateWizard } from './TemplateWizard';
+import { CampaignTimeline } from './CampaignTimeline';
 
 interface FlightListProps {
     flights: Flight[];
+    campaign?: Campaign; // Enables the flight timeline
     onSelectFlight: (flight: Flight) => void;
     onBack: () => void;
     onPauseFlight?: (flightId: string) => void;
@@ -19,6 +21,7 @@ interface FlightListProps {
 
 export const FlightList: React.FC<FlightListProps> = ({
     flights,
+    campaign,
     onSelectFlight,
     onBack,
     onPauseFlight,
@@ -31,6 +34,7 @@ export const FlightList: React.FC<FlightListProps> = ({
 }) => {
     const [showNewFlight, setShowNewFlight] = useState(false);
     const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
+    const [showTimeline, setShowTimeline] = useState(false);
     const [selectedTemplate, setSelectedTemplate] = useState<CampaignTemplate | null>(null);
 
     const [flightName, setFlightName] = useState('');
@@ -149,6 +153,18 @@ export const FlightList: React.FC<FlightListProps> = ({
                     ← Back to Campaigns
                 </button>
                 <div className="flex gap-2">
+                    {campaign && (
+                        <button
+                            onClick={() => setShowTimeline(!showTimeline)}
+                            className={`px-4 py-2 border rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${showTimeline
+                                ? 'bg-gray-900 border-gray-900 text-white'
+                                : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                                }`}
+                        >
+                            <GanttChart className="h-4 w-4" />
+                            Timeline
+                        </button>
+                    )}
                     {onViewAttribution && (
                         <button
                             onClick={onViewAttribution}
@@ -314,6 +330,13 @@ export const FlightList: React.FC<FlightListProps> = ({
                 </div>
             )}
 
+            {/* Flight Timeline (read-only; reschedule from the plan view) */}
+            {campaign && showTimeline && (
+                <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+                    <CampaignTimeline campaign={campaign} />
+                </div>
+            )}
+
             <div className="grid gap-4">
                 {visibleFlights.map((flight) => (
                     <div
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { X, GitBranch, Flag, Circle, CircleDot } from 'lucide-react';
+import { clsx } from 'clsx';
+import { MediaPlan } from '../types';
+import { actionHistory } from '../utils/actionHistory';
+import { getPlanScope } from '../utils/planPatch';
+
+interface HistoryTimelinePanelProps {
+    mediaPlan: MediaPlan;
+    onJump: (nodeId: string | null) => void;
+    onCreateCheckpoint: (name: string) => void;
+    onClose: () => void;
+}
+
+const LANE_INDENT = 16;
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const HistoryTimelinePanel: React.FC<HistoryTimelinePanelProps> = ({ mediaPlan, onJump, onCreateCheckpoint, onClose }) => {
+    const [checkpointName, setCheckpointName] = useState('');
+
+    // Re-read on every render: the parent re-renders whenever the plan changes
+    const scope = getPlanScope(mediaPlan);
+    const timeline = actionHistory.getTimeline(scope);
+    const currentNodeId = actionHistory.getCurrentNodeId(scope);
+    const rootCheckpoints = actionHistory.getCheckpoints(scope).filter(c => c.nodeId === null);
+    const branchCount = new Set(timeline.map(n => n.lane)).size;
+
+    const handleCreateCheckpoint = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!checkpointName.trim()) return;
+        onCreateCheckpoint(checkpointName.trim());
+        setCheckpointName('');
+    };
+
+    const renderCheckpoints = (names: string[]) => names.map(name => (
+        <span key={name} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 text-[10px] font-medium">
+            <Flag className="w-3 h-3" />
+            {name}
+        </span>
+    ));
+
+    return (
+        <div className="w-80 flex-shrink-0 border-l border-gray-200 bg-white flex flex-col h-full">
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="p-1.5 bg-purple-100 rounded-lg text-purple-600">
+                        <GitBranch className="w-4 h-4" />
+                    </div>
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-900">History</h3>
+                        <p className="text-xs text-gray-500">
+                            {timeline.length} change{timeline.length === 1 ? '' : 's'} · {Math.max(branchCount, 1)} branch{branchCount > 1 ? 'es' : ''}
+                        </p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close history">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {/* New Checkpoint */}
+            <form onSubmit={handleCreateCheckpoint} className="p-3 border-b border-gray-100 flex gap-2">
+                <input
+                    value={checkpointName}
+                    onChange={(e) => setCheckpointName(e.target.value)}
+                    placeholder="Checkpoint name, e.g. pre-client-review"
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500"
+                />
+                <button
+                    type="submit"
+                    disabled={!checkpointName.trim()}
+                    className="px-2 py-1.5 text-xs font-medium rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                >
+                    Save
+                </button>
+            </form>
+
+            {/* Timeline */}
+            <div className="flex-1 overflow-y-auto py-2">
+                <button
+                    onClick={() => onJump(null)}
+                    className={clsx(
+                        "w-full px-4 py-2 text-left flex items-start gap-2 transition-colors",
+                        currentNodeId === null ? "bg-purple-50" : "hover:bg-gray-50"
+                    )}
+                    title="Jump to the start of history"
+                >
+                    {currentNodeId === null
+                        ? <CircleDot className="w-4 h-4 mt-0.5 text-purple-600 flex-shrink-0" />
+                        : <Circle className="w-4 h-4 mt-0.5 text-gray-300 flex-shrink-0" />}
+                    <div className="min-w-0">
+                        <div className="text-sm text-gray-700">Start of history</div>
+                        <div className="flex flex-wrap gap-1 mt-1">{renderCheckpoints(rootCheckpoints.map(c => c.name))}</div>
+                    </div>
+                </button>
+
+                {timeline.map(node => (
+                    <button
+                        key={node.action.id}
+                        onClick={() => onJump(node.action.id)}
+                        className={clsx(
+                            "w-full pr-4 py-2 text-left flex items-start gap-2 transition-colors",
+                            node.isCurrent ? "bg-purple-50" : "hover:bg-gray-50"
+                        )}
+                        style={{ paddingLeft: 16 + node.lane * LANE_INDENT }}
+                        title="Jump to this point"
+                    >
+                        {node.isCurrent
+                            ? <CircleDot className="w-4 h-4 mt-0.5 text-purple-600 flex-shrink-0" />
+                            : <Circle className={clsx("w-4 h-4 mt-0.5 flex-shrink-0", node.action.undone ? "text-gray-300" : "text-purple-300")} />}
+                        <div className="min-w-0">
+                            <div className={clsx("text-sm truncate", node.action.undone ? "text-gray-400" : "text-gray-900")}>
+                                {node.action.description}
+                            </div>
+                            <div className="text-xs text-gray-400">
+                                {formatTime(node.action.timestamp)}
+                                {node.lane > 0 && ` · branch ${node.lane + 1}`}
+                            </div>
+                            {node.checkpoints.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">{renderCheckpoints(node.checkpoints)}</div>
+                            )}
+                        </div>
+                    </button>
+                ))}
+
+                {timeline.length === 0 && (
+                    <div className="text-xs text-gray-500 text-center py-6">No changes recorded for this plan yet.</div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { X, FileSignature, Download } from 'lucide-react';
+import { clsx } from 'clsx';
+import { MediaPlan, IOStatus } from '../types';
+import { buildInsertionOrders, IO_STATUS_LABELS } from '../utils/ioGenerator';
+
+interface InsertionOrderDialogProps {
+    isOpen: boolean;
+    mediaPlan: MediaPlan;
+    onGenerate: (vendor?: string) => void;
+    onSetStatus: (vendor: string, status: IOStatus) => void;
+    onClose: () => void;
+}
+
+export const IO_STATUS_STYLES: Record<IOStatus, string> = {
+    DRAFT: 'bg-gray-100 text-gray-600',
+    SENT: 'bg-amber-100 text-amber-800',
+    SIGNED: 'bg-green-100 text-green-800'
+};
+
+export const InsertionOrderDialog: React.FC<InsertionOrderDialogProps> = ({ isOpen, mediaPlan, onGenerate, onSetStatus, onClose }) => {
+    const orders = useMemo(() => buildInsertionOrders(mediaPlan), [mediaPlan]);
+
+    if (!isOpen) return null;
+
+    const signedCount = orders.filter(o => o.status === 'SIGNED').length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-in fade-in">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col animate-in zoom-in-95">
+                {/* Header */}
+                <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <div className="p-1.5 bg-purple-100 rounded-lg text-purple-700">
+                            <FileSignature className="w-4 h-4" />
+                        </div>
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-900">Insertion Orders</h3>
+                            <p className="text-xs text-gray-500">
+                                {orders.length} vendor{orders.length === 1 ? '' : 's'} · {signedCount} signed
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close insertion orders">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {orders.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-8">Add placements to this plan to generate insertion orders.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                                    <th className="py-1 pr-2">IO #</th>
+                                    <th className="py-1 pr-2">Vendor</th>
+                                    <th className="py-1 pr-2 text-right">Lines</th>
+                                    <th className="py-1 pr-2 text-right">Total</th>
+                                    <th className="py-1 pr-2">Status</th>
+                                    <th className="py-1" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {orders.map(order => (
+                                    <tr key={order.vendor} className="border-b border-gray-100">
+                                        <td className="py-2 pr-2 font-mono text-xs text-gray-600">{order.ioNumber}</td>
+                                        <td className="py-2 pr-2 text-gray-900">{order.vendor}</td>
+                                        <td className="py-2 pr-2 text-right tabular-nums text-gray-600">{order.lines.length}</td>
+                                        <td className="py-2 pr-2 text-right tabular-nums text-gray-900">${Math.round(order.totalCost).toLocaleString()}</td>
+                                        <td className="py-2 pr-2">
+                                            <select
+                                                value={order.status}
+                                                onChange={(e) => onSetStatus(order.vendor, e.target.value as IOStatus)}
+                                                className={clsx(
+                                                    "px-2 py-1 text-xs font-medium rounded border-0 focus:outline-none focus:ring-1 focus:ring-purple-500",
+                                                    IO_STATUS_STYLES[order.status]
+                                                )}
+                                            >
+                                                {(Object.keys(IO_STATUS_LABELS) as IOStatus[]).map(status => (
+                                                    <option key={status} value={status}>{IO_STATUS_LABELS[status]}</option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            <button
+                                                onClick={() => onGenerate(order.vendor)}
+                                                className="p-1.5 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded transition-colors"
+                                                title={`Download ${order.ioNumber}`}
+                                            >
+                                                <Download className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 px-4 py-3 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+                    <span className="text-xs text-gray-500">New IOs are numbered in sequence and start as drafts.</span>
+                    <button
+                        onClick={() => onGenerate()}
+                        disabled={orders.length === 0}
+                        className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                    >
+                        Generate All
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
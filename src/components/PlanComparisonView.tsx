@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitCompare, Plus, Minus, Pencil, ArrowRight } from 'lucide-react';
+import { clsx } from 'clsx';
+import { MediaPlan } from '../types';
+import { diffPlans, formatDiffValue, DIFF_FIELD_LABELS, LineChangeType } from '../utils/planDiff';
+
+interface PlanComparisonViewProps {
+    basePlan: MediaPlan;
+    currentPlan: MediaPlan;
+    onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<LineChangeType, { label: string; badge: string; icon: React.ReactNode }> = {
+    added: { label: 'Added', badge: 'bg-green-100 text-green-700', icon: <Plus className="w-3 h-3" /> },
+    removed: { label: 'Removed', badge: 'bg-red-100 text-red-700', icon: <Minus className="w-3 h-3" /> },
+    modified: { label: 'Modified', badge: 'bg-amber-100 text-amber-700', icon: <Pencil className="w-3 h-3" /> }
+};
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const formatDelta = (value: number) => {
+    if (Math.round(value) === 0) return '±$0';
+    return `${value > 0 ? '+' : '-'}${formatCurrency(Math.abs(value))}`;
+};
+
+const deltaColor = (value: number) => Math.round(value) === 0
+    ? 'text-gray-500'
+    : value > 0 ? 'text-green-600' : 'text-red-600';
+
+export const PlanComparisonView: React.FC<PlanComparisonViewProps> = ({ basePlan, currentPlan, onClose }) => {
+    const [filter, setFilter] = useState<LineChangeType | 'ALL'>('ALL');
+    const diff = useMemo(() => diffPlans(basePlan, currentPlan), [basePlan, currentPlan]);
+
+    const visibleLines = filter === 'ALL' ? diff.lines : diff.lines.filter(l => l.changeType === filter);
+    const changedFlights = diff.flights.filter(f => f.added + f.removed + f.modified > 0 || f.budgetDelta !== 0);
+
+    return (
+        <div className="w-96 flex-shrink-0 border-l border-gray-200 bg-white flex flex-col h-full">
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="p-1.5 bg-purple-100 rounded-lg text-purple-600">
+                        <GitCompare className="w-4 h-4" />
+                    </div>
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-900">What Changed</h3>
+                        <p className="text-xs text-gray-500">Version {diff.fromVersion} → Version {diff.toVersion}</p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close comparison">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {/* Campaign Rollup */}
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                        <div className="text-xs text-gray-500">Planned Spend</div>
+                        <div className="text-sm font-semibold text-gray-900">{formatCurrency(diff.campaign.spendAfter)}</div>
+                        <div className={clsx("text-xs font-medium", deltaColor(diff.campaign.spendDelta))}>{formatDelta(diff.campaign.spendDelta)}</div>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                        <div className="text-xs text-gray-500">Campaign Budget</div>
+                        <div className="text-sm font-semibold text-gray-900">{formatCurrency(diff.campaign.budgetAfter)}</div>
+                        <div className={clsx("text-xs font-medium", deltaColor(diff.campaign.budgetDelta))}>{formatDelta(diff.campaign.budgetDelta)}</div>
+                    </div>
+                </div>
+
+                {/* Filter Chips */}
+                <div className="flex gap-1 flex-wrap">
+                    {(['ALL', 'added', 'removed', 'modified'] as const).map(option => {
+                        const count = option === 'ALL' ? diff.lines.length : diff.summary[option];
+                        return (
+                            <button
+                                key={option}
+                                onClick={() => setFilter(option)}
+                                className={clsx(
+                                    "px-2 py-1 text-xs font-medium rounded-md transition-colors",
+                                    filter === option ? "bg-purple-600 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                                )}
+                            >
+                                {option === 'ALL' ? 'All' : CHANGE_STYLES[option].label} ({count})
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {!diff.hasChanges && (
+                    <div className="text-sm text-gray-500 text-center py-6">No differences between these versions.</div>
+                )}
+
+                {/* Flight Rollup */}
+                {changedFlights.length > 0 && (
+                    <div>
+                        <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Flights</div>
+                        <div className="space-y-1">
+                            {changedFlights.map(f => (
+                                <div key={f.flightId} className="flex items-center justify-between text-sm py-1">
+                                    <div className="min-w-0">
+                                        <div className="font-medium text-gray-900 truncate">{f.name}</div>
+                                        <div className="text-xs text-gray-500">
+                                            +{f.added} / -{f.removed} / ~{f.modified} lines
+                                            {f.budgetDelta !== 0 && ` · budget ${formatDelta(f.budgetDelta)}`}
+                                        </div>
+                                    </div>
+                                    <span className={clsx("text-xs font-medium tabular-nums", deltaColor(f.spendDelta))}>{formatDelta(f.spendDelta)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Line Changes */}
+                {visibleLines.length > 0 && (
+                    <div>
+                        <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Placements</div>
+                        <div className="space-y-2">
+                            {visibleLines.map(line => {
+                                const style = CHANGE_STYLES[line.changeType];
+                                return (
+                                    <div key={`${line.flightId}-${line.lineId}`} className="p-3 border border-gray-100 rounded-lg">
+                                        <div className="flex items-start justify-between gap-2">
+                                            <div className="min-w-0">
+                                                <div className={clsx("text-sm font-medium truncate", line.changeType === 'removed' ? "text-gray-400 line-through" : "text-gray-900")}>
+                                                    {line.name}
+                                                </div>
+                                                <div className="text-xs text-gray-500">{line.channel} · {line.vendor}</div>
+                                            </div>
+                                            <span className={clsx("flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium uppercase", style.badge)}>
+                                                {style.icon}
+                                                {style.label}
+                                            </span>
+                                        </div>
+                                        {line.changes.length > 0 && (
+                                            <div className="mt-2 space-y-1">
+                                                {line.changes.map(change => (
+                                                    <div key={change.field} className="flex items-center gap-1 text-xs">
+                                                        <span className="text-gray-500 w-24 flex-shrink-0">{DIFF_FIELD_LABELS[change.field]}</span>
+                                                        <span className="text-red-600 line-through truncate">{formatDiffValue(change.field, change.before)}</span>
+                                                        <ArrowRight className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                                                        <span className="text-green-700 font-medium truncate">{formatDiffValue(change.field, change.after)}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {line.costDelta !== 0 && (
+                                            <div className={clsx("mt-1 text-xs font-medium", deltaColor(line.costDelta))}>
+                                                Cost {formatDelta(line.costDelta)}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, CheckCircle, ArrowLeft } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Flight, Line } from '../types';
+import {
+    ImportTable,
+    ColumnMapping,
+    IMPORT_FIELDS,
+    parseImportFile,
+    suggestColumnMapping,
+    getUnmappedRequiredFields,
+    buildImportPreview
+} from '../utils/planImporter';
+
+interface PlanImportDialogProps {
+    isOpen: boolean;
+    flight?: Pick<Flight, 'name' | 'startDate' | 'endDate'>;
+    onImport: (lines: Line[], fileName: string) => void;
+    onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review';
+
+export const PlanImportDialog: React.FC<PlanImportDialogProps> = ({ isOpen, flight, onImport, onClose }) => {
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ImportTable | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+    const preview = useMemo(
+        () => (step === 'review' && table && mapping ? buildImportPreview(table, mapping, flight) : null),
+        [step, table, mapping, flight]
+    );
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setTable(null);
+        setMapping(null);
+        setParseError(null);
+        setShowErrorsOnly(false);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (file: File) => {
+        setParseError(null);
+        try {
+            const parsed = await parseImportFile(file);
+            setFileName(file.name);
+            setTable(parsed);
+            setMapping(suggestColumnMapping(parsed.headers));
+            setStep('mapping');
+        } catch (error) {
+            setParseError(error instanceof Error ? error.message : 'Could not read this file');
+        }
+    };
+
+    const handleImport = () => {
+        if (!preview || preview.validLines.length === 0) return;
+        onImport(preview.validLines, fileName);
+        handleClose();
+    };
+
+    const unmappedRequired = mapping ? getUnmappedRequiredFields(mapping) : [];
+    const visibleRows = preview ? preview.rows.filter(r => !showErrorsOnly || r.errors.length > 0) : [];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-in fade-in">
+            <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col animate-in zoom-in-95">
+                {/* Header */}
+                <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <div className="p-1.5 bg-green-100 rounded-lg text-green-700">
+                            <FileSpreadsheet className="w-4 h-4" />
+                        </div>
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-900">Import Media Plan</h3>
+                            <p className="text-xs text-gray-500">
+                                {step === 'upload' && 'Upload a CSV or Excel file'}
+                                {step === 'mapping' && `${fileName} · ${table?.rows.length || 0} rows · map columns`}
+                                {step === 'review' && `${fileName} · review rows before importing`}
+                                {flight && ` into ${flight.name}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-gray-600" aria-label="Close import">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {/* Step 1: Upload */}
+                    {step === 'upload' && (
+                        <label className="flex flex-col items-center justify-center gap-2 p-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-purple-400 hover:bg-purple-50 transition-colors">
+                            <Upload className="w-8 h-8 text-gray-400" />
+                            <span className="text-sm font-medium text-gray-700">Choose a .csv or .xlsx file</span>
+                            <span className="text-xs text-gray-500">The first row should contain column headers</span>
+                            <input
+                                type="file"
+                                accept=".csv,.xlsx"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleFile(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                            {parseError && <span className="text-xs text-red-600 mt-2">{parseError}</span>}
+                        </label>
+                    )}
+
+                    {/* Step 2: Column Mapping */}
+                    {step === 'mapping' && table && mapping && (
+                        <div className="space-y-2">
+                            {IMPORT_FIELDS.map(({ field, label, required }) => {
+                                const col = mapping[field];
+                                const sample = col !== null ? table.rows.find(r => r[col]?.trim())?.[col] : undefined;
+                                return (
+                                    <div key={field} className="grid grid-cols-3 gap-3 items-center">
+                                        <span className="text-sm text-gray-700">
+                                            {label}{required && <span className="text-red-500"> *</span>}
+                                        </span>
+                                        <select
+                                            value={col ?? ''}
+                                            onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : parseInt(e.target.value) })}
+                                            className={clsx(
+                                                "px-2 py-1.5 text-sm border rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500",
+                                                required && col === null ? "border-red-300" : "border-gray-200"
+                                            )}
+                                        >
+                                            <option value="">— Not mapped —</option>
+                                            {table.headers.map((header, i) => (
+                                                <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                                            ))}
+                                        </select>
+                                        <span className="text-xs text-gray-400 truncate">
+                                            {sample !== undefined ? `e.g. ${sample}` : field === 'channel' ? 'Inferred from vendor' : field.endsWith('Date') ? 'Defaults to flight dates' : ''}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {/* Step 3: Review */}
+                    {step === 'review' && preview && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-3 text-sm">
+                                <span className="flex items-center gap-1 text-green-700">
+                                    <CheckCircle className="w-4 h-4" /> {preview.validLines.length} ready
+                                </span>
+                                {preview.errorCount > 0 && (
+                                    <span className="flex items-center gap-1 text-red-600">
+                                        <AlertTriangle className="w-4 h-4" /> {preview.errorCount} with errors (skipped)
+                                    </span>
+                                )}
+                                {preview.warningCount > 0 && (
+                                    <span className="text-amber-600">{preview.warningCount} with warnings</span>
+                                )}
+                                <label className="ml-auto flex items-center gap-1 text-xs text-gray-600">
+                                    <input type="checkbox" checked={showErrorsOnly} onChange={(e) => setShowErrorsOnly(e.target.checked)} />
+                                    Errors only
+                                </label>
+                            </div>
+
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                                        <th className="py-1 pr-2">Row</th>
+                                        <th className="py-1 pr-2">Line</th>
+                                        <th className="py-1 pr-2">Channel</th>
+                                        <th className="py-1 pr-2 text-right">Cost</th>
+                                        <th className="py-1">Issues</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {visibleRows.map(row => (
+                                        <tr key={row.rowNumber} className={clsx("border-b border-gray-100 align-top", row.errors.length > 0 && "bg-red-50")}>
+                                            <td className="py-1.5 pr-2 text-gray-500">{row.rowNumber}</td>
+                                            <td className="py-1.5 pr-2 text-gray-900">{row.line?.name || '—'}</td>
+                                            <td className="py-1.5 pr-2 text-gray-700">{row.line?.channel || '—'}</td>
+                                            <td className="py-1.5 pr-2 text-right tabular-nums">
+                                                {row.line ? `$${Math.round(row.line.totalCost).toLocaleString()}` : '—'}
+                                            </td>
+                                            <td className="py-1.5">
+                                                {row.errors.map(e => <div key={e} className="text-red-600">{e}</div>)}
+                                                {row.warnings.map(w => <div key={w} className="text-amber-600">{w}</div>)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                {step !== 'upload' && (
+                    <div className="flex items-center gap-3 px-4 py-3 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+                        <button
+                            onClick={() => setStep(step === 'review' ? 'mapping' : 'upload')}
+                            className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                            <ArrowLeft className="w-4 h-4" /> Back
+                        </button>
+                        {step === 'mapping' && unmappedRequired.length > 0 && (
+                            <span className="text-xs text-red-600">Map {unmappedRequired.map(f => f.label).join(', ')} to continue</span>
+                        )}
+                        <div className="ml-auto">
+                            {step === 'mapping' ? (
+                                <button
+                                    onClick={() => setStep('review')}
+                                    disabled={unmappedRequired.length > 0}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                                >
+                                    Review Rows
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleImport}
+                                    disabled={!preview || preview.validLines.length === 0}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                                >
+                                    Import {preview?.validLines.length || 0} Line{preview?.validLines.length === 1 ? '' : 's'}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
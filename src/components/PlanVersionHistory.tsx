@@ -0,0 +1,115 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { History, ChevronDown, Save, GitCompare } from 'lucide-react';
+import { clsx } from 'clsx';
+import { PlanVersionSummary } from '../utils/planStorage';
+
+interface PlanVersionHistoryProps {
+    currentVersion: number;
+    versions: PlanVersionSummary[];
+    onOpen: () => void;
+    onSave: () => void;
+    onOpenVersion: (version: number) => void;
+    onCompareVersion: (version: number) => void;
+}
+
+export const PlanVersionHistory: React.FC<PlanVersionHistoryProps> = ({ currentVersion, versions, onOpen, onSave, onOpenVersion, onCompareVersion }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+            return () => document.removeEventListener('mousedown', handleClickOutside);
+        }
+    }, [isOpen]);
+
+    const handleToggle = () => {
+        if (!isOpen) onOpen();
+        setIsOpen(!isOpen);
+    };
+
+    return (
+        <div className="relative" ref={dropdownRef}>
+            <button
+                onClick={handleToggle}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Version History"
+            >
+                <History className="h-4 w-4" />
+                <span className="hidden md:inline text-xs">v{currentVersion}</span>
+                <ChevronDown className={clsx(
+                    "h-3 w-3 transition-transform",
+                    isOpen && "rotate-180"
+                )} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
+                    <button
+                        onClick={() => {
+                            onSave();
+                            setIsOpen(false);
+                        }}
+                        className="w-full px-4 py-2 text-left text-sm text-purple-700 hover:bg-purple-50 flex items-center gap-2 border-b border-gray-100"
+                    >
+                        <Save className="h-4 w-4" />
+                        <span>Save new version</span>
+                        <span className="ml-auto text-xs text-gray-400">⌘S</span>
+                    </button>
+
+                    {versions.length === 0 ? (
+                        <div className="px-4 py-3 text-xs text-gray-500">No saved versions yet</div>
+                    ) : (
+                        <div className="max-h-72 overflow-y-auto">
+                            {versions.map(v => (
+                                <div
+                                    key={v.id}
+                                    className={clsx(
+                                        "flex items-center transition-colors",
+                                        currentVersion === v.version
+                                            ? "bg-purple-50 text-purple-700 font-medium"
+                                            : "text-gray-700 hover:bg-gray-50"
+                                    )}
+                                >
+                                    <button
+                                        onClick={() => {
+                                            onOpenVersion(v.version);
+                                            setIsOpen(false);
+                                        }}
+                                        className="flex-1 min-w-0 pl-4 py-2 text-left text-sm flex items-center justify-between"
+                                        title="Reopen this version"
+                                    >
+                                        <div className="flex flex-col">
+                                            <span>Version {v.version}{v.label ? ` · ${v.label}` : ''}</span>
+                                            <span className="text-xs text-gray-400">
+                                                {new Date(v.savedAt).toLocaleString()} · {v.placementCount} placements
+                                            </span>
+                                        </div>
+                                        <span className="text-xs text-gray-500">${v.totalSpend.toLocaleString()}</span>
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            onCompareVersion(v.version);
+                                            setIsOpen(false);
+                                        }}
+                                        className="p-2 mx-2 text-gray-400 hover:text-purple-600 rounded"
+                                        title="Compare with current plan"
+                                    >
+                                        <GitCompare className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
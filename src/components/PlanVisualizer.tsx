@@ -2,13 +2,23 @@ import React, { useState, useMemo } from 'react';
 import { SegmentBrowser } from './SegmentBrowser';
 import { SegmentPill } from './SegmentPill';
 import { AudienceInsightsPanel } from './AudienceInsightsPanel';
-import { MediaPlan, Placement, Segment } from '../types';
-import { BarChart3, LayoutList, Rows, ArrowUp, ArrowDown, ArrowUpDown, ChevronDown, ChevronRight, Trash2, Download, Presentation, Layers, Filter, Plus, Users } from 'lucide-react';
+import { MediaPlan, Placement, Segment, Line, IOStatus, Brand } from '../types';
+import { BarChart3, LayoutList, Rows, ArrowUp, ArrowDown, ArrowUpDown, ChevronDown, ChevronRight, Trash2, Download, Presentation, FileSpreadsheet, Upload, FileSignature, FileText, Layers, Filter, Plus, Users, Table2, GanttChart, MapPin, Map as MapIcon } from 'lucide-react';
 import { clsx } from 'clsx';
 import { PlacementDetailPanel } from './PlacementDetailPanel';
 import { PlanMetricsSummary } from './PlanMetricsSummary';
 import { generateMediaPlanPDF } from '../utils/pdfGenerator';
 import { generateMediaPlanPPT } from '../utils/pptGenerator';
+import { generateMediaPlanXLSX } from '../utils/xlsxGenerator';
+import { PlanImportDialog } from './PlanImportDialog';
+import { InsertionOrderDialog, IO_STATUS_STYLES } from './InsertionOrderDialog';
+import { ReportBuilderDialog } from './ReportBuilderDialog';
+import { IO_STATUS_LABELS } from '../utils/ioGenerator';
+import { LineChangeType } from '../utils/planDiff';
+import { CampaignTimeline } from './CampaignTimeline';
+import { DMABreakdownTable } from './DMABreakdownTable';
+import { DMAMap } from './DMAMap';
+import { DateChange } from '../utils/campaignTimeline';
 
 type GroupingMode = 'DETAILED' | 'CHANNEL_SUMMARY' | 'VENDOR' | 'SEGMENT' | 'STATUS' | 'FLIGHT' | 'OBJECTIVE' | 'DEVICE' | 'GEO';
 
@@ -17,6 +27,12 @@ interface PlanVisualizerProps {
     onGroupingChange?: (mode: GroupingMode) => void;
     onUpdatePlacement?: (placement: Placement) => void;
     onDeletePlacement?: (placementId: string) => void;
+    changeHighlights?: Record<string, LineChangeType>; // Line id -> change vs. a compared version
+    onImportLines?: (lines: Line[], fileName: string) => void;
+    onGenerateInsertionOrders?: (vendor?: string) => void;
+    onSetIOStatus?: (vendor: string, status: IOStatus) => void;
+    brand?: Brand | null; // Logo for branded reports
+    onRescheduleDates?: (change: DateChange) => void;
 }
 
 interface EditableCellProps {
@@ -92,8 +108,9 @@ const EditableCell: React.FC<EditableCellProps> = ({ value, onSave, type = 'text
     );
 };
 
-export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGroupingChange, onUpdatePlacement, onDeletePlacement }) => {
+export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGroupingChange, onUpdatePlacement, onDeletePlacement, changeHighlights, onImportLines, onGenerateInsertionOrders, onSetIOStatus, brand, onRescheduleDates }) => {
     const [viewMode, setViewMode] = useState<'PLANNING' | 'PERFORMANCE'>('PLANNING');
+    const [displayMode, setDisplayMode] = useState<'TABLE' | 'TIMELINE' | 'GEO' | 'MAP'>('TABLE');
     const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
     const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
     const [selectedPlacementId, setSelectedPlacementId] = useState<string | null>(null);
@@ -105,6 +122,9 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
 
     // Audience Insights State
     const [isInsightsPanelOpen, setIsInsightsPanelOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [isIODialogOpen, setIsIODialogOpen] = useState(false);
+    const [isReportBuilderOpen, setIsReportBuilderOpen] = useState(false);
 
     const handleSegmentSelection = (segments: Segment[]) => {
         if (editingPlacementId && mediaPlan?.campaign.placements) {
@@ -429,6 +449,8 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
                 "hover:bg-gray-50 transition-colors group cursor-pointer",
                 isChild && "bg-gray-50/50",
                 selectedPlacementId === placement.id && "bg-blue-50 hover:bg-blue-50",
+                changeHighlights?.[placement.id] === 'added' && "bg-green-50 border-l-4 border-l-green-400",
+                changeHighlights?.[placement.id] === 'modified' && "bg-amber-50 border-l-4 border-l-amber-400",
                 placement.performance?.status === 'PAUSED' && "opacity-50"
             )}
         >
@@ -454,6 +476,14 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
             <td className="py-3 px-6 text-sm text-gray-600">
                 <div className="flex items-center gap-2">
                     <span>{placement.vendor}</span>
+                    {placement.ioStatus && (
+                        <span
+                            className={clsx("inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium", IO_STATUS_STYLES[placement.ioStatus as IOStatus])}
+                            title={placement.ioNumber ? `${placement.ioNumber} · ${IO_STATUS_LABELS[placement.ioStatus as IOStatus]}` : undefined}
+                        >
+                            IO {IO_STATUS_LABELS[placement.ioStatus as IOStatus]}
+                        </span>
+                    )}
                     {placement.performance?.status === 'PAUSED' && (
                         <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-gray-200 text-gray-500">
                             Paused
@@ -638,6 +668,26 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
 
                         {/* Export Buttons */}
                         <div className="flex items-center gap-3">
+                            {onImportLines && (
+                                <button
+                                    onClick={() => setIsImportOpen(true)}
+                                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                                    title="Import lines from CSV or Excel"
+                                >
+                                    <Upload className="w-4 h-4" />
+                                    Import
+                                </button>
+                            )}
+                            {onGenerateInsertionOrders && onSetIOStatus && (
+                                <button
+                                    onClick={() => setIsIODialogOpen(true)}
+                                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                                    title="Insertion orders by vendor"
+                                >
+                                    <FileSignature className="w-4 h-4" />
+                                    IOs
+                                </button>
+                            )}
                             <button
                                 onClick={() => generateMediaPlanPDF(mediaPlan)}
                                 className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
@@ -647,7 +697,23 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
                                 PDF
                             </button>
                             <button
-                                onClick={() => generateMediaPlanPPT(mediaPlan)}
+                                onClick={() => setIsReportBuilderOpen(true)}
+                                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                                title="Build a branded multi-section PDF report"
+                            >
+                                <FileText className="w-4 h-4" />
+                                Report
+                            </button>
+                            <button
+                                onClick={() => generateMediaPlanXLSX(mediaPlan)}
+                                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors shadow-sm"
+                                title="Export to Excel"
+                            >
+                                <FileSpreadsheet className="w-4 h-4" />
+                                Excel
+                            </button>
+                            <button
+                                onClick={() => generateMediaPlanPPT(mediaPlan, brand)}
                                 className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 transition-colors shadow-sm"
                                 title="Export to PowerPoint"
                             >
@@ -755,12 +821,81 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
                                     Performance
                                 </button>
                             </div>
+
+                            {/* Table / Timeline / Geo / Map Toggle */}
+                            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                                <button
+                                    onClick={() => setDisplayMode('TABLE')}
+                                    className={clsx(
+                                        "px-3 py-2 text-sm font-medium rounded-md transition-all flex items-center gap-2",
+                                        displayMode === 'TABLE' ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                                    )}
+                                >
+                                    <Table2 className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Table</span>
+                                </button>
+                                <button
+                                    onClick={() => setDisplayMode('TIMELINE')}
+                                    className={clsx(
+                                        "px-3 py-2 text-sm font-medium rounded-md transition-all flex items-center gap-2",
+                                        displayMode === 'TIMELINE' ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                                    )}
+                                >
+                                    <GanttChart className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Timeline</span>
+                                </button>
+                                <button
+                                    onClick={() => setDisplayMode('GEO')}
+                                    className={clsx(
+                                        "px-3 py-2 text-sm font-medium rounded-md transition-all flex items-center gap-2",
+                                        displayMode === 'GEO' ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                                    )}
+                                >
+                                    <MapPin className="w-4 h-4" />
+                                    <span className="hidden sm:inline">DMAs</span>
+                                </button>
+                                <button
+                                    onClick={() => setDisplayMode('MAP')}
+                                    className={clsx(
+                                        "px-3 py-2 text-sm font-medium rounded-md transition-all flex items-center gap-2",
+                                        displayMode === 'MAP' ? "bg-white text-gray-900 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                                    )}
+                                >
+                                    <MapIcon className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Map</span>
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </div>
 
+                {/* Flight Timeline */}
+                {displayMode === 'TIMELINE' && (
+                    <div className="flex-1 overflow-auto">
+                        <CampaignTimeline
+                            campaign={campaign}
+                            activeFlightId={mediaPlan.activeFlightId}
+                            onReschedule={onRescheduleDates}
+                        />
+                    </div>
+                )}
+
+                {/* DMA Breakdown */}
+                {displayMode === 'GEO' && (
+                    <div className="flex-1 overflow-auto">
+                        <DMABreakdownTable campaign={campaign} brand={brand} />
+                    </div>
+                )}
+
+                {/* DMA Map */}
+                {displayMode === 'MAP' && (
+                    <div className="flex-1 overflow-auto">
+                        <DMAMap campaign={campaign} brand={brand} onUpdatePlacement={onUpdatePlacement} />
+                    </div>
+                )}
+
                 {/* Scrollable Table Area */}
-                <div className="flex-1 overflow-auto">
+                <div className={clsx("flex-1 overflow-auto", displayMode !== 'TABLE' && "hidden")}>
                     <table className="w-full min-w-[1000px] lg:min-w-0">
                         <thead className="bg-gray-50 sticky top-0 z-10">
                             <tr>
@@ -834,6 +969,35 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({ mediaPlan, onGro
                 onAddSegment={handleQuickAddSegment}
                 onRemoveSegment={handleRemoveSegment}
             />
+
+            {/* Plan Import */}
+            {onImportLines && (
+                <PlanImportDialog
+                    isOpen={isImportOpen}
+                    flight={campaign.flights?.find(f => f.id === mediaPlan.activeFlightId)}
+                    onImport={onImportLines}
+                    onClose={() => setIsImportOpen(false)}
+                />
+            )}
+
+            {/* Report Builder */}
+            <ReportBuilderDialog
+                isOpen={isReportBuilderOpen}
+                mediaPlan={mediaPlan}
+                brand={brand}
+                onClose={() => setIsReportBuilderOpen(false)}
+            />
+
+            {/* Insertion Orders */}
+            {onGenerateInsertionOrders && onSetIOStatus && (
+                <InsertionOrderDialog
+                    isOpen={isIODialogOpen}
+                    mediaPlan={mediaPlan}
+                    onGenerate={onGenerateInsertionOrders}
+                    onSetStatus={onSetIOStatus}
+                    onClose={() => setIsIODialogOpen(false)}
+                />
+            )}
         </div>
     );
 };
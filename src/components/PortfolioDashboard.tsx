@@ -1,10 +1,12 @@
 import React from 'react';
 import { Portfolio } from '../types';
-import { DollarSign, TrendingUp, PieChart, ArrowRight, Activity } from 'lucide-react';
+import { DollarSign, TrendingUp, PieChart, ArrowRight, Activity, Undo2, Redo2 } from 'lucide-react';
 import { CampaignComparisonChart } from './CampaignComparisonChart';
 import { BudgetOptimizer } from './BudgetOptimizer';
 import { UnifiedReportView } from './UnifiedReportView';
 import { EmptyState } from './EmptyState';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, PatchConflictError } from '../utils/planPatch';
 
 interface PortfolioDashboardProps {
     portfolio: Portfolio;
@@ -16,13 +18,50 @@ export const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ portfoli
     const [localPortfolio, setLocalPortfolio] = React.useState(portfolio);
     const [activeTab, setActiveTab] = React.useState<'OVERVIEW' | 'REPORT'>('OVERVIEW');
 
+    const [, setHistoryVersion] = React.useState(0);
+    const historyScope = `portfolio:${portfolio.id}`;
+
+    // Copy the parts of the portfolio that patches touch so React sees a new object
+    const copyPortfolio = () => ({
+        ...localPortfolio,
+        campaigns: localPortfolio.campaigns.map(c => ({ ...c }))
+    });
+
     const handleBudgetShift = (sourceId: string, targetId: string, amount: number) => {
-        const updatedCampaigns = localPortfolio.campaigns.map(c => {
-            if (c.id === sourceId) return { ...c, budget: c.budget - amount };
-            if (c.id === targetId) return { ...c, budget: c.budget + amount };
-            return c;
+        const updated = copyPortfolio();
+        const source = updated.campaigns.find(c => c.id === sourceId);
+        const target = updated.campaigns.find(c => c.id === targetId);
+        if (!source || !target) return;
+
+        const tx = new PatchTransaction(updated);
+        tx.set(['campaigns', { id: sourceId }, 'budget'], source.budget - amount);
+        tx.set(['campaigns', { id: targetId }, 'budget'], target.budget + amount);
+        actionHistory.commit(tx, historyScope, {
+            type: 'shift_budget',
+            description: `Shifted $${amount.toLocaleString()} from ${source.name} to ${target.name}`,
+            userCommand: 'budget optimizer'
         });
-        setLocalPortfolio({ ...localPortfolio, campaigns: updatedCampaigns });
+
+        setLocalPortfolio(updated);
+        setHistoryVersion(v => v + 1);
+    };
+
+    const handleUndoRedo = (mode: 'undo' | 'redo') => {
+        const updated = copyPortfolio();
+        try {
+            const action = mode === 'undo'
+                ? actionHistory.undoLast(historyScope, updated)
+                : actionHistory.redoLast(historyScope, updated);
+            if (!action) return;
+            setLocalPortfolio(updated);
+            setHistoryVersion(v => v + 1);
+        } catch (e) {
+            if (e instanceof PatchConflictError) {
+                alert(`Can't ${mode} this budget shift: ${e.message}`);
+                return;
+            }
+            throw e;
+        }
     };
 
     const formatCurrency = (value: number) => {
@@ -79,6 +118,22 @@ export const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ portfoli
                             Detailed Report
                         </button>
                     </div>
+                    <button
+                        onClick={() => handleUndoRedo('undo')}
+                        disabled={!actionHistory.getLastAction(historyScope)}
+                        className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"
+                        title={actionHistory.getLastAction(historyScope)?.description ? `Undo: ${actionHistory.getLastAction(historyScope)!.description}` : 'Nothing to undo'}
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => handleUndoRedo('redo')}
+                        disabled={!actionHistory.canRedo(historyScope)}
+                        className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Redo"
+                    >
+                        <Redo2 className="w-4 h-4" />
+                    </button>
                     <button className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-sm">
                         + New Campaign
                     </button>
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileText, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { MediaPlan, Brand } from '../types';
+import {
+    ReportConfig,
+    ReportSectionId,
+    REPORT_SECTIONS,
+    getDefaultReportConfig,
+    generateMediaPlanReport
+} from '../utils/pdfReportBuilder';
+
+interface ReportBuilderDialogProps {
+    isOpen: boolean;
+    mediaPlan: MediaPlan;
+    brand?: Brand | null;
+    onClose: () => void;
+}
+
+export const ReportBuilderDialog: React.FC<ReportBuilderDialogProps> = ({ isOpen, mediaPlan, brand, onClose }) => {
+    const [config, setConfig] = useState<ReportConfig>(() => getDefaultReportConfig(mediaPlan, brand));
+    const [useLogo, setUseLogo] = useState(true);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Re-seed title and branding when switching to a different campaign or brand
+    useEffect(() => {
+        const defaults = getDefaultReportConfig(mediaPlan, brand);
+        setConfig(prev => ({ ...prev, title: defaults.title, branding: defaults.branding }));
+    }, [mediaPlan.campaign.id, brand?.id]);
+
+    if (!isOpen) return null;
+
+    const toggleSection = (id: ReportSectionId) => {
+        setConfig(prev => ({
+            ...prev,
+            sections: prev.sections.includes(id) ? prev.sections.filter(s => s !== id) : [...prev.sections, id]
+        }));
+    };
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            await generateMediaPlanReport(mediaPlan, {
+                ...config,
+                branding: { ...config.branding, logoUrl: useLogo ? config.branding.logoUrl : undefined }
+            });
+            onClose();
+        } catch (e) {
+            console.error('Failed to build report:', e);
+            setError(e instanceof Error ? e.message : 'Could not build the report');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-in fade-in">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col animate-in zoom-in-95">
+                {/* Header */}
+                <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <div className="p-1.5 rounded-lg text-white" style={{ backgroundColor: config.branding.primaryColor }}>
+                            <FileText className="w-4 h-4" />
+                        </div>
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-900">Build PDF Report</h3>
+                            <p className="text-xs text-gray-500">{config.sections.length} of {REPORT_SECTIONS.length} sections selected</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close report builder">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {/* Title */}
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Report title</label>
+                        <input
+                            type="text"
+                            value={config.title}
+                            onChange={(e) => setConfig({ ...config, title: e.target.value })}
+                            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500"
+                        />
+                    </div>
+
+                    {/* Sections */}
+                    <div>
+                        <span className="block text-xs font-medium text-gray-700 mb-1">Sections</span>
+                        <div className="space-y-1">
+                            {REPORT_SECTIONS.map(section => (
+                                <label
+                                    key={section.id}
+                                    className={clsx(
+                                        "flex items-start gap-2 p-2 rounded-md cursor-pointer border",
+                                        config.sections.includes(section.id) ? "border-purple-200 bg-purple-50" : "border-transparent hover:bg-gray-50"
+                                    )}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={config.sections.includes(section.id)}
+                                        onChange={() => toggleSection(section.id)}
+                                        className="mt-0.5"
+                                    />
+                                    <span>
+                                        <span className="block text-sm text-gray-900">{section.title}</span>
+                                        <span className="block text-xs text-gray-500">{section.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Branding */}
+                    <div>
+                        <span className="block text-xs font-medium text-gray-700 mb-1">Branding</span>
+                        <div className="flex items-center gap-4">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="color"
+                                    value={config.branding.primaryColor}
+                                    onChange={(e) => setConfig({ ...config, branding: { ...config.branding, primaryColor: e.target.value } })}
+                                    className="w-8 h-8 border border-gray-200 rounded cursor-pointer"
+                                />
+                                Primary
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="color"
+                                    value={config.branding.accentColor}
+                                    onChange={(e) => setConfig({ ...config, branding: { ...config.branding, accentColor: e.target.value } })}
+                                    className="w-8 h-8 border border-gray-200 rounded cursor-pointer"
+                                />
+                                Charts
+                            </label>
+                            {config.branding.logoUrl && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700 ml-auto">
+                                    <input type="checkbox" checked={useLogo} onChange={(e) => setUseLogo(e.target.checked)} />
+                                    <img src={config.branding.logoUrl} alt="" className="h-6 w-6 object-contain" />
+                                    Logo
+                                </label>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center gap-3 px-4 py-3 bg-gray-50 border-t border-gray-200 rounded-b-lg">
+                    {error && <span className="text-xs text-red-600">{error}</span>}
+                    <button
+                        onClick={handleGenerate}
+                        disabled={isGenerating || config.sections.length === 0}
+                        className="ml-auto flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                    >
+                        {isGenerating && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {isGenerating ? 'Building…' : 'Generate Report'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
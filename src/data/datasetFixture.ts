@@ -0,0 +1,189 @@
+/**
+ * Dataset Fixtures - Save and reload a generated portfolio as JSON
+ *
+ * A fixture stores the brands together with the resolved DatasetConfig that
+ * produced them (seed and anchor date included), so a demo or test dataset can
+ * be checked in and loaded as-is, or regenerated from its config.
+ */
+
+import { Brand } from '../types';
+import { DATASET_CHANNELS, DatasetChannel, DatasetConfig, generateLargeScaleData, resolveDatasetConfig } from './largeScaleData';
+
+export const DATASET_FORMAT_VERSION = 1;
+
+export interface DatasetFixture {
+    formatVersion: number;
+    generatedAt: string;
+    config: Required<DatasetConfig>;
+    brands: Brand[];
+}
+
+/**
+ * Thrown when a fixture file is not valid JSON, has the wrong shape or was
+ * written by a newer format version
+ */
+export class DatasetFixtureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DatasetFixtureError';
+    }
+}
+
+/**
+ * Generate a dataset and wrap it as a fixture
+ */
+export function createDatasetFixture(overrides: Partial<DatasetConfig> = {}): DatasetFixture {
+    const config = resolveDatasetConfig(overrides);
+    return {
+        formatVersion: DATASET_FORMAT_VERSION,
+        generatedAt: new Date().toISOString(),
+        config,
+        brands: generateLargeScaleData(config)
+    };
+}
+
+/**
+ * Serialize brands (e.g. the current workspace) as fixture JSON
+ */
+export function exportDatasetFixture(brands: Brand[], config: Partial<DatasetConfig> = {}): string {
+    const fixture: DatasetFixture = {
+        formatVersion: DATASET_FORMAT_VERSION,
+        generatedAt: new Date().toISOString(),
+        config: resolveDatasetConfig(config),
+        brands
+    };
+    return JSON.stringify(fixture, null, 2);
+}
+
+type FieldKind = 'string' | 'number' | 'date' | 'array';
+
+const FIELD_LABELS: Record<FieldKind, string> = {
+    string: 'a string',
+    number: 'a number',
+    date: 'a YYYY-MM-DD date',
+    array: 'an array'
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasKind(value: unknown, kind: FieldKind): boolean {
+    switch (kind) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'date': return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+        case 'array': return Array.isArray(value);
+    }
+}
+
+/**
+ * Check that `value` is an object with the given fields, naming the first one that's off
+ */
+function checkFields(value: unknown, fields: Record<string, FieldKind>, label: string): Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new DatasetFixtureError(`${label} must be an object`);
+    }
+    for (const [key, kind] of Object.entries(fields)) {
+        if (!hasKind(value[key], kind)) {
+            throw new DatasetFixtureError(`${label} needs ${FIELD_LABELS[kind]} "${key}"`);
+        }
+    }
+    return value;
+}
+
+/**
+ * Walk brands → campaigns → flights → lines, checking the ids, dates and
+ * amounts the app reads without guarding
+ */
+function assertBrands(brands: unknown[]): asserts brands is Brand[] {
+    brands.forEach((brand, b) => {
+        const brandLabel = `Brand ${b + 1}`;
+        const { campaigns } = checkFields(brand, { id: 'string', name: 'string', campaigns: 'array' }, brandLabel);
+        (campaigns as unknown[]).forEach((campaign, c) => {
+            const campaignLabel = `${brandLabel} campaign ${c + 1}`;
+            const { flights } = checkFields(campaign, { id: 'string', name: 'string', budget: 'number', startDate: 'date', endDate: 'date', flights: 'array' }, campaignLabel);
+            (flights as unknown[]).forEach((flight, f) => {
+                const flightLabel = `${campaignLabel} flight ${f + 1}`;
+                const { lines } = checkFields(flight, { id: 'string', name: 'string', budget: 'number', startDate: 'date', endDate: 'date', lines: 'array' }, flightLabel);
+                (lines as unknown[]).forEach((line, l) => {
+                    checkFields(line, { id: 'string', channel: 'string', vendor: 'string', startDate: 'date', endDate: 'date', totalCost: 'number' }, `${flightLabel} line ${l + 1}`);
+                });
+            });
+        });
+    });
+}
+
+/**
+ * Parse and validate fixture JSON
+ */
+export function importDatasetFixture(json: string): DatasetFixture {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new DatasetFixtureError('Dataset fixture is not valid JSON');
+    }
+
+    if (!isRecord(parsed)) {
+        throw new DatasetFixtureError('Dataset fixture must be a JSON object');
+    }
+    const { formatVersion, generatedAt, config, brands } = parsed;
+    if (typeof formatVersion !== 'number') {
+        throw new DatasetFixtureError('Dataset fixture is missing formatVersion');
+    }
+    if (formatVersion > DATASET_FORMAT_VERSION) {
+        throw new DatasetFixtureError(`Dataset fixture format v${formatVersion} is newer than supported (v${DATASET_FORMAT_VERSION})`);
+    }
+    if (config !== undefined && !isRecord(config)) {
+        throw new DatasetFixtureError('Dataset fixture config must be an object');
+    }
+    if (!Array.isArray(brands)) {
+        throw new DatasetFixtureError('Dataset fixture has no brands array');
+    }
+    assertBrands(brands);
+
+    return {
+        formatVersion,
+        generatedAt: typeof generatedAt === 'string' ? generatedAt : '',
+        config: resolveDatasetConfig(config ?? {}),
+        brands
+    };
+}
+
+/**
+ * Read dataset overrides from a URL query string, e.g.
+ * `?seed=7&brands=3&campaigns=20&anchor=2026-06-30&mix=Search:3,Social:2,TV:1`
+ */
+export function parseDatasetQuery(search: string): Partial<DatasetConfig> {
+    const params = new URLSearchParams(search);
+    const config: Partial<DatasetConfig> = {};
+    const readInt = (key: string) => {
+        const value = parseInt(params.get(key) ?? '', 10);
+        return Number.isFinite(value) ? value : undefined;
+    };
+
+    const seed = readInt('seed');
+    if (seed !== undefined) config.seed = seed;
+    const brandCount = readInt('brands');
+    if (brandCount !== undefined && brandCount > 0) config.brandCount = brandCount;
+    const campaignsPerBrand = readInt('campaigns');
+    if (campaignsPerBrand !== undefined && campaignsPerBrand > 0) config.campaignsPerBrand = campaignsPerBrand;
+
+    const anchor = params.get('anchor');
+    if (anchor && /^\d{4}-\d{2}-\d{2}$/.test(anchor)) config.anchorDate = anchor;
+
+    const mix = params.get('mix');
+    if (mix) {
+        const channelMix: Partial<Record<DatasetChannel, number>> = {};
+        mix.split(',').forEach(part => {
+            const [name, weight = '1'] = part.split(':');
+            const channel = DATASET_CHANNELS.find(c => c.toLowerCase() === name.trim().toLowerCase());
+            const value = parseFloat(weight);
+            if (channel && value >= 0) channelMix[channel] = value;
+        });
+        if (Object.values(channelMix).some(w => w > 0)) config.channelMix = channelMix;
+    }
+
+    return config;
+}
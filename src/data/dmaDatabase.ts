@@ -875,12 +875,17 @@ export const calculateTotalHouseholds = (dmaIds: number[]): number => {
 };
 
 /**
- * Calculate total US coverage percentage for a list of DMAs
+ * TV households across all 210 DMAs
+ */
+export const US_TV_HOUSEHOLDS = DMA_LIST.reduce((sum, dma) => sum + dma.tvHouseholds, 0);
+
+/**
+ * Calculate total US coverage percentage for a list of DMAs.
+ * Uses household counts rather than summing percentUS, whose published
+ * figures add up to more than 100 across all markets.
  */
 export const calculateUSCoverage = (dmaIds: number[]): number => {
-    return DMA_LIST
-        .filter(dma => dmaIds.includes(dma.id))
-        .reduce((sum, dma) => sum + dma.percentUS, 0);
+    return (calculateTotalHouseholds(dmaIds) / US_TV_HOUSEHOLDS) * 100;
 };
 
 /**
@@ -0,0 +1,137 @@
+/**
+ * DMA Geometry - Offline map data for the DMA map
+ *
+ * Nielsen's DMA boundary files are licensed, so the map draws each DMA as the
+ * area closest to its principal city (see utils/dmaMap.ts) inside simplified
+ * outlines of the lower 48, Alaska and Hawaii. Everything here is bundled; the
+ * map needs no tile server or network access.
+ *
+ * Coordinates are [longitude, latitude] in degrees.
+ */
+
+export type LonLat = [number, number];
+
+export type MapRegion = 'LOWER_48' | 'ALASKA' | 'HAWAII';
+
+// =============================================================================
+// DMA CENTERS (principal city, nudged toward the market's middle for
+// multi-city DMAs)
+// =============================================================================
+
+export const DMA_CENTROIDS: Record<number, LonLat> = {
+    1: [-74.01, 40.71], 2: [-118.24, 34.05], 3: [-87.63, 41.88], 4: [-75.17, 39.95], 5: [-97.05, 32.76],
+    6: [-122.1, 37.6], 7: [-84.39, 33.75], 8: [-95.37, 29.76], 9: [-77.04, 38.9], 10: [-71.06, 42.36],
+    11: [-112.07, 33.45], 12: [-122.33, 47.61], 13: [-82.46, 27.95], 14: [-93.27, 44.98], 15: [-104.99, 39.74],
+    16: [-81.38, 28.54], 17: [-80.19, 25.76], 18: [-81.69, 41.5], 19: [-121.49, 38.58], 20: [-90.2, 38.63],
+    21: [-122.68, 45.52], 22: [-80.84, 35.23], 23: [-79.99, 40.44], 24: [-78.64, 35.78], 25: [-86.16, 39.77],
+    26: [-76.61, 39.29], 27: [-86.78, 36.16], 28: [-117.16, 32.72], 29: [-72.67, 41.76], 30: [-111.89, 40.76],
+    31: [-83.0, 39.96], 32: [-94.58, 39.1], 33: [-87.91, 43.04], 34: [-84.51, 39.1], 35: [-98.49, 29.42],
+    36: [-97.74, 30.27], 37: [-115.14, 36.17], 38: [-82.4, 34.85], 39: [-85.67, 42.96], 40: [-97.52, 35.47],
+    41: [-86.8, 33.52], 42: [-76.88, 40.27], 43: [-76.29, 36.85], 44: [-79.79, 36.07], 45: [-81.66, 30.33],
+    46: [-106.65, 35.08], 47: [-85.76, 38.25], 48: [-90.05, 35.15], 49: [-90.07, 29.95], 50: [-80.05, 26.72],
+    51: [-71.41, 41.82], 52: [-78.88, 42.89], 53: [-119.79, 36.74], 54: [-77.44, 37.54], 55: [-75.88, 41.25],
+    56: [-92.29, 34.75], 57: [-73.76, 42.65], 58: [-83.92, 35.96], 59: [-95.99, 36.15], 60: [-84.5, 38.04],
+    61: [-84.19, 39.76], 62: [-110.5, 31.9], 63: [-157.86, 21.31], 64: [-117.43, 47.66], 65: [-77.61, 43.16],
+    66: [-93.62, 41.59], 67: [-95.93, 41.26], 68: [-83.69, 43.01], 69: [-93.29, 37.21], 70: [-88.6, 37.08],
+    71: [-81.03, 34.0], 72: [-93.75, 32.52], 73: [-89.4, 43.07], 74: [-85.31, 35.05], 75: [-97.34, 37.69],
+    76: [-88.04, 30.69], 77: [-86.59, 34.73], 78: [-106.4, 31.85], 79: [-83.54, 41.65], 80: [-76.15, 43.05],
+    81: [-97.15, 31.55], 82: [-88.01, 44.51], 83: [-104.82, 38.83], 84: [-90.58, 41.52], 85: [-91.67, 41.98],
+    86: [-91.15, 30.45], 87: [-90.18, 32.3], 88: [-81.09, 32.08], 89: [-79.93, 32.78], 90: [-73.21, 44.48],
+    91: [-97.7, 26.19], 92: [-82.4, 36.55], 93: [-86.25, 41.68], 94: [-87.57, 37.97], 95: [-85.14, 41.08],
+    96: [-79.3, 34.0], 97: [-78.4, 40.5], 98: [-79.94, 37.27], 99: [-116.2, 43.62], 100: [-80.65, 41.1],
+    101: [-97.7, 40.75], 102: [-95.3, 32.35], 103: [-72.59, 42.1], 104: [-96.73, 43.55], 105: [-81.87, 26.64],
+    106: [-81.97, 33.47], 107: [-84.56, 42.73], 108: [-96.79, 46.88], 109: [-84.28, 30.44], 110: [-85.62, 44.76],
+    111: [-86.3, 32.37], 112: [-89.59, 40.69], 113: [-123.09, 44.05], 114: [-120.4, 34.9], 115: [-83.63, 32.84],
+    116: [-92.02, 30.22], 117: [-119.02, 35.37], 118: [-119.7, 46.4], 119: [-121.6, 36.6], 120: [-84.99, 32.46],
+    121: [-91.3, 44.3], 122: [-97.4, 27.8], 123: [-101.83, 35.22], 124: [-89.09, 42.27], 125: [-122.0, 40.2],
+    126: [-92.1, 46.79], 127: [-89.63, 44.96], 128: [-95.68, 39.05], 129: [-88.6, 33.8], 130: [-122.2, 42.3],
+    131: [-94.13, 30.08], 132: [-80.09, 42.13], 133: [-92.25, 38.75], 134: [-94.51, 37.08], 135: [-81.3, 37.6],
+    136: [-77.94, 34.23], 137: [-84.16, 31.58], 138: [-92.8, 43.8], 139: [-116.55, 33.83], 140: [-87.41, 39.47],
+    141: [-75.6, 38.37], 142: [-102.2, 31.9], 143: [-80.7, 40.2], 144: [-85.66, 30.16], 145: [-68.9, 44.9],
+    146: [-88.95, 30.4], 147: [-82.32, 29.65], 148: [-101.3, 47.3], 149: [-149.9, 61.22], 150: [-96.6, 34.2],
+    151: [-112.2, 43.2], 152: [-80.34, 39.28], 153: [-99.73, 32.45], 154: [-75.23, 43.1], 155: [-89.2, 31.5],
+    156: [-91.41, 39.94], 157: [-113.99, 46.87], 158: [-108.5, 45.78], 159: [-85.39, 31.22], 160: [-115.0, 32.7],
+    161: [-103.23, 44.08], 162: [-93.22, 30.23], 163: [-88.81, 35.61], 164: [-87.4, 46.54], 165: [-90.7, 35.84],
+    166: [-86.44, 36.99], 167: [-99.51, 27.51], 168: [-78.48, 38.03], 169: [-76.81, 42.09], 170: [-92.45, 31.31],
+    171: [-111.3, 47.5], 172: [-90.5, 33.5], 173: [-75.91, 43.97], 174: [-88.7, 32.36], 175: [-101.86, 33.58],
+    176: [-111.8, 45.8], 177: [-78.87, 38.45], 178: [-98.6, 34.2], 179: [-81.56, 39.27], 180: [-86.88, 40.42],
+    181: [-124.16, 40.8], 182: [-108.3, 38.8], 183: [-100.44, 31.46], 184: [-96.4, 42.5], 185: [-107.3, 42.9],
+    186: [-104.5, 41.5], 187: [-92.3, 32.5], 188: [-121.31, 44.06], 189: [-92.5, 40.6], 190: [-94.85, 39.77],
+    191: [-84.11, 40.74], 192: [-94.0, 44.16], 193: [-147.72, 64.84], 194: [-82.01, 39.94], 195: [-68.02, 46.68],
+    196: [-97.0, 28.81], 197: [-114.46, 42.56], 198: [-112.04, 46.59], 199: [-134.42, 58.3], 200: [-83.43, 45.06],
+    201: [-100.77, 41.12], 202: [-104.71, 47.11], 203: [-112.0, 35.0], 204: [-85.9, 37.0], 205: [-85.23, 30.77],
+    206: [-77.2, 35.4], 207: [-89.0, 40.0], 208: [-94.2, 35.9], 209: [-119.81, 39.53], 210: [-110.97, 32.22]
+};
+
+// =============================================================================
+// OUTLINES (simplified; the lower 48 follows the Canadian border through the lakes)
+// =============================================================================
+
+const LOWER_48: LonLat[] = [
+    [-124.7, 48.4], [-122.8, 49.0], [-95.15, 49.0], [-95.15, 49.38], [-94.8, 49.3], [-94.6, 48.7],
+    [-93.8, 48.5], [-92.5, 48.4], [-89.6, 48.0], [-88.4, 48.3], [-84.8, 46.9], [-83.5, 46.1],
+    [-82.4, 45.3], [-82.4, 43.0], [-83.1, 42.3], [-82.7, 41.7], [-79.0, 42.8], [-79.2, 43.4],
+    [-76.4, 44.1], [-75.0, 44.9], [-74.7, 45.0], [-71.5, 45.0], [-71.1, 45.3], [-70.3, 45.9],
+    [-70.0, 46.7], [-69.2, 47.45], [-68.2, 47.35], [-67.8, 47.07], [-67.8, 45.7], [-67.1, 45.1],
+    [-67.0, 44.8], [-68.8, 44.3], [-70.2, 43.7], [-70.8, 42.9], [-70.6, 42.6], [-71.0, 42.3],
+    [-70.0, 41.8], [-70.5, 41.6], [-71.4, 41.45], [-71.9, 41.3], [-72.0, 41.05], [-73.5, 40.6],
+    [-74.0, 40.5], [-74.1, 40.0], [-74.4, 39.4], [-74.9, 38.9], [-75.1, 38.6], [-75.2, 38.0],
+    [-75.9, 37.1], [-76.0, 36.9], [-75.8, 36.2], [-75.5, 35.2], [-76.5, 34.7], [-77.9, 33.9],
+    [-78.6, 33.8], [-79.2, 33.2], [-80.4, 32.4], [-81.1, 31.7], [-81.4, 30.7], [-81.3, 29.8],
+    [-80.6, 28.4], [-80.6, 28.0], [-80.0, 26.7], [-80.1, 25.8], [-80.4, 25.2], [-81.1, 25.1],
+    [-81.7, 25.9], [-82.1, 26.6], [-82.7, 27.5], [-82.8, 28.2], [-82.7, 29.0], [-83.7, 29.9],
+    [-84.3, 30.0], [-85.4, 29.7], [-86.5, 30.4], [-88.0, 30.3], [-89.4, 30.2], [-89.4, 29.2],
+    [-90.2, 29.1], [-91.3, 29.3], [-92.3, 29.6], [-93.8, 29.7], [-94.7, 29.4], [-95.3, 28.9],
+    [-96.6, 28.1], [-97.2, 27.6], [-97.4, 26.8], [-97.2, 25.95], [-97.7, 26.0], [-98.3, 26.2],
+    [-99.1, 26.5], [-99.5, 27.5], [-100.3, 28.3], [-100.7, 29.1], [-101.4, 29.8], [-102.4, 29.8],
+    [-103.0, 29.0], [-103.3, 29.0], [-104.0, 29.4], [-104.7, 30.0], [-105.0, 30.7], [-106.0, 31.4],
+    [-106.5, 31.8], [-108.2, 31.8], [-108.2, 31.33], [-111.1, 31.33], [-114.8, 32.5], [-114.7, 32.7],
+    [-117.1, 32.5], [-117.3, 33.0], [-118.3, 33.7], [-118.5, 34.0], [-119.2, 34.2], [-120.6, 34.5],
+    [-120.6, 35.1], [-121.3, 35.7], [-121.9, 36.3], [-121.8, 36.7], [-122.2, 36.95], [-122.5, 37.5],
+    [-122.5, 37.8], [-123.0, 38.0], [-123.7, 38.9], [-123.8, 39.8], [-124.4, 40.4], [-124.1, 41.0],
+    [-124.2, 42.0], [-124.5, 42.8], [-124.0, 44.0], [-123.9, 46.2], [-124.1, 46.9], [-124.7, 48.2]
+];
+
+const ALASKA: LonLat[] = [
+    [-141.0, 69.6], [-141.0, 60.3], [-139.1, 59.9], [-137.5, 58.9], [-135.5, 59.8], [-133.4, 58.4],
+    [-131.0, 56.0], [-130.0, 55.9], [-130.0, 54.7], [-132.7, 54.7], [-134.2, 56.0], [-136.5, 58.1],
+    [-138.0, 59.0], [-140.0, 59.7], [-143.9, 60.0], [-146.0, 60.6], [-148.0, 60.0], [-149.9, 59.7],
+    [-151.8, 59.2], [-151.4, 60.7], [-152.6, 60.2], [-154.0, 59.0], [-156.5, 57.0], [-158.5, 56.0],
+    [-161.0, 55.3], [-163.5, 54.7], [-164.8, 54.4], [-162.0, 55.8], [-158.0, 57.5], [-157.6, 58.7],
+    [-160.0, 58.6], [-162.0, 59.9], [-164.2, 60.6], [-165.3, 62.3], [-164.5, 63.1], [-161.0, 63.5],
+    [-165.0, 64.5], [-168.1, 65.6], [-164.5, 66.6], [-163.7, 67.1], [-166.2, 68.3], [-163.0, 69.7],
+    [-156.8, 71.3], [-152.0, 70.8], [-148.0, 70.3], [-143.0, 70.1]
+];
+
+const HAWAII: LonLat[][] = [
+    [[-155.9, 20.25], [-154.8, 19.5], [-155.6, 18.9], [-155.9, 19.1], [-156.05, 19.7]],   // Hawaii
+    [[-156.7, 20.95], [-156.0, 20.8], [-156.4, 20.6], [-156.7, 20.8]],                    // Maui
+    [[-157.3, 21.2], [-156.7, 21.15], [-156.75, 21.05], [-157.25, 21.1]],                 // Molokai
+    [[-158.3, 21.55], [-157.95, 21.7], [-157.65, 21.3], [-158.1, 21.3]],                  // Oahu
+    [[-159.8, 22.1], [-159.3, 22.2], [-159.3, 21.9], [-159.7, 21.95]]                     // Kauai
+];
+
+export const REGION_OUTLINES: Record<MapRegion, LonLat[][]> = {
+    LOWER_48: [LOWER_48],
+    ALASKA: [ALASKA],
+    HAWAII
+};
+
+/** Drawn over the lower 48 as water */
+export const GREAT_LAKES: LonLat[][] = [
+    [[-92.1, 46.75], [-91.0, 46.9], [-90.4, 46.6], [-89.0, 46.9], [-88.0, 47.45], [-87.6, 46.8], [-86.5, 46.45],
+        [-85.0, 46.75], [-84.6, 46.45], [-84.8, 46.9], [-85.0, 47.9], [-86.0, 48.7], [-88.3, 48.8], [-89.3, 48.3],
+        [-90.0, 47.9], [-91.5, 47.2]],                                                                  // Superior
+    [[-87.8, 41.65], [-87.0, 41.7], [-86.4, 42.2], [-86.2, 43.0], [-86.5, 43.8], [-86.2, 44.6], [-85.6, 45.2],
+        [-85.0, 45.75], [-85.9, 45.95], [-86.9, 45.8], [-87.6, 45.1], [-87.9, 44.4], [-87.5, 43.9], [-87.9, 43.0],
+        [-87.8, 42.3]],                                                                                 // Michigan
+    [[-84.7, 45.8], [-83.3, 45.2], [-83.3, 44.8], [-83.5, 44.0], [-82.9, 44.05], [-82.5, 43.6], [-82.4, 43.0],
+        [-81.7, 43.3], [-81.7, 44.5], [-80.9, 44.8], [-81.5, 45.3], [-82.4, 45.9], [-83.6, 46.1], [-84.4, 46.0]], // Huron
+    [[-83.4, 41.7], [-82.7, 41.45], [-81.7, 41.5], [-80.5, 41.95], [-79.8, 42.2], [-79.0, 42.85], [-79.6, 42.85],
+        [-80.5, 42.55], [-81.6, 42.6], [-82.5, 42.0], [-83.1, 42.05]],                                  // Erie
+    [[-79.8, 43.25], [-79.1, 43.25], [-77.6, 43.3], [-76.3, 43.5], [-76.1, 44.0], [-76.5, 44.2], [-77.5, 43.95],
+        [-78.9, 43.9], [-79.6, 43.6]]                                                                   // Ontario
+];
+
+export const getDMARegion = (state: string): MapRegion =>
+    state === 'AK' ? 'ALASKA' : state === 'HI' ? 'HAWAII' : 'LOWER_48';
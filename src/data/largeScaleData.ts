@@ -1,9 +1,22 @@
+/**
+ * Large Scale Data - Seeded portfolio generator for demos, screenshots and tests
+ *
+ * generateLargeScaleData(config) builds brands → campaigns → flights → lines from
+ * a DatasetConfig. Every random draw comes from utils/random under the config's
+ * seed, and dates are anchored to config.anchorDate, so the same config always
+ * produces the same dataset. See datasetFixture.ts to save one as a fixture.
+ */
+
 import { Brand, Campaign, Flight, Line, EntityStatus, PerformanceMetrics, ForecastMetrics, DeliveryMetrics, Segment } from '../types';
 import { getRandomSegments } from './segmentLibrary';
+import { random, randomBetween, randomInt, randomItem, weightedItem, withRandomSeed } from '../utils/random';
 
 const CAMPAIGN_STATUSES: EntityStatus[] = ['ACTIVE', 'PAUSED', 'DRAFT', 'COMPLETED', 'ARCHIVED'];
 const TAGS = ['Q1', 'Q2', 'Q3', 'Q4', 'Holiday', 'Back to School', 'Brand Awareness', 'Performance', 'Retargeting', 'Experimental'];
-const CHANNELS = ['Search', 'Social', 'Display', 'TV', 'Radio', 'OOH', 'Print'] as const;
+export const DATASET_CHANNELS = ['Search', 'Social', 'Display', 'TV', 'Radio', 'OOH', 'Print'] as const;
+export type DatasetChannel = typeof DATASET_CHANNELS[number];
+
+const BRAND_NAMES = ['Coca Cola', 'Nike', 'Apple', 'Samsung', 'Toyota', 'Ford', 'Pepsi', 'Verizon', 'AT&T', 'Amazon'];
 
 const INDUSTRIES = ['Automotive', 'Retail', 'Financial Services', 'Technology', 'Healthcare', 'CPG', 'Travel', 'Entertainment'];
 
@@ -17,32 +30,78 @@ const VENDORS_BY_CHANNEL = {
     Print: ['Local Newspapers', 'Trade Publications', 'Magazines', 'Direct Mail']
 };
 
-const generateId = () => Math.random().toString(36).substring(2, 9);
+/**
+ * What to generate. Ranges are [min, max], inclusive for counts.
+ */
+export interface DatasetConfig {
+    seed: number;
+    brandCount: number;              // Brands past the built-in names are called "Brand 11", ...
+    campaignsPerBrand: number;
+    flightsPerCampaign: [number, number];
+    linesPerFlight: [number, number];
+    channelMix: Partial<Record<DatasetChannel, number>>; // Relative weights; 0 leaves a channel out
+    performance: {
+        ctr: [number, number];
+        cvr: [number, number];
+        deliveryVariance: [number, number]; // Delivered vs. planned, e.g. [0.85, 1.15]
+        conversionValue: number;            // Revenue per conversion, for ROAS
+    };
+    anchorDate?: string;             // YYYY-MM-DD "today" for the dataset (default: today)
+    yearsBack: number;               // Campaigns run in the anchor year or up to this many years before
+}
+
+export const DEFAULT_DATASET_CONFIG: DatasetConfig = {
+    seed: 42,
+    brandCount: 10,
+    campaignsPerBrand: 50,
+    flightsPerCampaign: [2, 5],
+    linesPerFlight: [3, 8],
+    channelMix: { Search: 1, Social: 1, Display: 1, TV: 1, Radio: 1, OOH: 1, Print: 1 },
+    performance: {
+        ctr: [0.005, 0.03],
+        cvr: [0.01, 0.06],
+        deliveryVariance: [0.85, 1.15],
+        conversionValue: 50
+    },
+    yearsBack: 3
+};
+
+/**
+ * Fill in defaults and pin the anchor date, so the result can be stored with a fixture
+ */
+export function resolveDatasetConfig(config: Partial<DatasetConfig> = {}): Required<DatasetConfig> {
+    return {
+        ...DEFAULT_DATASET_CONFIG,
+        ...config,
+        performance: { ...DEFAULT_DATASET_CONFIG.performance, ...config.performance },
+        anchorDate: config.anchorDate || new Date().toISOString().split('T')[0]
+    };
+}
+
+const generateId = () => random().toString(36).substring(2, 9);
 
-const getRandomItem = <T>(arr: readonly T[]): T => arr[Math.floor(Math.random() * arr.length)];
-const getRandomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+const pad = (value: number) => String(value).padStart(2, '0');
 
 // Weighted random for Tiers
 const getWeightedTier = (): 'Enterprise' | 'Mid-Market' | 'SMB' => {
-    const rand = Math.random();
+    const rand = random();
     if (rand < 0.2) return 'Enterprise';
     if (rand < 0.7) return 'Mid-Market';
     return 'SMB';
 };
 
 const generateDateRange = (year: number) => {
-    const startMonth = getRandomInt(0, 11);
-    const endMonth = getRandomInt(startMonth, 11);
-    const startDate = new Date(year, startMonth, 1).toISOString().split('T')[0];
-    const endDate = new Date(year, endMonth, 28).toISOString().split('T')[0];
-    return { startDate, endDate };
+    const startMonth = randomInt(1, 12);
+    const endMonth = randomInt(startMonth, 12);
+    return { startDate: `${year}-${pad(startMonth)}-01`, endDate: `${year}-${pad(endMonth)}-28` };
 };
 
 // Generate realistic performance metrics based on status and budget
 const generatePerformanceMetrics = (
     budget: number,
     status: EntityStatus,
-    cpm: number
+    cpm: number,
+    ranges: DatasetConfig['performance']
 ): { performance?: PerformanceMetrics; forecast: ForecastMetrics; delivery?: DeliveryMetrics } => {
 
     // Base Forecast
@@ -67,26 +126,26 @@ const generatePerformanceMetrics = (
     if (status === 'COMPLETED' || status === 'ARCHIVED') {
         completionPct = 1.0;
     } else if (status === 'PAUSED') {
-        completionPct = Math.random() * 0.6; // Paused somewhere between 0-60%
+        completionPct = random() * 0.6; // Paused somewhere between 0-60%
     } else if (status === 'ACTIVE') {
-        completionPct = Math.random() * 0.9; // Active somewhere between 0-90%
+        completionPct = random() * 0.9; // Active somewhere between 0-90%
     }
 
     // Actuals (add some variance)
-    const variance = 0.85 + Math.random() * 0.3; // 85% - 115% delivery
+    const variance = randomBetween(...ranges.deliveryVariance);
     const actualImpressions = Math.floor(impressions * completionPct * variance);
     const actualSpend = budget * completionPct * variance; // Assuming spend tracks with impressions
 
     // Performance Ratios
-    const ctr = 0.005 + Math.random() * 0.025; // 0.5% - 3.0% CTR
+    const ctr = randomBetween(...ranges.ctr);
     const clicks = Math.floor(actualImpressions * ctr);
 
-    const cvr = 0.01 + Math.random() * 0.05; // 1% - 6% CVR
+    const cvr = randomBetween(...ranges.cvr);
     const conversions = Math.floor(clicks * cvr);
 
     const cpc = clicks > 0 ? actualSpend / clicks : 0;
     const cpa = conversions > 0 ? actualSpend / conversions : 0;
-    const roas = conversions > 0 ? (conversions * 50) / actualSpend : 0; // Assume $50 value per conversion
+    const roas = conversions > 0 ? (conversions * ranges.conversionValue) / actualSpend : 0;
 
     const performance: PerformanceMetrics = {
         impressions: actualImpressions,
@@ -111,15 +170,15 @@ const generatePerformanceMetrics = (
     return { performance, forecast, delivery };
 };
 
-const generateLineItems = (count: number, flightBudget: number, flightStatus: EntityStatus): Line[] => {
+const generateLineItems = (count: number, flight: Pick<Flight, 'budget' | 'status' | 'startDate' | 'endDate'>, config: DatasetConfig): Line[] => {
     const lines: Line[] = [];
     for (let i = 0; i < count; i++) {
-        const budget = flightBudget / count;
-        const channel = getRandomItem(CHANNELS);
-        const vendor = getRandomItem(VENDORS_BY_CHANNEL[channel]);
+        const budget = flight.budget / count;
+        const channel = weightedItem(config.channelMix);
+        const vendor = randomItem(VENDORS_BY_CHANNEL[channel]);
 
         // Assign Segments
-        const numSegments = getRandomInt(1, 3);
+        const numSegments = randomInt(1, 3);
         // Cast to Segment[] because getRandomSegments returns Omit<Segment, 'id'>[]
         // We'll just mock the ID for now or accept the type mismatch if the interface allows
         // The Segment interface in types.ts has 'id', but segmentLibrary returns Omit<Segment, 'id'>
@@ -140,19 +199,19 @@ const generateLineItems = (count: number, flightBudget: number, flightStatus: En
         const finalCpm = baseCpm + segmentUplift;
 
         // Generate Metrics
-        const { performance, forecast, delivery } = generatePerformanceMetrics(budget, flightStatus, finalCpm);
+        const { performance, forecast, delivery } = generatePerformanceMetrics(budget, flight.status, finalCpm, config.performance);
 
         lines.push({
             id: generateId(),
             name: `${channel} - ${vendor} - ${assignedSegments[0].name}`,
             channel,
-            status: flightStatus === 'DRAFT' ? 'PLANNING' : flightStatus === 'ARCHIVED' ? 'COMPLETED' : flightStatus as any,
+            status: flight.status === 'DRAFT' ? 'PLANNING' : flight.status === 'ARCHIVED' ? 'COMPLETED' : flight.status as any,
             vendor,
             adUnit: 'Standard',
             rate: finalCpm,
             costMethod: 'CPM',
-            startDate: '2025-01-01',
-            endDate: '2025-12-31',
+            startDate: flight.startDate,
+            endDate: flight.endDate,
             quantity: forecast.impressions,
             totalCost: budget,
             buyingType: 'Auction',
@@ -166,48 +225,52 @@ const generateLineItems = (count: number, flightBudget: number, flightStatus: En
     return lines;
 };
 
-const generateFlights = (campaignId: string, count: number, campaignBudget: number, campaignStatus: EntityStatus): Flight[] => {
+const generateFlights = (campaign: Pick<Campaign, 'id' | 'budget' | 'status' | 'startDate' | 'endDate'>, count: number, config: DatasetConfig): Flight[] => {
     const flights: Flight[] = [];
+    const campaignStatus = campaign.status;
     for (let i = 0; i < count; i++) {
-        const budget = campaignBudget / count;
+        const budget = campaign.budget / count;
         // If campaign is active, flights can be active, completed, or draft (future)
         // For simplicity, let's align flight status roughly with campaign status
         let status: EntityStatus = campaignStatus;
 
         if (campaignStatus === 'ACTIVE') {
             // Randomly make some flights completed or draft if the campaign is active
-            const rand = Math.random();
+            const rand = random();
             if (rand < 0.3) status = 'COMPLETED';
             else if (rand > 0.8) status = 'DRAFT';
         }
 
-        flights.push({
+        const flight: Flight = {
             id: generateId(),
-            name: `Flight ${i + 1} - ${getRandomItem(['Awareness', 'Consideration', 'Conversion'])}`,
-            campaignId,
-            startDate: '2025-01-01',
-            endDate: '2025-12-31',
+            name: `Flight ${i + 1} - ${randomItem(['Awareness', 'Consideration', 'Conversion'])}`,
+            campaignId: campaign.id,
+            startDate: campaign.startDate,
+            endDate: campaign.endDate,
             budget,
             status,
-            tags: [getRandomItem(TAGS), getRandomItem(TAGS)],
-            lines: generateLineItems(getRandomInt(3, 8), budget, status)
-        });
+            tags: [randomItem(TAGS), randomItem(TAGS)],
+            lines: []
+        };
+        flight.lines = generateLineItems(randomInt(...config.linesPerFlight), flight, config);
+        flights.push(flight);
     }
     return flights;
 };
 
-export const generateLargeScaleData = (): Brand[] => {
+const generateBrands = (config: Required<DatasetConfig>): Brand[] => {
     const brands: Brand[] = [];
-    const brandNames = ['Coca Cola', 'Nike', 'Apple', 'Samsung', 'Toyota', 'Ford', 'Pepsi', 'Verizon', 'AT&T', 'Amazon'];
+    const anchor = new Date(`${config.anchorDate}T00:00:00Z`);
+    const anchorYear = anchor.getUTCFullYear();
+    const brandNames = Array.from({ length: config.brandCount }, (_, i) => BRAND_NAMES[i] ?? `Brand ${i + 1}`);
 
     brandNames.forEach((name) => {
         const campaigns: Campaign[] = [];
-        // Generate 50 campaigns per brand (reduced from 100 for performance, still plenty)
-        for (let i = 0; i < 50; i++) {
-            const year = getRandomInt(2023, 2026);
+        for (let i = 0; i < config.campaignsPerBrand; i++) {
+            const year = randomInt(anchorYear - config.yearsBack, anchorYear);
             const { startDate, endDate } = generateDateRange(year);
-            const budget = getRandomInt(50000, 5000000);
-            const status = getRandomItem(CAMPAIGN_STATUSES);
+            const budget = randomInt(50000, 5000000);
+            const status = randomItem(CAMPAIGN_STATUSES);
             const id = generateId();
 
             campaigns.push({
@@ -219,9 +282,9 @@ export const generateLargeScaleData = (): Brand[] => {
                 startDate,
                 endDate,
                 status,
-                tags: [getRandomItem(TAGS), getRandomItem(TAGS)],
+                tags: [randomItem(TAGS), randomItem(TAGS)],
                 goals: ['Brand Awareness'],
-                flights: generateFlights(id, getRandomInt(2, 5), budget, status)
+                flights: generateFlights({ id, budget, status, startDate, endDate }, randomInt(...config.flightsPerCampaign), config)
             });
         }
 
@@ -234,17 +297,26 @@ export const generateLargeScaleData = (): Brand[] => {
             activeCampaigns: campaigns.filter(c => c.status === 'ACTIVE').length,
             campaigns,
             // Enhanced Brand Fields
-            industry: getRandomItem(INDUSTRIES),
+            industry: randomItem(INDUSTRIES),
             tier: getWeightedTier(),
-            status: campaigns.filter(c => c.status === 'ACTIVE').length > 0 ? 'Active' : (Math.random() > 0.5 ? 'Active' : 'Inactive'),
-            accountManager: `Account Manager ${getRandomInt(1, 5)}`,
-            lastActivity: new Date(Date.now() - Math.random() * 10 * 24 * 60 * 60 * 1000).toISOString(),
-            monthlySpend: Math.floor(Math.random() * 500000) + 10000,
+            status: campaigns.filter(c => c.status === 'ACTIVE').length > 0 ? 'Active' : (random() > 0.5 ? 'Active' : 'Inactive'),
+            accountManager: `Account Manager ${randomInt(1, 5)}`,
+            lastActivity: new Date(anchor.getTime() - random() * 10 * 24 * 60 * 60 * 1000).toISOString(),
+            monthlySpend: Math.floor(random() * 500000) + 10000,
             campaignCount: campaigns.length,
             // lifetimeValue calculated roughly
-            lifetimeValue: Math.floor(Math.random() * 10000000) + 100000
+            lifetimeValue: Math.floor(random() * 10000000) + 100000
         } as any); // Cast to any to support new fields if Brand interface isn't fully updated in all files yet
     });
 
     return brands;
 };
+
+/**
+ * Generate a brand portfolio. The same config (including seed and anchorDate)
+ * always gives the same brands.
+ */
+export const generateLargeScaleData = (overrides: Partial<DatasetConfig> = {}): Brand[] => {
+    const config = resolveDatasetConfig(overrides);
+    return withRandomSeed(config.seed, () => generateBrands(config));
+};
@@ -1,4 +1,5 @@
 import { Segment } from '../types';
+import { random } from '../utils/random';
 
 /**
  * Comprehensive library of audience segments for targeting
@@ -523,6 +524,6 @@ export function searchSegments(query: string): Omit<Segment, 'id'>[] {
  */
 export function getRandomSegments(count: number = 1, category?: SegmentCategory): Omit<Segment, 'id'>[] {
     const pool = category ? getSegmentsByCategory(category) : SEGMENT_LIBRARY;
-    const shuffled = [...pool].sort(() => 0.5 - Math.random());
+    const shuffled = [...pool].sort(() => 0.5 - random());
     return shuffled.slice(0, count);
 }
@@ -16,6 +16,49 @@ const generateMessageId = (prefix: string = 'msg') =>
  */
 export type AgentState = 'INIT' | 'BUDGETING' | 'CHANNEL_SELECTION' | 'REFINEMENT' | 'OPTIMIZATION' | 'FINISHED';
 
+export type PendingActionType = 'PAUSE_UNDERPERFORMERS' | 'SCALE_WINNERS' | 'APPLY_OPTIMIZATION' | 'APPLY_COMPOUND' | 'SHIFT_EFFECTIVE_REACH' | 'APPLY_TOOL_CALL';
+
+/**
+ * An action waiting for the user to say "yes" or "no"
+ */
+export interface PendingAction {
+    type: PendingActionType;
+    description: string;
+    details: string[];
+    estimatedImpact: number;
+    data?: any; // Additional data needed to execute the action
+}
+
+export type DialogIntent = 'create_campaign' | 'shift_budget';
+
+/**
+ * Values collected so far by a slot-filling dialog (see DialogManager)
+ */
+export interface DialogSlots {
+    // create_campaign
+    client?: string;
+    budget?: number;
+    startDate?: string;
+    endDate?: string;
+    objective?: 'awareness' | 'consideration' | 'conversion';
+    channels?: string[];
+    geo?: string[];
+    audience?: string[];
+    // shift_budget
+    amount?: number;
+    source?: string;
+    target?: string;
+}
+
+/**
+ * A multi-turn dialog collecting the fields an intent needs
+ */
+export interface DialogState {
+    intent: DialogIntent;
+    slots: DialogSlots;
+    confirming: boolean; // Every required slot is filled and the summary has been shown
+}
+
 /**
  * Core agent context - shared across all agent modules
  */
@@ -37,6 +80,15 @@ export interface AgentContext {
 
     /** Log of agent executions for transparency */
     executions: AgentExecution[];
+
+    /** Action awaiting confirmation */
+    pendingAction?: PendingAction;
+
+    /** If true, skip confirmation dialogs */
+    expressMode?: boolean;
+
+    /** Slot-filling dialog in progress */
+    dialog?: DialogState;
 }
 
 /**
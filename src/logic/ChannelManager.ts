@@ -5,11 +5,17 @@
  * including adding, pausing, resuming, and modifying placements.
  */
 
-import { AgentMessage } from '../types';
+import { AgentMessage, MediaPlan, Line, IOStatus } from '../types';
 import { createAgentMessage, AgentContext } from './AgentContext';
 import { generateLine, calculatePlanMetrics } from './dummyData';
 import { generateBatchPlacements } from '../utils/placementGenerator';
 import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, PatchPath, getPlanScope } from '../utils/planPatch';
+import { buildInsertionOrders, InsertionOrder, IO_STATUS_LABELS } from '../utils/ioGenerator';
+import { DateChange, daysBetween, shiftDate, toDayNumber } from '../utils/campaignTimeline';
+import { resolveDateRange, resolveDuration, shiftDateBy } from './dateResolver';
+import { recommendBudgetAllocation, CampaignObjective } from '../utils/budgetOptimizer';
+import { extractBudget } from './entityExtractor';
 
 /**
  * TV Networks that trigger TV channel placements
@@ -99,7 +105,7 @@ const CHANNEL_MAP: Record<string, PlacementTemplate['channel']> = {
 /**
  * Determine channel type from vendor name
  */
-function getChannelFromVendor(vendor: string): { channel: string; vendorName: string } {
+export function getChannelFromVendor(vendor: string): { channel: string; vendorName: string } {
     const lowerVendor = vendor.toLowerCase();
 
     if (SOCIAL_PLATFORMS.includes(lowerVendor)) {
@@ -320,30 +326,27 @@ export class ChannelManager {
         }, activeFlight);
 
         // Add to campaign
+        const tx = new PatchTransaction(plan);
         if (!plan.campaign.placements) {
-            plan.campaign.placements = [];
+            tx.set(['campaign', 'placements'], []);
         }
 
         let totalCost = 0;
         placements.forEach(p => {
-            plan.campaign.placements!.push(p);
+            tx.push(['campaign', 'placements'], p);
             totalCost += p.totalCost;
         });
 
         // Update plan totals
-        plan.totalSpend += totalCost;
-        plan.remainingBudget = plan.campaign.budget - plan.totalSpend;
-        plan.metrics = calculatePlanMetrics(plan.campaign.placements);
+        tx.set(['totalSpend'], plan.totalSpend + totalCost);
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements!));
 
         // Record action for undo
-        actionHistory.recordAction({
-            id: `batch-${Date.now()}`,
+        actionHistory.commit(tx, getPlanScope(plan), {
             type: 'add_placement',
             description: `Added ${count} ${channel} placements`,
-            userCommand: input,
-            stateBefore: { placementCount: plan.campaign.placements.length - count },
-            stateAfter: { placementCount: plan.campaign.placements.length },
-            canUndo: true
+            userCommand: input
         });
 
         // Generate summary
@@ -431,6 +434,13 @@ export class ChannelManager {
             else channel = channelStr.charAt(0).toUpperCase() + channelStr.slice(1);
         }
 
+        return this.addPlacement(plan, channel, networkName, programName, input);
+    }
+
+    /**
+     * Add one line on a channel, optionally on a named network and program, sized at 5% of the budget
+     */
+    addPlacement(plan: MediaPlan, channel: string, networkName: string | undefined, programName: string | undefined, input: string): AgentMessage {
         // Generate placement
         const p = generateLine(channel as any, plan.campaign.advertiser, networkName, programName);
 
@@ -449,14 +459,15 @@ export class ChannelManager {
         }
 
         // Add to plan
+        const tx = new PatchTransaction(plan);
         if (!plan.campaign.placements) {
-            plan.campaign.placements = [];
+            tx.set(['campaign', 'placements'], []);
         }
 
-        plan.campaign.placements.push(p);
-        plan.totalSpend += p.totalCost;
-        plan.remainingBudget = plan.campaign.budget - plan.totalSpend;
-        plan.metrics = calculatePlanMetrics(plan.campaign.placements);
+        tx.push(['campaign', 'placements'], p);
+        tx.set(['totalSpend'], plan.totalSpend + p.totalCost);
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements!));
 
         // Format display name
         const displayName = channel === 'TV' && p.vendor && p.adUnit
@@ -465,6 +476,12 @@ export class ChannelManager {
                 ? `${networkName}${programName ? ` - ${programName}` : ''}`
                 : channel);
 
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'add_placement',
+            description: `Added ${displayName} placement`,
+            userCommand: input
+        });
+
         const responseContent = `I've added a new **${displayName}** placement for $${p.totalCost.toLocaleString()}.\n\nCurrent Spend: $${plan.totalSpend.toLocaleString()}`;
 
         return createAgentMessage(responseContent, ['Add another channel', 'Looks good', 'Export PDF']);
@@ -517,16 +534,23 @@ export class ChannelManager {
         }
 
         // Add to plan
+        const tx = new PatchTransaction(plan);
         if (!plan.campaign.placements) {
-            plan.campaign.placements = [];
+            tx.set(['campaign', 'placements'], []);
         }
 
-        plan.campaign.placements.push(p);
-        plan.totalSpend += p.totalCost;
-        plan.remainingBudget = plan.campaign.budget - plan.totalSpend;
-        plan.metrics = calculatePlanMetrics(plan.campaign.placements);
+        tx.push(['campaign', 'placements'], p);
+        tx.set(['totalSpend'], plan.totalSpend + p.totalCost);
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements!));
 
         const displayName = `${vendorName} (${channel})`;
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'add_placement',
+            description: `Added ${displayName} placement`,
+            userCommand: input
+        });
+
         const responseContent = `I've added a new **${displayName}** placement for $${p.totalCost.toLocaleString()}.\n\nCurrent Spend: $${plan.totalSpend.toLocaleString()}`;
 
         return createAgentMessage(responseContent, ['Add another channel', 'Looks good', 'Export PDF']);
@@ -549,10 +573,25 @@ export class ChannelManager {
         const pauseRowMatch = lowerInput.match(/pause\s+(?:row\s+)?(\d+)/i);
         const pauseNameMatch = lowerInput.match(/pause\s+(.+?)(?:\s+and|\s*$)/i);
 
-        if (!pauseRowMatch && !pauseNameMatch) return null;
+        const target = pauseRowMatch ? parseInt(pauseRowMatch[1]) : pauseNameMatch?.[1];
+        if (target === undefined) return null;
 
         const plan = context.mediaPlan;
-        if (!plan || !plan.campaign.placements) {
+        if (!plan) {
+            return createAgentMessage(
+                "I need an active media plan with placements to pause.",
+                ['Add placements first']
+            );
+        }
+
+        return this.pauseLines(plan, target, input);
+    }
+
+    /**
+     * Pause the line at a row number, or every line whose vendor or name contains a search term
+     */
+    pauseLines(plan: MediaPlan, target: number | string, input: string): AgentMessage {
+        if (!plan.campaign.placements) {
             return createAgentMessage(
                 "I need an active media plan with placements to pause.",
                 ['Add placements first']
@@ -561,24 +600,25 @@ export class ChannelManager {
 
         let pausedCount = 0;
         const pausedItems: string[] = [];
+        const tx = new PatchTransaction(plan);
 
-        if (pauseRowMatch) {
-            const rowNum = parseInt(pauseRowMatch[1]);
+        if (typeof target === 'number') {
+            const rowNum = target;
             if (rowNum > 0 && rowNum <= plan.campaign.placements.length) {
                 const placement = plan.campaign.placements[rowNum - 1];
                 if (placement.performance) {
-                    placement.performance.status = 'PAUSED';
+                    tx.set(['campaign', 'placements', { id: placement.id }, 'performance', 'status'], 'PAUSED');
                     pausedItems.push(`Row #${rowNum} (${placement.vendor})`);
                     pausedCount++;
                 }
             }
-        } else if (pauseNameMatch) {
-            const searchTerm = pauseNameMatch[1].toLowerCase().trim();
+        } else {
+            const searchTerm = target.toLowerCase().trim();
             plan.campaign.placements.forEach((p) => {
                 if (p.vendor?.toLowerCase().includes(searchTerm) ||
                     p.name?.toLowerCase().includes(searchTerm)) {
                     if (p.performance) {
-                        p.performance.status = 'PAUSED';
+                        tx.set(['campaign', 'placements', { id: p.id }, 'performance', 'status'], 'PAUSED');
                         pausedItems.push(`${p.vendor || p.name}`);
                         pausedCount++;
                     }
@@ -586,6 +626,12 @@ export class ChannelManager {
             });
         }
 
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'pause_placement',
+            description: `Paused ${pausedItems.join(', ')}`,
+            userCommand: input
+        });
+
         if (pausedCount > 0) {
             return createAgentMessage(
                 `I've paused ${pausedCount} placement(s): ${pausedItems.join(', ')}.`,
@@ -627,13 +673,14 @@ export class ChannelManager {
 
         let resumedCount = 0;
         const resumedItems: string[] = [];
+        const tx = new PatchTransaction(plan);
 
         if (resumeRowMatch) {
             const rowNum = parseInt(resumeRowMatch[1]);
             if (rowNum > 0 && rowNum <= plan.campaign.placements.length) {
                 const placement = plan.campaign.placements[rowNum - 1];
                 if (placement.performance && placement.performance.status === 'PAUSED') {
-                    placement.performance.status = 'ACTIVE';
+                    tx.set(['campaign', 'placements', { id: placement.id }, 'performance', 'status'], 'ACTIVE');
                     resumedItems.push(`Row #${rowNum} (${placement.vendor})`);
                     resumedCount++;
                 }
@@ -644,7 +691,7 @@ export class ChannelManager {
                 if (p.vendor?.toLowerCase().includes(searchTerm) ||
                     p.name?.toLowerCase().includes(searchTerm)) {
                     if (p.performance && p.performance.status === 'PAUSED') {
-                        p.performance.status = 'ACTIVE';
+                        tx.set(['campaign', 'placements', { id: p.id }, 'performance', 'status'], 'ACTIVE');
                         resumedItems.push(`${p.vendor || p.name}`);
                         resumedCount++;
                     }
@@ -652,6 +699,12 @@ export class ChannelManager {
             });
         }
 
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'resume_placement',
+            description: `Resumed ${resumedItems.join(', ')}`,
+            userCommand: input
+        });
+
         if (resumedCount > 0) {
             return createAgentMessage(
                 `I've resumed ${resumedCount} placement(s): ${resumedItems.join(', ')}.`,
@@ -695,7 +748,13 @@ export class ChannelManager {
             const oldSegment = placement.segment;
 
             const displaySegment = newSegment.charAt(0).toUpperCase() + newSegment.slice(1);
-            placement.segment = displaySegment;
+            const tx = new PatchTransaction(plan);
+            tx.set(['campaign', 'placements', { id: placement.id }, 'segment'], displaySegment);
+            actionHistory.commit(tx, getPlanScope(plan), {
+                type: 'update_segment',
+                description: `Changed ${placement.vendor} segment to ${displaySegment}`,
+                userCommand: input
+            });
 
             return createAgentMessage(
                 `Updated Row #${rowNum} (${placement.vendor}): Changed segment from "${oldSegment}" to "**${displaySegment}**".`,
@@ -753,21 +812,30 @@ export class ChannelManager {
             if (rowNum > 0 && rowNum <= plan.campaign.placements.length) {
                 const placement = plan.campaign.placements[rowNum - 1];
                 const oldBudget = placement.totalCost;
-                placement.totalCost = newBudget;
+                const linePath = ['campaign', 'placements', { id: placement.id }];
+                const tx = new PatchTransaction(plan);
+                tx.set([...linePath, 'totalCost'], newBudget);
 
                 // Also update quantity to match new budget (for CPM-based placements)
                 if (placement.costMethod === 'CPM' && placement.rate > 0) {
-                    placement.quantity = Math.floor((newBudget * 1000) / placement.rate);
+                    const quantity = Math.floor((newBudget * 1000) / placement.rate);
+                    tx.set([...linePath, 'quantity'], quantity);
                     if (placement.forecast) {
-                        placement.forecast.impressions = placement.quantity;
-                        placement.forecast.spend = newBudget;
+                        tx.set([...linePath, 'forecast', 'impressions'], quantity);
+                        tx.set([...linePath, 'forecast', 'spend'], newBudget);
                     }
                 }
 
                 // Recalculate plan totals
-                plan.totalSpend = plan.campaign.placements.reduce((acc, p) => acc + p.totalCost, 0);
-                plan.remainingBudget = plan.campaign.budget - plan.totalSpend;
-                plan.metrics = calculatePlanMetrics(plan.campaign.placements);
+                tx.set(['totalSpend'], plan.campaign.placements.reduce((acc, p) => acc + p.totalCost, 0));
+                tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+                tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements));
+
+                actionHistory.commit(tx, getPlanScope(plan), {
+                    type: 'update_budget',
+                    description: `Changed ${placement.vendor} (Row ${rowNum}) budget to $${newBudget.toLocaleString()}`,
+                    userCommand: input
+                });
 
                 return createAgentMessage(
                     `Updated **${placement.vendor}** (Row ${rowNum}) budget from $${oldBudget.toLocaleString()} to **$${newBudget.toLocaleString()}**.\n\nNew total spend: $${plan.totalSpend.toLocaleString()}`,
@@ -802,6 +870,13 @@ export class ChannelManager {
             newBudget = rawValue * 1000;
         }
 
+        return this.setCampaignBudget(plan, newBudget, input);
+    }
+
+    /**
+     * Set the total campaign budget as one undoable action
+     */
+    setCampaignBudget(plan: MediaPlan, newBudget: number, input: string): AgentMessage {
         // Validate budget is reasonable
         if (newBudget <= 0) {
             return createAgentMessage(
@@ -810,8 +885,14 @@ export class ChannelManager {
             );
         }
 
-        plan.campaign.budget = newBudget;
-        plan.remainingBudget = newBudget - plan.totalSpend;
+        const tx = new PatchTransaction(plan);
+        tx.set(['campaign', 'budget'], newBudget);
+        tx.set(['remainingBudget'], newBudget - plan.totalSpend);
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_budget',
+            description: `Changed campaign budget to $${newBudget.toLocaleString()}`,
+            userCommand: input
+        });
 
         return createAgentMessage(
             `Updated total campaign budget to **$${newBudget.toLocaleString()}**. You have $${plan.remainingBudget.toLocaleString()} remaining.`,
@@ -820,15 +901,18 @@ export class ChannelManager {
     }
 
     /**
-     * Change dates
+     * Change dates. A structured change (e.g. a drag on the timeline) reschedules one line or flight.
      */
     changeDates(
         input: string,
-        context: AgentContext
+        context: AgentContext,
+        change?: DateChange
     ): AgentMessage | null {
         const lowerInput = input.toLowerCase();
 
-        if (!lowerInput.includes('date') && !lowerInput.includes('run from') && !lowerInput.includes('delay')) {
+        const mentionsDates = lowerInput.includes('date') || lowerInput.includes('run from') || lowerInput.includes('delay') ||
+            /\b(?:reschedule|run (?:it |the campaign |the plan )?(?:in|during|over|through|for)|move (?:the )?(?:campaign|flight|plan) to)\b/.test(lowerInput);
+        if (!change && !mentionsDates) {
             return null;
         }
 
@@ -840,19 +924,394 @@ export class ChannelManager {
             );
         }
 
+        if (change) {
+            return this.rescheduleDates(plan, change, input);
+        }
+
         if (lowerInput.includes('delay')) {
-            const oldStart = new Date(plan.campaign.startDate);
-            oldStart.setMonth(oldStart.getMonth() + 1);
-            plan.campaign.startDate = oldStart.toISOString().split('T')[0];
+            const delay = resolveDuration(input) || { amount: 1, unit: 'month' as const };
+            const label = `${delay.amount} ${delay.unit}${delay.amount === 1 ? '' : 's'}`;
+            const tx = new PatchTransaction(plan);
+            tx.set(['campaign', 'startDate'], shiftDateBy(plan.campaign.startDate, delay));
+            actionHistory.commit(tx, getPlanScope(plan), {
+                type: 'update_dates',
+                description: `Delayed campaign start by ${label}`,
+                userCommand: input
+            });
             return createAgentMessage(
-                "I've shifted the campaign start date by 1 month.",
+                `I've shifted the campaign start date by ${label}.`,
                 ['Delay start by 1 month', 'Export PDF']
             );
         }
 
+        // "run from Nov 1 through Dec 24", "move the campaign to Q4 2026", "the 6 weeks before Black Friday"
+        const range = resolveDateRange(input, { fiscalYearStartMonth: context.brand?.fiscalYearStartMonth });
+        if (range) {
+            const response = this.rescheduleCampaign(plan, range.startDate, range.endDate, input, range.text);
+            if (range.startsInPast) {
+                response.content += `\n\n⚠️ ${range.startDate} is before today, so the first part of this window has already passed.`;
+            }
+            return response;
+        }
+
         return createAgentMessage(
-            "I've updated the flight dates. (Note: For this prototype, please use 'Delay start' to shift dates).",
-            ['Delay start by 1 month', 'Export PDF']
+            `I couldn't work out which dates you meant. Try "run from Nov 1 through Dec 24", "move the campaign to Q4 2026" or "the 6 weeks before Black Friday".`,
+            ['Delay start by 1 month', 'Move the campaign to next quarter']
+        );
+    }
+
+    /**
+     * Move the campaign window, and the open flight and its lines with it, to a new date range.
+     * With no end date the campaign keeps its current length.
+     */
+    rescheduleCampaign(plan: MediaPlan, startDate: string, endDate: string | undefined, input: string, phrase?: string): AgentMessage {
+        endDate = endDate || shiftDate(startDate, daysBetween(plan.campaign.startDate, plan.campaign.endDate) - 1);
+
+        const tx = new PatchTransaction(plan);
+        tx.set(['campaign', 'startDate'], startDate);
+        tx.set(['campaign', 'endDate'], endDate);
+
+        const flight = plan.campaign.flights?.find(f => f.id === plan.activeFlightId);
+        if (flight) {
+            tx.set(['campaign', 'flights', { id: flight.id }, 'startDate'], startDate);
+            tx.set(['campaign', 'flights', { id: flight.id }, 'endDate'], endDate);
+        }
+        (plan.campaign.placements || []).forEach(line => {
+            tx.set(['campaign', 'placements', { id: line.id }, 'startDate'], startDate);
+            tx.set(['campaign', 'placements', { id: line.id }, 'endDate'], endDate);
+        });
+
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_dates',
+            description: `Moved ${flight ? flight.name : 'campaign'} to ${startDate} – ${endDate}`,
+            userCommand: input
+        });
+
+        return createAgentMessage(
+            `📅 Moved ${flight ? `**${flight.name}**` : 'the campaign'} to **${startDate} – ${endDate}** (${phrase ? `"${phrase}", ` : ''}${daysBetween(startDate, endDate)} days). ` +
+            `All ${plan.campaign.placements?.length || 0} lines now run across the new window.`,
+            ['Undo', 'Show dark periods', 'Export PDF']
+        );
+    }
+
+    /**
+     * Move a line or flight to new dates as one undoable action.
+     * Moving a whole flight shifts its lines with it; the campaign window grows to fit.
+     */
+    private rescheduleDates(plan: MediaPlan, change: DateChange, input: string): AgentMessage {
+        const { startDate, endDate } = change;
+        if (toDayNumber(endDate) < toDayNumber(startDate)) {
+            return createAgentMessage(
+                `The end date (${endDate}) must be on or after the start date (${startDate}).`,
+                []
+            );
+        }
+
+        const flight = plan.campaign.flights?.find(f => f.id === change.flightId);
+        const isActiveFlight = !flight || flight.id === plan.activeFlightId;
+        const linesPath: PatchPath = isActiveFlight
+            ? ['campaign', 'placements']
+            : ['campaign', 'flights', { id: flight!.id }, 'lines'];
+        const lines: Line[] = (isActiveFlight ? plan.campaign.placements : flight!.lines) || [];
+
+        const tx = new PatchTransaction(plan);
+        let description: string;
+
+        if (change.lineId) {
+            const line = lines.find(l => l.id === change.lineId);
+            if (!line) {
+                return createAgentMessage("I couldn't find that line in the plan.", []);
+            }
+            if (line.startDate === startDate && line.endDate === endDate) {
+                return createAgentMessage(`**${line.name}** already runs ${startDate} – ${endDate}.`, []);
+            }
+            tx.set([...linesPath, { id: line.id }, 'startDate'], startDate);
+            tx.set([...linesPath, { id: line.id }, 'endDate'], endDate);
+            description = `Rescheduled ${line.name} to ${startDate} – ${endDate}`;
+        } else if (flight) {
+            if (flight.startDate === startDate && flight.endDate === endDate) {
+                return createAgentMessage(`**${flight.name}** already runs ${startDate} – ${endDate}.`, []);
+            }
+            // A move (same length) carries the lines along; a resize leaves them where they are
+            const offset = toDayNumber(startDate) - toDayNumber(flight.startDate);
+            const isMove = offset !== 0 && daysBetween(startDate, endDate) === daysBetween(flight.startDate, flight.endDate);
+
+            tx.set(['campaign', 'flights', { id: flight.id }, 'startDate'], startDate);
+            tx.set(['campaign', 'flights', { id: flight.id }, 'endDate'], endDate);
+            if (isMove) {
+                lines.forEach(line => {
+                    tx.set([...linesPath, { id: line.id }, 'startDate'], shiftDate(line.startDate, offset));
+                    tx.set([...linesPath, { id: line.id }, 'endDate'], shiftDate(line.endDate, offset));
+                });
+            }
+            description = `Moved ${flight.name} to ${startDate} – ${endDate}`;
+        } else {
+            return createAgentMessage("I couldn't find that flight in the campaign.", []);
+        }
+
+        if (toDayNumber(startDate) < toDayNumber(plan.campaign.startDate)) {
+            tx.set(['campaign', 'startDate'], startDate);
+        }
+        if (toDayNumber(endDate) > toDayNumber(plan.campaign.endDate)) {
+            tx.set(['campaign', 'endDate'], endDate);
+        }
+
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_dates',
+            description,
+            userCommand: input
+        });
+
+        return createAgentMessage(
+            `📅 ${description}.`,
+            ['Undo', 'Show dark periods', 'Export PDF']
+        );
+    }
+
+    /**
+     * Commit lines parsed by the plan importer into the plan as one undoable action
+     */
+    addImportedPlacements(plan: MediaPlan, lines: Line[], sourceName: string): AgentMessage {
+        const tx = new PatchTransaction(plan);
+        if (!plan.campaign.placements) {
+            tx.set(['campaign', 'placements'], []);
+        }
+
+        const importedCost = lines.reduce((sum, line) => sum + line.totalCost, 0);
+        lines.forEach(line => tx.push(['campaign', 'placements'], line));
+
+        tx.set(['totalSpend'], plan.totalSpend + importedCost);
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements!));
+
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'add_placement',
+            description: `Imported ${lines.length} placements from ${sourceName}`,
+            userCommand: `import ${sourceName}`
+        });
+
+        const channels = Array.from(new Set(lines.map(l => l.channel)));
+        return createAgentMessage(
+            `📥 Imported **${lines.length} placements** from **${sourceName}** ($${(importedCost / 1000).toFixed(1)}k across ${channels.join(', ')}).\n\n` +
+            `**Total Spend:** $${(plan.totalSpend / 1000).toFixed(1)}k of $${(plan.campaign.budget / 1000).toFixed(1)}k`,
+            ['Undo', 'Optimize plan', 'Export to Excel']
+        );
+    }
+
+    /**
+     * Stamp each vendor's lines with its IO number (new IOs start as drafts)
+     */
+    issueInsertionOrders(plan: MediaPlan, input: string): InsertionOrder[] {
+        const orders = buildInsertionOrders(plan);
+        const tx = new PatchTransaction(plan);
+
+        orders.forEach(order => {
+            order.lines.forEach(line => {
+                if (line.ioNumber !== order.ioNumber) {
+                    tx.set(['campaign', 'placements', { id: line.id }, 'ioNumber'], order.ioNumber);
+                }
+                if (!line.ioStatus) {
+                    tx.set(['campaign', 'placements', { id: line.id }, 'ioStatus'], 'DRAFT');
+                }
+            });
+        });
+
+        if (!tx.isEmpty) {
+            actionHistory.commit(tx, getPlanScope(plan), {
+                type: 'update_placement',
+                description: `Issued ${orders.length} insertion orders`,
+                userCommand: input
+            });
+        }
+
+        return buildInsertionOrders(plan);
+    }
+
+    /**
+     * Move every line of a vendor to a new IO status
+     */
+    setInsertionOrderStatus(plan: MediaPlan, vendor: string, status: IOStatus, input: string): AgentMessage | null {
+        const vendorLines = (plan.campaign.placements || []).filter(
+            l => l.vendor.toLowerCase() === vendor.toLowerCase()
+        );
+        if (vendorLines.length === 0) return null;
+
+        const tx = new PatchTransaction(plan);
+        const ioNumber = vendorLines.find(l => l.ioNumber)?.ioNumber;
+        vendorLines.forEach(line => {
+            tx.set(['campaign', 'placements', { id: line.id }, 'ioStatus'], status);
+        });
+
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_placement',
+            description: `Marked ${vendorLines[0].vendor} IO as ${IO_STATUS_LABELS[status].toLowerCase()}`,
+            userCommand: input
+        });
+
+        return createAgentMessage(
+            `📝 **${vendorLines[0].vendor}** insertion order${ioNumber ? ` (${ioNumber})` : ''} is now **${IO_STATUS_LABELS[status]}** across ${vendorLines.length} line${vendorLines.length === 1 ? '' : 's'}.`,
+            ['Generate insertion orders', 'Show Details', 'Undo']
+        );
+    }
+
+    /**
+     * Recommend a channel split for a budget and add one placement per recommended channel
+     */
+    allocateBudget(
+        input: string,
+        plan: MediaPlan,
+        budget: number | undefined,
+        objective: CampaignObjective,
+        channels: string[]
+    ): AgentMessage {
+        const totalBudget = budget || plan.campaign.budget || 100000;
+        const recommendation = recommendBudgetAllocation(
+            totalBudget,
+            objective,
+            channels.length > 0 ? channels : undefined
+        );
+
+        let responseContent = `**💰 Smart Budget Allocation for ${objective.charAt(0).toUpperCase() + objective.slice(1)}**\n\n`;
+        responseContent += `Total Budget: **$${(totalBudget / 1000).toFixed(0)}k**\n\n`;
+
+        recommendation.channels.forEach((ch, idx) => {
+            const emoji = idx === 0 ? '🥇' : idx === 1 ? '🥈' : idx === 2 ? '🥉' : '•';
+            responseContent += `${emoji} **${ch.channel}**: $${(ch.allocatedBudget / 1000).toFixed(1)}k (${ch.percentage.toFixed(0)}%)\n`;
+            responseContent += `   ${ch.reasoning}\n`;
+            if (ch.expectedROAS) {
+                responseContent += `   Expected ROAS: ${ch.expectedROAS.toFixed(2)}x\n`;
+            }
+            responseContent += `\n`;
+        });
+
+        if (recommendation.assumptions.length > 0) {
+            responseContent += `**Assumptions:**\n`;
+            recommendation.assumptions.forEach(a => {
+                responseContent += `• ${a}\n`;
+            });
+        }
+
+        const tx = new PatchTransaction(plan);
+        if (!plan.campaign.placements) {
+            tx.set(['campaign', 'placements'], []);
+        }
+
+        recommendation.channels.forEach(ch => {
+            const p = generateLine(ch.channel as any, plan.campaign.advertiser, ch.channel, undefined);
+
+            p.totalCost = ch.allocatedBudget;
+            if (p.costMethod === 'CPM' && p.rate > 0) {
+                p.quantity = Math.floor((ch.allocatedBudget * 1000) / p.rate);
+            } else if (p.rate > 0) {
+                p.quantity = Math.floor(ch.allocatedBudget / p.rate);
+            }
+
+            if (p.forecast) {
+                p.forecast.impressions = Math.floor(ch.allocatedBudget * 100); // Estimate
+                p.forecast.spend = ch.allocatedBudget;
+            }
+
+            tx.push(['campaign', 'placements'], p);
+        });
+
+        const placements = plan.campaign.placements!;
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'add_placement',
+            description: `Allocated $${(totalBudget / 1000).toFixed(0)}k across ${recommendation.channels.length} channels`,
+            userCommand: input
+        });
+
+        responseContent += `\n**${recommendation.channels.length} placements added to your plan.**\nTotal spend: $${plan.totalSpend.toLocaleString()}`;
+
+        return createAgentMessage(responseContent, ['Optimize', 'Show plan', 'Export PDF']);
+    }
+
+    /**
+     * Move spend between channels: "shift $10k from display to search".
+     * Source lines give up the amount in proportion to their cost and target lines
+     * take it the same way; if the target channel has no lines, one is added.
+     */
+    shiftBudget(
+        input: string,
+        context: AgentContext
+    ): AgentMessage | null {
+        const shiftMatch = input.match(/(?:shift|move|reallocate|transfer)\s+(\$?[\d,.]+\s*[km]?)\s+from\s+(.+?)\s+to\s+(.+?)[.!]?\s*$/i);
+        if (!shiftMatch) return null;
+
+        const plan = context.mediaPlan;
+        if (!plan) {
+            return createAgentMessage(
+                "I need an active media plan to shift budget.",
+                ['Create new campaign']
+            );
+        }
+
+        const amount = extractBudget(shiftMatch[1]) || 0;
+        const placements = plan.campaign.placements || [];
+        const matchesChannel = (line: Line, term: string) => {
+            const channel = CHANNEL_MAP[term.toLowerCase()];
+            return channel
+                ? line.channel === channel
+                : line.channel.toLowerCase() === term.toLowerCase() || line.vendor.toLowerCase().includes(term.toLowerCase());
+        };
+        const isLive = (line: Line) => line.performance?.status !== 'PAUSED';
+
+        const from = shiftMatch[2].trim();
+        const to = shiftMatch[3].trim();
+        const sources = placements.filter(p => isLive(p) && matchesChannel(p, from));
+        const sourceTotal = sources.reduce((sum, p) => sum + p.totalCost, 0);
+
+        if (amount <= 0) {
+            return createAgentMessage(`I couldn't read the amount to shift from "${shiftMatch[1]}".`, ['Shift $10k from Display to Search']);
+        }
+        if (sources.length === 0) {
+            return createAgentMessage(`There are no active ${from} placements to shift budget from.`, ['Show details']);
+        }
+        if (amount > sourceTotal) {
+            return createAgentMessage(
+                `${from} only has $${Math.round(sourceTotal).toLocaleString()} in active placements, so I can't move $${Math.round(amount).toLocaleString()} out of it.`,
+                [`Shift $${Math.floor(sourceTotal / 1000)}k from ${from} to ${to}`]
+            );
+        }
+
+        const tx = new PatchTransaction(plan);
+        const scaleLine = (line: Line, newCost: number) => {
+            const linePath = ['campaign', 'placements', { id: line.id }];
+            const ratio = line.totalCost > 0 ? newCost / line.totalCost : 1;
+            tx.set([...linePath, 'totalCost'], newCost);
+            tx.set([...linePath, 'quantity'], Math.floor(line.quantity * ratio));
+        };
+        sources.forEach(line => scaleLine(line, line.totalCost - amount * (line.totalCost / sourceTotal)));
+
+        const targets = placements.filter(p => isLive(p) && matchesChannel(p, to));
+        const targetTotal = targets.reduce((sum, p) => sum + p.totalCost, 0);
+        if (targets.length > 0 && targetTotal > 0) {
+            targets.forEach(line => scaleLine(line, line.totalCost + amount * (line.totalCost / targetTotal)));
+        } else {
+            const channel = CHANNEL_MAP[to.toLowerCase()] || to;
+            const line = generateLine(channel as any, plan.campaign.advertiser, channel, undefined);
+            line.totalCost = amount;
+            line.quantity = line.rate > 0
+                ? Math.floor(line.costMethod === 'CPM' ? (amount * 1000) / line.rate : amount / line.rate)
+                : line.quantity;
+            tx.push(['campaign', 'placements'], line);
+        }
+
+        tx.set(['metrics'], calculatePlanMetrics(plan.campaign.placements!));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'shift_budget',
+            description: `Shifted $${Math.round(amount).toLocaleString()} from ${from} to ${to}`,
+            userCommand: input
+        });
+
+        return createAgentMessage(
+            `🔀 Shifted **$${Math.round(amount).toLocaleString()}** from **${from}** (${sources.length} line${sources.length === 1 ? '' : 's'}) to **${to}**` +
+            (targets.length > 0 ? ` (${targets.length} line${targets.length === 1 ? '' : 's'}).` : ' as a new placement.') +
+            ` Total spend is unchanged.`,
+            ['Show details', 'Undo']
         );
     }
 
@@ -888,19 +1347,29 @@ export class ChannelManager {
             lowerInput.includes('line item') ||
             lowerInput.includes('placement') ||
             lowerInput.includes('flat')) {
-            plan.groupingMode = 'DETAILED';
+            this.setGroupingMode(plan, 'DETAILED', input);
             return createAgentMessage(
                 "Switched to **Detailed View** (Line Items).",
                 ['Show Details', 'Show Channel Summary', 'Export PDF']
             );
         } else {
-            plan.groupingMode = 'CHANNEL_SUMMARY';
+            this.setGroupingMode(plan, 'CHANNEL_SUMMARY', input);
             return createAgentMessage(
                 "Switched to **Channel Summary View**. Data is now aggregated by channel.",
                 ['Show Details', 'Show Channel Summary', 'Export PDF']
             );
         }
     }
+
+    private setGroupingMode(plan: MediaPlan, mode: MediaPlan['groupingMode'], input: string): void {
+        const tx = new PatchTransaction(plan);
+        tx.set(['groupingMode'], mode);
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_grouping',
+            description: `Switched to ${mode === 'DETAILED' ? 'detailed' : 'channel summary'} view`,
+            userCommand: input
+        });
+    }
 }
 
 // Export singleton instance
@@ -1,11 +1,26 @@
 /**
- * CommandRegistry - Centralized command pattern definitions
+ * CommandRegistry - Centralized command definitions and dispatch
  *
- * This module defines all command patterns that the agent can recognize.
+ * This module defines all commands the agent can recognize. Each command pairs
+ * its patterns with a parameter extractor and a handler, so adding a command
+ * means adding a definition here rather than another branch in AgentBrain.
  * Commands are organized by category and include priority for disambiguation.
  */
 
-import { AgentContext, CommandResult } from './AgentContext';
+import { AgentMessage, IOStatus } from '../types';
+import { AgentContext, createAgentMessage } from './AgentContext';
+import { extractBudget, extractChannels } from './entityExtractor';
+import { CampaignObjective } from '../utils/budgetOptimizer';
+import { channelManager } from './ChannelManager';
+import { inventoryService } from './InventoryService';
+import { historyManager, UndoParams } from './HistoryManager';
+import { optimizationManager } from './OptimizationManager';
+import { forecastManager } from './ForecastManager';
+import { goalManager, parseGoal } from './GoalManager';
+import { geoManager } from './GeoManager';
+import { templateService } from './TemplateService';
+import { creativeManager } from './CreativeManager';
+import { exportManager } from './ExportManager';
 
 /**
  * Command categories for organization and routing
@@ -19,6 +34,7 @@ export type CommandCategory =
     | 'PLACEMENT'
     | 'OPTIMIZATION'
     | 'FORECASTING'
+    | 'GEO'
     | 'GOAL'
     | 'TEMPLATE'
     | 'CREATIVE'
@@ -28,10 +44,25 @@ export type CommandCategory =
     | 'HELP'
     | 'INVENTORY';
 
+/**
+ * What a handler gets besides its parameters
+ */
+export interface CommandRequest {
+    input: string;
+    match: RegExpMatchArray;
+    context: AgentContext;
+}
+
+/**
+ * Runs a command. Returning null means the input wasn't for this command after
+ * all, and the next matching command gets a turn.
+ */
+export type CommandHandler<P> = (params: P, request: CommandRequest) => AgentMessage | null;
+
 /**
  * Command definition structure
  */
-export interface CommandDefinition {
+export interface CommandDefinition<P> {
     /** Unique identifier for the command */
     id: string;
 
@@ -52,23 +83,58 @@ export interface CommandDefinition {
 
     /** Example phrases */
     examples: string[];
+
+    /** Whether the command needs an active media plan (defaults to true) */
+    requiresPlan?: boolean;
+
+    /** Whether a successful run changes the plan (used to spot failed steps in compound input) */
+    modifiesPlan?: boolean;
+
+    /** Pulls typed parameters out of the matched input */
+    extractParams?: (match: RegExpMatchArray, input: string) => P;
+
+    /** Executes the command */
+    handler: CommandHandler<P>;
+}
+
+/**
+ * A command ready to dispatch. Its parameter type stays inside run, so commands
+ * with different parameters can share one list.
+ */
+export interface RegisteredCommand extends Omit<CommandDefinition<unknown>, 'extractParams' | 'handler'> {
+    /** Extracts the parameters from the match and runs the handler */
+    run: (request: CommandRequest) => AgentMessage | null;
 }
 
 /**
  * Match result from command parsing
  */
 export interface CommandMatch {
-    command: CommandDefinition;
+    command: RegisteredCommand;
     match: RegExpMatchArray;
     confidence: number;
 }
 
+/**
+ * Ties the handler's parameter type to what extractParams returns
+ */
+function defineCommand<P = undefined>(definition: CommandDefinition<P>): RegisteredCommand {
+    const { extractParams, handler, ...command } = definition;
+    return {
+        ...command,
+        run: request => handler(
+            extractParams ? extractParams(request.match, request.input) : undefined as P,
+            request
+        )
+    };
+}
+
 // =============================================================================
 // COMMAND DEFINITIONS
 // =============================================================================
 
-export const LAYOUT_COMMANDS: CommandDefinition[] = [
-    {
+export const LAYOUT_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'layout_switch',
         name: 'Switch Layout',
         category: 'LAYOUT',
@@ -78,53 +144,77 @@ export const LAYOUT_COMMANDS: CommandDefinition[] = [
         ],
         priority: 100,
         description: 'Change the chat panel position',
-        examples: ['switch left', 'move to right', 'layout bottom']
-    }
+        examples: ['switch left', 'move to right', 'layout bottom'],
+        requiresPlan: false,
+        extractParams: match => match[1].toLowerCase() as 'left' | 'right' | 'bottom',
+        handler: position => createAgentMessage(
+            `I've switched the layout to **${position}** position.`,
+            ['Continue planning'],
+            `LAYOUT_${position.toUpperCase()}`
+        )
+    })
 ];
 
-export const HELP_COMMANDS: CommandDefinition[] = [
-    {
+export const HELP_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'help',
         name: 'Help',
         category: 'HELP',
         patterns: [
-            /^help$/i,
-            /what can you do/i,
-            /help me/i,
-            /suggestions?/i
+            /^help(?:\s+me)?$/i,
+            /^help\s+(?:me\s+)?(?:with|on|for)\s+(.+)$/i,
+            /^help\s+(\S+)$/i,
+            /^what can you do\b/i,
+            /^(?:any\s+|show\s+(?:me\s+)?)?suggestions?\??$/i
         ],
-        priority: 90,
+        priority: 98, // Above undo/redo so "help undo" explains rather than undoes
         description: 'Get help and suggestions',
-        examples: ['help', 'what can you do', 'suggestions']
-    }
+        examples: ['help', 'help exports', 'what can you do'],
+        requiresPlan: false,
+        extractParams: match => match[1],
+        handler: (topic, { context }) => getHelpMessage(topic, !!context.mediaPlan)
+    })
 ];
 
-export const UNDO_REDO_COMMANDS: CommandDefinition[] = [
-    {
+export const UNDO_REDO_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'undo',
         name: 'Undo',
         category: 'UNDO_REDO',
         patterns: [
             /^undo$/i,
-            /undo last\s+(\d+)/i,
-            /undo\s+(.+)/i,
-            /revert/i,
-            /go back/i
+            /^undo last\s+(\d+)/i,
+            /^undo\s+(.+)/i,
+            /^(?:undo|revert)\b/i,
+            /^go back(?:\s+(?:one|a)\s+step)?$/i
         ],
         priority: 95,
         description: 'Undo recent actions',
-        examples: ['undo', 'undo last 3', 'undo add NFL']
-    },
-    {
+        examples: ['undo', 'undo last 3', 'undo add NFL'],
+        extractParams: (_match, input): UndoParams => {
+            const countMatch = input.match(/undo.*last\s+(\d+)/i);
+            if (countMatch) return { count: parseInt(countMatch[1]) };
+
+            // "undo last action", "undo that" mean the plain undo
+            const keywordMatch = input.match(/undo\s+(.+)/i);
+            if (keywordMatch && keywordMatch[1] !== 'last' && !/^(last|that|it)( action| change)?$/i.test(keywordMatch[1].trim())) {
+                return { keyword: keywordMatch[1].trim() };
+            }
+            return {};
+        },
+        handler: (params, { context }) => historyManager.undo(context.mediaPlan!, params)
+    }),
+    defineCommand({
         id: 'redo',
         name: 'Redo',
         category: 'UNDO_REDO',
-        patterns: [/^redo$/i, /redo last/i],
+        patterns: [/^redo$/i, /redo last/i, /\bredo\b/i],
         priority: 95,
         description: 'Redo undone actions',
-        examples: ['redo']
-    },
-    {
+        examples: ['redo'],
+        handler: (_params, { context }) => historyManager.redo(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'show_history',
         name: 'Show History',
         category: 'UNDO_REDO',
@@ -135,42 +225,134 @@ export const UNDO_REDO_COMMANDS: CommandDefinition[] = [
         ],
         priority: 85,
         description: 'Show recent action history',
-        examples: ['show history', 'recent actions']
-    }
+        examples: ['show history', 'recent actions'],
+        handler: (_params, { context }) => historyManager.showHistory(context.mediaPlan!)
+    }),
+    defineCommand({
+        id: 'restore_checkpoint',
+        name: 'Restore Checkpoint',
+        category: 'UNDO_REDO',
+        patterns: [
+            /(?:restore|jump to|go back to|go to|return to|roll ?back to)\s+(?:the\s+)?checkpoint\s*:?\s*["']?([^"']+)["']?/i
+        ],
+        priority: 97,
+        description: 'Return the plan to a named checkpoint',
+        examples: ['restore checkpoint pre-client-review', 'jump to checkpoint v1 approved'],
+        extractParams: match => match[1].trim(),
+        handler: (name, { context }) => historyManager.restoreCheckpoint(context.mediaPlan!, name)
+    }),
+    defineCommand({
+        id: 'list_checkpoints',
+        name: 'List Checkpoints',
+        category: 'UNDO_REDO',
+        patterns: [
+            /(?:show|list)\s+(?:all\s+)?checkpoints/i,
+            /^checkpoints$/i
+        ],
+        priority: 97,
+        description: 'List named checkpoints for this plan',
+        examples: ['show checkpoints'],
+        handler: (_params, { context }) => historyManager.listCheckpoints(context.mediaPlan!)
+    }),
+    defineCommand({
+        id: 'create_checkpoint',
+        name: 'Create Checkpoint',
+        category: 'UNDO_REDO',
+        patterns: [
+            /(?:create|save|set|add|make)\s+(?:a\s+)?checkpoint\s*:?\s*["']?([^"']+)["']?/i,
+            /^checkpoint\s*:?\s*["']?([^"']+)["']?$/i
+        ],
+        priority: 96,
+        description: 'Name the current state of the plan so it can be restored later',
+        examples: ['checkpoint pre-client-review', 'save checkpoint before optimization'],
+        extractParams: match => match[1],
+        handler: (name, { context }) => historyManager.createCheckpoint(context.mediaPlan!, name)
+    })
 ];
 
-export const OPTIMIZATION_COMMANDS: CommandDefinition[] = [
-    {
+export const OPTIMIZATION_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
+        id: 'pause_underperformers',
+        name: 'Pause Underperformers',
+        category: 'OPTIMIZATION',
+        patterns: [/pause.*underperform/i, /^pause$/i],
+        priority: 82,
+        description: 'Pause placements the optimization report flags (asks for confirmation)',
+        modifiesPlan: true,
+        examples: ['pause underperformers'],
+        handler: (_params, { context }) => optimizationManager.pauseUnderperformers(context)
+    }),
+    defineCommand({
+        id: 'scale_winners',
+        name: 'Scale Winners',
+        category: 'OPTIMIZATION',
+        patterns: [/scale.*winner/i],
+        priority: 82,
+        description: 'Add 25% budget to the best performers (asks for confirmation)',
+        modifiesPlan: true,
+        examples: ['scale winners'],
+        handler: (_params, { context }) => optimizationManager.scaleWinners(context)
+    }),
+    defineCommand({
+        id: 'apply_recommendations',
+        name: 'Apply Recommendations',
+        category: 'OPTIMIZATION',
+        patterns: [/apply all/i, /apply recommendation/i],
+        priority: 80,
+        description: 'Apply every pause and scale recommendation at once',
+        modifiesPlan: true,
+        examples: ['apply all recommendations'],
+        handler: (_params, { context }) => optimizationManager.applyAllRecommendations(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'quick_wins',
         name: 'Quick Wins',
         category: 'OPTIMIZATION',
         patterns: [/quick win/i],
         priority: 80,
         description: 'Show easy, high-impact optimizations',
-        examples: ['show quick wins']
-    },
-    {
+        examples: ['show quick wins'],
+        handler: (_params, { context }) => optimizationManager.quickWins(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'critical_issues',
         name: 'Critical Issues',
         category: 'OPTIMIZATION',
         patterns: [/critical issue/i],
         priority: 80,
         description: 'Show critical performance issues',
-        examples: ['show critical issues']
-    },
-    {
+        examples: ['show critical issues'],
+        handler: (_params, { context }) => optimizationManager.criticalIssues(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'growth_opportunities',
         name: 'Growth Opportunities',
         category: 'OPTIMIZATION',
-        patterns: [
-            /growth opportunit/i,
-            /scale.*winner/i
-        ],
+        patterns: [/growth opportunit/i],
         priority: 80,
         description: 'Show scaling opportunities',
-        examples: ['show growth opportunities', 'scale winners']
-    },
-    {
+        examples: ['show growth opportunities'],
+        handler: (_params, { context }) => optimizationManager.growthOpportunities(context.mediaPlan!)
+    }),
+    defineCommand({
+        id: 'optimize_effective_reach',
+        name: 'Optimize Effective Reach',
+        category: 'OPTIMIZATION',
+        patterns: [
+            /(?:optimi[sz]e|maximi[sz]e|rebalance).*(?:effective|\d+\s*\+)\s*reach/i,
+            /(?:optimi[sz]e|maximi[sz]e|rebalance).*effective\s+frequency/i
+        ],
+        priority: 84,
+        description: 'Move budget between channels to reach more people at the effective frequency (asks for confirmation)',
+        modifiesPlan: true,
+        examples: ['optimize for 3+ reach', 'maximize effective reach'],
+        extractParams: (_match, input) => {
+            const frequency = input.match(/(\d+)\s*\+/);
+            return { effectiveFrequency: frequency ? parseInt(frequency[1], 10) : undefined };
+        },
+        handler: (params, { context }) => optimizationManager.optimizeEffectiveReach(context, params.effectiveFrequency)
+    }),
+    defineCommand({
         id: 'optimize_plan',
         name: 'Optimize Plan',
         category: 'OPTIMIZATION',
@@ -185,25 +367,39 @@ export const OPTIMIZATION_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Generate optimization report',
-        examples: ['optimize my plan', 'show full report']
-    },
-    {
+        examples: ['optimize my plan', 'show full report'],
+        handler: (_params, { context }) => optimizationManager.optimizePlan(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'plan_score',
         name: 'Plan Score',
         category: 'OPTIMIZATION',
         patterns: [
             /plan\s+score/i,
             /plan\s+health/i,
-            /plan\s+grade/i
+            /plan\s+grade/i,
+            /plan.*(?:score|health|grade)/i
         ],
         priority: 75,
         description: 'Get plan health score',
-        examples: ['plan score', 'plan health']
-    }
+        examples: ['plan score', 'plan health'],
+        handler: (_params, { context }) => optimizationManager.planScore(context.mediaPlan!)
+    }),
+    defineCommand({
+        id: 'boost_search',
+        name: 'Boost Search',
+        category: 'OPTIMIZATION',
+        patterns: [/boost/i, /shift\s+budget\s+to\s+search/i],
+        priority: 66,
+        description: 'Increase Search placements by 20%',
+        modifiesPlan: true,
+        examples: ['shift budget to Search', 'boost search'],
+        handler: (_params, { context }) => optimizationManager.boostSearch(context.mediaPlan!)
+    })
 ];
 
-export const FORECASTING_COMMANDS: CommandDefinition[] = [
-    {
+export const FORECASTING_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'forecast',
         name: 'Forecast Campaign',
         category: 'FORECASTING',
@@ -214,18 +410,54 @@ export const FORECASTING_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Forecast campaign performance',
-        examples: ['forecast this campaign', 'predict performance']
-    },
-    {
+        examples: ['forecast this campaign', 'predict performance'],
+        handler: (_params, { context }) => forecastManager.forecast(context.mediaPlan!, context.brand)
+    }),
+    defineCommand({
+        id: 'simulate_forecast',
+        name: 'Simulate Forecast',
+        category: 'FORECASTING',
+        patterns: [
+            /monte\s*carlo/i,
+            /\bsimulat(?:e|ion)/i,
+            /(?:chance|probability|odds|likel(?:y|ihood)).*(?:hit|reach|make|goal)/i
+        ],
+        priority: 85,
+        description: 'Simulate thousands of outcomes and the chance of hitting each goal',
+        examples: ['run a monte carlo forecast', "what's the chance we hit our goals"],
+        extractParams: (_match, input) => {
+            const count = input.match(/(\d[\d,]*)\s*(?:simulations|iterations|runs)/i);
+            return { iterations: count ? parseInt(count[1].replace(/,/g, ''), 10) : undefined };
+        },
+        handler: (params, { context }) => forecastManager.simulate(context.mediaPlan!, params.iterations)
+    }),
+    defineCommand({
+        id: 'reach_frequency',
+        name: 'Reach & Frequency',
+        category: 'FORECASTING',
+        patterns: [
+            /reach\s*(?:and|&)\s*frequency/i,
+            /reach\s+curve/i,
+            /frequency\s+distribution/i,
+            /\d+\s*\+\s*reach/i,
+            /effective\s+reach/i
+        ],
+        priority: 78,
+        description: 'Show deduplicated reach, 1+/3+/5+ reach and the reach curve',
+        examples: ['show reach and frequency', "what's our 3+ reach", 'show the reach curve'],
+        handler: (_params, { context }) => forecastManager.reachFrequency(context.mediaPlan!, context.brand)
+    }),
+    defineCommand({
         id: 'seasonal_impact',
         name: 'Seasonal Impact',
         category: 'FORECASTING',
         patterns: [/seasonal.*(?:impact|factor)/i],
         priority: 75,
         description: 'Analyze seasonal factors',
-        examples: ['show seasonal impact']
-    },
-    {
+        examples: ['show seasonal impact'],
+        handler: (_params, { context }) => forecastManager.seasonalImpact(context.mediaPlan!)
+    }),
+    defineCommand({
         id: 'audience_overlap',
         name: 'Audience Overlap',
         category: 'FORECASTING',
@@ -235,12 +467,67 @@ export const FORECASTING_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Calculate audience overlap',
-        examples: ['check audience overlap']
-    }
+        examples: ['check audience overlap'],
+        handler: (_params, { context }) => forecastManager.audienceOverlap(context.mediaPlan!)
+    }),
+    defineCommand({
+        id: 'delivery_status',
+        name: 'Delivery Status',
+        category: 'FORECASTING',
+        patterns: [/delivery/i, /pacing/i, /performance/i],
+        priority: 62,
+        description: 'Show pacing and delivery against forecast',
+        examples: ['show performance', 'how is the plan pacing'],
+        handler: (_params, { context }) => forecastManager.deliveryStatus(context.mediaPlan!)
+    })
+];
+
+export const GEO_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
+        id: 'geo_allocate',
+        name: 'Allocate by DMA',
+        category: 'GEO',
+        patterns: [
+            /(?:allocate|split|distribute|spread|target)\b.*\b(?:dmas?|markets?)\b/i,
+            /(?:allocate|split|distribute|spread)\b.*\bby\s+(?:population|households?|index|bdi|cdi)\b/i
+        ],
+        priority: 79,
+        description: 'Target lines at DMAs and split their budgets by households or market index',
+        modifiesPlan: true,
+        examples: ['allocate by population across top 25 DMAs', 'target TV to Chicago, Dallas and Houston markets'],
+        handler: (_params, { input, context }) => geoManager.allocateByDMA(context.mediaPlan!, input)
+    }),
+    defineCommand({
+        id: 'set_dma_index',
+        name: 'Set DMA Index',
+        category: 'GEO',
+        patterns: [
+            /set\s+.+?\s+(?:index|bdi|cdi)\s+(?:to\s+|at\s+|=\s*)?\d/i
+        ],
+        priority: 81,
+        description: 'Weight a market up or down with a custom index',
+        modifiesPlan: true,
+        examples: ['set Chicago index to 150'],
+        handler: (_params, { input, context }) => geoManager.setDMAIndex(context.mediaPlan!, input)
+    }),
+    defineCommand({
+        id: 'dma_breakdown',
+        name: 'DMA Breakdown',
+        category: 'GEO',
+        patterns: [
+            /dma\s+(?:breakdown|table|report|forecast)/i,
+            /(?:forecast|breakdown|break\s+down|spend|delivery)\b.*\bby\s+(?:dma|market)s?\b/i,
+            /(?:household|us|geo(?:graphic)?)\s+coverage/i
+        ],
+        priority: 78,
+        description: 'Show spend, impressions and reach per DMA with national totals and household coverage',
+        examples: ['show DMA breakdown', 'forecast by DMA', "what's our household coverage"],
+        handler: (_params, { context }) => geoManager.breakdown(context.mediaPlan!, context.brand)
+    })
 ];
 
-export const GOAL_COMMANDS: CommandDefinition[] = [
-    {
+export const GOAL_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'show_goals',
         name: 'Show Goals',
         category: 'GOAL',
@@ -251,9 +538,11 @@ export const GOAL_COMMANDS: CommandDefinition[] = [
         ],
         priority: 80,
         description: 'Show current campaign goals',
-        examples: ['show goals', 'what are my goals']
-    },
-    {
+        examples: ['show goals', 'what are my goals'],
+        requiresPlan: false,
+        handler: (_params, { context }) => goalManager.showGoals(context.mediaPlan)
+    }),
+    defineCommand({
         id: 'set_goal',
         name: 'Set Goal',
         category: 'GOAL',
@@ -261,16 +550,22 @@ export const GOAL_COMMANDS: CommandDefinition[] = [
             /set\s+goal/i,
             /update\s+goal/i,
             /change\s+goal/i,
-            /increase\s+(?:reach|impression|conversion|click)/i
+            /increase\s+(?:reach|impression|conversion|click)/i,
+            /set\s+(?:reach|impressions?|conversions?|clicks?)\b/i,
+            /set\s+(?:the\s+|an?\s+)?effective\s+frequency/i
         ],
         priority: 80,
         description: 'Set or update campaign goals',
-        examples: ['set goal impressions 1M', 'increase reach to 500k']
-    }
+        modifiesPlan: true,
+        examples: ['set goal impressions 1M', 'increase reach to 500k', 'set effective frequency 3'],
+        requiresPlan: false,
+        extractParams: (_match, input) => parseGoal(input),
+        handler: (params, { input, context }) => goalManager.setGoal(context.mediaPlan, params, input)
+    })
 ];
 
-export const TEMPLATE_COMMANDS: CommandDefinition[] = [
-    {
+export const TEMPLATE_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'show_templates',
         name: 'Show Templates',
         category: 'TEMPLATE',
@@ -283,9 +578,11 @@ export const TEMPLATE_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Browse campaign templates',
-        examples: ['show templates', 'what templates are available']
-    },
-    {
+        examples: ['show templates', 'what templates are available'],
+        requiresPlan: false,
+        handler: () => templateService.listTemplates()
+    }),
+    defineCommand({
         id: 'template_details',
         name: 'Template Details',
         category: 'TEMPLATE',
@@ -295,9 +592,11 @@ export const TEMPLATE_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Get template details',
-        examples: ['tell me about the retail holiday template']
-    },
-    {
+        examples: ['tell me about the retail holiday template'],
+        requiresPlan: false,
+        handler: (_params, { input }) => templateService.describeTemplate(input)
+    }),
+    defineCommand({
         id: 'template_recommendation',
         name: 'Template Recommendation',
         category: 'TEMPLATE',
@@ -307,30 +606,38 @@ export const TEMPLATE_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Get template recommendations',
-        examples: ['what\'s best for B2B?']
-    }
+        examples: ['what\'s best for B2B?'],
+        requiresPlan: false,
+        handler: (_params, { input }) => templateService.recommendTemplate(input)
+    })
 ];
 
-export const CREATIVE_COMMANDS: CommandDefinition[] = [
-    {
+export const CREATIVE_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'upload_creative',
         name: 'Upload Creative',
         category: 'CREATIVE',
         patterns: [/upload.*creative/i, /upload/i],
         priority: 70,
         description: 'Upload a creative asset',
-        examples: ['upload creative "Holiday Banner"']
-    },
-    {
+        examples: ['upload creative "Holiday Banner"'],
+        requiresPlan: false,
+        extractParams: (_match, input) => input.match(/upload\s+(?:creative\s+)?["']?([^"']+)["']?/i)?.[1],
+        handler: (name, { context }) => creativeManager.uploadCreative(context.mediaPlan, name)
+    }),
+    defineCommand({
         id: 'assign_creative',
         name: 'Assign Creative',
         category: 'CREATIVE',
         patterns: [/assign.*creative/i, /assign/i],
         priority: 70,
         description: 'Assign creative to placements',
-        examples: ['assign to all display placements']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['assign to all display placements'],
+        requiresPlan: false,
+        handler: (_params, { context }) => creativeManager.assignCreatives(context.mediaPlan)
+    }),
+    defineCommand({
         id: 'winning_creative',
         name: 'Winning Creative',
         category: 'CREATIVE',
@@ -340,41 +647,73 @@ export const CREATIVE_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Find top performing creative',
-        examples: ['show winning creative']
-    }
+        examples: ['show winning creative'],
+        requiresPlan: false,
+        handler: (_params, { context }) => creativeManager.winningCreative(context.mediaPlan)
+    })
 ];
 
-export const BUDGET_COMMANDS: CommandDefinition[] = [
-    {
+export const BUDGET_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'budget_allocation',
         name: 'Budget Allocation',
         category: 'BUDGET',
         patterns: [
-            /how.*allocate/i,
-            /split.*budget/i,
-            /distribute.*budget/i,
-            /spread.*budget/i
+            /(?:allocate|split|distribute|spread).*(?:\$?[\d,]+(?:k|m)?|budget)/i
         ],
         priority: 70,
         description: 'Get budget allocation recommendations',
-        examples: ['how should I allocate $100k?']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['how should I allocate $100k?'],
+        extractParams: (_match, input) => {
+            const lowerInput = input.toLowerCase();
+            let objective: CampaignObjective = 'awareness';
+            if (lowerInput.includes('conversion') || lowerInput.includes('sales') || lowerInput.includes('purchase')) {
+                objective = 'conversion';
+            } else if (lowerInput.includes('consideration') || lowerInput.includes('engagement')) {
+                objective = 'consideration';
+            }
+            return {
+                budget: /\d/.test(input) ? extractBudget(input) : undefined,
+                objective,
+                channels: extractChannels(input)
+            };
+        },
+        handler: (params, { input, context }) =>
+            channelManager.allocateBudget(input, context.mediaPlan!, params.budget, params.objective, params.channels)
+    }),
+    defineCommand({
+        id: 'shift_budget',
+        name: 'Shift Budget',
+        category: 'BUDGET',
+        patterns: [
+            /(?:shift|move|reallocate|transfer)\s+\$?[\d,.]+\s*[km]?\s+from\s+.+?\s+to\s+/i
+        ],
+        priority: 72,
+        description: 'Move spend from one channel to another',
+        modifiesPlan: true,
+        examples: ['shift $10k from display to search'],
+        handler: (_params, { input, context }) => channelManager.shiftBudget(input, context)
+    }),
+    defineCommand({
         id: 'change_budget',
         name: 'Change Budget',
         category: 'BUDGET',
         patterns: [
             /budget.*\$?[\d,]+[kKmM]?/i,
-            /set budget/i
+            /set budget/i,
+            /budget/i
         ],
         priority: 65,
         description: 'Change total budget',
-        examples: ['set budget to $500k']
-    }
+        modifiesPlan: true,
+        examples: ['set budget to $500k'],
+        handler: (_params, { input, context }) => channelManager.changeBudget(input, context)
+    })
 ];
 
-export const CHANNEL_COMMANDS: CommandDefinition[] = [
-    {
+export const CHANNEL_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'add_batch_placements',
         name: 'Add Batch Placements',
         category: 'CHANNEL',
@@ -383,9 +722,11 @@ export const CHANNEL_COMMANDS: CommandDefinition[] = [
         ],
         priority: 75,
         description: 'Add multiple placements at once',
-        examples: ['add 5 social placements', 'create 3 TV spots']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['add 5 social placements', 'create 3 TV spots'],
+        handler: (_params, { input, context }) => channelManager.addBatchPlacements(input, context)
+    }),
+    defineCommand({
         id: 'add_channel',
         name: 'Add Channel/Placement',
         category: 'CHANNEL',
@@ -394,21 +735,25 @@ export const CHANNEL_COMMANDS: CommandDefinition[] = [
         ],
         priority: 65,
         description: 'Add a channel or network placement',
-        examples: ['add search', 'add ESPN SportsCenter']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['add search', 'add ESPN SportsCenter'],
+        handler: (_params, { input, context }) => channelManager.addSinglePlacement(input, context)
+    }),
+    defineCommand({
         id: 'add_show',
         name: 'Add Show',
         category: 'CHANNEL',
         patterns: [/^add\s+(.+)$/i],
         priority: 50, // Lower priority - catch-all for show names
         description: 'Add a TV show by name',
-        examples: ['add Monday Night Football']
-    }
+        modifiesPlan: true,
+        examples: ['add Monday Night Football'],
+        handler: (_params, { input, context }) => channelManager.addShowByName(input, context)
+    })
 ];
 
-export const PLACEMENT_COMMANDS: CommandDefinition[] = [
-    {
+export const PLACEMENT_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'pause_placement',
         name: 'Pause Placement',
         category: 'PLACEMENT',
@@ -418,9 +763,11 @@ export const PLACEMENT_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Pause a placement',
-        examples: ['pause row 3', 'pause Facebook']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['pause row 3', 'pause Facebook'],
+        handler: (_params, { input, context }) => channelManager.pausePlacement(input, context)
+    }),
+    defineCommand({
         id: 'resume_placement',
         name: 'Resume Placement',
         category: 'PLACEMENT',
@@ -430,9 +777,11 @@ export const PLACEMENT_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Resume a paused placement',
-        examples: ['resume row 3', 'unpause Facebook']
-    },
-    {
+        modifiesPlan: true,
+        examples: ['resume row 3', 'unpause Facebook'],
+        handler: (_params, { input, context }) => channelManager.resumePlacement(input, context)
+    }),
+    defineCommand({
         id: 'modify_segment',
         name: 'Modify Segment',
         category: 'PLACEMENT',
@@ -442,12 +791,14 @@ export const PLACEMENT_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Change placement segment',
-        examples: ['row 2 segment to sports fans']
-    }
+        modifiesPlan: true,
+        examples: ['row 2 segment to sports fans'],
+        handler: (_params, { input, context }) => channelManager.modifySegment(input, context)
+    })
 ];
 
-export const VIEW_COMMANDS: CommandDefinition[] = [
-    {
+export const VIEW_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'change_view',
         name: 'Change View',
         category: 'VIEW',
@@ -462,71 +813,160 @@ export const VIEW_COMMANDS: CommandDefinition[] = [
         ],
         priority: 60,
         description: 'Change grouping view',
-        examples: ['show details', 'show channel summary']
-    },
-    {
+        examples: ['show details', 'show channel summary'],
+        handler: (_params, { input, context }) => channelManager.changeGrouping(input, context)
+    }),
+    defineCommand({
         id: 'change_dates',
         name: 'Change Dates',
         category: 'VIEW',
         patterns: [
             /date/i,
             /run from/i,
-            /delay/i
+            /delay/i,
+            /\b(?:reschedule|run (?:it |the campaign |the plan )?(?:in|during|over|through|for)|move (?:the )?(?:campaign|flight|plan) to)\b/i
         ],
         priority: 60,
         description: 'Modify campaign dates',
-        examples: ['delay start by 1 month']
-    }
+        modifiesPlan: true,
+        examples: ['delay start by 1 month', 'run from Nov 1 to Dec 24'],
+        handler: (_params, { input, context }) => channelManager.changeDates(input, context)
+    }),
+    defineCommand({
+        id: 'show_dark_periods',
+        name: 'Show Dark Periods',
+        category: 'VIEW',
+        patterns: [
+            /dark\s+(?:periods?|weeks?|days?)/i,
+            /(?:gaps?|holes?)\s+in\s+(?:the\s+)?(?:schedule|flighting|timeline|media|coverage)/i,
+            /when\s+(?:is|are)\s+(?:no|nothing)\s+(?:media\s+)?(?:live|running)/i
+        ],
+        priority: 70,
+        description: 'Find stretches of the campaign where no media is live',
+        examples: ['show dark periods', 'any gaps in the schedule?'],
+        handler: (_params, { context }) => forecastManager.darkPeriods(context.mediaPlan!)
+    })
 ];
 
-export const EXPORT_COMMANDS: CommandDefinition[] = [
-    {
+export const EXPORT_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
+        id: 'set_io_status',
+        name: 'Set IO Status',
+        category: 'EXPORT',
+        patterns: [
+            /(?:mark|set)\s+(.+?)\s+(?:io|insertion order)\s+(?:as\s+|to\s+)?(draft|sent|signed)/i
+        ],
+        priority: 85,
+        description: 'Track whether a vendor insertion order is draft, sent or signed',
+        modifiesPlan: true,
+        examples: ['mark Meta IO as sent', 'set ESPN insertion order to signed'],
+        extractParams: match => ({
+            vendor: match[1].replace(/^the\s+/i, '').trim(),
+            status: match[2].toUpperCase() as IOStatus
+        }),
+        handler: ({ vendor, status }, { input, context }) => {
+            const plan = context.mediaPlan!;
+            const result = channelManager.setInsertionOrderStatus(plan, vendor, status, input);
+            if (result) return result;
+
+            const vendors = Array.from(new Set((plan.campaign.placements || []).map(p => p.vendor)));
+            return createAgentMessage(
+                `I couldn't find any lines from a vendor called "${vendor}". Vendors in this plan: ${vendors.join(', ') || 'none'}.`,
+                vendors.slice(0, 3).map(v => `Mark ${v} IO as sent`)
+            );
+        }
+    }),
+    defineCommand({
+        id: 'generate_io',
+        name: 'Generate Insertion Orders',
+        category: 'EXPORT',
+        patterns: [
+            /(?:generate|create|export|download|issue)\s+(?:all\s+)?(?:the\s+)?(?:vendor\s+)?(?:insertion orders?|ios?)\b/i
+        ],
+        priority: 85,
+        description: 'Generate one PDF insertion order per vendor',
+        modifiesPlan: true,
+        examples: ['generate insertion orders', 'export IOs'],
+        handler: (_params, { input, context }) => exportManager.exportPlan('io', context.mediaPlan!, input)
+    }),
+    defineCommand({
+        id: 'export_report',
+        name: 'Build PDF Report',
+        category: 'EXPORT',
+        patterns: [
+            /(?:build|generate|create|export|download)\s+(?:a\s+|the\s+)?(?:branded|client|pdf|multi-section)\s+report/i,
+            /report builder/i
+        ],
+        priority: 85,
+        description: 'Build a branded multi-section PDF report',
+        examples: ['build a branded report', 'export pdf report'],
+        handler: (_params, { input, context }) => exportManager.exportPlan('report', context.mediaPlan!, input)
+    }),
+    defineCommand({
+        id: 'export_excel',
+        name: 'Export Excel',
+        category: 'EXPORT',
+        patterns: [/excel/i, /xlsx/i, /spreadsheet/i],
+        priority: 80,
+        description: 'Export as an Excel workbook with live formulas',
+        examples: ['export to excel', 'download spreadsheet'],
+        handler: (_params, { input, context }) => exportManager.exportPlan('xlsx', context.mediaPlan!, input)
+    }),
+    defineCommand({
         id: 'export_ppt',
         name: 'Export PowerPoint',
         category: 'EXPORT',
         patterns: [/ppt/i, /powerpoint/i],
         priority: 80,
         description: 'Export as PowerPoint',
-        examples: ['export to PowerPoint']
-    },
-    {
+        examples: ['export to PowerPoint'],
+        handler: (_params, { input, context }) => exportManager.exportPlan('ppt', context.mediaPlan!, input)
+    }),
+    defineCommand({
         id: 'export_pdf',
         name: 'Export PDF',
         category: 'EXPORT',
         patterns: [/export/i, /pdf/i],
         priority: 75,
         description: 'Export as PDF',
-        examples: ['export PDF']
-    }
+        examples: ['export PDF'],
+        handler: (_params, { input, context }) => exportManager.exportPlan('pdf', context.mediaPlan!, input)
+    })
 ];
 
-export const INVENTORY_COMMANDS: CommandDefinition[] = [
-    {
+export const INVENTORY_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'inventory_query',
         name: 'Inventory Query',
         category: 'INVENTORY',
         patterns: [
-            /what.*(?:available|avail|inventory)/i
+            /what.*(?:avail|inventory)/i,
+            /what.*\bd?ooh\b.*\sin\s/i
         ],
         priority: 60,
         description: 'Query available inventory',
-        examples: ['what TV is available?', 'what DOOH is in NYC?']
-    },
-    {
+        examples: ['what TV is available?', 'what DOOH is in NYC?'],
+        requiresPlan: false,
+        handler: (_params, { input }) => inventoryService.handleInventoryQuery(input)
+    }),
+    defineCommand({
         id: 'dma_query',
         name: 'DMA Query',
         category: 'INVENTORY',
         patterns: [
-            /(?:channel|station|broadcast|tv).*(?:in|available)/i
+            /^(?=.*\bwhat\b)(?=.*(?:channel|station|broadcast|tv)).*(?:avail|inventory)/i
         ],
         priority: 65,
         description: 'Query broadcast stations by DMA',
-        examples: ['what channels are available in Chicago?']
-    }
+        examples: ['what channels are available in Chicago?'],
+        requiresPlan: false,
+        // Null when no market is named, so the general inventory query answers instead
+        handler: (_params, { input }) => inventoryService.handleDMAQuery(input)
+    })
 ];
 
-export const NAVIGATION_COMMANDS: CommandDefinition[] = [
-    {
+export const NAVIGATION_COMMANDS: RegisteredCommand[] = [
+    defineCommand({
         id: 'create_campaign',
         name: 'Create Campaign',
         category: 'NAVIGATION',
@@ -535,9 +975,15 @@ export const NAVIGATION_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Create a new campaign',
-        examples: ['create campaign for Nike']
-    },
-    {
+        examples: ['create campaign for Nike'],
+        extractParams: match => match[1].trim(),
+        handler: name => createAgentMessage(
+            `I'm creating a new campaign called "**${name}**".`,
+            ['Create flight for Q1', 'Set budget to $100k'],
+            { type: 'CREATE_CAMPAIGN', payload: { name } }
+        )
+    }),
+    defineCommand({
         id: 'create_flight',
         name: 'Create Flight',
         category: 'NAVIGATION',
@@ -546,8 +992,47 @@ export const NAVIGATION_COMMANDS: CommandDefinition[] = [
         ],
         priority: 70,
         description: 'Create a new flight',
-        examples: ['create flight for Q1']
-    }
+        examples: ['create flight for Q1'],
+        extractParams: match => match[1].trim(),
+        handler: name => createAgentMessage(
+            `I'm creating a new flight called "**${name}**".`,
+            ['Add TV placement', 'Set flight budget'],
+            { type: 'CREATE_FLIGHT', payload: { name } }
+        )
+    }),
+    defineCommand({
+        id: 'open_flight',
+        name: 'Open Flight',
+        category: 'NAVIGATION',
+        patterns: [
+            /(?:open|switch to|go to|load)\s+(?:the\s+)?"?(.+?)"?\s+flight\b/i
+        ],
+        priority: 72,
+        description: 'Open another flight of this campaign',
+        examples: ['open the Q1 flight', 'switch to that flight'],
+        extractParams: match => match[1].trim(),
+        handler: (name, { context }) => {
+            const plan = context.mediaPlan!;
+            const flights = plan.campaign.flights || [];
+            const flight = flights.find(f => f.name.toLowerCase() === name.toLowerCase())
+                || flights.find(f => f.name.toLowerCase().includes(name.toLowerCase()));
+
+            if (!flight) {
+                return createAgentMessage(
+                    `This campaign has no flight called "${name}". Flights: ${flights.map(f => f.name).join(', ') || 'none'}.`,
+                    flights.slice(0, 3).map(f => `Open the ${f.name} flight`)
+                );
+            }
+            if (flight.id === plan.activeFlightId) {
+                return createAgentMessage(`You're already looking at **${flight.name}**.`, ['Show Details']);
+            }
+            return createAgentMessage(
+                `Opening the **${flight.name}** flight...`,
+                [],
+                { type: 'OPEN_FLIGHT', payload: { flightId: flight.id } }
+            );
+        }
+    })
 ];
 
 // =============================================================================
@@ -557,12 +1042,13 @@ export const NAVIGATION_COMMANDS: CommandDefinition[] = [
 /**
  * All commands in priority order
  */
-export const ALL_COMMANDS: CommandDefinition[] = [
+export const ALL_COMMANDS: RegisteredCommand[] = [
     ...LAYOUT_COMMANDS,
     ...HELP_COMMANDS,
     ...UNDO_REDO_COMMANDS,
     ...OPTIMIZATION_COMMANDS,
     ...FORECASTING_COMMANDS,
+    ...GEO_COMMANDS,
     ...GOAL_COMMANDS,
     ...TEMPLATE_COMMANDS,
     ...CREATIVE_COMMANDS,
@@ -578,7 +1064,7 @@ export const ALL_COMMANDS: CommandDefinition[] = [
 /**
  * Get commands by category
  */
-export function getCommandsByCategory(category: CommandCategory): CommandDefinition[] {
+export function getCommandsByCategory(category: CommandCategory): RegisteredCommand[] {
     return ALL_COMMANDS.filter(cmd => cmd.category === category);
 }
 
@@ -586,40 +1072,220 @@ export function getCommandsByCategory(category: CommandCategory): CommandDefinit
  * Find matching command for input
  */
 export function findMatchingCommand(input: string): CommandMatch | null {
-    for (const command of ALL_COMMANDS) {
-        for (const pattern of command.patterns) {
-            const match = input.match(pattern);
-            if (match) {
-                return {
-                    command,
-                    match,
-                    confidence: 1.0 // Simple matching for now
-                };
-            }
-        }
-    }
-    return null;
+    return findAllMatchingCommands(input)[0] || null;
 }
 
 /**
- * Find all matching commands (for disambiguation)
+ * Find all matching commands, by priority and then by how much of the input the pattern covered
  */
 export function findAllMatchingCommands(input: string): CommandMatch[] {
     const matches: CommandMatch[] = [];
+    const text = input.trim();
+    const length = Math.max(text.length, 1);
 
     for (const command of ALL_COMMANDS) {
         for (const pattern of command.patterns) {
-            const match = input.match(pattern);
+            const match = text.match(pattern);
             if (match) {
                 matches.push({
                     command,
                     match,
-                    confidence: 1.0
+                    confidence: Math.min(match[0].length / length, 1)
                 });
                 break; // Only one match per command
             }
         }
     }
 
-    return matches;
+    return matches.sort((a, b) => b.command.priority - a.command.priority || b.confidence - a.confidence);
+}
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+
+// Matches from different categories this close in coverage are too close to call
+const AMBIGUITY_MARGIN = 0.15;
+// A pattern covering this much of the input is taken at its word
+const CLEAR_MATCH_CONFIDENCE = 0.9;
+
+/**
+ * The runner-up when the top match can't be told apart from a command in another category
+ */
+function findAmbiguousRival(matches: CommandMatch[]): CommandMatch | null {
+    const [top, ...rest] = matches;
+    if (!top || top.confidence >= CLEAR_MATCH_CONFIDENCE) return null;
+
+    return rest.find(m =>
+        m.command.priority === top.command.priority &&
+        m.command.category !== top.command.category &&
+        top.confidence - m.confidence <= AMBIGUITY_MARGIN
+    ) || null;
+}
+
+/**
+ * Route input to the highest-priority command that handles it. Returns null when
+ * no command applies, so the caller can fall back to its conversation flow.
+ */
+export function dispatchCommand(input: string, context: AgentContext): AgentMessage | null {
+    const matches = findAllMatchingCommands(input)
+        .filter(m => context.mediaPlan || m.command.requiresPlan === false);
+    if (matches.length === 0) return null;
+
+    const rival = findAmbiguousRival(matches);
+    if (rival) {
+        const options = [matches[0].command, rival.command];
+        console.log('[CommandRegistry] Ambiguous:', options.map(c => c.id).join(' / '));
+        return createAgentMessage(
+            `I'm not sure which you meant - did you mean **${options[0].name}** (${options[0].description.toLowerCase()}) ` +
+            `or **${options[1].name}** (${options[1].description.toLowerCase()})?`,
+            options.map(c => c.examples[0])
+        );
+    }
+
+    for (const { command, match } of matches) {
+        const response = command.run({ input, match, context });
+        if (response) {
+            console.log(`[CommandRegistry] Matched: ${command.name}`);
+            return response;
+        }
+    }
+
+    return null;
+}
+
+// =============================================================================
+// SUGGESTIONS & HELP
+// =============================================================================
+
+// Below this, a near-miss isn't worth suggesting
+const SUGGESTION_THRESHOLD = 0.75;
+
+/**
+ * Edit distance counting an adjacent swap as one edit, so "shwo" is one typo from "show"
+ */
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().replace(/[^a-z0-9$\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * How well the input's words line up with an example phrase, 0-1
+ */
+function exampleSimilarity(inputTokens: string[], example: string): number {
+    const exampleTokens = tokenize(example);
+    if (inputTokens.length === 0 || exampleTokens.length === 0) return 0;
+
+    const total = inputTokens.reduce((sum, token) => {
+        const best = Math.max(...exampleTokens.map(e => 1 - editDistance(token, e) / Math.max(token.length, e.length)));
+        return sum + best;
+    }, 0);
+    return total / inputTokens.length;
+}
+
+/**
+ * Commands whose examples look like a near-miss of the input, best first
+ */
+export function suggestCommands(input: string, hasPlan: boolean = true, limit: number = 3): RegisteredCommand[] {
+    const inputTokens = tokenize(input);
+
+    return ALL_COMMANDS
+        .filter(cmd => hasPlan || cmd.requiresPlan === false)
+        .map(cmd => ({ cmd, score: Math.max(...cmd.examples.map(e => exampleSimilarity(inputTokens, e))) }))
+        .filter(s => s.score >= SUGGESTION_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(s => s.cmd);
+}
+
+const CATEGORY_LABELS: Record<CommandCategory, string> = {
+    CHANNEL: 'Adding Placements',
+    PLACEMENT: 'Editing Placements',
+    BUDGET: 'Budget',
+    GOAL: 'Goals',
+    OPTIMIZATION: 'Optimization',
+    FORECASTING: 'Forecasting',
+    GEO: 'Geo & Markets',
+    VIEW: 'Views & Dates',
+    EXPORT: 'Exports',
+    UNDO_REDO: 'Undo & Checkpoints',
+    TEMPLATE: 'Templates',
+    CREATIVE: 'Creatives',
+    INVENTORY: 'Inventory',
+    NAVIGATION: 'Campaigns & Flights',
+    CAMPAIGN_SETUP: 'Campaign Setup',
+    LAYOUT: 'Layout',
+    HELP: 'Help'
+};
+
+// Goal and creative commands answer without a plan, but only to ask for one
+const NO_PLAN_HELP_CATEGORIES: CommandCategory[] = ['TEMPLATE', 'INVENTORY', 'LAYOUT'];
+
+/**
+ * Section a help topic refers to: "help exports", "help undo", "help dates"
+ */
+function findHelpCategory(topic: string): CommandCategory | null {
+    const term = topic.toLowerCase().trim().replace(/s$/, '');
+    if (!term) return null;
+
+    const byLabel = (Object.keys(CATEGORY_LABELS) as CommandCategory[])
+        .find(category => CATEGORY_LABELS[category].toLowerCase().includes(term));
+    if (byLabel) return byLabel;
+
+    const byCommand = ALL_COMMANDS.find(cmd =>
+        cmd.name.toLowerCase().includes(term) || cmd.id.includes(term.replace(/\s+/g, '_'))
+    );
+    return byCommand ? byCommand.category : null;
+}
+
+/**
+ * Help generated from the registry: an overview of every section, or every command in one section
+ */
+export function getHelpMessage(topic: string | undefined, hasPlan: boolean): AgentMessage {
+    const available = ALL_COMMANDS.filter(cmd =>
+        cmd.category !== 'HELP' && (hasPlan || NO_PLAN_HELP_CATEGORIES.includes(cmd.category))
+    );
+    const category = topic ? findHelpCategory(topic) : null;
+
+    if (category) {
+        const commands = available.filter(cmd => cmd.category === category);
+        if (commands.length > 0) {
+            return createAgentMessage(
+                `**${CATEGORY_LABELS[category]}**\n\n` +
+                commands.map(cmd => `• **${cmd.name}** - ${cmd.description}\n  e.g. ${cmd.examples.map(e => `'${e}'`).join(', ')}`).join('\n'),
+                commands.slice(0, 3).map(cmd => cmd.examples[0])
+            );
+        }
+    }
+
+    const sections = (Object.keys(CATEGORY_LABELS) as CommandCategory[])
+        .map(cat => ({ cat, commands: available.filter(cmd => cmd.category === cat) }))
+        .filter(section => section.commands.length > 0)
+        .map(({ cat, commands }) =>
+            `**${CATEGORY_LABELS[cat]}:** ` + commands.slice(0, 3).map(cmd => `'${cmd.examples[0]}'`).join(' · ')
+        );
+
+    const intro = hasPlan
+        ? "Here's what I can help you with:\n\n"
+        : "Here are some ways to get started:\n\n**New Plan:** 'Create a media plan for Nike with a budget of $500k'\n";
+
+    return createAgentMessage(
+        intro + sections.join('\n') + `\n\nSay **help <topic>** (e.g. "help exports") to see every command in a section.`,
+        hasPlan ? ['Add TV placement', 'Optimize my plan', 'Help exports'] : ['Create plan for Nike ($500k)', 'Show templates']
+    );
 }
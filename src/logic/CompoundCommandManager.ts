@@ -0,0 +1,259 @@
+/**
+ * CompoundCommandManager - Runs several commands typed in one message
+ *
+ * "add 3 CTV placements on Hulu, pause row 4 and shift $10k from display to search"
+ * is split into clauses that each match a registered command. The clauses run as a
+ * dry run inside actionHistory.capture(), the combined change is previewed, and on
+ * confirmation it is applied as one action, so a single undo reverts all of it.
+ * If any clause fails, nothing is applied.
+ */
+
+import { AgentMessage, MediaPlan } from '../types';
+import { AgentContext, PendingAction, createAgentMessage } from './AgentContext';
+import { CommandCategory, dispatchCommand, findMatchingCommand } from './CommandRegistry';
+import { extractAllEntities } from './entityExtractor';
+import { actionHistory } from '../utils/actionHistory';
+import { Patch, PatchConflictError, getPlanScope } from '../utils/planPatch';
+import { diffPlans } from '../utils/planDiff';
+
+// Undo/redo move through history themselves and campaign/flight creation leaves the
+// plan, so none of them can be part of a captured change
+const NON_COMPOUND_CATEGORIES: CommandCategory[] = ['UNDO_REDO', 'HELP', 'NAVIGATION'];
+
+// Clause boundaries: commas, semicolons, "and", "then"
+const CLAUSE_SEPARATOR = /(\s*[,;]\s*(?:and\s+|then\s+)?|\s+(?:and\s+then|then|and)\s+)/i;
+
+/**
+ * One clause of a compound message after its dry run
+ */
+export interface CompoundStep {
+    clause: string;
+    commandName: string;
+    reply: AgentMessage;
+}
+
+/**
+ * A clause that didn't do what it asked for; the whole message is rolled back
+ */
+export class CompoundStepError extends Error {
+    constructor(message: string, public readonly stepNumber: number, public readonly clause: string) {
+        super(message);
+        this.name = 'CompoundStepError';
+    }
+}
+
+function isCommandClause(text: string): boolean {
+    const match = findMatchingCommand(text);
+    return !!match && !NON_COMPOUND_CATEGORIES.includes(match.command.category);
+}
+
+/**
+ * The verb of the command a clause matched, e.g. "add" in "please add search"
+ */
+function commandVerb(clause: string): string {
+    return findMatchingCommand(clause)?.match[0].trim().split(/\s+/)[0] ?? '';
+}
+
+/**
+ * Split a message into the commands it contains. A fragment that isn't a command
+ * on its own either borrows the previous clause's verb ("add search and social")
+ * or stays part of the previous clause ("pause rows 2 and 3", "Nov 1, 2026").
+ * Returns a single clause when the message isn't compound.
+ */
+export function splitCompoundInput(input: string): string[] {
+    const parts = input.split(CLAUSE_SEPARATOR);
+    if (parts.length < 3 || !isCommandClause(parts[0])) return [input];
+
+    const clauses: string[] = [parts[0].trim()];
+    for (let i = 2; i < parts.length; i += 2) {
+        const fragment = parts[i].trim();
+        if (!fragment) continue;
+
+        if (isCommandClause(fragment)) {
+            clauses.push(fragment);
+            continue;
+        }
+
+        const entities = extractAllEntities(fragment);
+        const verb = commandVerb(clauses[clauses.length - 1]);
+        const borrowed = `${verb} ${fragment}`;
+        if ((entities.channels?.length || entities.placements?.count) && isCommandClause(borrowed)) {
+            clauses.push(borrowed);
+            continue;
+        }
+
+        clauses[clauses.length - 1] += parts[i - 1] + parts[i];
+    }
+
+    return clauses;
+}
+
+function firstLine(content: string): string {
+    const line = content.split('\n').find(l => l.trim()) || '';
+    return line.length > 140 ? `${line.slice(0, 137)}...` : line;
+}
+
+function formatMoney(value: number): string {
+    return `$${(value / 1000).toFixed(1)}k`;
+}
+
+export class CompoundCommandManager {
+    /**
+     * Dry-run every clause, then preview the combined change for confirmation
+     * (or apply it straight away in express mode)
+     */
+    run(input: string, clauses: string[], context: AgentContext): AgentMessage {
+        const plan = context.mediaPlan!;
+        const before: MediaPlan = JSON.parse(JSON.stringify(plan));
+        const expressMode = context.expressMode;
+        let after: MediaPlan = before;
+        let steps: CompoundStep[];
+        let patch: Patch;
+
+        // Confirmations inside a step (e.g. "pause underperformers") fold into this preview
+        context.expressMode = true;
+        try {
+            ({ result: steps, patch } = actionHistory.capture(plan, () => {
+                const results = clauses.map((clause, i) => this.runStep(clause, i + 1, context));
+                after = JSON.parse(JSON.stringify(plan));
+                return results;
+            }));
+        } catch (error) {
+            if (error instanceof CompoundStepError) {
+                return createAgentMessage(
+                    `⚠️ Nothing was changed - step ${error.stepNumber} ("${error.clause}") didn't go through:\n\n${error.message}\n\n` +
+                    `Fix that part and send the message again, or run the steps one at a time.`,
+                    clauses.filter(c => c !== error.clause).slice(0, 2)
+                );
+            }
+            throw error;
+        } finally {
+            context.expressMode = expressMode;
+        }
+
+        const action = [...steps].reverse().find(s => s.reply.action)?.reply.action;
+
+        // Nothing to confirm when every step only reads the plan, so show each full reply
+        if (patch.length === 0) {
+            return createAgentMessage(
+                steps.map(step => step.reply.content).join('\n\n'),
+                steps[steps.length - 1].reply.suggestedActions || [],
+                action
+            );
+        }
+
+        const stepList = steps.map((step, i) => `${i + 1}. **${step.commandName}** - "${step.clause}"\n   ${firstLine(step.reply.content)}`).join('\n');
+        const pending: PendingAction = {
+            type: 'APPLY_COMPOUND',
+            description: `Apply ${steps.length} commands as one change`,
+            details: steps.map(s => s.clause),
+            estimatedImpact: (after.totalSpend || 0) - (before.totalSpend || 0),
+            data: { input, patch, scope: getPlanScope(plan), steps: steps.map(s => s.clause), action }
+        };
+
+        if (expressMode) {
+            return this.apply(pending, plan);
+        }
+
+        context.pendingAction = pending;
+        return createAgentMessage(
+            `**Preview: ${steps.length} commands from one message**\n\n${stepList}\n\n` +
+            `**Combined change:**\n${this.describeChange(before, after)}\n\n` +
+            `Type **"yes"** to apply them together (one undo reverts all of it) or **"no"** to cancel.`,
+            ['Yes', 'No']
+        );
+    }
+
+    /**
+     * Apply a previewed compound change as a single history action
+     */
+    apply(action: PendingAction, plan: MediaPlan | null): AgentMessage {
+        if (!plan) {
+            return createAgentMessage("Error: No media plan found.", ['Create new campaign']);
+        }
+
+        const { input, patch, scope, steps } = action.data as { input: string; patch: Patch; scope: string; steps: string[] };
+        try {
+            actionHistory.commitPatch(plan, patch, scope, {
+                type: 'compound',
+                description: steps.join('; '),
+                userCommand: input
+            });
+        } catch (error) {
+            if (error instanceof PatchConflictError) {
+                return createAgentMessage(
+                    `The plan changed after the preview, so I didn't apply it (${error.message}). Send the message again for a fresh preview.`,
+                    []
+                );
+            }
+            throw error;
+        }
+
+        return createAgentMessage(
+            `✅ Applied **${steps.length} commands** as one change:\n\n` +
+            steps.map(s => `• ${s}`).join('\n') +
+            `\n\nSay **undo** to revert all of them at once.`,
+            ['Undo', 'Show history'],
+            action.data.action
+        );
+    }
+
+    /**
+     * Run one clause through the registry. Throws CompoundStepError when nothing
+     * handles it, it throws, or a plan-changing command leaves the plan untouched.
+     */
+    private runStep(clause: string, stepNumber: number, context: AgentContext): CompoundStep {
+        const command = findMatchingCommand(clause)!.command;
+        const planBefore = JSON.stringify(context.mediaPlan);
+
+        let reply: AgentMessage | null;
+        try {
+            reply = dispatchCommand(clause, context);
+        } catch (error) {
+            throw new CompoundStepError(error instanceof Error ? error.message : String(error), stepNumber, clause);
+        }
+
+        if (!reply) {
+            throw new CompoundStepError(`I didn't understand "${clause}".`, stepNumber, clause);
+        }
+        if (command.modifiesPlan && JSON.stringify(context.mediaPlan) === planBefore) {
+            throw new CompoundStepError(reply.content, stepNumber, clause);
+        }
+
+        return { clause, commandName: command.name, reply };
+    }
+
+    /**
+     * Line, spend, budget and date deltas between the plan before and after the dry run
+     */
+    private describeChange(before: MediaPlan, after: MediaPlan): string {
+        const diff = diffPlans(before, after);
+        const paused = diff.lines.filter(l => l.changes.some(c => c.field === 'status' && c.after === 'PAUSED')).length;
+        const lines: string[] = [];
+
+        const counts = [
+            diff.summary.added > 0 ? `${diff.summary.added} added` : '',
+            diff.summary.removed > 0 ? `${diff.summary.removed} removed` : '',
+            paused > 0 ? `${paused} paused` : '',
+            diff.summary.modified - paused > 0 ? `${diff.summary.modified - paused} changed` : ''
+        ].filter(Boolean);
+        if (counts.length > 0) lines.push(`• Lines: ${counts.join(', ')}`);
+
+        const spendBefore = before.totalSpend || 0;
+        const spendAfter = after.totalSpend || 0;
+        if (Math.round(spendAfter) !== Math.round(spendBefore)) {
+            const delta = spendAfter - spendBefore;
+            lines.push(`• Spend: ${formatMoney(spendBefore)} → ${formatMoney(spendAfter)} (${delta > 0 ? '+' : '-'}${formatMoney(Math.abs(delta))})`);
+        }
+        if (after.campaign.budget !== before.campaign.budget) {
+            lines.push(`• Budget: ${formatMoney(before.campaign.budget)} → ${formatMoney(after.campaign.budget)}`);
+        }
+        if (after.campaign.startDate !== before.campaign.startDate || after.campaign.endDate !== before.campaign.endDate) {
+            lines.push(`• Dates: ${before.campaign.startDate} – ${before.campaign.endDate} → ${after.campaign.startDate} – ${after.campaign.endDate}`);
+        }
+
+        return lines.length > 0 ? lines.join('\n') : '• No line, spend or date changes';
+    }
+}
+
+export const compoundCommandManager = new CompoundCommandManager();
@@ -0,0 +1,119 @@
+/**
+ * CreativeManager - Handles creative upload, assignment and performance
+ *
+ * This module extracts creative commands from AgentBrain.
+ */
+
+import { AgentMessage, MediaPlan, Creative } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { generateId } from './dummyData';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, getPlanScope } from '../utils/planPatch';
+
+export class CreativeManager {
+    /**
+     * Mock upload: confirms the creative is ready to be assigned
+     */
+    uploadCreative(plan: MediaPlan | null, name?: string): AgentMessage {
+        if (!plan) return this.needsPlan();
+
+        const creativeName = name || `New Creative ${Date.now()}`;
+        return createAgentMessage(
+            `✅ **Creative Uploaded!**\n\nI've added "**${creativeName}**" to your library.\n\nYou can now assign it to a placement.`,
+            ['Assign to all display placements']
+        );
+    }
+
+    /**
+     * Attach a new creative to every Display and Social placement
+     */
+    assignCreatives(plan: MediaPlan | null): AgentMessage {
+        if (!plan) return this.needsPlan();
+
+        let count = 0;
+        const tx = new PatchTransaction(plan);
+        plan.campaign.placements?.forEach(p => {
+            if (p.channel === 'Display' || p.channel === 'Social') {
+                const newCreative: Creative = {
+                    id: generateId(),
+                    name: `Assigned Creative ${count + 1}`,
+                    type: 'IMAGE',
+                    url: `https://picsum.photos/seed/${Math.random()}/400/300`,
+                    dimensions: '300x250',
+                    metrics: { ctr: 0, conversions: 0 }
+                };
+                const linePath = ['campaign', 'placements', { id: p.id }];
+                tx.set([...linePath, 'creatives'], [...(p.creatives || []), newCreative]);
+                // Sync legacy
+                tx.set([...linePath, 'creative'], {
+                    id: newCreative.id,
+                    name: newCreative.name,
+                    type: 'image',
+                    url: newCreative.url
+                });
+                count++;
+            }
+        });
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_placement',
+            description: `Assigned creatives to ${count} placements`,
+            userCommand: 'assign creatives'
+        });
+
+        if (count === 0) {
+            return createAgentMessage(
+                "I couldn't find any suitable placements to assign creatives to.",
+                ['Add display placement']
+            );
+        }
+
+        const response = createAgentMessage(
+            `✅ **Creatives Assigned!**\n\nI've assigned new creatives to ${count} placements.`,
+            ['Check performance']
+        );
+        response.updatedMediaPlan = { ...plan };
+        return response;
+    }
+
+    /**
+     * The creative with the best CTR across all placements
+     */
+    winningCreative(plan: MediaPlan | null): AgentMessage {
+        if (!plan) return this.needsPlan();
+
+        let bestCreative: Creative | null = null;
+        let bestCtr = -1;
+        let bestPlacementName = '';
+
+        plan.campaign.placements?.forEach(p => {
+            p.creatives?.forEach(c => {
+                if ((c.metrics?.ctr || 0) > bestCtr) {
+                    bestCtr = c.metrics?.ctr || 0;
+                    bestCreative = c;
+                    bestPlacementName = p.name;
+                }
+            });
+        });
+
+        if (!bestCreative) {
+            return createAgentMessage(
+                "I don't have enough performance data yet to determine a winner.",
+                ['Wait for data']
+            );
+        }
+
+        return createAgentMessage(
+            `🏆 **Winning Creative Found!**\n\n**${(bestCreative as Creative).name}** is your top performer.\n\n• **CTR:** ${((bestCtr) * 100).toFixed(2)}%\n• **Placement:** ${bestPlacementName}`,
+            ['Optimize rotation']
+        );
+    }
+
+    private needsPlan(): AgentMessage {
+        return createAgentMessage(
+            "I need an active media plan to manage creatives.",
+            ['Create new campaign']
+        );
+    }
+}
+
+export const creativeManager = new CreativeManager();
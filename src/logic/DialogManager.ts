@@ -0,0 +1,337 @@
+/**
+ * DialogManager - Slot-filling dialogs for requests that need several details
+ *
+ * Each dialog intent has required and optional slots. The manager fills whatever
+ * it can from every message (answers can come in any order, several at once),
+ * asks only for the required slots that are still missing, and:
+ * - create_campaign: shows a summary of the brief and waits for "yes" before
+ *   AgentBrain builds the plan
+ * - shift_budget: runs the shift as soon as amount, source and target are known
+ */
+
+import { AgentMessage } from '../types';
+import { AgentContext, DialogIntent, DialogSlots, DialogState, createAgentMessage } from './AgentContext';
+import { findMatchingCommand } from './CommandRegistry';
+import { channelManager } from './ChannelManager';
+import { extractAllEntities, extractBudget } from './entityExtractor';
+
+type SlotName = keyof DialogSlots;
+
+interface SlotSpec {
+    name: SlotName;
+    label: string;
+    prompt: string;
+    required: boolean;
+}
+
+export const DIALOG_SLOTS: Record<DialogIntent, SlotSpec[]> = {
+    create_campaign: [
+        { name: 'client', label: 'Client', prompt: 'Who is the client?', required: true },
+        { name: 'budget', label: 'Budget', prompt: 'What is the total budget? (e.g. $500k)', required: true },
+        { name: 'startDate', label: 'Flight dates', prompt: 'When should it run? (e.g. "Q4 2026" or "Nov 1 to Dec 24")', required: true },
+        { name: 'objective', label: 'Objective', prompt: 'What is the main objective - awareness, consideration or conversions?', required: true },
+        { name: 'channels', label: 'Channels', prompt: 'Any channels you want in the mix?', required: false },
+        { name: 'geo', label: 'Geo', prompt: 'Which markets should it target?', required: false },
+        { name: 'audience', label: 'Audience', prompt: 'Who is the audience?', required: false }
+    ],
+    shift_budget: [
+        { name: 'amount', label: 'Amount', prompt: 'How much should I move? (e.g. $10k)', required: true },
+        { name: 'source', label: 'From', prompt: 'Which channel or vendor should it come from?', required: true },
+        { name: 'target', label: 'To', prompt: 'Where should it go?', required: true }
+    ]
+};
+
+const OBJECTIVE_KEYWORDS: Record<NonNullable<DialogSlots['objective']>, RegExp> = {
+    awareness: /\b(?:awareness|brand(?:ing)?|reach|launch|visibility)\b/i,
+    consideration: /\b(?:consideration|engagement|traffic|video views|interest)\b/i,
+    conversion: /\b(?:conversions?|sales|leads?|purchases?|performance|roas|cpa|installs?|acquisition)\b/i
+};
+
+const BUDGET_AMOUNT = /\$\s?[\d,]+(?:\.\d+)?\s*(?:k|mm?|million|thousand)?\b|\b[\d,]+(?:\.\d+)?\s*(?:k|mm?|million|thousand)\b/i;
+const BARE_NUMBER = /^\$?\s?[\d,]+(?:\.\d+)?$/;
+const CLIENT_PATTERN = /\b(?:for|client(?:\s+is|:)?|brand(?:\s+is|:))\s+(.+?)(?=\s*\(|\s+\$|\s+\d|\s+(?:with|in|during|from|starting|targeting|on|to|budget|and|running)\b|[,.;!?]|\s*$)/i;
+const GEO_PATTERN = /\b(?:in|across|throughout)\s+((?:[A-Z][a-zA-Z.]+(?:\s+[A-Z][a-zA-Z.]+)*)(?:(?:,\s*|\s+and\s+)[A-Z][a-zA-Z.]+(?:\s+[A-Z][a-zA-Z.]+)*)*)/;
+const NATIONAL_PATTERN = /\b(?:national(?:ly)?|nationwide|us[- ]wide|across the (?:us|country))\b/i;
+const AUDIENCE_PATTERN = /\b(?:targeting|audience(?:\s+is|:)?|reach(?:ing)?)\s+(.+?)(?=\s+(?:in|with|on|for|from|across)\b|[,.;!?]|\s*$)/i;
+const SHIFT_VERB = /\b(?:shift|move|reallocate|transfer)\b/i;
+const SHIFT_OBJECT = /\b(?:budget|spend|money|dollars|funds)\b|\$\s?\d|\bfrom\s+\w/i;
+const SHIFT_SOURCE = /\bfrom\s+(?:the\s+)?(.+?)(?=\s+(?:to|into)\b|[.!?]?\s*$)/i;
+const SHIFT_TARGET = /\b(?:to|into)\s+(?:the\s+)?(.+?)(?=\s+from\b|[.!?]?\s*$)/i;
+const MONTH_NAMES = /^(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i;
+
+const CONFIRM = /^(?:yes|yep|yeah|confirm|looks good|build it|go ahead|do it|ok|okay)[.!]?$/i;
+const CANCEL = /^(?:cancel|never ?mind|stop|abort|forget it)[.!]?$/i;
+
+export type DialogOutcome =
+    | { type: 'reply'; message: AgentMessage }
+    | { type: 'build_campaign'; slots: DialogSlots }
+    | { type: 'passthrough' }; // Not an answer - let AgentBrain handle the input as usual
+
+function formatMoney(value: number): string {
+    return `$${value.toLocaleString()}`;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export class DialogManager {
+    /**
+     * A shift request that's missing its amount, source or target ("move budget to search")
+     */
+    isPartialShift(input: string): boolean {
+        if (!SHIFT_VERB.test(input) || !SHIFT_OBJECT.test(input)) return false;
+        if (extractAllEntities(input).dates?.startDate) return false; // "move the campaign from March to May"
+        return findMatchingCommand(input)?.command.id !== 'shift_budget';
+    }
+
+    /**
+     * Open a dialog, fill what the first message already says and ask for the rest
+     */
+    start(intent: DialogIntent, input: string, context: AgentContext): AgentMessage {
+        const dialog: DialogState = { intent, slots: {}, confirming: false };
+        context.dialog = dialog;
+        this.fill(dialog, input, context, []);
+        return this.next(dialog, context);
+    }
+
+    /**
+     * Handle the next message of the open dialog
+     */
+    continue(input: string, context: AgentContext): DialogOutcome {
+        const dialog = context.dialog!;
+        const trimmed = input.trim();
+
+        if (CANCEL.test(trimmed)) {
+            context.dialog = undefined;
+            return {
+                type: 'reply',
+                message: createAgentMessage(
+                    dialog.intent === 'create_campaign' ? "Okay, I've dropped that campaign brief." : "Okay, I won't move any budget.",
+                    dialog.intent === 'create_campaign' ? ['Create plan for Nike ($500k)'] : ['Show Details']
+                )
+            };
+        }
+
+        if (dialog.confirming && CONFIRM.test(trimmed)) {
+            context.dialog = undefined;
+            return { type: 'build_campaign', slots: dialog.slots };
+        }
+
+        const filled = this.fill(dialog, input, context, this.missing(dialog).map(s => s.name));
+        if (filled.length === 0) {
+            if (findMatchingCommand(input)) {
+                // A different request - shift dialogs are dropped, a campaign brief waits
+                if (dialog.intent === 'shift_budget') context.dialog = undefined;
+                return { type: 'passthrough' };
+            }
+            return { type: 'reply', message: this.prompt(context, "Sorry, I didn't catch that.") };
+        }
+
+        return { type: 'reply', message: this.next(dialog, context) };
+    }
+
+    /**
+     * Ask again for what the open dialog still needs
+     */
+    prompt(context: AgentContext, lead: string = ''): AgentMessage {
+        const dialog = context.dialog!;
+        const missing = this.missing(dialog);
+        if (missing.length === 0) return this.summary(dialog);
+
+        return createAgentMessage(
+            `${lead ? `${lead} ` : ''}I still need:\n\n${missing.map(s => `• **${s.label}** - ${s.prompt}`).join('\n')}`,
+            this.examples(missing[0].name)
+        );
+    }
+
+    private next(dialog: DialogState, context: AgentContext): AgentMessage {
+        const missing = this.missing(dialog);
+
+        if (missing.length > 0) {
+            const known = this.describe(dialog, false);
+            const heading = dialog.intent === 'create_campaign' ? "Let's set up the campaign." : "Let's move some budget.";
+            return createAgentMessage(
+                `${heading}${known ? `\n\n**So far:**\n${known}` : ''}\n\n` +
+                (missing.length === 1
+                    ? missing[0].prompt
+                    : `I still need:\n\n${missing.map(s => `• **${s.label}** - ${s.prompt}`).join('\n')}\n\nYou can answer in any order.`),
+                this.examples(missing[0].name)
+            );
+        }
+
+        if (dialog.intent === 'shift_budget') {
+            context.dialog = undefined;
+            const { amount, source, target } = dialog.slots;
+            return channelManager.shiftBudget(`shift $${amount} from ${source} to ${target}`, context)!;
+        }
+
+        dialog.confirming = true;
+        return this.summary(dialog);
+    }
+
+    private summary(dialog: DialogState): AgentMessage {
+        return createAgentMessage(
+            `**Here's the brief:**\n\n${this.describe(dialog, true)}\n\n` +
+            `Type **"yes"** to build the plan, or tell me anything to change (e.g. "budget $750k", "add CTV", "in Texas").`,
+            ['Yes', 'Cancel']
+        );
+    }
+
+    private missing(dialog: DialogState): SlotSpec[] {
+        return DIALOG_SLOTS[dialog.intent].filter(s => s.required && dialog.slots[s.name] === undefined);
+    }
+
+    /**
+     * Bullet list of the filled slots (and, for the summary, the optional ones left open)
+     */
+    private describe(dialog: DialogState, includeOpen: boolean): string {
+        const { slots } = dialog;
+        const value = (name: SlotName): string | null => {
+            switch (name) {
+                case 'budget': return slots.budget !== undefined ? formatMoney(slots.budget) : null;
+                case 'amount': return slots.amount !== undefined ? formatMoney(slots.amount) : null;
+                case 'startDate': return slots.startDate ? `${slots.startDate} – ${slots.endDate || 'open-ended'}` : null;
+                case 'objective': return slots.objective ? capitalize(slots.objective) : null;
+                case 'channels': return slots.channels?.join(', ') || (includeOpen ? "Not set - I'll recommend a mix" : null);
+                case 'geo': return slots.geo?.join(', ') || (includeOpen ? 'Not set - national' : null);
+                case 'audience': return slots.audience?.join(', ') || (includeOpen ? 'Not set - broad' : null);
+                default: return (slots[name] as string | undefined) || null;
+            }
+        };
+
+        return DIALOG_SLOTS[dialog.intent]
+            .map(spec => ({ spec, text: value(spec.name) }))
+            .filter(({ text }) => text !== null)
+            .map(({ spec, text }) => `• **${spec.label}:** ${text}`)
+            .join('\n');
+    }
+
+    private examples(slot: SlotName): string[] {
+        const examples: Partial<Record<SlotName, string[]>> = {
+            client: ['Nike', 'Local Coffee Shop'],
+            budget: ['$500k', '$1M'],
+            startDate: ['Q4 2026', 'Next month for 8 weeks'],
+            objective: ['Awareness', 'Conversions'],
+            amount: ['$10k', '$25k'],
+            source: ['Display', 'Social'],
+            target: ['Search', 'CTV']
+        };
+        return examples[slot] || [];
+    }
+
+    /**
+     * Fill slots from a message. `asking` is what the last question asked for, so a
+     * bare answer ("Nike", "50000", "display") can go to the right slot.
+     * Returns the slots that were filled.
+     */
+    private fill(dialog: DialogState, input: string, context: AgentContext, asking: SlotName[]): SlotName[] {
+        return dialog.intent === 'create_campaign'
+            ? this.fillCampaign(dialog.slots, input, context, asking)
+            : this.fillShift(dialog.slots, input, asking);
+    }
+
+    private fillCampaign(slots: DialogSlots, input: string, context: AgentContext, asking: SlotName[]): SlotName[] {
+        const filled: SlotName[] = [];
+        const entities = extractAllEntities(input, { fiscalYearStartMonth: context.brand?.fiscalYearStartMonth });
+        let rest = input;
+
+        if (entities.dates?.startDate) {
+            slots.startDate = entities.dates.startDate;
+            slots.endDate = entities.dates.endDate;
+            filled.push('startDate');
+            if (entities.dates.text) rest = rest.replace(entities.dates.text, ' ');
+        }
+
+        const budgetText = rest.match(BUDGET_AMOUNT)?.[0] || (asking.includes('budget') && BARE_NUMBER.test(rest.trim()) ? rest.trim() : null);
+        const budget = budgetText ? extractBudget(budgetText) : undefined;
+        if (budgetText && budget) {
+            slots.budget = budget;
+            filled.push('budget');
+            rest = rest.replace(budgetText, ' ');
+        }
+
+        const objective = (Object.keys(OBJECTIVE_KEYWORDS) as NonNullable<DialogSlots['objective']>[])
+            .find(key => OBJECTIVE_KEYWORDS[key].test(rest));
+        if (objective) {
+            slots.objective = objective;
+            filled.push('objective');
+        }
+
+        const client = rest.match(CLIENT_PATTERN)?.[1]?.trim();
+        if (client && !Object.values(OBJECTIVE_KEYWORDS).some(pattern => pattern.test(client))) {
+            slots.client = client;
+            filled.push('client');
+        }
+
+        if (entities.channels && entities.channels.length > 0) {
+            slots.channels = [...new Set([...(slots.channels || []), ...entities.channels])];
+            filled.push('channels');
+        }
+
+        const geo = [
+            ...(NATIONAL_PATTERN.test(rest) ? ['National'] : []),
+            ...(rest.match(GEO_PATTERN)?.[1].split(/,\s*|\s+and\s+/) || []).filter(place => !MONTH_NAMES.test(place)),
+            ...(entities.audience?.geography || []).map(capitalize)
+        ];
+        if (geo.length > 0) {
+            slots.geo = [...new Set(geo)];
+            filled.push('geo');
+        }
+
+        const audience = [
+            ...(entities.audience?.demographics || []),
+            ...(entities.audience?.behaviors || []),
+            ...(rest.match(AUDIENCE_PATTERN)?.[1] ? [rest.match(AUDIENCE_PATTERN)![1]] : [])
+        ];
+        if (audience.length > 0) {
+            const merged = [...(slots.audience || []), ...audience];
+            slots.audience = merged.filter((a, i) => merged.findIndex(b => b.toLowerCase() === a.toLowerCase()) === i);
+            filled.push('audience');
+        }
+
+        // A short answer to "Who is the client?"
+        const answer = rest.replace(/^(?:it'?s|it is|the client is|client is|for)\s+/i, '').replace(/[.!]+$/, '').trim();
+        if (filled.length === 0 && asking[0] === 'client' && answer && answer.split(/\s+/).length <= 5 && !findMatchingCommand(answer)) {
+            slots.client = answer;
+            filled.push('client');
+        }
+
+        return filled;
+    }
+
+    private fillShift(slots: DialogSlots, input: string, asking: SlotName[]): SlotName[] {
+        const filled: SlotName[] = [];
+
+        const amountText = input.match(BUDGET_AMOUNT)?.[0] || (asking.includes('amount') && BARE_NUMBER.test(input.trim()) ? input.trim() : null);
+        const amount = amountText ? extractBudget(amountText) : undefined;
+        if (amountText && amount) {
+            slots.amount = amount;
+            filled.push('amount');
+        }
+
+        const source = input.match(SHIFT_SOURCE)?.[1];
+        if (source) {
+            slots.source = source.trim();
+            filled.push('source');
+        }
+        const target = input.match(SHIFT_TARGET)?.[1];
+        if (target && !BUDGET_AMOUNT.test(target)) {
+            slots.target = target.trim();
+            filled.push('target');
+        }
+
+        // A bare channel or vendor answers whichever of source/target was asked first
+        // (unless it's a command of its own, e.g. "show goals")
+        const answer = input.replace(/[.!]+$/, '').trim();
+        const slot = asking.find((name): name is 'source' | 'target' => name === 'source' || name === 'target');
+        if (filled.length === 0 && slot && answer && answer.split(/\s+/).length <= 3 && !findMatchingCommand(answer)) {
+            slots[slot] = answer;
+            filled.push(slot);
+        }
+
+        return filled;
+    }
+}
+
+export const dialogManager = new DialogManager();
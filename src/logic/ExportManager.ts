@@ -0,0 +1,68 @@
+/**
+ * ExportManager - Starts plan exports
+ *
+ * The files themselves are built in the UI once it sees the message action
+ * (EXPORT_PDF, EXPORT_PPT, ...); this module words the reply and, for
+ * insertion orders, records which orders were issued.
+ */
+
+import { AgentMessage, MediaPlan } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { channelManager } from './ChannelManager';
+
+export type ExportFormat = 'pdf' | 'ppt' | 'xlsx' | 'report' | 'io';
+
+export class ExportManager {
+    exportPlan(format: ExportFormat, plan: MediaPlan, input: string): AgentMessage {
+        switch (format) {
+            case 'pdf':
+                return createAgentMessage(
+                    "Generating your PDF export now...",
+                    ['Start New Campaign'],
+                    'EXPORT_PDF'
+                );
+            case 'ppt':
+                return createAgentMessage(
+                    "Generating your PowerPoint presentation now...",
+                    ['Start New Campaign'],
+                    'EXPORT_PPT'
+                );
+            case 'xlsx':
+                return createAgentMessage(
+                    "Generating your Excel workbook now - one tab per flight plus a campaign summary, with live cost and budget formulas...",
+                    ['Export PDF', 'Start New Campaign'],
+                    'EXPORT_XLSX'
+                );
+            case 'report':
+                return createAgentMessage(
+                    "Building your branded PDF report now - executive summary, goal progress, forecast, optimization, attribution, pacing, segment overlap and line items, with a table of contents and charts. Use the **Report** button above the plan to pick sections or change colors.",
+                    ['Export to Excel', 'Generate insertion orders'],
+                    'EXPORT_REPORT'
+                );
+            case 'io':
+                return this.insertionOrders(plan, input);
+        }
+    }
+
+    /**
+     * One insertion order per vendor
+     */
+    private insertionOrders(plan: MediaPlan, input: string): AgentMessage {
+        const orders = channelManager.issueInsertionOrders(plan, input);
+        if (orders.length === 0) {
+            return createAgentMessage(
+                "There are no placements in this plan yet, so there's nothing to contract.",
+                ['Add placement']
+            );
+        }
+
+        return createAgentMessage(
+            `📄 Generating **${orders.length} insertion orders** - one PDF per vendor:\n\n` +
+            orders.map(o => `• **${o.ioNumber}** ${o.vendor} - ${o.lines.length} line${o.lines.length === 1 ? '' : 's'}, $${(o.totalCost / 1000).toFixed(1)}k (${o.status.toLowerCase()})`).join('\n'),
+            orders.slice(0, 2).map(o => `Mark ${o.vendor} IO as sent`),
+            'EXPORT_IO'
+        );
+    }
+}
+
+export const exportManager = new ExportManager();
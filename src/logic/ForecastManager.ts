@@ -0,0 +1,252 @@
+/**
+ * ForecastManager - Handles forecasting, seasonality, overlap and delivery questions
+ *
+ * This module extracts the forecasting commands from AgentBrain. All methods
+ * read the plan without changing it.
+ */
+
+import { AgentMessage, Brand, MediaPlan } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { forecastCampaign, formatForecastResult, calculateAudienceOverlap, getChannelDelivery, getForecastOptions, getStartMonth } from '../utils/forecastingEngine';
+import { buildCampaignTimeline } from '../utils/campaignTimeline';
+import { DEFAULT_ITERATIONS } from '../utils/monteCarloSimulation';
+import { DEFAULT_EFFECTIVE_FREQUENCY, REPORTED_FREQUENCIES, buildReachCurve, estimateReach, reachAtFrequency } from '../utils/reachFrequency';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'];
+
+const SEASONAL_FACTORS: Record<number, string> = {
+    0: 'Post-holiday slump - 10-15% lower CPMs',
+    1: 'Valentine\'s/Presidents Day - slightly elevated',
+    2: 'Spring awakening - baseline CPMs',
+    3: 'Spring growth - moderately elevated (5-10%)',
+    4: 'Summer prep - elevated (10-15%)',
+    5: 'Summer begins - moderately elevated',
+    6: 'Summer slump - 5-10% lower CPMs',
+    7: 'Back to school prep - lower competition (10-15% cheaper)',
+    8: 'Fall activation - back to baseline',
+    9: 'Q4 buildup - elevated (5-10%)',
+    10: 'Holiday peak - VERY HIGH (15-20% premium)',
+    11: 'Holiday peak continues - HIGHEST (15-25% premium)'
+};
+
+function formatPeople(value: number): string {
+    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `${Math.round(value / 1000)}K`;
+    return Math.round(value).toLocaleString();
+}
+
+export class ForecastManager {
+    /**
+     * Forecast delivery and performance over the campaign's dates. The brand's
+     * own history, when it has enough, replaces the channel benchmarks.
+     */
+    forecast(plan: MediaPlan, brand?: Brand | null): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't forecast yet - there are no placements to analyze. Add some placements first!",
+                ['Add 3 social placements', 'How should I allocate $50k?']
+            );
+        }
+
+        const campaign = plan.campaign;
+        const startDate = campaign.startDate || new Date().toISOString();
+        const endDate = campaign.endDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+        const forecast = forecastCampaign(placements, startDate, endDate, getForecastOptions(campaign, brand));
+        return createAgentMessage(
+            formatForecastResult(forecast),
+            ['Show seasonal impact', 'Check audience overlap', 'Optimize my plan']
+        );
+    }
+
+    /**
+     * Start a Monte Carlo simulation. The app runs it in a worker (RUN_SIMULATION)
+     * and posts the distributions when it finishes.
+     */
+    simulate(plan: MediaPlan, iterations: number = DEFAULT_ITERATIONS): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't simulate yet - there are no placements to analyze. Add some placements first!",
+                ['Add 3 social placements']
+            );
+        }
+
+        // Effective frequency shapes reach; it isn't a target the simulation can hit
+        const goalCount = Object.entries(plan.campaign.numericGoals || {})
+            .filter(([metric, v]) => metric !== 'effectiveFrequency' && v && v > 0).length;
+        return createAgentMessage(
+            `🎲 Running **${iterations.toLocaleString()} simulations** of ${placements.length} placement${placements.length === 1 ? '' : 's'}` +
+            (goalCount > 0 ? ` against your ${goalCount} goal${goalCount === 1 ? '' : 's'}` : '') + `. Results will appear here in a moment.`,
+            [],
+            { type: 'RUN_SIMULATION', payload: { iterations } }
+        );
+    }
+
+    /**
+     * Deduplicated reach, the frequency distribution (1+, 3+, 5+ and the effective
+     * frequency goal) and how reach grows with spend
+     */
+    reachFrequency(plan: MediaPlan, brand?: Brand | null): AgentMessage {
+        const placements = (plan.campaign.placements || []).filter(p => p.performance?.status !== 'PAUSED');
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't estimate reach yet - there are no active placements. Add some placements first!",
+                ['Add 3 social placements']
+            );
+        }
+
+        const campaign = plan.campaign;
+        const delivery = getChannelDelivery(placements, campaign.startDate || new Date().toISOString(), getForecastOptions(campaign, brand));
+        const estimate = estimateReach(Object.fromEntries(delivery.map(d => [d.channel, d.impressions])));
+        const effectiveFrequency = campaign.numericGoals?.effectiveFrequency || DEFAULT_EFFECTIVE_FREQUENCY;
+        const frequencies = Array.from(new Set([...REPORTED_FREQUENCIES, effectiveFrequency])).sort((a, b) => a - b);
+
+        let responseContent = `📡 **Reach & Frequency**\n\n`;
+        responseContent += `**Reach:** ${formatPeople(estimate.reach)} people (${estimate.reachPercent.toFixed(1)}% of ${formatPeople(estimate.population)} adults)\n`;
+        responseContent += `**Average Frequency:** ${estimate.averageFrequency.toFixed(1)}\n\n`;
+
+        responseContent += `**Frequency Distribution:**\n`;
+        frequencies.forEach(n => {
+            const reach = reachAtFrequency(estimate, n);
+            const marker = n === campaign.numericGoals?.effectiveFrequency ? ' 🎯' : '';
+            responseContent += `• ${n}+: ${formatPeople(reach)} (${(reach / estimate.population * 100).toFixed(1)}%)${marker}\n`;
+        });
+
+        responseContent += `\n**By Channel:**\n`;
+        estimate.byChannel
+            .sort((a, b) => b.reach - a.reach)
+            .forEach(c => {
+                responseContent += `• ${c.channel}: ${formatPeople(c.reach)} reached, ${c.averageFrequency.toFixed(1)} avg. frequency\n`;
+            });
+
+        responseContent += `\n**Reach Curve** (same channel mix):\n`;
+        buildReachCurve(delivery, effectiveFrequency).forEach(point => {
+            const current = point.spendMultiplier === 1 ? ' ← current' : '';
+            responseContent += `• $${formatPeople(point.spend)}: ${formatPeople(point.reach)} reach, ${formatPeople(point.effectiveReach)} at ${effectiveFrequency}+${current}\n`;
+        });
+
+        const suggestions = campaign.numericGoals?.effectiveFrequency
+            ? [`Optimize for ${effectiveFrequency}+ reach`, 'Check audience overlap']
+            : [`Set effective frequency ${DEFAULT_EFFECTIVE_FREQUENCY}`, `Optimize for ${DEFAULT_EFFECTIVE_FREQUENCY}+ reach`];
+        return createAgentMessage(responseContent, suggestions);
+    }
+
+    /**
+     * CPM trends for the month the campaign starts in
+     */
+    seasonalImpact(plan: MediaPlan): AgentMessage {
+        if (!plan.campaign.placements || plan.campaign.placements.length === 0) {
+            return createAgentMessage(
+                "I can't analyze seasonal impact yet - add placements first.",
+                ['Add placements']
+            );
+        }
+
+        const month = plan.campaign.startDate ? getStartMonth(plan.campaign.startDate) : new Date().getMonth();
+
+        let responseContent = `🌡️ **Seasonal Impact Analysis**\n\n`;
+        responseContent += `**Campaign Month:** ${MONTH_NAMES[month]}\n\n`;
+        responseContent += `**${MONTH_NAMES[month]} Trends:**\n`;
+        responseContent += `• ${SEASONAL_FACTORS[month] || 'Normal seasonal patterns'}\n\n`;
+
+        responseContent += `**Recommendations:**\n`;
+        if (month === 10 || month === 11) {
+            responseContent += `• Book inventory early - high demand period\n`;
+            responseContent += `• Expect 15-20% higher CPMs than average\n`;
+            responseContent += `• Consider expanding to less competitive channels\n`;
+        } else if (month === 6 || month === 7) {
+            responseContent += `• Great opportunity for efficient spend\n`;
+            responseContent += `• CPMs 10-15% below average\n`;
+            responseContent += `• Good time to test new channels/tactics\n`;
+        } else {
+            responseContent += `• Normal competitive levels expected\n`;
+            responseContent += `• Good balance of efficiency and reach\n`;
+        }
+
+        return createAgentMessage(responseContent, ['Forecast campaign', 'Optimize my plan']);
+    }
+
+    /**
+     * Unique reach after removing audience shared between channels
+     */
+    audienceOverlap(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't calculate audience overlap yet - add placements first.",
+                ['Add placements']
+            );
+        }
+
+        const overlap = calculateAudienceOverlap(placements);
+
+        let responseContent = `👥 **Audience Overlap Analysis**\n\n`;
+        responseContent += `**Total Reach (Uncorrected):** ${Math.round(overlap.totalReach).toLocaleString()}\n`;
+        responseContent += `**Overlap Amount:** ${Math.round(overlap.overlapAmount).toLocaleString()} (${overlap.overlapPercentage.toFixed(1)}%)\n`;
+        responseContent += `**Adjusted Unique Reach:** ${Math.round(overlap.adjustedReach).toLocaleString()}\n\n`;
+
+        if (overlap.overlapPercentage > 40) {
+            responseContent += `⚠️ **High Overlap Detected**\n`;
+            responseContent += `Your channels have significant audience overlap (${overlap.overlapPercentage.toFixed(0)}%). This means:\n`;
+            responseContent += `• You're reaching fewer unique people than raw numbers suggest\n`;
+            responseContent += `• Consider diversifying to different audience segments\n`;
+            responseContent += `• Frequency may be higher than optimal\n`;
+        } else if (overlap.overlapPercentage > 25) {
+            responseContent += `📊 **Moderate Overlap**\n`;
+            responseContent += `Your channels have typical overlap (${overlap.overlapPercentage.toFixed(0)}%). This is normal for multi-channel campaigns.\n`;
+        } else {
+            responseContent += `✅ **Low Overlap**\n`;
+            responseContent += `Great! Your channels reach relatively distinct audiences (${overlap.overlapPercentage.toFixed(0)}% overlap).\n`;
+        }
+
+        return createAgentMessage(responseContent, ['Forecast campaign', 'Optimize my plan']);
+    }
+
+    /**
+     * Pacing and delivery against the campaign forecast
+     */
+    deliveryStatus(plan: MediaPlan): AgentMessage {
+        const forecast = plan.campaign.forecast;
+        const delivery = plan.campaign.delivery;
+
+        if (!forecast || !delivery) {
+            return createAgentMessage("I don't have forecast data for this plan yet. Try generating placements first.", []);
+        }
+
+        return createAgentMessage(
+            `**📊 Plan Performance & Forecast:**\n\n` +
+            `**Delivery Status:** ${delivery.status.replace('_', ' ')} (${delivery.pacing}% Pacing)\n` +
+            `**Impressions:** ${(delivery.actualImpressions || 0).toLocaleString()} delivered / ${(forecast.impressions || 0).toLocaleString()} forecasted\n` +
+            `**Spend:** $${(delivery.actualSpend || 0).toLocaleString()} spent / $${(forecast.spend || 0).toLocaleString()} planned\n\n` +
+            `**Forecast Source:** ${forecast.source}\n` +
+            `**Est. Reach:** ${(forecast.reach || 0).toLocaleString()} unique users`,
+            ['Show detailed performance', 'Optimize under-pacing lines']
+        );
+    }
+
+    /**
+     * Stretches of the campaign with no live media
+     */
+    darkPeriods(plan: MediaPlan): AgentMessage {
+        const timeline = buildCampaignTimeline(plan.campaign, plan.activeFlightId);
+        if (timeline.darkPeriods.length === 0) {
+            return createAgentMessage(
+                `✅ No dark periods - media is live every day from ${plan.campaign.startDate} to ${plan.campaign.endDate}.`,
+                ['Export PDF']
+            );
+        }
+
+        const darkDays = timeline.darkPeriods.reduce((sum, p) => sum + p.days, 0);
+        return createAgentMessage(
+            `🌑 Found **${timeline.darkPeriods.length} dark period${timeline.darkPeriods.length === 1 ? '' : 's'}** (${darkDays} days with no live media):\n\n` +
+            timeline.darkPeriods.map(p => `• ${p.startDate} – ${p.endDate} (${p.days} day${p.days === 1 ? '' : 's'})`).join('\n') +
+            `\n\nOpen the **Timeline** view above the plan and drag a line across the gap to cover it.`,
+            ['Delay start by 1 month', 'Add placement']
+        );
+    }
+}
+
+export const forecastManager = new ForecastManager();
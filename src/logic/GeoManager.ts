@@ -0,0 +1,226 @@
+/**
+ * GeoManager - Handles DMA targeting, geo budget splits and DMA breakdowns
+ *
+ * Allocations patch each line's targeting (DMA names and ids) and the
+ * campaign's geoPlan, so they can be undone like any other edit. Line budgets
+ * stay as they are; geoPlanning.ts splits them across DMAs when forecasting.
+ */
+
+import { AgentMessage, Brand, GeoPlan, GeoWeighting, Line, MediaPlan } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, getPlanScope } from '../utils/planPatch';
+import { getForecastOptions } from '../utils/forecastingEngine';
+import { forecastByDMA, getDMAIndex, resolveGeoNames, splitBudgetByDMA } from '../utils/geoPlanning';
+import { DMA_LIST, getDMAById, getTopDMAs } from '../data/dmaDatabase';
+
+export interface DMASelection {
+    dmaIds: number[];
+    weighting: GeoWeighting | null;         // Null when the input doesn't say
+    channel: Line['channel'] | null;        // Only lines in this channel are targeted
+    label: string;                          // e.g. "top 25 DMAs"
+}
+
+const LINE_CHANNELS: Line['channel'][] = ['Search', 'Social', 'Display', 'TV', 'Radio', 'Streaming Audio', 'Podcast', 'Place-based Audio', 'OOH', 'Print'];
+
+// DMAs listed in chat replies
+const TOP_ROWS = 10;
+
+function formatNumber(value: number): string {
+    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `${Math.round(value / 1000)}K`;
+    return Math.round(value).toLocaleString();
+}
+
+function formatMoney(value: number): string {
+    return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Read the markets, weighting and channel from "allocate by population across top 25 DMAs",
+ * "target TV to Chicago, Dallas and Houston markets by index"
+ */
+export function parseDMASelection(input: string): DMASelection {
+    const weighting: GeoWeighting | null =
+        /\b(?:index|indexes|indices|bdi|cdi|custom)\b/i.test(input) ? 'INDEX'
+        : /\b(?:population|households?|hh)\b/i.test(input) ? 'HOUSEHOLDS'
+        : null;
+    // "TV households" names the weighting, not the channel
+    const channel = LINE_CHANNELS.find(c => new RegExp(`\\b${c}\\b(?!\\s+(?:households?|hh)\\b)`, 'i').test(input)) || null;
+
+    const topMatch = input.match(/top\s+(\d+)\s*(?:dmas?|markets?)?/i);
+    if (topMatch) {
+        const count = Math.min(Math.max(parseInt(topMatch[1], 10), 1), DMA_LIST.length);
+        return { dmaIds: getTopDMAs(count).map(d => d.id), weighting, channel, label: `top ${count} DMAs` };
+    }
+
+    // "target TV to Chicago", else "target Chicago"
+    const marketsMatch = input.match(/\b(?:across|in|to|between|over)\s+(.+)$/i)
+        || input.match(/\b(?:target|allocate|split|distribute|spread)\s+(.+)$/i);
+    const names = marketsMatch
+        ? marketsMatch[1]
+            .replace(/\bby\s+(?:population|(?:tv\s+)?households?|hh|index(?:es)?|bdi|cdi|custom(?:\s+index(?:es)?)?)\b/gi, '')
+            .replace(/\b(?:the\s+)?(?:dmas?|markets?)\b/gi, '')
+            .split(/,|\band\b|&/i)
+            .map(name => name.trim())
+            .filter(Boolean)
+        : [];
+    const dmaIds = resolveGeoNames(names);
+    return {
+        dmaIds,
+        weighting,
+        channel,
+        label: dmaIds.map(id => getDMAById(id)!.name).join(', ')
+    };
+}
+
+export class GeoManager {
+    /**
+     * Target lines at a set of DMAs and record how their budgets split
+     */
+    allocateByDMA(plan: MediaPlan, input: string): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "There are no lines to target yet. Add some placements first, then allocate them by DMA.",
+                ['Add 3 social placements']
+            );
+        }
+
+        const selection = parseDMASelection(input);
+        if (selection.dmaIds.length === 0) {
+            return createAgentMessage(
+                `Which markets should I allocate across? Try "Allocate by population across top 25 DMAs" or "Target Chicago, Dallas and Houston markets".`,
+                ['Allocate by population across top 25 DMAs', 'Target top 10 DMAs by index']
+            );
+        }
+
+        const lines = placements.filter(p => !selection.channel || p.channel === selection.channel);
+        if (lines.length === 0) {
+            return createAgentMessage(
+                `This plan has no ${selection.channel} lines to target. Leave the channel out to target every line.`,
+                [`Allocate by population across ${selection.label}`]
+            );
+        }
+
+        const geoPlan: GeoPlan = {
+            weighting: selection.weighting || plan.campaign.geoPlan?.weighting || 'HOUSEHOLDS',
+            indexes: plan.campaign.geoPlan?.indexes
+        };
+        const names = selection.dmaIds.map(id => getDMAById(id)!.name);
+
+        const tx = new PatchTransaction(plan);
+        lines.forEach(line => {
+            tx.set(['campaign', 'placements', { id: line.id }, 'targeting'], {
+                demographics: [],
+                devices: [],
+                ...line.targeting,
+                geo: names,
+                dmaIds: selection.dmaIds
+            });
+        });
+        tx.set(['campaign', 'geoPlan'], geoPlan);
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_campaign',
+            description: `Targeted ${lines.length} line(s) to ${selection.label}`,
+            userCommand: input
+        });
+
+        const budget = lines.reduce((sum, line) => sum + line.totalCost, 0);
+        const split = splitBudgetByDMA(budget, selection.dmaIds, geoPlan);
+        const coverage = split.reduce((sum, s) => sum + (getDMAById(s.dmaId)?.tvHouseholds || 0), 0);
+        const weightingLabel = geoPlan.weighting === 'INDEX' ? 'households × market index' : 'TV households';
+
+        let content = `🗺️ **Allocated ${selection.channel ? `${selection.channel} ` : ''}by DMA: ${selection.label}**\n\n`;
+        content += `${lines.length} line${lines.length === 1 ? '' : 's'} (${formatMoney(budget)}) now target${lines.length === 1 ? 's' : ''} ${split.length} DMA${split.length === 1 ? '' : 's'}, split by ${weightingLabel}.\n`;
+        content += `Coverage: ${formatNumber(coverage)} TV households.\n\n`;
+        split
+            .slice()
+            .sort((a, b) => b.budget - a.budget)
+            .slice(0, TOP_ROWS)
+            .forEach(s => {
+                content += `  • ${s.name}: ${formatMoney(s.budget)} (${(s.share * 100).toFixed(1)}%)\n`;
+            });
+        if (split.length > TOP_ROWS) {
+            content += `  • ...and ${split.length - TOP_ROWS} more\n`;
+        }
+
+        const response = createAgentMessage(content, ['Show DMA breakdown', 'Set Chicago index to 120', 'Undo']);
+        response.updatedMediaPlan = { ...plan, campaign: { ...plan.campaign, placements: [...placements] } };
+        return response;
+    }
+
+    /**
+     * Set a market's index, e.g. "set Chicago index to 150". Switches the plan to INDEX weighting.
+     */
+    setDMAIndex(plan: MediaPlan, input: string): AgentMessage {
+        const match = input.match(/(?:set\s+)?(?:the\s+)?(.+?)\s+(?:index|bdi|cdi)\s+(?:to\s+|at\s+|=\s*)?(\d+(?:\.\d+)?)/i);
+        const dmaId = match ? resolveGeoNames([match[1]])[0] : undefined;
+        const value = match ? parseFloat(match[2]) : NaN;
+
+        if (dmaId === undefined || !(value > 0)) {
+            return createAgentMessage(
+                `Tell me the market and its index, e.g. "Set Chicago index to 150" (100 = weighted by households alone).`,
+                ['Set Chicago index to 150']
+            );
+        }
+
+        const dma = getDMAById(dmaId)!;
+        const tx = new PatchTransaction(plan);
+        tx.set(['campaign', 'geoPlan'], {
+            weighting: 'INDEX',
+            indexes: { ...plan.campaign.geoPlan?.indexes, [dmaId]: value }
+        } as GeoPlan);
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_campaign',
+            description: `Set ${dma.name} index to ${value}`,
+            userCommand: input
+        });
+
+        const response = createAgentMessage(
+            `✅ **${dma.name}** now has an index of **${value}**. Lines targeting it get ${value > 100 ? 'more' : value < 100 ? 'less' : 'the same'} budget than its households alone would give.`,
+            ['Show DMA breakdown', 'Undo']
+        );
+        response.updatedMediaPlan = { ...plan, campaign: { ...plan.campaign } };
+        return response;
+    }
+
+    /**
+     * Forecast rolled up per DMA and nationally, with household coverage
+     */
+    breakdown(plan: MediaPlan, brand?: Brand | null): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "There's nothing to break down yet - add some placements first.",
+                ['Add 3 social placements']
+            );
+        }
+
+        const campaign = plan.campaign;
+        const startDate = campaign.startDate || new Date().toISOString();
+        const geo = forecastByDMA(placements, startDate, campaign.geoPlan, getForecastOptions(campaign, brand));
+        const { national, coverage } = geo;
+
+        let content = `🗺️ **DMA Breakdown**\n\n`;
+        content += `Coverage: ${coverage.national ? 'National (all 210 DMAs)' : `${coverage.dmaCount} DMA${coverage.dmaCount === 1 ? '' : 's'}`}, `;
+        content += `${formatNumber(coverage.households)} TV households (${coverage.percentUS.toFixed(1)}% of US)\n\n`;
+
+        content += `**Top DMAs by spend:**\n`;
+        geo.rows.slice(0, TOP_ROWS).forEach(row => {
+            const index = getDMAIndex(row.dmaId, campaign.geoPlan);
+            content += `  • #${row.dmaId} ${row.name}: ${formatMoney(row.spend)}, ${formatNumber(row.impressions)} imps, ${formatNumber(row.reach)} reach`;
+            content += index !== 100 ? ` (index ${index})\n` : `\n`;
+        });
+        if (geo.rows.length > TOP_ROWS) {
+            content += `  • ...and ${geo.rows.length - TOP_ROWS} more DMAs\n`;
+        }
+
+        content += `\n**National:** ${formatMoney(national.spend)}, ${formatNumber(national.impressions)} impressions, `;
+        content += `${formatNumber(national.reach)} reach at ${national.frequency.toFixed(1)}x, ${formatNumber(national.conversions)} conversions`;
+
+        return createAgentMessage(content, ['Allocate by population across top 25 DMAs', 'Show reach and frequency']);
+    }
+}
+
+export const geoManager = new GeoManager();
@@ -0,0 +1,154 @@
+/**
+ * GoalManager - Handles numeric campaign goals
+ *
+ * This module extracts goal commands from AgentBrain. Goals are patched onto
+ * campaign.numericGoals so they can be undone like any other edit.
+ */
+
+import { AgentMessage, MediaPlan } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, getPlanScope } from '../utils/planPatch';
+
+export type GoalMetric = 'impressions' | 'reach' | 'conversions' | 'clicks' | 'effectiveFrequency';
+
+const GOAL_LABELS: Record<GoalMetric, string> = {
+    impressions: 'impressions',
+    reach: 'reach',
+    conversions: 'conversions',
+    clicks: 'clicks',
+    effectiveFrequency: 'effective frequency'
+};
+
+export interface SetGoalParams {
+    metric: GoalMetric | null;
+    value: number | null;
+}
+
+/**
+ * Read the metric and target from "set goal impressions 1.5M", "increase reach to 500k",
+ * "set effective frequency to 3+"
+ */
+export function parseGoal(input: string): SetGoalParams {
+    const lowerInput = input.toLowerCase();
+
+    if (lowerInput.includes('frequency')) {
+        const frequencyMatch = lowerInput.substring(lowerInput.indexOf('frequency')).match(/(\d+)\s*\+?/);
+        return { metric: 'effectiveFrequency', value: frequencyMatch ? parseInt(frequencyMatch[1], 10) : null };
+    }
+
+    let metric: GoalMetric | null = null;
+    if (lowerInput.includes('impression')) metric = 'impressions';
+    else if (lowerInput.includes('reach')) metric = 'reach';
+    else if (lowerInput.includes('conversion')) metric = 'conversions';
+    else if (lowerInput.includes('click')) metric = 'clicks';
+
+    if (!metric) {
+        return { metric, value: null };
+    }
+
+    // Look for the number after the metric keyword, so "set goal impressions 100M" reads 100M
+    const metricIndex = lowerInput.indexOf(metric);
+    const afterMetric = metricIndex >= 0 ? lowerInput.substring(metricIndex + metric.length) : lowerInput;
+    const valueMatch = afterMetric.match(/(\d+(?:\.\d+)?)\s*([kKmMbB])?/);
+    if (!valueMatch) {
+        return { metric, value: null };
+    }
+
+    let value = parseFloat(valueMatch[1]);
+    const suffix = valueMatch[2]?.toLowerCase();
+    if (suffix === 'k') value *= 1000;
+    else if (suffix === 'm') value *= 1000000;
+    else if (suffix === 'b') value *= 1000000000;
+
+    return { metric, value: Math.floor(value) };
+}
+
+export class GoalManager {
+    showGoals(plan: MediaPlan | null): AgentMessage {
+        if (!plan) return this.needsPlan();
+
+        const goals = plan.campaign.numericGoals || {};
+        if (Object.keys(goals).length === 0) {
+            return createAgentMessage(
+                "You haven't set any numeric goals yet.",
+                ['Set goal impressions 1M', 'Set goal conversions 500']
+            );
+        }
+
+        let responseContent = "**🎯 Current Campaign Goals**\n\n";
+        if (goals.impressions) responseContent += `• **Impressions:** ${goals.impressions.toLocaleString()}\n`;
+        if (goals.reach) responseContent += `• **Reach:** ${goals.reach.toLocaleString()}\n`;
+        if (goals.conversions) responseContent += `• **Conversions:** ${goals.conversions.toLocaleString()}\n`;
+        if (goals.clicks) responseContent += `• **Clicks:** ${goals.clicks.toLocaleString()}\n`;
+        if (goals.effectiveFrequency) responseContent += `• **Effective Frequency:** ${goals.effectiveFrequency}+ exposures\n`;
+
+        return createAgentMessage(responseContent, ['Forecast this campaign']);
+    }
+
+    setGoal(plan: MediaPlan | null, params: SetGoalParams, input: string): AgentMessage {
+        if (!plan) return this.needsPlan();
+
+        const { metric, value } = params;
+        if (!metric) {
+            return createAgentMessage(
+                "Which goal would you like to set? I support Impressions, Reach, Conversions, Clicks, and Effective Frequency.",
+                ['Set goal impressions 1M', 'Set goal conversions 500']
+            );
+        }
+
+        if (metric === 'effectiveFrequency') {
+            if (value === null || value < 1) {
+                return createAgentMessage(
+                    `How many exposures should count as effective? Try "Set effective frequency 3" for 3+ reach.`,
+                    ['Set effective frequency 3']
+                );
+            }
+        } else if (value === null) {
+            return createAgentMessage(
+                `I couldn't understand the value for ${metric}. Try saying something like "Set goal ${metric} 1.5M" or "Set goal ${metric} 5000".`,
+                [`Set goal ${metric} 100k`]
+            );
+        }
+
+        const tx = new PatchTransaction(plan);
+        if (!plan.campaign.numericGoals) {
+            tx.set(['campaign', 'numericGoals'], {});
+        }
+        tx.set(['campaign', 'numericGoals', metric], value);
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_goals',
+            description: `Set ${GOAL_LABELS[metric]} goal to ${value.toLocaleString()}`,
+            userCommand: input
+        });
+
+        const response = metric === 'effectiveFrequency'
+            ? createAgentMessage(
+                `✅ **Goal Updated!**\n\nI've set your **effective frequency** to **${value}+ exposures**. Reach & frequency reports will show ${value}+ reach, and optimizing for effective reach will work toward it.`,
+                ['Show reach and frequency', `Optimize for ${value}+ reach`]
+            )
+            : createAgentMessage(
+                `✅ **Goal Updated!**\n\nI've set your **${metric}** goal to **${value.toLocaleString()}**.\n\nThe goal tracking card in your plan view has been updated.`,
+                ['Show goals', 'Forecast this campaign']
+            );
+
+        // Shallow copy so the UI re-renders the goal card while keeping placement references
+        response.updatedMediaPlan = {
+            ...plan,
+            campaign: {
+                ...plan.campaign,
+                numericGoals: { ...plan.campaign.numericGoals }
+            }
+        };
+        return response;
+    }
+
+    private needsPlan(): AgentMessage {
+        return createAgentMessage(
+            "I need an active media plan to manage goals. Please create or select a campaign first.",
+            ['Create new campaign']
+        );
+    }
+}
+
+export const goalManager = new GoalManager();
@@ -0,0 +1,158 @@
+/**
+ * HistoryManager - Handles undo/redo, action history and named checkpoints
+ *
+ * This module extracts history commands from AgentBrain. Undo and redo apply
+ * the recorded patches to the live plan (see utils/planPatch.ts).
+ */
+
+import { AgentMessage, MediaPlan } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchConflictError, getPlanScope } from '../utils/planPatch';
+
+export interface UndoParams {
+    count?: number;   // "undo last 3"
+    keyword?: string; // "undo add NFL"
+}
+
+export class HistoryManager {
+    /**
+     * Undo the last action, the last N actions, or the last action matching a keyword
+     */
+    undo(plan: MediaPlan, params: UndoParams): AgentMessage {
+        const scope = getPlanScope(plan);
+
+        return this.withConflictHandling('undo that', () => {
+            if (params.count) {
+                const undone = actionHistory.undoSteps(scope, params.count, plan);
+                if (undone.length === 0) {
+                    return createAgentMessage("No recent actions to undo.", []);
+                }
+
+                return createAgentMessage(
+                    `⏮️ Undid last ${undone.length} action(s):\n` +
+                    undone.map(a => `• ${a.description}`).join('\n'),
+                    ['Redo', 'Show history']
+                );
+            }
+
+            if (params.keyword) {
+                const action = actionHistory.findLastActionByKeyword(params.keyword, scope);
+                if (!action) {
+                    return createAgentMessage(
+                        `I couldn't find an action matching "${params.keyword}". Try "show history" to see recent actions.`,
+                        ['Show history']
+                    );
+                }
+
+                actionHistory.undo(action.id, plan);
+                return createAgentMessage(`⏮️ Undid: **${action.description}**`, ['Redo', 'Show history']);
+            }
+
+            const lastAction = actionHistory.undoLast(scope, plan);
+            if (!lastAction) {
+                return createAgentMessage("Nothing to undo - no recent actions found.", []);
+            }
+            return createAgentMessage(`⏮️ Undid: **${lastAction.description}**`, ['Redo', 'Show history']);
+        });
+    }
+
+    /**
+     * Re-apply the most recently undone action
+     */
+    redo(plan: MediaPlan): AgentMessage {
+        return this.withConflictHandling('redo that', () => {
+            const redone = actionHistory.redoLast(getPlanScope(plan), plan);
+            if (!redone) {
+                return createAgentMessage("Nothing to redo.", []);
+            }
+            return createAgentMessage(`⏭️ Redid: **${redone.description}**`, ['Undo', 'Show history']);
+        });
+    }
+
+    /**
+     * List the last 10 actions for the plan
+     */
+    showHistory(plan: MediaPlan): AgentMessage {
+        const recent = actionHistory.getRecentActions(10, getPlanScope(plan));
+        if (recent.length === 0) {
+            return createAgentMessage("No recent actions to show.", []);
+        }
+
+        let responseContent = `**📜 Recent Actions:**\n\n`;
+        recent.forEach((action, idx) => {
+            const canUndo = action.canUndo ? '✓' : '✗';
+            responseContent += `${idx + 1}. [${canUndo}] ${action.description}\n`;
+        });
+        responseContent += `\n💡 Use "undo" to revert the last action.`;
+
+        return createAgentMessage(responseContent, ['Undo last action']);
+    }
+
+    createCheckpoint(plan: MediaPlan, name: string): AgentMessage {
+        const checkpoint = actionHistory.createCheckpoint(getPlanScope(plan), name);
+        return createAgentMessage(
+            `📍 Saved checkpoint **${checkpoint.name}**. Say "restore checkpoint ${checkpoint.name}" to come back to this point at any time.`,
+            ['Show checkpoints', 'Show history']
+        );
+    }
+
+    restoreCheckpoint(plan: MediaPlan, name: string): AgentMessage {
+        const scope = getPlanScope(plan);
+
+        return this.withConflictHandling('restore that checkpoint', () => {
+            const restored = actionHistory.restoreCheckpoint(scope, name, plan);
+            if (!restored) {
+                const available = actionHistory.getCheckpoints(scope).map(c => c.name);
+                return createAgentMessage(
+                    `I couldn't find a checkpoint called "${name}".` +
+                    (available.length > 0 ? ` Available checkpoints: ${available.join(', ')}.` : ` Say "checkpoint <name>" to create one.`),
+                    available.slice(0, 3).map(c => `Restore checkpoint ${c}`)
+                );
+            }
+
+            const { reverted, applied } = restored.jump;
+            return createAgentMessage(
+                `⏪ Restored checkpoint **${restored.checkpoint.name}** ` +
+                `(reverted ${reverted.length}, re-applied ${applied.length} action(s)). ` +
+                `Your later changes are kept in history - use "redo" or the history timeline to get back to them.`,
+                ['Redo', 'Show history']
+            );
+        });
+    }
+
+    listCheckpoints(plan: MediaPlan): AgentMessage {
+        const checkpoints = actionHistory.getCheckpoints(getPlanScope(plan));
+        if (checkpoints.length === 0) {
+            return createAgentMessage(
+                `No checkpoints yet. Say "checkpoint <name>" to save the current state of the plan.`,
+                []
+            );
+        }
+
+        return createAgentMessage(
+            `**📍 Checkpoints:**\n\n` +
+            checkpoints.map(c => `• **${c.name}** - ${new Date(c.createdAt).toLocaleString()}`).join('\n'),
+            checkpoints.slice(0, 3).map(c => `Restore checkpoint ${c.name}`)
+        );
+    }
+
+    /**
+     * Patches that no longer apply leave the plan untouched; tell the user instead of throwing
+     */
+    private withConflictHandling(what: string, run: () => AgentMessage): AgentMessage {
+        try {
+            return run();
+        } catch (e) {
+            if (e instanceof PatchConflictError) {
+                return createAgentMessage(
+                    `I can't ${what} cleanly - ${e.message}. The plan was left unchanged.`,
+                    ['Show history']
+                );
+            }
+            throw e;
+        }
+    }
+}
+
+export const historyManager = new HistoryManager();
@@ -0,0 +1,669 @@
+/**
+ * OptimizationManager - Handles optimization reports and the actions they recommend
+ *
+ * This module extracts optimization commands from AgentBrain: quick wins,
+ * critical issues, plan scoring, pausing/scaling placements and reallocating
+ * for effective reach (with confirmation unless express mode is on).
+ */
+
+import { AgentMessage, Brand, MediaPlan } from '../types';
+import { createAgentMessage, AgentContext, PendingAction } from './AgentContext';
+import { calculatePlanMetrics } from './dummyData';
+import { generateOptimizationReport, formatOptimizationReport, OptimizationOptions } from '../utils/optimizationEngine';
+import { getChannelDelivery, getForecastOptions } from '../utils/forecastingEngine';
+import { ChannelAllocation, DEFAULT_EFFECTIVE_FREQUENCY, EffectiveReachPlan, optimizeEffectiveReach } from '../utils/reachFrequency';
+import { analyzePlan, getAnalysisSummary } from '../utils/performanceAnalyzer';
+import { actionHistory } from '../utils/actionHistory';
+import { PatchTransaction, getPlanScope } from '../utils/planPatch';
+
+// Flight budgets aren't threaded through yet; reports assume a standard flight
+const FLIGHT_BUDGET = 100000;
+
+interface PausePreview {
+    placementId: string;
+    name: string;
+    roas: number;
+}
+
+interface ScalePreview {
+    placementId: string;
+    name: string;
+    roas: number;
+    currentCost: number;
+    newCost: number;
+}
+
+// Channel moves smaller than this aren't worth previewing
+const MIN_CHANNEL_SHIFT = 100;
+
+function reportOptions(plan: MediaPlan): OptimizationOptions {
+    return { effectiveFrequency: plan.campaign.numericGoals?.effectiveFrequency };
+}
+
+/**
+ * Best channel mix for n+ reach, from the plan's active lines
+ */
+function planEffectiveReach(plan: MediaPlan, effectiveFrequency: number, brand?: Brand | null): EffectiveReachPlan {
+    const campaign = plan.campaign;
+    const live = (campaign.placements || []).filter(p => p.performance?.status !== 'PAUSED');
+    const delivery = getChannelDelivery(live, campaign.startDate || new Date().toISOString(), getForecastOptions(campaign, brand));
+    return optimizeEffectiveReach(delivery, effectiveFrequency);
+}
+
+function formatReach(value: number): string {
+    if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `${Math.round(value / 1000)}K`;
+    return Math.round(value).toLocaleString('en-US');
+}
+
+function formatImpact(estimatedImpact: number): string {
+    return estimatedImpact > 0
+        ? `Save $${Math.round(estimatedImpact).toLocaleString('en-US')}`
+        : `Gain $${Math.round(Math.abs(estimatedImpact)).toLocaleString('en-US')}`;
+}
+
+export class OptimizationManager {
+    /**
+     * Easy, high-impact actions from the optimization report
+     */
+    quickWins(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't show quick wins yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        if (report.quickWins.length === 0) {
+            return createAgentMessage(
+                "🎉 No quick wins needed - your plan is well-optimized!\n\nTry 'optimize my plan' for a full analysis.",
+                ['Optimize my plan']
+            );
+        }
+
+        let responseContent = `💡 **Quick Wins** (${report.quickWins.length} easy, high-impact actions)\n\n`;
+        report.quickWins.forEach((rec, idx) => {
+            responseContent += `${idx + 1}. ${rec.description}\n`;
+            responseContent += `   ${rec.specificAction}\n`;
+            responseContent += `   💰 ${formatImpact(rec.estimatedImpact)}\n\n`;
+        });
+
+        return createAgentMessage(responseContent, ['Optimize my plan']);
+    }
+
+    /**
+     * High-priority recommendations only
+     */
+    criticalIssues(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't show critical issues yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        const critical = report.recommendations.filter(r => r.priority === 'HIGH');
+
+        if (critical.length === 0) {
+            return createAgentMessage(
+                "✅ No critical issues found - great job!\n\nYour plan is in good shape.",
+                ['Show full report']
+            );
+        }
+
+        let responseContent = `🚨 **Critical Issues** (${critical.length})\n\n`;
+        critical.forEach((rec, idx) => {
+            responseContent += `${idx + 1}. **${rec.placementName}**\n`;
+            responseContent += `   Issue: ${rec.description}\n`;
+            responseContent += `   Action: ${rec.specificAction}\n`;
+            responseContent += `   💰 ${formatImpact(rec.estimatedImpact)}\n\n`;
+        });
+
+        return createAgentMessage(responseContent, ['Show full report', 'Show quick wins']);
+    }
+
+    /**
+     * Preview pausing placements the report flags, and ask for confirmation
+     */
+    pauseUnderperformers(context: AgentContext): AgentMessage {
+        const plan = context.mediaPlan!;
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't pause underperformers yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        const pauseRecs = report.recommendations.filter(r =>
+            r.action === 'PAUSE' || r.action === 'REDUCE_BUDGET'
+        );
+
+        let totalSavings = 0;
+        const pausePreview: PausePreview[] = [];
+
+        pauseRecs.forEach(rec => {
+            const placement = placements.find(p =>
+                p.vendor === rec.placementName || p.id === rec.placementId
+            );
+            if (placement && placement.performance && placement.performance.status !== 'PAUSED') {
+                totalSavings += rec.estimatedImpact;
+                pausePreview.push({
+                    placementId: placement.id,
+                    name: placement.vendor,
+                    roas: placement.performance.roas
+                });
+            }
+        });
+
+        if (pausePreview.length === 0) {
+            return createAgentMessage(
+                "No placements qualified for pausing.\n\nAll your placements are performing well.",
+                ['Optimize', 'Show performance']
+            );
+        }
+
+        if (context.expressMode) {
+            return this.executePauseUnderperformers(plan, pausePreview, totalSavings);
+        }
+
+        context.pendingAction = {
+            type: 'PAUSE_UNDERPERFORMERS',
+            description: `Pause ${pausePreview.length} underperforming placement${pausePreview.length > 1 ? 's' : ''}`,
+            details: pausePreview.map(p => `${p.name} (ROAS: ${p.roas.toFixed(2)})`),
+            estimatedImpact: totalSavings,
+            data: { pausePreview, totalSavings }
+        };
+
+        let responseContent = `**Confirm: Pause ${pausePreview.length} underperforming placement${pausePreview.length > 1 ? 's' : ''}?**\n\n`;
+        responseContent += `**Placements to pause:**\n`;
+        pausePreview.forEach(p => {
+            responseContent += `  • ${p.name} (ROAS: ${p.roas.toFixed(2)})\n`;
+        });
+        responseContent += `\n**Estimated savings:** $${Math.round(totalSavings).toLocaleString('en-US')}\n\n`;
+        responseContent += `Type **"yes"** to confirm or **"no"** to cancel.`;
+
+        const msg = createAgentMessage(responseContent, ['Yes', 'No']);
+        msg.agentsInvoked = ['Performance Agent', 'Insights Agent'];
+        return msg;
+    }
+
+    /**
+     * Preview a 25% budget increase for the best performers, and ask for confirmation
+     */
+    scaleWinners(context: AgentContext): AgentMessage {
+        const plan = context.mediaPlan!;
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't scale winners yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        const scaleRecs = report.recommendations.filter(r => r.action === 'INCREASE_BUDGET');
+
+        let totalBudgetIncrease = 0;
+        const scalePreview: ScalePreview[] = [];
+
+        scaleRecs.forEach(rec => {
+            const placement = placements.find(p =>
+                p.vendor === rec.placementName || p.id === rec.placementId
+            );
+            if (placement) {
+                totalBudgetIncrease += placement.totalCost * 0.25;
+                scalePreview.push({
+                    placementId: placement.id,
+                    name: placement.vendor,
+                    roas: placement.performance?.roas || 0,
+                    currentCost: placement.totalCost,
+                    newCost: placement.totalCost * 1.25
+                });
+            }
+        });
+
+        if (scalePreview.length === 0) {
+            return createAgentMessage(
+                "No placements qualified for scaling (need ROAS > 3.0).\n\nYour high performers may already be well-funded.",
+                ['Optimize', 'Show performance']
+            );
+        }
+
+        if (context.expressMode) {
+            return this.executeScaleWinners(plan, scalePreview, totalBudgetIncrease);
+        }
+
+        context.pendingAction = {
+            type: 'SCALE_WINNERS',
+            description: `Scale ${scalePreview.length} high-performing placement${scalePreview.length > 1 ? 's' : ''} (+25%)`,
+            details: scalePreview.map(p => `${p.name} (ROAS: ${p.roas.toFixed(2)}) - $${Math.round(p.currentCost).toLocaleString()} → $${Math.round(p.newCost).toLocaleString()}`),
+            estimatedImpact: totalBudgetIncrease,
+            data: { scalePreview, totalBudgetIncrease }
+        };
+
+        let responseContent = `**Confirm: Scale ${scalePreview.length} high-performing placement${scalePreview.length > 1 ? 's' : ''}?**\n\n`;
+        responseContent += `**Placements to scale (+25% budget & impressions):**\n`;
+        scalePreview.forEach(p => {
+            responseContent += `  • ${p.name} (ROAS: ${p.roas.toFixed(2)}) - $${Math.round(p.currentCost).toLocaleString()} → $${Math.round(p.newCost).toLocaleString()}\n`;
+        });
+        responseContent += `\n**Total budget increase:** $${Math.round(totalBudgetIncrease).toLocaleString('en-US')}\n\n`;
+        responseContent += `Type **"yes"** to confirm or **"no"** to cancel.`;
+
+        const msg = createAgentMessage(responseContent, ['Yes', 'No']);
+        msg.agentsInvoked = ['Performance Agent', 'Yield Agent'];
+        return msg;
+    }
+
+    /**
+     * Show scaling opportunities without taking action
+     */
+    growthOpportunities(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't show growth opportunities yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        const opportunities = report.recommendations.filter(r => r.estimatedImpact < 0);
+
+        if (opportunities.length === 0) {
+            return createAgentMessage(
+                "📊 No major growth opportunities identified right now.\n\nYour high performers are already well-funded.",
+                ['Show full report']
+            );
+        }
+
+        let responseContent = `✨ **Growth Opportunities** (${opportunities.length})\n\n`;
+        responseContent += `Scale these high-performers to maximize returns:\n\n`;
+        opportunities.forEach((rec, idx) => {
+            const gain = Math.abs(rec.estimatedImpact);
+            responseContent += `${idx + 1}. **${rec.placementName}**\n`;
+            responseContent += `   ${rec.currentMetric}\n`;
+            responseContent += `   Action: ${rec.specificAction}\n`;
+            responseContent += `   💰 Potential gain: $${Math.round(gain).toLocaleString('en-US')}\n\n`;
+        });
+
+        return createAgentMessage(responseContent, ['Scale winners', 'Show full report']);
+    }
+
+    /**
+     * Pause and scale everything the report recommends, without confirmation
+     */
+    applyAllRecommendations(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't apply recommendations yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+
+        let pausedCount = 0;
+        let scaledCount = 0;
+        let totalSavings = 0;
+        let totalIncrease = 0;
+        const tx = new PatchTransaction(plan);
+
+        report.recommendations.forEach(rec => {
+            const placement = placements.find(p =>
+                p.vendor === rec.placementName || p.id === rec.placementId
+            );
+            if (!placement) return;
+
+            const linePath = ['campaign', 'placements', { id: placement.id }];
+            // PAUSE and REDUCE_BUDGET are both treated as "pause"
+            if ((rec.action === 'PAUSE' || rec.action === 'REDUCE_BUDGET') && placement.performance) {
+                tx.set([...linePath, 'performance', 'status'], 'PAUSED');
+                totalSavings += rec.estimatedImpact;
+                pausedCount++;
+            } else if (rec.action === 'INCREASE_BUDGET') {
+                const increase = placement.totalCost * 0.25;
+                tx.set([...linePath, 'totalCost'], placement.totalCost * 1.25);
+                tx.set([...linePath, 'quantity'], Math.floor(placement.quantity * 1.25));
+                if (placement.forecast) {
+                    tx.set([...linePath, 'forecast', 'impressions'], Math.floor(placement.forecast.impressions * 1.25));
+                }
+                totalIncrease += increase;
+                scaledCount++;
+            }
+        });
+
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_placement',
+            description: `Applied recommendations: paused ${pausedCount}, scaled ${scaledCount}`,
+            userCommand: 'apply all recommendations'
+        });
+
+        if (pausedCount === 0 && scaledCount === 0) {
+            return createAgentMessage(
+                "No actionable recommendations to apply right now. Your plan is already optimized!",
+                ['Show performance', 'Export PDF']
+            );
+        }
+
+        let responseContent = `🎯 **Applied All Recommendations**\n\n`;
+        if (pausedCount > 0) {
+            responseContent += `• Paused **${pausedCount}** underperforming placement${pausedCount > 1 ? 's' : ''}\n`;
+            responseContent += `  💰 Estimated savings: $${Math.round(totalSavings).toLocaleString('en-US')}\n\n`;
+        }
+        if (scaledCount > 0) {
+            responseContent += `• Scaled **${scaledCount}** high-performing placement${scaledCount > 1 ? 's' : ''}\n`;
+            responseContent += `  📈 Budget increase: $${Math.round(totalIncrease).toLocaleString('en-US')}\n\n`;
+        }
+
+        const msg = createAgentMessage(responseContent, ['Show performance', 'Undo', 'Export PDF']);
+        msg.agentsInvoked = ['Performance Agent', 'Insights Agent', 'Yield Agent'];
+        return msg;
+    }
+
+    /**
+     * Full optimization report with follow-up actions for what it found
+     */
+    optimizePlan(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't analyze your plan yet because there are no placements. Try adding some placements first!",
+                ['Add 3 social placements', 'How should I allocate $50k?']
+            );
+        }
+
+        const report = generateOptimizationReport(placements, FLIGHT_BUDGET, reportOptions(plan));
+        let formattedReport = formatOptimizationReport(report, placements);
+
+        const suggestedActions: string[] = [];
+        const effectiveFrequency = plan.campaign.numericGoals?.effectiveFrequency;
+        if (effectiveFrequency) {
+            const reach = planEffectiveReach(plan, effectiveFrequency);
+            formattedReport += `\n\n**Effective Reach (${effectiveFrequency}+):** ${formatReach(reach.currentReach)} people`;
+            if (reach.optimizedReach > reach.currentReach * 1.02) {
+                formattedReport += ` - rebalancing channels could raise it to ${formatReach(reach.optimizedReach)}`;
+                suggestedActions.push(`Optimize for ${effectiveFrequency}+ reach`);
+            }
+        }
+        if (report.recommendations.some(r => r.action === 'PAUSE' || r.action === 'REDUCE_BUDGET')) {
+            suggestedActions.push('Pause underperformers');
+        }
+        if (report.recommendations.some(r => r.action === 'INCREASE_BUDGET')) {
+            suggestedActions.push('Scale winners');
+        }
+        if (report.recommendations.length > 0) {
+            suggestedActions.push('Apply all recommendations');
+        }
+
+        return createAgentMessage(formattedReport, suggestedActions.slice(0, 3));
+    }
+
+    /**
+     * Preview moving budget between channels to maximize n+ reach (the campaign's
+     * effective frequency goal unless one is given), and ask for confirmation
+     */
+    optimizeEffectiveReach(context: AgentContext, effectiveFrequency?: number): AgentMessage {
+        const plan = context.mediaPlan!;
+        const frequency = effectiveFrequency || plan.campaign.numericGoals?.effectiveFrequency || DEFAULT_EFFECTIVE_FREQUENCY;
+        const reach = planEffectiveReach(plan, frequency, context.brand);
+
+        if (reach.channels.length < 2) {
+            return createAgentMessage(
+                `I need active placements in at least two channels to rebalance for ${frequency}+ reach.`,
+                ['Add 3 social placements', 'Show reach and frequency']
+            );
+        }
+
+        const changes = reach.channels.filter(c => Math.abs(c.recommendedSpend - c.currentSpend) >= MIN_CHANNEL_SHIFT);
+        if (changes.length === 0 || reach.optimizedReach <= reach.currentReach) {
+            return createAgentMessage(
+                `✅ Your channel mix already maximizes ${frequency}+ reach (${formatReach(reach.currentReach)} people).`,
+                ['Show reach and frequency']
+            );
+        }
+
+        const details = changes.map(c =>
+            `${c.channel}: $${Math.round(c.currentSpend).toLocaleString('en-US')} → $${Math.round(c.recommendedSpend).toLocaleString('en-US')}`
+        );
+        const lift = reach.currentReach > 0 ? `+${Math.round((reach.optimizedReach / reach.currentReach - 1) * 100)}%` : 'up from 0';
+
+        if (context.expressMode) {
+            return this.executeEffectiveReach(plan, reach.channels, frequency);
+        }
+
+        context.pendingAction = {
+            type: 'SHIFT_EFFECTIVE_REACH',
+            description: `Rebalance channels for ${frequency}+ reach`,
+            details,
+            estimatedImpact: 0,
+            data: { allocation: reach.channels, effectiveFrequency: frequency }
+        };
+
+        let responseContent = `**Confirm: Rebalance channels for ${frequency}+ reach?**\n\n`;
+        responseContent += `**Budget moves** (total spend unchanged):\n`;
+        details.forEach(line => {
+            responseContent += `  • ${line}\n`;
+        });
+        responseContent += `\n**${frequency}+ reach:** ${formatReach(reach.currentReach)} → ${formatReach(reach.optimizedReach)} people (${lift})\n\n`;
+        responseContent += `Type **"yes"** to confirm or **"no"** to cancel.`;
+
+        const msg = createAgentMessage(responseContent, ['Yes', 'No']);
+        msg.agentsInvoked = ['Yield Agent'];
+        return msg;
+    }
+
+    /**
+     * Plan health score and a one-line verdict
+     */
+    planScore(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        if (placements.length === 0) {
+            return createAgentMessage(
+                "I can't score your plan yet - there are no placements to analyze.",
+                ['Add placements first']
+            );
+        }
+
+        const analysis = analyzePlan(placements, FLIGHT_BUDGET);
+        const summary = getAnalysisSummary(analysis);
+
+        let responseContent = `**📊 Plan Health Check**\n\n${summary}\n\n`;
+
+        if (analysis.criticalCount > 0) {
+            responseContent += `You have **${analysis.criticalCount} critical issue${analysis.criticalCount > 1 ? 's' : ''}** that need immediate attention.\n\n`;
+        }
+
+        if (analysis.overallScore < 70) {
+            responseContent += `Your plan could benefit from optimization. Would you like me to show you specific recommendations?`;
+        } else if (analysis.overallScore < 85) {
+            responseContent += `Your plan is in good shape! There are a few minor optimizations that could improve performance.`;
+        } else {
+            responseContent += `Excellent work! Your plan is well-optimized. Keep monitoring for any changes.`;
+        }
+
+        return createAgentMessage(responseContent, ['Optimize my plan', 'Show detailed report']);
+    }
+
+    /**
+     * Increase Search placements by 20%
+     */
+    boostSearch(plan: MediaPlan): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        const tx = new PatchTransaction(plan);
+        placements.filter(p => p.channel === 'Search').forEach(p => {
+            const linePath = ['campaign', 'placements', { id: p.id }];
+            const quantity = Math.floor(p.quantity * 1.2);
+            tx.set([...linePath, 'quantity'], quantity);
+            tx.set([...linePath, 'totalCost'], quantity * p.rate);
+            if (p.performance) {
+                tx.set([...linePath, 'performance', 'impressions'], Math.floor(p.performance.impressions * 1.2));
+                tx.set([...linePath, 'performance', 'clicks'], Math.floor(p.performance.clicks * 1.2));
+                tx.set([...linePath, 'performance', 'conversions'], Math.floor(p.performance.conversions * 1.2));
+            }
+        });
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['remainingBudget'], plan.campaign.budget - plan.totalSpend);
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_budget',
+            description: 'Increased Search placements by 20%',
+            userCommand: 'shift budget to search'
+        });
+
+        return createAgentMessage(
+            "I've increased the budget for Search placements by 20%.",
+            ['Export PDF', 'Start New Campaign']
+        );
+    }
+
+    /**
+     * Carry out an action the user just confirmed
+     */
+    executePendingAction(action: PendingAction, plan: MediaPlan | null): AgentMessage {
+        if (!plan || !plan.campaign.placements) {
+            return createAgentMessage("Error: No media plan found.", ['Create new campaign']);
+        }
+
+        switch (action.type) {
+            case 'PAUSE_UNDERPERFORMERS':
+                return this.executePauseUnderperformers(plan, action.data.pausePreview, action.data.totalSavings);
+            case 'SCALE_WINNERS':
+                return this.executeScaleWinners(plan, action.data.scalePreview, action.data.totalBudgetIncrease);
+            case 'SHIFT_EFFECTIVE_REACH':
+                return this.executeEffectiveReach(plan, action.data.allocation, action.data.effectiveFrequency);
+            default:
+                return createAgentMessage(
+                    "Unknown action type. No changes were made.",
+                    ['Show performance', 'Optimize']
+                );
+        }
+    }
+
+    private executePauseUnderperformers(plan: MediaPlan, pausePreview: PausePreview[], totalSavings: number): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        let pausedCount = 0;
+        const pausedPlacements: string[] = [];
+        const tx = new PatchTransaction(plan);
+
+        pausePreview.forEach(preview => {
+            const placement = placements.find(p => p.id === preview.placementId);
+            if (placement && placement.performance && placement.performance.status !== 'PAUSED') {
+                tx.set(['campaign', 'placements', { id: placement.id }, 'performance', 'status'], 'PAUSED');
+                pausedPlacements.push(`${preview.name} (ROAS: ${preview.roas.toFixed(2)})`);
+                pausedCount++;
+            }
+        });
+
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'pause_placement',
+            description: `Paused ${pausedCount} underperforming placement(s)`,
+            userCommand: 'pause underperformers'
+        });
+
+        let responseContent = `**Paused ${pausedCount} underperforming placement${pausedCount > 1 ? 's' : ''}**\n\n`;
+        responseContent += `**Placements paused:**\n`;
+        pausedPlacements.forEach(name => {
+            responseContent += `  • ${name}\n`;
+        });
+        responseContent += `\n**Estimated savings:** $${Math.round(totalSavings).toLocaleString('en-US')}`;
+
+        const msg = createAgentMessage(responseContent, ['Scale winners', 'Show performance', 'Undo']);
+        msg.agentsInvoked = ['Performance Agent', 'Insights Agent'];
+        return msg;
+    }
+
+    private executeScaleWinners(plan: MediaPlan, scalePreview: ScalePreview[], totalBudgetIncrease: number): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        let scaledCount = 0;
+        const scaledPlacements: string[] = [];
+        const tx = new PatchTransaction(plan);
+
+        scalePreview.forEach(preview => {
+            const placement = placements.find(p => p.id === preview.placementId);
+            if (placement) {
+                const linePath = ['campaign', 'placements', { id: placement.id }];
+                tx.set([...linePath, 'totalCost'], preview.newCost);
+                tx.set([...linePath, 'quantity'], Math.floor(placement.quantity * 1.25));
+                if (placement.forecast) {
+                    tx.set([...linePath, 'forecast', 'impressions'], Math.floor(placement.forecast.impressions * 1.25));
+                }
+                scaledPlacements.push(`${preview.name} (ROAS: ${preview.roas.toFixed(2)})`);
+                scaledCount++;
+            }
+        });
+
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'update_budget',
+            description: `Scaled ${scaledCount} high-performing placement(s) by 25%`,
+            userCommand: 'scale winners'
+        });
+
+        let responseContent = `**Scaled ${scaledCount} high-performing placement${scaledCount > 1 ? 's' : ''}**\n\n`;
+        responseContent += `**Placements scaled (+25% budget & impressions):**\n`;
+        scaledPlacements.forEach(name => {
+            responseContent += `  • ${name}\n`;
+        });
+        responseContent += `\n**Total budget increase:** $${Math.round(totalBudgetIncrease).toLocaleString('en-US')}`;
+        responseContent += `\n**New total spend:** $${plan.totalSpend.toLocaleString('en-US')}`;
+
+        const msg = createAgentMessage(responseContent, ['Pause underperformers', 'Show performance', 'Undo']);
+        msg.agentsInvoked = ['Performance Agent', 'Yield Agent'];
+        return msg;
+    }
+
+    private executeEffectiveReach(plan: MediaPlan, allocation: ChannelAllocation[], effectiveFrequency: number): AgentMessage {
+        const placements = plan.campaign.placements || [];
+        const tx = new PatchTransaction(plan);
+        const moved: string[] = [];
+
+        // Each channel's active lines share its new budget in proportion to their cost
+        allocation.forEach(({ channel, currentSpend, recommendedSpend }) => {
+            if (Math.abs(recommendedSpend - currentSpend) < MIN_CHANNEL_SHIFT || currentSpend <= 0) return;
+            const ratio = recommendedSpend / currentSpend;
+            placements
+                .filter(p => p.channel === channel && p.performance?.status !== 'PAUSED')
+                .forEach(p => {
+                    const linePath = ['campaign', 'placements', { id: p.id }];
+                    tx.set([...linePath, 'totalCost'], p.totalCost * ratio);
+                    tx.set([...linePath, 'quantity'], Math.floor(p.quantity * ratio));
+                    if (p.forecast) {
+                        tx.set([...linePath, 'forecast', 'impressions'], Math.floor(p.forecast.impressions * ratio));
+                    }
+                });
+            moved.push(`${channel}: $${Math.round(currentSpend).toLocaleString('en-US')} → $${Math.round(recommendedSpend).toLocaleString('en-US')}`);
+        });
+
+        tx.set(['totalSpend'], placements.reduce((acc, p) => acc + p.totalCost, 0));
+        tx.set(['metrics'], calculatePlanMetrics(placements));
+        actionHistory.commit(tx, getPlanScope(plan), {
+            type: 'shift_budget',
+            description: `Rebalanced ${moved.length} channel(s) for ${effectiveFrequency}+ reach`,
+            userCommand: `optimize for ${effectiveFrequency}+ reach`
+        });
+
+        let responseContent = `**Rebalanced ${moved.length} channel${moved.length === 1 ? '' : 's'} for ${effectiveFrequency}+ reach**\n\n`;
+        moved.forEach(line => {
+            responseContent += `  • ${line}\n`;
+        });
+        responseContent += `\nTotal spend is unchanged.`;
+
+        const msg = createAgentMessage(responseContent, ['Show reach and frequency', 'Undo']);
+        msg.agentsInvoked = ['Yield Agent'];
+        return msg;
+    }
+}
+
+export const optimizationManager = new OptimizationManager();
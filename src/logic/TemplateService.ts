@@ -0,0 +1,86 @@
+/**
+ * TemplateService - Answers questions about campaign templates
+ *
+ * This module extracts template commands from AgentBrain. It only reads
+ * CAMPAIGN_TEMPLATES; applying a template happens in the campaign list UI.
+ */
+
+import { AgentMessage } from '../types';
+import { createAgentMessage } from './AgentContext';
+import { CAMPAIGN_TEMPLATES } from './campaignTemplates';
+
+const TEMPLATE_NAMES = ['retail holiday', 'b2b lead gen', 'brand launch', 'performance max', 'local store', 'mobile app'];
+
+export class TemplateService {
+    listTemplates(): AgentMessage {
+        let responseContent = "**📋 Campaign Templates**\n\nI have 6 pre-configured templates to help you get started quickly:\n\n";
+
+        CAMPAIGN_TEMPLATES.forEach(template => {
+            responseContent += `${template.icon} **${template.name}**\n`;
+            responseContent += `   ${template.description}\n`;
+            responseContent += `   • Budget: $${(template.recommendedBudget.optimal / 1000).toFixed(0)}k (optimal)\n`;
+            responseContent += `   • Channels: ${template.channelMix.map(m => m.channel).join(', ')}\n\n`;
+        });
+
+        responseContent += "To use a template, click the **Use Template** button in the campaign list or say \"create campaign from [template name]\".";
+
+        return createAgentMessage(responseContent, [
+            'Use Template',
+            'Tell me about the Retail Holiday template',
+            'What\'s best for B2B?'
+        ]);
+    }
+
+    /**
+     * Details for the template named in the input, or null if none is named
+     */
+    describeTemplate(input: string): AgentMessage | null {
+        const lowerInput = input.toLowerCase();
+        const template = CAMPAIGN_TEMPLATES.find(t =>
+            TEMPLATE_NAMES.some(name => lowerInput.includes(name)) && lowerInput.includes(t.name.toLowerCase().split(' ')[0])
+        );
+        if (!template) return null;
+
+        let responseContent = `**${template.icon} ${template.name}**\n\n`;
+        responseContent += `${template.description}\n\n`;
+        responseContent += `**📊 Recommended Budget:** $${(template.recommendedBudget.min / 1000).toFixed(0)}k - $${(template.recommendedBudget.max / 1000).toFixed(0)}k (optimal: $${(template.recommendedBudget.optimal / 1000).toFixed(0)}k)\n\n`;
+        responseContent += `**📺 Channel Mix:**\n`;
+        template.channelMix.forEach(mix => {
+            responseContent += `• ${mix.channel} (${mix.percentage}%): ${mix.rationale}\n`;
+        });
+        responseContent += `\n**🎯 Default Goals:**\n`;
+        if (template.defaultGoals.impressions) responseContent += `• Impressions: ${template.defaultGoals.impressions.toLocaleString()}\n`;
+        if (template.defaultGoals.reach) responseContent += `• Reach: ${template.defaultGoals.reach.toLocaleString()}\n`;
+        if (template.defaultGoals.conversions) responseContent += `• Conversions: ${template.defaultGoals.conversions.toLocaleString()}\n`;
+
+        return createAgentMessage(responseContent, ['Use this template', 'Show all templates']);
+    }
+
+    /**
+     * Pick a template for the industry or goal in "what's best for B2B?", or null if none fits
+     */
+    recommendTemplate(input: string): AgentMessage | null {
+        const lowerInput = input.toLowerCase();
+
+        let templateId: string | null = null;
+        if (lowerInput.includes('b2b') || lowerInput.includes('lead')) {
+            templateId = 'b2b-lead-gen';
+        } else if (lowerInput.includes('retail') || lowerInput.includes('ecommerce') || lowerInput.includes('store')) {
+            templateId = 'retail-holiday';
+        } else if (lowerInput.includes('brand') || lowerInput.includes('awareness') || lowerInput.includes('launch')) {
+            templateId = 'brand-launch';
+        } else if (lowerInput.includes('performance') || lowerInput.includes('conversion') || lowerInput.includes('roi')) {
+            templateId = 'performance-max';
+        } else if (lowerInput.includes('app') || lowerInput.includes('mobile')) {
+            templateId = 'mobile-app-launch';
+        }
+
+        const recommendation = CAMPAIGN_TEMPLATES.find(t => t.id === templateId);
+        if (!recommendation) return null;
+
+        const responseContent = `Based on your requirements, I recommend the **${recommendation.icon} ${recommendation.name}** template.\n\n${recommendation.description}\n\nThis template is optimized with:\n• ${recommendation.channelMix.length} channels including ${recommendation.channelMix.slice(0, 3).map(m => m.channel).join(', ')}\n• Recommended budget: $${(recommendation.recommendedBudget.optimal / 1000).toFixed(0)}k\n• Complexity: ${recommendation.complexity}\n\nClick **Use Template** in the campaign list to get started!`;
+        return createAgentMessage(responseContent, ['Use Template', 'Show all templates']);
+    }
+}
+
+export const templateService = new TemplateService();
@@ -2,6 +2,16 @@
  * Conversation Context Manager
  * 
  * Maintains state across multi-turn conversations
+ *
+ * SESSIONS:
+ * Each conversation is a session owned by a user and (optionally) a brand.
+ * Sessions with at least one user message are persisted to localStorage so
+ * they can be listed and resumed after a reload. When history grows past
+ * MAX_HISTORY, the trimmed messages are folded into a running summary rather
+ * than dropped.
+ *
+ * The UserProfile (expertise, preferred channels, common objectives) belongs
+ * to the user, not the session, so it carries over into every new session.
  */
 
 import { DetectedIntent } from './intentClassifier';
@@ -20,6 +30,7 @@ export interface ConversationFocus {
     campaignId?: string;
     flightId?: string;
     placementId?: string;
+    lineIds?: string[];        // Every line the last command touched ("resume them", "pause it")
 }
 
 export interface UserProfile {
@@ -27,6 +38,22 @@ export interface UserProfile {
     preferredChannels: string[];
     commonObjectives: string[];
     interactionCount: number;
+    channelCounts?: Record<string, number>;    // Mentions behind preferredChannels
+    objectiveCounts?: Record<string, number>;  // Mentions behind commonObjectives
+}
+
+/**
+ * What the messages trimmed from history were about
+ */
+export interface ConversationSummary {
+    messageCount: number;
+    from: number;
+    to: number;
+    topics: string[];          // Intents, oldest first
+    userRequests: string[];    // Most recent trimmed user messages
+    budget?: number;
+    channels: string[];
+    campaignNames: string[];
 }
 
 export interface PendingAction {
@@ -40,32 +67,146 @@ export interface PendingAction {
 
 export interface ConversationContext {
     sessionId: string;
+    userId: string;
+    brandId?: string;
+    title: string;             // First user message
+    createdAt: number;
+    updatedAt: number;
+    summary: ConversationSummary | null;
     history: Message[];
     currentFocus: ConversationFocus;
+    focusHistory: ConversationFocus[];  // Earlier focus, newest first
     userProfile: UserProfile;
     pendingActions: PendingAction[];
     accumulatedEntities: ExtractedEntities;
 }
 
+/**
+ * A past session as shown in the chat's session list
+ */
+export interface SessionListItem {
+    sessionId: string;
+    brandId?: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+}
+
+/**
+ * The subset of the Web Storage API sessions are persisted through
+ */
+export type SessionStore = Pick<Storage, 'getItem' | 'setItem'>;
+
+interface StoredSessions {
+    sessions: Omit<ConversationContext, 'userProfile' | 'pendingActions'>[];
+    profiles: Record<string, UserProfile>;
+}
+
+const STORAGE_KEY = 'fuseiq-conversations';
+const ANONYMOUS_USER = 'anonymous';
+const MAX_STORED_SESSIONS = 50;
+const MAX_SUMMARY_REQUESTS = 5;
+const MAX_PROFILE_ITEMS = 5;
+const MAX_FOCUS_HISTORY = 10;
+
+const OBJECTIVE_KEYWORDS: Record<string, string[]> = {
+    awareness: ['awareness', 'brand lift', 'reach'],
+    consideration: ['consideration', 'engagement', 'traffic'],
+    conversions: ['conversion', 'sales', 'purchase', 'roas', 'cpa'],
+    leads: ['lead gen', 'leads', 'sign up', 'signup'],
+    'app installs': ['app install', 'downloads']
+};
+
+/**
+ * Fold trimmed messages into the running summary of a session
+ */
+export function summarizeMessages(messages: Message[], previous: ConversationSummary | null): ConversationSummary {
+    const summary: ConversationSummary = previous
+        ? { ...previous, topics: [...previous.topics], userRequests: [...previous.userRequests], channels: [...previous.channels], campaignNames: [...previous.campaignNames] }
+        : { messageCount: 0, from: messages[0]?.timestamp ?? Date.now(), to: 0, topics: [], userRequests: [], channels: [], campaignNames: [] };
+
+    messages.forEach(message => {
+        summary.messageCount++;
+        summary.to = Math.max(summary.to, message.timestamp);
+        if (message.role !== 'user') return;
+
+        const request = message.content.length > 80 ? `${message.content.slice(0, 77)}...` : message.content;
+        if (summary.userRequests[summary.userRequests.length - 1] !== request) summary.userRequests.push(request);
+        if (message.intent && message.intent.subIntent !== 'unknown' && !summary.topics.includes(message.intent.subIntent)) {
+            summary.topics.push(message.intent.subIntent);
+        }
+
+        const entities = message.entities;
+        if (!entities) return;
+        if (entities.budget !== undefined) summary.budget = entities.budget;
+        entities.channels?.forEach(c => { if (!summary.channels.includes(c)) summary.channels.push(c); });
+        if (entities.campaignName && !summary.campaignNames.includes(entities.campaignName)) {
+            summary.campaignNames.push(entities.campaignName);
+        }
+    });
+
+    summary.userRequests = summary.userRequests.slice(-MAX_SUMMARY_REQUESTS);
+    return summary;
+}
+
+/**
+ * One-paragraph description of a summary, for resuming a session
+ */
+export function formatSummary(summary: ConversationSummary): string {
+    const parts = [`${summary.messageCount} earlier messages`];
+    if (summary.userRequests.length > 0) parts.push(`you asked: ${summary.userRequests.map(r => `"${r}"`).join(', ')}`);
+    if (summary.campaignNames.length > 0) parts.push(`campaigns: ${summary.campaignNames.join(', ')}`);
+    if (summary.budget !== undefined) parts.push(`budget: $${summary.budget.toLocaleString()}`);
+    if (summary.channels.length > 0) parts.push(`channels: ${summary.channels.join(', ')}`);
+    if (summary.topics.length > 0) parts.push(`topics: ${summary.topics.join(', ')}`);
+    return parts.join('; ');
+}
+
+function createProfile(): UserProfile {
+    return {
+        expertiseLevel: 'intermediate',
+        preferredChannels: [],
+        commonObjectives: [],
+        interactionCount: 0,
+        channelCounts: {},
+        objectiveCounts: {}
+    };
+}
+
+function topKeys(counts: Record<string, number>): string[] {
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_PROFILE_ITEMS)
+        .map(([key]) => key);
+}
+
 export class ContextManager {
     private contexts: Map<string, ConversationContext> = new Map();
+    private profiles: Map<string, UserProfile> = new Map();
     private readonly MAX_HISTORY = 20;
 
+    constructor(private store: SessionStore | null = typeof localStorage === 'undefined' ? null : localStorage) {
+        this.load();
+    }
+
     /**
      * Get or create context for a session
      */
     getContext(sessionId: string): ConversationContext {
         if (!this.contexts.has(sessionId)) {
+            const now = Date.now();
             this.contexts.set(sessionId, {
                 sessionId,
+                userId: ANONYMOUS_USER,
+                title: '',
+                createdAt: now,
+                updatedAt: now,
+                summary: null,
                 history: [],
                 currentFocus: {},
-                userProfile: {
-                    expertiseLevel: 'intermediate',
-                    preferredChannels: [],
-                    commonObjectives: [],
-                    interactionCount: 0
-                },
+                focusHistory: [],
+                userProfile: this.getUserProfile(ANONYMOUS_USER),
                 pendingActions: [],
                 accumulatedEntities: {}
             });
@@ -74,6 +215,59 @@ export class ContextManager {
         return this.contexts.get(sessionId)!;
     }
 
+    /**
+     * Start a new session for a user and brand. The user's profile carries over.
+     */
+    startSession(userId?: string, brandId?: string): ConversationContext {
+        const sessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const context = this.getContext(sessionId);
+        context.userId = userId || ANONYMOUS_USER;
+        context.brandId = brandId;
+        context.currentFocus = brandId ? { brandId } : {};
+        context.userProfile = this.getUserProfile(context.userId);
+        return context;
+    }
+
+    /**
+     * A saved session, or null if it no longer exists
+     */
+    resumeSession(sessionId: string): ConversationContext | null {
+        const context = this.contexts.get(sessionId);
+        if (!context) return null;
+        context.updatedAt = Date.now();
+        this.persist();
+        return context;
+    }
+
+    /**
+     * Past sessions for a user (and brand, if given), most recent first.
+     * Sessions without a user message are left out.
+     */
+    listSessions(userId?: string, brandId?: string): SessionListItem[] {
+        const owner = userId || ANONYMOUS_USER;
+        return [...this.contexts.values()]
+            .filter(c => c.userId === owner && (!brandId || c.brandId === brandId) && c.title)
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .map(c => ({
+                sessionId: c.sessionId,
+                brandId: c.brandId,
+                title: c.title,
+                createdAt: c.createdAt,
+                updatedAt: c.updatedAt,
+                messageCount: c.history.length + (c.summary?.messageCount || 0)
+            }));
+    }
+
+    /**
+     * Long-term profile for a user, shared by all of their sessions
+     */
+    getUserProfile(userId: string = ANONYMOUS_USER): UserProfile {
+        if (!this.profiles.has(userId)) {
+            this.profiles.set(userId, createProfile());
+        }
+        return this.profiles.get(userId)!;
+    }
+
     /**
      * Add a message to conversation history
      */
@@ -95,22 +289,30 @@ export class ContextManager {
         };
 
         context.history.push(message);
+        context.updatedAt = message.timestamp;
+        if (role === 'user' && !context.title) {
+            context.title = content.length > 60 ? `${content.slice(0, 57)}...` : content;
+        }
 
-        // Trim history if too long
+        // Trim history if too long, keeping what was said in the summary
         if (context.history.length > this.MAX_HISTORY) {
+            const trimmed = context.history.slice(0, context.history.length - this.MAX_HISTORY);
+            context.summary = summarizeMessages(trimmed, context.summary);
             context.history = context.history.slice(-this.MAX_HISTORY);
         }
 
         // Update user profile
         if (role === 'user') {
             context.userProfile.interactionCount++;
-            this.updateUserProfile(context, content, intent);
+            this.updateUserProfile(context, content, intent, entities);
         }
 
         // Accumulate entities across turns
         if (entities) {
             this.mergeEntities(context, entities);
         }
+
+        this.persist();
     }
 
     /**
@@ -118,9 +320,18 @@ export class ContextManager {
      */
     updateFocus(sessionId: string, focus: Partial<ConversationFocus>): void {
         const context = this.getContext(sessionId);
+        context.focusHistory = [context.currentFocus, ...context.focusHistory].slice(0, MAX_FOCUS_HISTORY);
         context.currentFocus = { ...context.currentFocus, ...focus };
     }
 
+    /**
+     * Current focus followed by earlier focus, newest first
+     */
+    getFocusHistory(sessionId: string): ConversationFocus[] {
+        const context = this.getContext(sessionId);
+        return [context.currentFocus, ...context.focusHistory];
+    }
+
     /**
      * Get accumulated entities from conversation
      */
@@ -190,10 +401,27 @@ export class ContextManager {
     }
 
     /**
-     * Detect expertise level from user language
+     * Detect expertise level from user language, and remember the channels and
+     * objectives the user keeps coming back to
      */
-    private updateUserProfile(context: ConversationContext, message: string, intent?: DetectedIntent): void {
+    private updateUserProfile(context: ConversationContext, message: string, _intent?: DetectedIntent, entities?: ExtractedEntities): void {
         const lowercaseMsg = message.toLowerCase();
+        const profile = context.userProfile;
+
+        if (entities?.channels?.length) {
+            const counts = profile.channelCounts || (profile.channelCounts = {});
+            entities.channels.forEach(channel => { counts[channel] = (counts[channel] || 0) + 1; });
+            profile.preferredChannels = topKeys(counts);
+        }
+
+        const objectives = Object.keys(OBJECTIVE_KEYWORDS).filter(objective =>
+            OBJECTIVE_KEYWORDS[objective].some(keyword => lowercaseMsg.includes(keyword))
+        );
+        if (objectives.length > 0) {
+            const counts = profile.objectiveCounts || (profile.objectiveCounts = {});
+            objectives.forEach(objective => { counts[objective] = (counts[objective] || 0) + 1; });
+            profile.commonObjectives = topKeys(counts);
+        }
 
         // Expert indicators
         const expertTerms = ['incrementality', 'attribution', 'lookalike', 'suppression', 'dma', 'addressable', 'programmatic'];
@@ -255,6 +483,57 @@ export class ContextManager {
      */
     resetContext(sessionId: string): void {
         this.contexts.delete(sessionId);
+        this.persist();
+    }
+
+    /**
+     * Save sessions that have a user message, plus every profile
+     */
+    private persist(): void {
+        if (!this.store) return;
+
+        const sessions = [...this.contexts.values()]
+            .filter(c => c.title)
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, MAX_STORED_SESSIONS)
+            .map(({ userProfile: _profile, pendingActions: _pending, history, ...session }) => ({
+                ...session,
+                // Intents and entities are already folded into the profile and accumulated entities
+                history: history.map(({ role, content, timestamp }) => ({ role, content, timestamp }))
+            }));
+
+        const data: StoredSessions = { sessions, profiles: Object.fromEntries(this.profiles) };
+        try {
+            this.store.setItem(STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.warn('[ContextManager] Could not persist sessions:', error);
+        }
+    }
+
+    private load(): void {
+        if (!this.store) return;
+        try {
+            const saved = this.store.getItem(STORAGE_KEY);
+            if (!saved) return;
+            const data = JSON.parse(saved) as StoredSessions;
+
+            Object.entries(data.profiles || {}).forEach(([userId, profile]) => {
+                this.profiles.set(userId, { ...createProfile(), ...profile });
+            });
+            (data.sessions || []).forEach(session => {
+                const dates = session.accumulatedEntities.dates;
+                if (dates?.start) dates.start = new Date(dates.start);
+                if (dates?.end) dates.end = new Date(dates.end);
+                this.contexts.set(session.sessionId, {
+                    ...session,
+                    focusHistory: session.focusHistory || [],
+                    userProfile: this.getUserProfile(session.userId),
+                    pendingActions: []
+                });
+            });
+        } catch (error) {
+            console.warn('[ContextManager] Could not load saved sessions:', error);
+        }
     }
 }
 
@@ -0,0 +1,559 @@
+/**
+ * Date Resolver - Turns natural-language date phrases into concrete date ranges
+ *
+ * Understands:
+ * - Explicit dates and ranges: "Nov 1 through Dec 24", "11/01/2026 - 12/24/2026"
+ * - Calendar and fiscal quarters/years: "Q4 2026", "fiscal Q2", "FY27 Q1", "FY2027"
+ * - Months, seasons and retail moments: "March", "back to school", "holiday season"
+ * - Offsets from events: "the 6 weeks before Black Friday", "2 weeks after Labor Day"
+ * - Durations: "starting March, running 8 weeks", "a 6-week flight from Nov 1"
+ * - Relative periods: "next month", "this quarter", "the next 6 weeks", "in 2 weeks"
+ *
+ * Phrases without a year resolve to the next occurrence that hasn't ended yet.
+ * Season words only count with date context ("this spring", "in the fall", "summer 2027"),
+ * and lose to any other date phrase, so "Spring Refresh running Q2 2026" means Q2 2026.
+ * Dates that don't exist ("2/30", "Feb 30") are ignored rather than rolled over.
+ * Fiscal years are named after the calendar year they end in (FY27 = Jul 2026 - Jun 2027
+ * for a July fiscal-year start).
+ */
+
+export interface DateResolverOptions {
+    /** Reference date for relative phrases (defaults to now) */
+    today?: Date;
+    /** Month the brand's fiscal year starts, 1-12 (defaults to January) */
+    fiscalYearStartMonth?: number;
+}
+
+export interface ResolvedDateRange {
+    startDate: string;      // YYYY-MM-DD
+    endDate?: string;       // Missing for open-ended phrases like "starting Nov 1"
+    text: string;           // The phrase the range was read from
+    relative: boolean;      // Depends on today's date (no explicit year)
+    startsInPast: boolean;  // Starts before today: an explicit past date, or a period already under way
+}
+
+export type DurationUnit = 'day' | 'week' | 'month';
+
+export interface Duration {
+    amount: number;
+    unit: DurationUnit;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTH_INDEX: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(day|week|month)s?';
+
+// ===== Day arithmetic (whole UTC days since the epoch) =====
+
+function dayOf(year: number, month: number, day: number): number {
+    return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function partsOf(day: number): { year: number; month: number; day: number } {
+    const date = new Date(day * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function toISODate(day: number): string {
+    return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function addMonths(day: number, months: number): number {
+    const p = partsOf(day);
+    const lastDay = partsOf(dayOf(p.year, p.month + months + 1, 0)).day;
+    return dayOf(p.year, p.month + months, Math.min(p.day, lastDay));
+}
+
+function addDuration(day: number, { amount, unit }: Duration): number {
+    if (unit === 'month') return addMonths(day, amount);
+    return day + amount * (unit === 'week' ? 7 : 1);
+}
+
+/** Nth weekday (0 = Sunday) of a month; n = -1 for the last one */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+    if (n < 0) {
+        const last = dayOf(year, month + 1, 0);
+        return last - ((weekdayOf(last) - weekday + 7) % 7);
+    }
+    const first = dayOf(year, month, 1);
+    return first + ((weekday - weekdayOf(first) + 7) % 7) + (n - 1) * 7;
+}
+
+function weekdayOf(day: number): number {
+    return (day + 4) % 7; // 1970-01-01 was a Thursday
+}
+
+function mondayOf(day: number): number {
+    return day - ((weekdayOf(day) + 6) % 7);
+}
+
+/** Western Easter Sunday (anonymous Gregorian algorithm) */
+function easterOf(year: number): number {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    return dayOf(year, month, ((h + l - 7 * m + 114) % 31) + 1);
+}
+
+function parseNumber(value: string): number {
+    return NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value, 10);
+}
+
+function parseYear(value: string): number {
+    const year = parseInt(value.replace("'", ''), 10);
+    return value.replace("'", '').length <= 2 ? 2000 + year : year;
+}
+
+function monthOf(name: string): number {
+    return MONTH_INDEX[name.toLowerCase().slice(0, 3)];
+}
+
+/** Whether a day exists; without a year, Feb 29 counts */
+function isRealDate(month: number, day: number, year = 2024): boolean {
+    return month >= 1 && month <= 12 && day >= 1 && partsOf(dayOf(year, month, day)).day === day;
+}
+
+/** A real date in `year`, or the next year that has it (Feb 29) */
+function dateIn(year: number, month: number, day: number): number {
+    while (!isRealDate(month, day, year)) year++;
+    return dayOf(year, month, day);
+}
+
+// ===== Calendar building blocks =====
+
+type Range = [number, number];
+
+/**
+ * A date phrase found in the input. `build` maps a year to a concrete range so
+ * phrases without a year can be rolled forward to their next occurrence.
+ */
+interface DateSpan {
+    index: number;
+    length: number;
+    year?: number;          // Explicit year (calendar or fiscal, per `fiscal`)
+    fiscal?: boolean;
+    point?: boolean;        // A specific calendar date (open-ended when used alone)
+    today?: boolean;        // Anchored to today; build ignores the year
+    season?: boolean;       // A season word; any other date phrase outranks it
+    build: (year: number) => Range;
+}
+
+const EVENTS: { pattern: RegExp; build: (year: number) => number }[] = [
+    { pattern: /black friday/i, build: y => nthWeekday(y, 11, 4, 4) + 1 },
+    { pattern: /cyber monday/i, build: y => nthWeekday(y, 11, 4, 4) + 4 },
+    { pattern: /thanksgiving/i, build: y => nthWeekday(y, 11, 4, 4) },
+    { pattern: /christmas eve/i, build: y => dayOf(y, 12, 24) },
+    { pattern: /christmas|xmas/i, build: y => dayOf(y, 12, 25) },
+    { pattern: /new year'?s eve/i, build: y => dayOf(y, 12, 31) },
+    { pattern: /new year'?s(?: day)?/i, build: y => dayOf(y, 1, 1) },
+    { pattern: /valentine'?s(?: day)?/i, build: y => dayOf(y, 2, 14) },
+    { pattern: /super bowl/i, build: y => nthWeekday(y, 2, 0, 2) },
+    { pattern: /st\.? patrick'?s(?: day)?/i, build: y => dayOf(y, 3, 17) },
+    { pattern: /easter/i, build: easterOf },
+    { pattern: /mother'?s day/i, build: y => nthWeekday(y, 5, 0, 2) },
+    { pattern: /memorial day/i, build: y => nthWeekday(y, 5, 1, -1) },
+    { pattern: /father'?s day/i, build: y => nthWeekday(y, 6, 0, 3) },
+    { pattern: /(?:july 4th|4th of july|fourth of july|independence day)/i, build: y => dayOf(y, 7, 4) },
+    { pattern: /labor day/i, build: y => nthWeekday(y, 9, 1, 1) },
+    { pattern: /halloween/i, build: y => dayOf(y, 10, 31) }
+];
+
+const SEASONS: { pattern: RegExp; build: (year: number) => Range }[] = [
+    { pattern: /back[- ]to[- ]school/i, build: y => [dayOf(y, 7, 15), dayOf(y, 9, 15)] },
+    { pattern: /(?:the )?holiday(?:s| season| shopping season| period)|the holidays/i, build: y => [dayOf(y, 11, 1), dayOf(y, 12, 31)] },
+    { pattern: /tax season/i, build: y => [dayOf(y, 1, 15), dayOf(y, 4, 15)] }
+];
+
+// Also ordinary words ("sales fall", "Spring Refresh"), so they need date context
+const WEATHER_SEASONS: { pattern: RegExp; build: (year: number) => Range }[] = [
+    { pattern: /spring/i, build: y => [dayOf(y, 3, 1), dayOf(y, 5, 31)] },
+    { pattern: /summer/i, build: y => [dayOf(y, 6, 1), dayOf(y, 8, 31)] },
+    { pattern: /fall|autumn/i, build: y => [dayOf(y, 9, 1), dayOf(y, 11, 30)] },
+    { pattern: /winter/i, build: y => [dayOf(y, 12, 1), dayOf(y + 1, 3, 0)] }
+];
+const SEASON_LEAD_IN = /\b(?:(?:this|next|in|during|for|over|through|thru|until|till|by|from|starting|since)\s+(?:the\s+)?|(?:early|late|mid)[-\s]?)$/i;
+
+const ORDINAL_QUARTERS: Record<string, number> = {
+    first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4
+};
+
+class DateResolver {
+    private today: number;
+    private fiscalStart: number;
+
+    constructor(options: DateResolverOptions) {
+        const now = options.today || new Date();
+        this.today = dayOf(now.getFullYear(), now.getMonth() + 1, now.getDate());
+        const month = options.fiscalYearStartMonth;
+        this.fiscalStart = month && month >= 1 && month <= 12 ? Math.floor(month) : 1;
+    }
+
+    // ----- Fiscal calendar -----
+
+    private fiscalYearStart(fiscalYear: number): number {
+        return this.fiscalStart === 1 ? dayOf(fiscalYear, 1, 1) : dayOf(fiscalYear - 1, this.fiscalStart, 1);
+    }
+
+    private fiscalYearOf(day: number): number {
+        const { year, month } = partsOf(day);
+        return this.fiscalStart > 1 && month >= this.fiscalStart ? year + 1 : year;
+    }
+
+    private fiscalQuarter(fiscalYear: number, quarter: number): Range {
+        const start = addMonths(this.fiscalYearStart(fiscalYear), (quarter - 1) * 3);
+        return [start, addMonths(start, 3) - 1];
+    }
+
+    private calendarQuarter(year: number, quarter: number): Range {
+        return [dayOf(year, quarter * 3 - 2, 1), dayOf(year, quarter * 3 + 1, 0)];
+    }
+
+    private currentYear(fiscal?: boolean): number {
+        return fiscal ? this.fiscalYearOf(this.today) : partsOf(this.today).year;
+    }
+
+    /** Resolve a span to concrete days, rolling year-less phrases to the next occurrence that hasn't ended */
+    resolve(span: Pick<DateSpan, 'year' | 'fiscal' | 'build'>): Range {
+        if (span.year !== undefined) return span.build(span.year);
+        const year = this.currentYear(span.fiscal);
+        for (let candidate = year - 1; candidate <= year + 1; candidate++) {
+            const range = span.build(candidate);
+            if (range[1] >= this.today) return range;
+        }
+        return span.build(year + 1);
+    }
+
+    // ----- Span detection -----
+
+    /** Every date phrase in the input, earliest first, without overlaps */
+    findSpans(input: string): DateSpan[] {
+        const spans: DateSpan[] = [];
+        const add = (pattern: RegExp, toSpan: (m: RegExpExecArray) => Omit<DateSpan, 'index' | 'length'> | null) => {
+            const global = new RegExp(pattern.source, 'gi');
+            let match: RegExpExecArray | null;
+            while ((match = global.exec(input)) !== null) {
+                const span = toSpan(match);
+                if (span) spans.push({ ...span, index: match.index, length: match[0].length });
+                if (match[0].length === 0) global.lastIndex++;
+            }
+        };
+
+        // ISO dates: 2026-11-01
+        add(/\b(\d{4})-(\d{2})-(\d{2})\b/, m => isRealDate(+m[2], +m[3], +m[1]) ? {
+            year: +m[1], point: true, build: () => [dayOf(+m[1], +m[2], +m[3]), dayOf(+m[1], +m[2], +m[3])]
+        } : null);
+
+        // US numeric dates: 11/1, 11/1/26, 11/01/2026
+        add(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/, m => {
+            const year = m[3] ? parseYear(m[3]) : undefined;
+            if (!isRealDate(+m[1], +m[2], year)) return null;
+            const day = (y: number) => dateIn(y, +m[1], +m[2]);
+            return { year, point: true, build: y => [day(y), day(y)] };
+        });
+
+        // Month + day: "Nov 1", "November 1st, 2026"
+        add(new RegExp(`\\b(${MONTHS})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`), m => {
+            const year = m[3] ? +m[3] : undefined;
+            if (!isRealDate(monthOf(m[1]), +m[2], year)) return null;
+            const day = (y: number) => dateIn(y, monthOf(m[1]), +m[2]);
+            return { year, point: true, build: y => [day(y), day(y)] };
+        });
+
+        // Day + month: "1 November", "24th of Dec 2026"
+        add(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTHS})\\b(?:,?\\s+(\\d{4}))?`), m => {
+            const year = m[3] ? +m[3] : undefined;
+            if (!isRealDate(monthOf(m[2]), +m[1], year)) return null;
+            const day = (y: number) => dateIn(y, monthOf(m[2]), +m[1]);
+            return { year, point: true, build: y => [day(y), day(y)] };
+        });
+
+        // Whole months: "March", "in November 2026". Bare "may" needs a date-ish lead-in to count.
+        // A month next to a day number is a date, even one that doesn't exist ("Feb 30").
+        add(new RegExp(`\\b(${MONTHS})\\b(?:\\s+(\\d{4}))?`), m => {
+            const leadIn = /\b(?:in|from|starting|start|through|thru|until|till|to|by|for|of|during|and|since|beginning)\s+$/i;
+            if (m[1].toLowerCase() === 'may' && !m[2] && !leadIn.test(input.slice(0, m.index))) return null;
+            if (!m[2] && /^\.?\s+\d{1,2}(?:st|nd|rd|th)?\b/i.test(input.slice(m.index + m[0].length))) return null;
+            if (/\b\d{1,2}(?:st|nd|rd|th)?\s+(?:of\s+)?$/i.test(input.slice(0, m.index))) return null;
+            const month = monthOf(m[1]);
+            return { year: m[2] ? +m[2] : undefined, build: y => [dayOf(y, month, 1), dayOf(y, month + 1, 0)] };
+        });
+
+        // Calendar quarters: "Q4", "Q4 2026", "Q1 '27", "fourth quarter"
+        add(/\bq([1-4])(?:\s+(\d{4})|\s*'(\d{2}))?\b/, m => {
+            const quarter = +m[1];
+            const year = m[2] ? +m[2] : m[3] ? parseYear(m[3]) : undefined;
+            return { year, build: y => this.calendarQuarter(y, quarter) };
+        });
+        add(/\b(first|1st|second|2nd|third|3rd|fourth|4th) quarter(?:\s+(?:of\s+)?(\d{4}))?/, m => {
+            const quarter = ORDINAL_QUARTERS[m[1].toLowerCase()];
+            return { year: m[2] ? +m[2] : undefined, build: y => this.calendarQuarter(y, quarter) };
+        });
+
+        // Fiscal quarters: "fiscal Q2", "FQ2", "Q1 FY27", "FY2027 Q3"
+        add(/\b(?:fiscal\s+q|fq)([1-4])(?:\s+(?:of\s+)?(?:fy|fiscal year)\s*'?(\d{4}|\d{2}))?\b/, m => {
+            const quarter = +m[1];
+            return { year: m[2] ? parseYear(m[2]) : undefined, fiscal: true, build: y => this.fiscalQuarter(y, quarter) };
+        });
+        add(/\bq([1-4])\s+(?:of\s+)?(?:fy|fiscal year)\s*'?(\d{4}|\d{2})\b/, m => {
+            const quarter = +m[1];
+            return { year: parseYear(m[2]), fiscal: true, build: y => this.fiscalQuarter(y, quarter) };
+        });
+        add(/\bfy\s*'?(\d{4}|\d{2})\s*q([1-4])\b/, m => {
+            const quarter = +m[2];
+            return { year: parseYear(m[1]), fiscal: true, build: y => this.fiscalQuarter(y, quarter) };
+        });
+
+        // Fiscal years: "FY27", "fiscal year 2027"
+        add(/\b(?:fy|fiscal year)\s*'?(\d{4}|\d{2})\b(?!\s*q[1-4])/, m => ({
+            year: parseYear(m[1]), fiscal: true,
+            build: y => [this.fiscalYearStart(y), this.fiscalYearStart(y + 1) - 1]
+        }));
+
+        // Calendar years: "in 2027", "throughout 2027"
+        add(/\b(?:in|during|for|throughout|all of)\s+(20\d{2})\b(?![-\/])/, m => ({
+            year: +m[1], build: y => [dayOf(y, 1, 1), dayOf(y, 12, 31)]
+        }));
+
+        // Events and seasons
+        EVENTS.forEach(event => add(new RegExp(`\\b(?:${event.pattern.source})\\b`), () => ({
+            build: y => [event.build(y), event.build(y)]
+        })));
+        SEASONS.forEach(season => add(new RegExp(`\\b(?:${season.pattern.source})\\b`), () => ({
+            build: season.build
+        })));
+        WEATHER_SEASONS.forEach(season => add(new RegExp(`\\b(?:${season.pattern.source})\\b(?:\\s+(?:of\\s+)?(20\\d{2})\\b)?`), m => {
+            if (!m[1] && !SEASON_LEAD_IN.test(input.slice(0, m.index))) return null;
+            return { year: m[1] ? +m[1] : undefined, season: !m[1], build: season.build };
+        }));
+
+        // Relative to today
+        const today = this.today;
+        const fixed = (range: Range) => ({ today: true, build: () => range });
+        add(/\btoday\b/, () => ({ ...fixed([today, today]), point: true }));
+        add(/\btomorrow\b/, () => ({ ...fixed([today + 1, today + 1]), point: true }));
+        add(/\b(this|next) week\b/, m => {
+            const monday = mondayOf(today) + (m[1].toLowerCase() === 'next' ? 7 : 0);
+            return fixed([monday, monday + 6]);
+        });
+        add(/\b(this|next) month\b/, m => {
+            const { year, month } = partsOf(today);
+            const target = month + (m[1].toLowerCase() === 'next' ? 1 : 0);
+            return fixed([dayOf(year, target, 1), dayOf(year, target + 1, 0)]);
+        });
+        add(/\b(this|next) (fiscal )?quarter\b/, m => {
+            const next = m[1].toLowerCase() === 'next' ? 1 : 0;
+            if (m[2]) {
+                const fiscalYear = this.fiscalYearOf(today);
+                const { month } = partsOf(today);
+                const quarter = Math.floor(((month - this.fiscalStart + 12) % 12) / 3) + 1 + next;
+                return fixed(quarter > 4 ? this.fiscalQuarter(fiscalYear + 1, 1) : this.fiscalQuarter(fiscalYear, quarter));
+            }
+            const { year, month } = partsOf(today);
+            const quarter = Math.ceil(month / 3) + next;
+            return fixed(quarter > 4 ? this.calendarQuarter(year + 1, 1) : this.calendarQuarter(year, quarter));
+        });
+        add(/\b(this|next) (fiscal )?year\b/, m => {
+            const next = m[1].toLowerCase() === 'next' ? 1 : 0;
+            if (m[2]) {
+                const fiscalYear = this.fiscalYearOf(today) + next;
+                return fixed([this.fiscalYearStart(fiscalYear), this.fiscalYearStart(fiscalYear + 1) - 1]);
+            }
+            const year = partsOf(today).year + next;
+            return fixed([dayOf(year, 1, 1), dayOf(year, 12, 31)]);
+        });
+        add(new RegExp(`\\b(?:the\\s+)?(?:next|coming|following)\\s+${NUMBER}\\s+${UNIT}`), m => {
+            const duration = { amount: parseNumber(m[1]), unit: m[2].toLowerCase() as DurationUnit };
+            return fixed([today, addDuration(today, duration) - 1]);
+        });
+        add(new RegExp(`\\bin\\s+${NUMBER}\\s+${UNIT}|\\b${NUMBER}\\s+${UNIT}\\s+from\\s+(?:now|today)`), m => {
+            const duration = { amount: parseNumber(m[1] || m[3]), unit: (m[2] || m[4]).toLowerCase() as DurationUnit };
+            const day = addDuration(today, duration);
+            return { ...fixed([day, day]), point: true };
+        });
+
+        // Earliest first; on ties the longest phrase wins, and anything overlapping a kept span is dropped
+        spans.sort((a, b) => a.index - b.index || b.length - a.length);
+        const kept: DateSpan[] = [];
+        spans.forEach(span => {
+            const last = kept[kept.length - 1];
+            if (!last || span.index >= last.index + last.length) {
+                kept.push(span);
+            } else if (span.index === last.index && span.length > last.length) {
+                kept[kept.length - 1] = span;
+            }
+        });
+        return kept;
+    }
+
+    // ----- Composite phrases -----
+
+    resolveRange(input: string): ResolvedDateRange | null {
+        const spans = this.findSpans(input);
+        if (spans.length === 0) return null;
+
+        const spanAt = (index: number) => spans.find(s => s.index >= index && input.slice(index, s.index).trim() === '');
+        const result = (start: number, end: number | undefined, from: number, to: number, relative: boolean): ResolvedDateRange => ({
+            startDate: toISODate(start),
+            endDate: end !== undefined ? toISODate(Math.max(end, start)) : undefined,
+            text: input.slice(from, to).trim(),
+            relative,
+            startsInPast: start < this.today
+        });
+        const isRelative = (span: DateSpan) => span.year === undefined;
+
+        // "the 6 weeks before Black Friday", "2 weeks after Labor Day"
+        const offsetPattern = new RegExp(`\\b(?:the\\s+)?${NUMBER}\\s+${UNIT}\\s+(before|prior to|leading (?:up to|into)|ahead of|after|following)\\s+`, 'gi');
+        let offsetMatch: RegExpExecArray | null;
+        while ((offsetMatch = offsetPattern.exec(input)) !== null) {
+            const anchor = spanAt(offsetMatch.index + offsetMatch[0].length);
+            if (!anchor) continue;
+            const duration = { amount: parseNumber(offsetMatch[1]), unit: offsetMatch[2].toLowerCase() as DurationUnit };
+            const before = !/after|following/i.test(offsetMatch[3]);
+            const [start, end] = this.resolve({
+                ...anchor,
+                build: y => {
+                    const [anchorStart, anchorEnd] = anchor.build(y);
+                    return before
+                        ? [addDuration(anchorStart, { ...duration, amount: -duration.amount }), anchorStart - 1]
+                        : [anchorEnd + 1, addDuration(anchorEnd, duration)];
+                }
+            });
+            return result(start, end, offsetMatch.index, anchor.index + anchor.length, isRelative(anchor));
+        }
+
+        // "the week of Thanksgiving"
+        const weekOf = /\b(?:the\s+)?week\s+of\s+/gi.exec(input);
+        const weekAnchor = weekOf && spanAt(weekOf.index + weekOf[0].length);
+        if (weekOf && weekAnchor) {
+            const [start, end] = this.resolve({
+                ...weekAnchor,
+                build: y => {
+                    const monday = mondayOf(weekAnchor.build(y)[0]);
+                    return [monday, monday + 6];
+                }
+            });
+            return result(start, end, weekOf.index, weekAnchor.index + weekAnchor.length, isRelative(weekAnchor));
+        }
+
+        // "Nov 1 through Dec 24", "between March and May", "11/1 - 12/24"
+        for (let i = 0; i < spans.length - 1; i++) {
+            const from = spans[i];
+            const to = spans[i + 1];
+            const between = input.slice(from.index + from.length, to.index);
+            if (!/^\s*(?:through|thru|to|until|till|and|[-–—])\s*$/i.test(between)) continue;
+
+            const [start, end] = this.resolveBetween(from, to);
+            const lead = /\b(?:from|between)\s+$/i.exec(input.slice(0, from.index));
+            return result(start, end, lead ? lead.index : from.index, to.index + to.length, isRelative(from) && isRelative(to));
+        }
+
+        // A year-less season word only leads when nothing else is there
+        const first = spans.find(s => !s.season) || spans[0];
+
+        // "starting March, running 8 weeks", "a 6-week flight from Nov 1"
+        const duration = findDuration(input, first);
+        if (duration && !first.today) {
+            const [start] = this.resolve(first);
+            const from = Math.min(first.index, duration.index);
+            const to = Math.max(first.index + first.length, duration.index + duration.length);
+            return result(start, addDuration(start, duration) - 1, from, to, isRelative(first));
+        }
+
+        // A single phrase. A lone calendar date is a start date; a second one later on is the end.
+        const [start, end] = this.resolve(first);
+        if (first.point && !EVENTS.some(e => e.pattern.test(input.slice(first.index, first.index + first.length)))) {
+            const next = spans.find(s => s.point && s.index > first.index);
+            if (next) {
+                const [, nextEnd] = this.resolveBetween(first, next);
+                return result(start, nextEnd, first.index, next.index + next.length, isRelative(first) && isRelative(next));
+            }
+            return result(start, undefined, first.index, first.index + first.length, isRelative(first));
+        }
+        return result(start, end, first.index, first.index + first.length, isRelative(first));
+    }
+
+    /** Range from one span to another; a year given on either side carries over, and the end never lands before the start */
+    private resolveBetween(from: DateSpan, to: DateSpan): Range {
+        if (from.year === undefined && to.year !== undefined && !from.today) {
+            const end = to.build(to.year)[1];
+            let start = from.build(to.year)[0];
+            if (start > end) start = from.build(to.year - 1)[0];
+            return [start, end];
+        }
+
+        const [start] = this.resolve(from);
+        if (to.year !== undefined || to.today) return [start, to.build(to.year ?? 0)[1]];
+
+        const startYear = partsOf(start).year;
+        for (let year = startYear; year <= startYear + 1; year++) {
+            const end = to.build(year)[1];
+            if (end >= start) return [start, end];
+        }
+        return [start, to.build(startYear + 1)[1]];
+    }
+}
+
+/**
+ * A duration attached to a start phrase: "running 8 weeks", "for 6 weeks", "a 6-week flight"
+ */
+function findDuration(input: string, start?: { index: number; length: number }): (Duration & { index: number; length: number }) | null {
+    const pattern = new RegExp(
+        `\\b(?:(?:running|runs?|for|lasting|over)\\s+(?:the\\s+)?${NUMBER}\\s+${UNIT}|${NUMBER}[-\\s]${UNIT}\\s+(?:flight|campaign|run|burst|flighting|push))\\b`,
+        'gi'
+    );
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(input)) !== null) {
+        // Skip durations that are part of the start phrase itself ("the next 6 weeks")
+        if (start && match.index < start.index + start.length && match.index + match[0].length > start.index) continue;
+        return {
+            amount: parseNumber(match[1] || match[3]),
+            unit: (match[2] || match[4]).toLowerCase() as DurationUnit,
+            index: match.index,
+            length: match[0].length
+        };
+    }
+    return null;
+}
+
+/**
+ * Resolve the first date phrase in the input to a concrete range, or null when there isn't one
+ */
+export function resolveDateRange(input: string, options: DateResolverOptions = {}): ResolvedDateRange | null {
+    return new DateResolver(options).resolveRange(input);
+}
+
+/**
+ * A bare amount of time ("by 2 weeks", "3 months"), e.g. for delays
+ */
+export function resolveDuration(input: string): Duration | null {
+    const match = input.match(new RegExp(`\\b${NUMBER}\\s+${UNIT}`, 'i'));
+    return match ? { amount: parseNumber(match[1]), unit: match[2].toLowerCase() as DurationUnit } : null;
+}
+
+/**
+ * Shift a 'YYYY-MM-DD' date by a duration (negative amounts move it earlier)
+ */
+export function shiftDateBy(date: string, duration: Duration): string {
+    const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+    return toISODate(addDuration(dayOf(year, month, day), duration));
+}
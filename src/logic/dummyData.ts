@@ -1,6 +1,7 @@
 import { Campaign, Line, CostMethod, Brand, User, Flight, MediaPlan, AgentInfo, AgentExecution, PlanMetrics, ForecastMetrics, DeliveryMetrics, ForecastSource, Creative, ConversionPath, Touchpoint, ChannelType } from '../types';
+import { random } from '../utils/random';
 
-export const generateId = () => Math.random().toString(36).substr(2, 9);
+export const generateId = () => random().toString(36).substr(2, 9);
 
 // --- Constants & Reference Data ---
 
@@ -85,6 +86,7 @@ export const SAMPLE_BRANDS: Brand[] = [
         id: 'brand_coke',
         name: 'Coca-Cola',
         logoUrl: 'https://logo.clearbit.com/coca-cola.com',
+        brandColors: { primary: '#F40009', accent: '#1E1E1E' },
         agencyId: 'agency_1',
         totalSpend: 45000000,
         budget: 50000000,
@@ -95,6 +97,7 @@ export const SAMPLE_BRANDS: Brand[] = [
         id: 'brand_gm',
         name: 'General Motors',
         logoUrl: 'https://logo.clearbit.com/gm.com',
+        brandColors: { primary: '#0170CE', accent: '#5B6770' },
         agencyId: 'agency_1',
         totalSpend: 82000000,
         budget: 90000000,
@@ -105,6 +108,8 @@ export const SAMPLE_BRANDS: Brand[] = [
         id: 'brand_pg',
         name: 'Procter & Gamble',
         logoUrl: 'https://logo.clearbit.com/pg.com',
+        brandColors: { primary: '#003DA5', accent: '#00A3E0' },
+        fiscalYearStartMonth: 7, // P&G's fiscal year runs July - June
         agencyId: 'agency_1',
         totalSpend: 120000000,
         budget: 125000000,
@@ -115,6 +120,7 @@ export const SAMPLE_BRANDS: Brand[] = [
         id: 'brand_pepsi',
         name: 'Pepsi',
         logoUrl: 'https://logo.clearbit.com/pepsi.com',
+        brandColors: { primary: '#004B93', accent: '#E32934' },
         agencyId: 'agency_1',
         totalSpend: 38000000,
         budget: 42000000,
@@ -169,7 +175,7 @@ const generateForecast = (channel: string, vendor: string, budget: number): { fo
 
     // 3. Generate Delivery Metrics (Simulated Actuals)
     // Randomize delivery status: 70% On Track, 15% Under, 15% Over
-    const rand = Math.random();
+    const rand = random();
     let pacing = 1.0; // 100%
     let status: 'ON_TRACK' | 'UNDER_PACING' | 'OVER_PACING' = 'ON_TRACK';
 
@@ -180,7 +186,7 @@ const generateForecast = (channel: string, vendor: string, budget: number): { fo
         pacing = 0.85; // Under-pacing
         status = 'UNDER_PACING';
     } else {
-        pacing = 0.98 + (Math.random() * 0.04); // +/- 2%
+        pacing = 0.98 + (random() * 0.04); // +/- 2%
     }
 
     // Assume we are part-way through the campaign, so actuals are proportional to pacing * progress
@@ -260,11 +266,11 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
             adUnit = programName;
         } else {
             // Pick a random ad unit for this channel
-            adUnit = unitList[Math.floor(Math.random() * unitList.length)];
+            adUnit = unitList[Math.floor(random() * unitList.length)];
         }
     } else if (channel === 'TV' && programName) {
         // TV-specific: program name goes to adUnit
-        vendor = vendorList[Math.floor(Math.random() * vendorList.length)];
+        vendor = vendorList[Math.floor(random() * vendorList.length)];
         adUnit = programName;
 
         // Try to find specific network data if available
@@ -273,14 +279,14 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
         }
     } else {
         // Random vendor and ad unit
-        vendor = vendorList[Math.floor(Math.random() * vendorList.length)];
-        adUnit = unitList[Math.floor(Math.random() * unitList.length)];
+        vendor = vendorList[Math.floor(random() * vendorList.length)];
+        adUnit = unitList[Math.floor(random() * unitList.length)];
     }
 
-    const segment = segmentList[Math.floor(Math.random() * segmentList.length)];
-    const rate = rateInfo2.min + Math.random() * (rateInfo2.max - rateInfo2.min);
+    const segment = segmentList[Math.floor(random() * segmentList.length)];
+    const rate = rateInfo2.min + random() * (rateInfo2.max - rateInfo2.min);
     const costMethod = rateInfo2.method;
-    const ctr = 0.005 + Math.random() * 0.025; // 0.5% - 3% CTR range (realistic)
+    const ctr = 0.005 + random() * 0.025; // 0.5% - 3% CTR range (realistic)
 
     // Generate realistic budget/cost first, then derive impressions from CPM
     // Budget ranges based on typical placement sizes
@@ -288,19 +294,19 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
 
     if (channel === 'TV') {
         // TV placements: $10k - $100k per flight (realistic for cable)
-        baseBudget = 10000 + Math.random() * 90000;
+        baseBudget = 10000 + random() * 90000;
     } else if (channel === 'Search') {
         // Search: $5k - $50k per placement
-        baseBudget = 5000 + Math.random() * 45000;
+        baseBudget = 5000 + random() * 45000;
     } else if (channel === 'Social') {
         // Social: $5k - $40k per placement
-        baseBudget = 5000 + Math.random() * 35000;
+        baseBudget = 5000 + random() * 35000;
     } else if (channel === 'Podcast') {
         // Podcast: $8k - $30k per placement
-        baseBudget = 8000 + Math.random() * 22000;
+        baseBudget = 8000 + random() * 22000;
     } else {
         // Default: $5k - $30k per placement
-        baseBudget = 5000 + Math.random() * 25000;
+        baseBudget = 5000 + random() * 25000;
     }
 
     const totalCost = Math.round(baseBudget);
@@ -326,13 +332,13 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
             let maxImpressions: number;
             if (isSports) {
                 // Sports programming: 500k - 5M per flight (depending on event)
-                maxImpressions = 500000 + Math.random() * 4500000;
+                maxImpressions = 500000 + random() * 4500000;
             } else if (isPrimetime) {
                 // Primetime: 1M - 5M per flight
-                maxImpressions = 1000000 + Math.random() * 4000000;
+                maxImpressions = 1000000 + random() * 4000000;
             } else {
                 // Daytime/off-peak: 200k - 1.5M per flight
-                maxImpressions = 200000 + Math.random() * 1300000;
+                maxImpressions = 200000 + random() * 1300000;
             }
             impressions = Math.min(impressions, Math.floor(maxImpressions));
         } else if (channel === 'Podcast') {
@@ -352,7 +358,7 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
         impressions = Math.min(impressions, 20000000); // Cap at 20M
     } else {
         // Flat rate (Print): estimate based on circulation
-        impressions = Math.floor(50000 + Math.random() * 200000); // 50k - 250k for print
+        impressions = Math.floor(50000 + random() * 200000); // 50k - 250k for print
     }
 
     // Quantity represents different things per channel
@@ -365,13 +371,13 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
     } else if (costMethod === 'CPC') {
         quantity = Math.floor(totalCost / rate);
     } else {
-        quantity = Math.floor(1 + Math.random() * 5); // 1-5 insertions for flat rate
+        quantity = Math.floor(1 + random() * 5); // 1-5 insertions for flat rate
     }
 
     const clicks = Math.floor(impressions * ctr);
-    const cvr = 0.001 + Math.random() * 0.05;
+    const cvr = 0.001 + random() * 0.05;
     const conversions = Math.floor(impressions * cvr);
-    const revenue = conversions * (50 + Math.random() * 100);
+    const revenue = conversions * (50 + random() * 100);
 
     const performance = {
         impressions: Math.floor(impressions),
@@ -386,7 +392,7 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
     };
 
     // Buying Type Logic
-    const buyingRoll = Math.random();
+    const buyingRoll = random();
     let buyingType: 'Auction' | 'PMP' | 'Direct' = 'Auction';
     let dealId: string | undefined;
     let ioNumber: string | undefined;
@@ -398,11 +404,11 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
         else if (buyingRoll > 0.95) buyingType = 'Direct';
     }
 
-    if (buyingType === 'PMP') dealId = `PMP-${Math.floor(Math.random() * 100000)}`;
-    if (buyingType === 'Direct') ioNumber = `IO-${new Date().getFullYear()}-${Math.floor(Math.random() * 1000)}`;
+    if (buyingType === 'PMP') dealId = `PMP-${Math.floor(random() * 100000)}`;
+    if (buyingType === 'Direct') ioNumber = `IO-${new Date().getFullYear()}-${Math.floor(random() * 1000)}`;
 
     // Generate Creatives
-    const numCreatives = Math.floor(Math.random() * 3) + 1; // 1-3 creatives
+    const numCreatives = Math.floor(random() * 3) + 1; // 1-3 creatives
     const creatives: Creative[] = [];
 
     for (let i = 0; i < numCreatives; i++) {
@@ -413,14 +419,14 @@ export function generateLine(channel: 'Search' | 'Social' | 'Display' | 'TV' | '
         ];
 
         creatives.push({
-            id: Math.random().toString(36).substr(2, 9),
+            id: random().toString(36).substr(2, 9),
             name: `${vendor} ${channel} ${isVideo ? 'Spot' : 'Banner'} v${i + 1}`,
             type: isVideo ? 'VIDEO' : 'IMAGE',
-            url: isVideo ? videoUrls[Math.floor(Math.random() * videoUrls.length)] : `https://picsum.photos/seed/${Math.random()}/400/300`,
+            url: isVideo ? videoUrls[Math.floor(random() * videoUrls.length)] : `https://picsum.photos/seed/${random()}/400/300`,
             dimensions: isVideo ? '1920x1080' : '300x250',
             metrics: {
-                ctr: ctr * (0.8 + Math.random() * 0.4), // Variation around placement CTR
-                conversions: Math.floor(conversions / numCreatives * (0.8 + Math.random() * 0.4))
+                ctr: ctr * (0.8 + random() * 0.4), // Variation around placement CTR
+                conversions: Math.floor(conversions / numCreatives * (0.8 + random() * 0.4))
             }
         });
     }
@@ -540,7 +546,7 @@ export function generateFlight(campaignId: string, name: string, budget: number)
     channels.forEach(channel => {
         if (remainingBudget <= 0) return;
 
-        const allocation = Math.floor(budget * (0.2 + Math.random() * 0.1)); // ~20-30% per channel
+        const allocation = Math.floor(budget * (0.2 + random() * 0.1)); // ~20-30% per channel
         const line = generateLine(channel, 'Brand');
         // Adjust line cost to match allocation
         line.totalCost = allocation;
@@ -636,9 +642,10 @@ export const MOCK_DATA = {
 // --- Attribution Data Generation ---
 
 /**
- * Generate realistic conversion paths for attribution modeling
+ * Generate realistic conversion paths for attribution modeling.
+ * Conversions are dated back from `now`; pass a fixed date for repeatable paths.
  */
-export function generateConversionPaths(campaign: Campaign, count: number = 50): ConversionPath[] {
+export function generateConversionPaths(campaign: Campaign, count: number = 50, now: Date = new Date()): ConversionPath[] {
     const paths: ConversionPath[] = [];
 
     // Map channels to ChannelType
@@ -667,15 +674,14 @@ export function generateConversionPaths(campaign: Campaign, count: number = 50):
         const userId = `user_${generateId()}`;
 
         // Random number of touchpoints (2-8, weighted toward 3-5)
-        const numTouchpoints = Math.floor(Math.random() * 100) < 60
-            ? 3 + Math.floor(Math.random() * 3) // 60% chance of 3-5 touchpoints
-            : 2 + Math.floor(Math.random() * 7); // 40% chance of 2-8 touchpoints
+        const numTouchpoints = Math.floor(random() * 100) < 60
+            ? 3 + Math.floor(random() * 3) // 60% chance of 3-5 touchpoints
+            : 2 + Math.floor(random() * 7); // 40% chance of 2-8 touchpoints
 
         const touchpoints: Touchpoint[] = [];
-        const now = new Date();
 
         // Time to conversion: 1-30 days (hours)
-        const timeToConversionHours = 24 + Math.random() * (29 * 24);
+        const timeToConversionHours = 24 + random() * (29 * 24);
         const conversionDate = new Date(now.getTime() - timeToConversionHours * 60 * 60 * 1000);
 
         let currentTime = now.getTime() - timeToConversionHours * 60 * 60 * 1000;
@@ -683,17 +689,17 @@ export function generateConversionPaths(campaign: Campaign, count: number = 50):
         // Generate touchpoints in chronological order
         for (let t = 0; t < numTouchpoints; t++) {
             // Pick a random placement
-            const placement = allPlacements[Math.floor(Math.random() * allPlacements.length)];
+            const placement = allPlacements[Math.floor(random() * allPlacements.length)];
 
             // Time gap between touchpoints: 1 hour to 7 days
-            const timeGapHours = t === 0 ? 0 : 1 + Math.random() * (7 * 24);
+            const timeGapHours = t === 0 ? 0 : 1 + random() * (7 * 24);
             currentTime += timeGapHours * 60 * 60 * 1000;
 
             const channelType = channelTypeMap[placement.channel] || 'DISPLAY';
 
             // Cost per touchpoint (approximate from placement)
             const avgCost = placement.totalCost / (placement.quantity || 1);
-            const touchpointCost = avgCost * (0.5 + Math.random()); // Vary cost
+            const touchpointCost = avgCost * (0.5 + random()); // Vary cost
 
             touchpoints.push({
                 id: generateId(),
@@ -707,7 +713,7 @@ export function generateConversionPaths(campaign: Campaign, count: number = 50):
         }
 
         // Conversion value: $50 - $500
-        const conversionValue = 50 + Math.random() * 450;
+        const conversionValue = 50 + random() * 450;
 
         paths.push({
             id: pathId,
@@ -730,7 +736,7 @@ export function generateBrandAttributionData(brand: Brand): Map<string, Conversi
 
     brand.campaigns.forEach(campaign => {
         // Generate 30-80 paths per campaign (based on campaign size)
-        const pathCount = 30 + Math.floor(Math.random() * 50);
+        const pathCount = 30 + Math.floor(random() * 50);
         const paths = generateConversionPaths(campaign, pathCount);
         attributionData.set(campaign.id, paths);
     });
@@ -4,6 +4,8 @@
  * Extracts structured data from natural language input
  */
 
+import { resolveDateRange, DateResolverOptions } from './dateResolver';
+
 export interface ExtractedEntities {
     budget?: number;
     channels?: string[];
@@ -11,6 +13,9 @@ export interface ExtractedEntities {
         start?: Date;
         end?: Date;
         relative?: string;
+        startDate?: string; // YYYY-MM-DD
+        endDate?: string;
+        text?: string;      // Phrase the dates were read from
     };
     metrics?: {
         name: string;
@@ -112,47 +117,30 @@ export function extractChannels(input: string): string[] {
 }
 
 /**
- * Extract date references from input
+ * Extract date references from input, resolved to concrete dates relative to today
  */
-export function extractDates(input: string): ExtractedEntities['dates'] {
+export function extractDates(input: string, options: DateResolverOptions = {}): ExtractedEntities['dates'] {
     const result: ExtractedEntities['dates'] = {};
-
-    // Relative dates
-    const relativePatterns = [
-        { pattern: /next month/i, offset: { months: 1 } },
-        { pattern: /next week/i, offset: { weeks: 1 } },
-        { pattern: /next quarter|q\d/i, offset: { months: 3 } },
-        { pattern: /in (\d+) (day|week|month)s?/i, dynamic: true }
-    ];
-
-    for (const rp of relativePatterns) {
-        if (rp.pattern.test(input)) {
-            const match = input.match(rp.pattern);
-            if (match) {
-                result.relative = match[0];
-                // Would calculate actual dates here in real implementation
-            }
-        }
+    const range = resolveDateRange(input, options);
+    if (!range) {
+        return result;
     }
 
-    // Absolute dates (simplified - would use a proper date parser in production)
-    const datePattern = /(\d{1,2}\/\d{1,2}\/\d{2,4})/g;
-    const matches = input.match(datePattern);
-    if (matches && matches.length > 0) {
-        // First match is start date
-        try {
-            result.start = new Date(matches[0]);
-        } catch (e) {
-            // Invalid date
-        }
+    // Local midnight so the calendar day survives display in any timezone
+    const toLocalDate = (date: string) => {
+        const [year, month, day] = date.split('-').map(Number);
+        return new Date(year, month - 1, day);
+    };
 
-        if (matches.length > 1) {
-            try {
-                result.end = new Date(matches[1]);
-            } catch (e) {
-                // Invalid date
-            }
-        }
+    result.start = toLocalDate(range.startDate);
+    result.startDate = range.startDate;
+    if (range.endDate) {
+        result.end = toLocalDate(range.endDate);
+        result.endDate = range.endDate;
+    }
+    result.text = range.text;
+    if (range.relative) {
+        result.relative = range.text;
     }
 
     return result;
@@ -325,11 +313,11 @@ export function extractCampaignName(input: string): string | undefined {
 /**
  * Extract all entities from input
  */
-export function extractAllEntities(input: string): ExtractedEntities {
+export function extractAllEntities(input: string, dateOptions: DateResolverOptions = {}): ExtractedEntities {
     return {
         budget: extractBudget(input),
         channels: extractChannels(input),
-        dates: extractDates(input),
+        dates: extractDates(input, dateOptions),
         metrics: extractMetrics(input),
         audience: extractAudience(input),
         placements: extractPlacementSpecs(input),
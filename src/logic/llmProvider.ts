@@ -0,0 +1,520 @@
+/**
+ * LLM Provider - Pluggable language-model backend for intent and slot extraction
+ *
+ * AgentBrain consults a provider only for input its pattern rules don't recognise.
+ * The provider answers with a call to one of AGENT_TOOLS, and the tool passes its
+ * typed arguments straight to the manager the matching command uses, so every edit
+ * still goes through ChannelManager, the goal handlers, forecasting and exports.
+ */
+
+import { AgentMessage, MediaPlan } from '../types';
+import { extractBudget, extractChannels } from './entityExtractor';
+import { resolveDateRange } from './dateResolver';
+import { channelManager } from './ChannelManager';
+import { goalManager, GoalMetric } from './GoalManager';
+import { forecastManager } from './ForecastManager';
+import { optimizationManager } from './OptimizationManager';
+import { exportManager, ExportFormat } from './ExportManager';
+
+export type AgentToolName =
+    | 'add_placement'
+    | 'pause_placement'
+    | 'set_budget'
+    | 'set_goal'
+    | 'show_goals'
+    | 'run_forecast'
+    | 'optimize_plan'
+    | 'change_dates'
+    | 'export_plan';
+
+export interface ToolParameter {
+    type: 'string' | 'number';
+    description: string;
+    enum?: string[];
+}
+
+/**
+ * JSON-schema style tool definition, the shape function-calling APIs expect
+ */
+export interface AgentToolSchema {
+    name: AgentToolName;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, ToolParameter>;
+        required: string[];
+    };
+}
+
+export type ToolArguments = Record<string, string | number>;
+
+export interface LLMToolCall {
+    name: AgentToolName;
+    arguments: ToolArguments;
+}
+
+export interface LLMRequest {
+    input: string;
+    tools: AgentToolSchema[];
+    context: {
+        state: string;
+        today: string; // YYYY-MM-DD
+        fiscalYearStartMonth?: number;
+        campaignName?: string;
+        budget?: number;
+        channels: string[];
+        vendors: string[];
+    };
+}
+
+export interface LLMResponse {
+    toolCall: LLMToolCall | null;
+    confidence: number;
+    message?: string; // Provider's own explanation when it declines to call a tool
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export class LLMProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+interface AgentTool extends AgentToolSchema {
+    /** Short phrase for what the call does, shown to the user */
+    describe(args: ToolArguments): string;
+    /** Whether the call changes the plan, in which case the user confirms it first */
+    modifiesPlan(args: ToolArguments): boolean;
+    /** Runs the call on the plan; input is what the user typed, for the history entry */
+    execute(args: ToolArguments, plan: MediaPlan, input: string): AgentMessage;
+}
+
+const CHANNELS = ['Search', 'Social', 'Display', 'TV', 'Radio', 'Streaming Audio', 'Podcast', 'Place-based Audio', 'OOH', 'Print'];
+const GOAL_METRICS: GoalMetric[] = ['impressions', 'reach', 'conversions', 'clicks'];
+const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'ppt', 'xlsx', 'report', 'io'];
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+    pdf: 'export pdf',
+    ppt: 'generate powerpoint',
+    xlsx: 'export to excel',
+    report: 'build a branded report',
+    io: 'generate insertion orders'
+};
+
+const AGENT_TOOLS: AgentTool[] = [
+    {
+        name: 'add_placement',
+        description: 'Add a placement on a channel, optionally with a specific vendor or network',
+        parameters: {
+            type: 'object',
+            properties: {
+                channel: { type: 'string', description: 'Media channel', enum: CHANNELS },
+                vendor: { type: 'string', description: 'Vendor or network, e.g. ESPN or Meta' }
+            },
+            required: ['channel']
+        },
+        describe: args => args.vendor ? `add ${args.channel} on ${args.vendor}` : `add ${args.channel}`,
+        modifiesPlan: () => true,
+        execute: (args, plan, input) =>
+            channelManager.addPlacement(plan, String(args.channel), args.vendor ? String(args.vendor) : undefined, undefined, input)
+    },
+    {
+        name: 'pause_placement',
+        description: 'Pause the placements matching a channel, vendor or row number',
+        parameters: {
+            type: 'object',
+            properties: {
+                target: { type: 'string', description: 'Channel, vendor or row number to pause' }
+            },
+            required: ['target']
+        },
+        describe: args => `pause ${args.target}`,
+        modifiesPlan: () => true,
+        execute: (args, plan, input) => {
+            // A bare number is a row; anything else matches vendor or line names
+            const target = String(args.target).trim();
+            return channelManager.pauseLines(plan, /^\d+$/.test(target) ? parseInt(target) : target, input);
+        }
+    },
+    {
+        name: 'set_budget',
+        description: 'Change the total campaign budget',
+        parameters: {
+            type: 'object',
+            properties: {
+                amount: { type: 'number', description: 'New budget in dollars' }
+            },
+            required: ['amount']
+        },
+        describe: args => `set budget to $${Math.round(Number(args.amount))}`,
+        modifiesPlan: () => true,
+        execute: (args, plan, input) => channelManager.setCampaignBudget(plan, Math.round(Number(args.amount)), input)
+    },
+    {
+        name: 'set_goal',
+        description: 'Set a delivery goal for the campaign',
+        parameters: {
+            type: 'object',
+            properties: {
+                metric: { type: 'string', description: 'Goal metric', enum: GOAL_METRICS },
+                target: { type: 'number', description: 'Target value' }
+            },
+            required: ['metric', 'target']
+        },
+        describe: args => `set goal ${args.metric} ${Math.round(Number(args.target))}`,
+        modifiesPlan: () => true,
+        execute: (args, plan, input) =>
+            goalManager.setGoal(plan, { metric: args.metric as GoalMetric, value: Math.round(Number(args.target)) }, input)
+    },
+    {
+        name: 'show_goals',
+        description: 'Show the campaign goals and progress against them',
+        parameters: { type: 'object', properties: {}, required: [] },
+        describe: () => 'show goals',
+        modifiesPlan: () => false,
+        execute: (_args, plan) => goalManager.showGoals(plan)
+    },
+    {
+        name: 'run_forecast',
+        description: 'Forecast delivery and performance for the current plan',
+        parameters: { type: 'object', properties: {}, required: [] },
+        describe: () => 'forecast campaign performance',
+        modifiesPlan: () => false,
+        execute: (_args, plan) => forecastManager.forecast(plan)
+    },
+    {
+        name: 'optimize_plan',
+        description: 'Optimize the plan, optionally for a specific objective',
+        parameters: {
+            type: 'object',
+            properties: {
+                objective: { type: 'string', description: 'What to optimize for', enum: ['conversions', 'reach'] }
+            },
+            required: []
+        },
+        describe: args => args.objective ? `optimize for ${args.objective}` : 'optimize plan',
+        modifiesPlan: () => false,
+        execute: (_args, plan) => optimizationManager.optimizePlan(plan)
+    },
+    {
+        name: 'change_dates',
+        description: 'Reschedule the campaign to new flight dates',
+        parameters: {
+            type: 'object',
+            properties: {
+                startDate: { type: 'string', description: 'Start date, YYYY-MM-DD' },
+                endDate: { type: 'string', description: 'End date, YYYY-MM-DD' }
+            },
+            required: ['startDate']
+        },
+        describe: args => args.endDate ? `run from ${args.startDate} to ${args.endDate}` : `run from ${args.startDate}`,
+        modifiesPlan: () => true,
+        execute: (args, plan, input) =>
+            channelManager.rescheduleCampaign(plan, String(args.startDate), args.endDate ? String(args.endDate) : undefined, input)
+    },
+    {
+        name: 'export_plan',
+        description: 'Export the plan as a PDF, PowerPoint deck, Excel workbook, branded report or insertion orders',
+        parameters: {
+            type: 'object',
+            properties: {
+                format: { type: 'string', description: 'Export format', enum: EXPORT_FORMATS }
+            },
+            required: ['format']
+        },
+        describe: args => EXPORT_LABELS[args.format as ExportFormat],
+        modifiesPlan: args => args.format === 'io',
+        execute: (args, plan, input) => exportManager.exportPlan(args.format as ExportFormat, plan, input)
+    }
+];
+
+/**
+ * Tool definitions to send to a provider
+ */
+export function getToolSchemas(): AgentToolSchema[] {
+    return AGENT_TOOLS.map(({ describe, modifiesPlan, execute, ...schema }) => schema);
+}
+
+/**
+ * Check a tool call against its schema, returning the tool that runs it
+ */
+function validateToolCall(call: LLMToolCall): AgentTool {
+    const tool = AGENT_TOOLS.find(t => t.name === call.name);
+    if (!tool) {
+        throw new LLMProviderError(`Unknown tool "${call.name}"`);
+    }
+
+    const args = call.arguments || {};
+    for (const key of tool.parameters.required) {
+        if (args[key] === undefined || args[key] === '') {
+            throw new LLMProviderError(`Tool "${call.name}" is missing required argument "${key}"`);
+        }
+    }
+
+    for (const [key, value] of Object.entries(args)) {
+        const param = tool.parameters.properties[key];
+        if (!param) {
+            throw new LLMProviderError(`Tool "${call.name}" has no argument "${key}"`);
+        }
+        if (param.type === 'number' && isNaN(Number(value))) {
+            throw new LLMProviderError(`Argument "${key}" of "${call.name}" must be a number`);
+        }
+        if (param.enum && !param.enum.includes(String(value))) {
+            throw new LLMProviderError(`Argument "${key}" of "${call.name}" must be one of ${param.enum.join(', ')}`);
+        }
+        if (key.endsWith('Date') && !/^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+            throw new LLMProviderError(`Argument "${key}" of "${call.name}" must be a YYYY-MM-DD date`);
+        }
+    }
+
+    return tool;
+}
+
+/**
+ * Short phrase for what a tool call does, e.g. "add TV on ESPN". Throws LLMProviderError
+ * when the call doesn't fit its schema.
+ */
+export function describeToolCall(call: LLMToolCall): string {
+    return validateToolCall(call).describe(call.arguments || {});
+}
+
+/**
+ * Whether a tool call changes the plan. Throws LLMProviderError when the call
+ * doesn't fit its schema.
+ */
+export function toolCallModifiesPlan(call: LLMToolCall): boolean {
+    return validateToolCall(call).modifiesPlan(call.arguments || {});
+}
+
+/**
+ * Run a tool call on the plan with its typed arguments. Throws LLMProviderError
+ * when the call doesn't fit its schema.
+ */
+export function executeToolCall(call: LLMToolCall, plan: MediaPlan, input: string): AgentMessage {
+    return validateToolCall(call).execute(call.arguments || {}, plan, input);
+}
+
+// ===== MOCK PROVIDER =====
+
+// Networks people name instead of a channel
+const VENDOR_CHANNELS: Record<string, string> = {
+    espn: 'TV', cnn: 'TV', fox: 'TV', nbc: 'TV', cbs: 'TV', abc: 'TV', hulu: 'TV', netflix: 'TV',
+    meta: 'Social', facebook: 'Social', instagram: 'Social', tiktok: 'Social', snapchat: 'Social',
+    google: 'Search', bing: 'Search',
+    spotify: 'Streaming Audio', pandora: 'Streaming Audio', iheart: 'Radio'
+};
+
+// extractChannels speaks in planning categories; lines use the Line channel names
+const CATEGORY_CHANNELS: Record<string, string> = {
+    'Connected TV': 'TV',
+    'Linear TV': 'TV',
+    'Addressable TV': 'TV',
+    'VOD': 'TV',
+    'Video': 'TV',
+    'DOOH': 'OOH',
+    'Audio': 'Radio',
+    'Social': 'Social',
+    'Search': 'Search',
+    'Display': 'Display',
+    'Native': 'Display'
+};
+
+function findVendor(text: string): string | undefined {
+    const match = text.match(new RegExp(`\\b(${Object.keys(VENDOR_CHANNELS).join('|')})\\b`, 'i'));
+    return match?.[1].toLowerCase();
+}
+
+function findChannel(text: string): string | undefined {
+    const exact = CHANNELS.find(c => new RegExp(`\\b${c}\\b`, 'i').test(text));
+    if (exact) return exact;
+    const category = extractChannels(text).find(c => CATEGORY_CHANNELS[c]);
+    return category ? CATEGORY_CHANNELS[category] : undefined;
+}
+
+function displayVendor(vendor: string, context: LLMRequest['context']): string {
+    const known = context.vendors.find(v => v.toLowerCase() === vendor);
+    return known || (vendor.length <= 4 ? vendor.toUpperCase() : vendor[0].toUpperCase() + vendor.slice(1));
+}
+
+function parseAmount(text: string): number | undefined {
+    const match = text.match(/\$?\d[\d,]*(?:\.\d+)?\s*(?:k|m(?:illion)?)?\b/i);
+    return match ? extractBudget(match[0]) : undefined;
+}
+
+interface MockRule {
+    tool: AgentToolName;
+    cue: RegExp;
+    confidence: number;
+    slots(input: string, request: LLMRequest): ToolArguments | null;
+}
+
+// Checked in order; the first rule whose cue matches and whose slots can be filled wins
+const MOCK_RULES: MockRule[] = [
+    {
+        tool: 'export_plan',
+        cue: /\b(deck|slides?|powerpoint|ppt|pdf|spreadsheet|excel|xlsx|workbook|report|insertion orders?|ios)\b/i,
+        confidence: 0.85,
+        slots: input => {
+            if (/\b(insertion orders?|ios)\b/i.test(input)) return { format: 'io' };
+            if (/\b(deck|slides?|powerpoint|ppt)\b/i.test(input)) return { format: 'ppt' };
+            if (/\b(spreadsheet|excel|xlsx|workbook)\b/i.test(input)) return { format: 'xlsx' };
+            if (/\breport\b/i.test(input)) return { format: 'report' };
+            return { format: 'pdf' };
+        }
+    },
+    {
+        tool: 'change_dates',
+        cue: /\b(push|move|shift|slide|reschedule|run|start|launch|kick off|go live|flight)\b/i,
+        confidence: 0.8,
+        slots: (input, request): ToolArguments | null => {
+            const [year, month, day] = request.context.today.split('-').map(Number);
+            const range = resolveDateRange(input, {
+                today: new Date(year, month - 1, day),
+                fiscalYearStartMonth: request.context.fiscalYearStartMonth
+            });
+            if (!range) return null;
+            return range.endDate ? { startDate: range.startDate, endDate: range.endDate } : { startDate: range.startDate };
+        }
+    },
+    {
+        tool: 'set_budget',
+        cue: /\b(budget|spend|spending|total)\b/i,
+        confidence: 0.8,
+        slots: input => {
+            const amount = parseAmount(input);
+            return amount ? { amount } : null;
+        }
+    },
+    {
+        tool: 'set_goal',
+        cue: /\b(goal|target|aim|hit|deliver|get us)\b/i,
+        confidence: 0.75,
+        slots: input => {
+            const metric = GOAL_METRICS.find(m => new RegExp(`\\b${m.replace(/s$/, '')}`, 'i').test(input));
+            const target = parseAmount(input);
+            return metric && target ? { metric, target } : null;
+        }
+    },
+    {
+        tool: 'show_goals',
+        cue: /\b(goals?|targets?|kpis?)\b/i,
+        confidence: 0.7,
+        slots: () => ({})
+    },
+    {
+        tool: 'pause_placement',
+        cue: /\b(kill|stop|halt|hold|turn off|shut off|switch off|pull|drop|cut)\b/i,
+        confidence: 0.75,
+        slots: (input, request) => {
+            const vendor = findVendor(input);
+            if (vendor) return { target: displayVendor(vendor, request.context) };
+            const known = request.context.vendors.find(v => new RegExp(`\\b${v}\\b`, 'i').test(input));
+            if (known) return { target: known };
+            const channel = findChannel(input);
+            return channel ? { target: channel } : null;
+        }
+    },
+    {
+        tool: 'add_placement',
+        cue: /\b(add|throw|put|include|get|buy|book|want|need|more|some|try)\b/i,
+        confidence: 0.75,
+        slots: (input, request): ToolArguments | null => {
+            const vendor = findVendor(input);
+            const channel = findChannel(input) || (vendor ? VENDOR_CHANNELS[vendor] : undefined);
+            if (!channel) return null;
+            return vendor ? { channel, vendor: displayVendor(vendor, request.context) } : { channel };
+        }
+    },
+    {
+        tool: 'optimize_plan',
+        cue: /\b(optimi[sz]e|improve|better|efficien\w*|tune|tighten|squeeze)\b/i,
+        confidence: 0.7,
+        slots: (input): ToolArguments => {
+            if (/\b(conversions?|sales|cpa|roas|performance)\b/i.test(input)) return { objective: 'conversions' };
+            if (/\b(reach|awareness)\b/i.test(input)) return { objective: 'reach' };
+            return {};
+        }
+    },
+    {
+        tool: 'run_forecast',
+        cue: /\b(forecast|predict\w*|projections?|project|expect\w*|outlook|how will|going to (?:do|perform|look)|look like)\b/i,
+        confidence: 0.7,
+        slots: () => ({})
+    }
+];
+
+/**
+ * Deterministic offline stand-in for a language model: keyword cues plus the
+ * existing entity extractors for slots. Same input, same tool call, every time.
+ */
+export class MockLLMProvider implements LLMProvider {
+    readonly name = 'mock';
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const offered = new Set(request.tools.map(t => t.name));
+
+        for (const rule of MOCK_RULES) {
+            if (!offered.has(rule.tool) || !rule.cue.test(request.input)) continue;
+            const args = rule.slots(request.input, request);
+            if (args) {
+                return { toolCall: { name: rule.tool, arguments: args }, confidence: rule.confidence };
+            }
+        }
+
+        return { toolCall: null, confidence: 0, message: 'No tool matches this request' };
+    }
+}
+
+// ===== REPLAY PROVIDER =====
+
+export interface LLMFixture {
+    input: string;
+    response: LLMResponse;
+}
+
+function normalizeInput(input: string): string {
+    return input.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?]+$/, '');
+}
+
+/**
+ * Answers from recorded responses, so conversations captured against a real
+ * model can be replayed offline. Unrecorded input is an error, not a guess.
+ */
+export class ReplayLLMProvider implements LLMProvider {
+    readonly name = 'replay';
+    private responses = new Map<string, LLMResponse>();
+
+    constructor(fixtures: LLMFixture[]) {
+        fixtures.forEach(f => this.responses.set(normalizeInput(f.input), f.response));
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = this.responses.get(normalizeInput(request.input));
+        if (!response) {
+            throw new LLMProviderError(`No recorded response for "${request.input}"`);
+        }
+        return JSON.parse(JSON.stringify(response));
+    }
+}
+
+/**
+ * Wraps another provider and keeps every exchange as a fixture for ReplayLLMProvider
+ */
+export class RecordingLLMProvider implements LLMProvider {
+    readonly name: string;
+    readonly fixtures: LLMFixture[] = [];
+
+    constructor(private inner: LLMProvider) {
+        this.name = `recording:${inner.name}`;
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.inner.complete(request);
+        this.fixtures.push({ input: request.input, response: JSON.parse(JSON.stringify(response)) });
+        return response;
+    }
+}
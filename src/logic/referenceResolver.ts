@@ -0,0 +1,225 @@
+/**
+ * Reference Resolver - Maps references in chat to concrete lines and flights
+ *
+ * Understands:
+ * - Pronouns: "pause it", "resume that one", "that flight"
+ * - Ordinals: "the second social line", "the last one", "the 3rd flight"
+ * - Descriptions: "the Hulu one", "the ESPN placement", "the Q1 flight"
+ * - Superlatives: "the most expensive social line", "the second-best performer"
+ *
+ * Pronouns are read from the conversation focus (newest first), falling back to
+ * older focus entries when the lines they pointed at are gone. The matched phrase
+ * is rewritten to a form the command handlers already understand ("row 3" for
+ * lines, `the "Q1 Launch" flight` for flights). When more than one line or
+ * flight fits, the result lists the candidates so the agent can ask which one.
+ */
+
+import { Flight, Line, MediaPlan } from '../types';
+import { ConversationFocus } from './contextManager';
+import { Patch } from '../utils/planPatch';
+
+export type ReferenceKind = 'line' | 'flight';
+
+export interface ReferenceCandidate {
+    id: string;
+    label: string;       // "Row 3: Hulu Premium (Hulu, $12.5k)"
+    rewritten: string;   // The input with the reference replaced, e.g. "pause row 3"
+}
+
+export type ReferenceResolution =
+    | { status: 'none' }
+    | { status: 'resolved'; kind: ReferenceKind; phrase: string; candidate: ReferenceCandidate }
+    | { status: 'ambiguous'; kind: ReferenceKind; phrase: string; candidates: ReferenceCandidate[] }
+    | { status: 'unresolved'; kind: ReferenceKind; phrase: string; reason: string };
+
+const ORDINAL_WORDS: Record<string, number> = {
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+    sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10, last: -1
+};
+const ORDINAL = `(?:${Object.keys(ORDINAL_WORDS).join('|')}|\\d+(?:st|nd|rd|th))`;
+const DESCRIPTOR = `([a-z0-9&+.' -]+?)`;
+const LINE_NOUN = '(?:one|line|placement|row|spot|performer)';
+
+type LineMetric = (line: Line) => number;
+
+const SUPERLATIVES: { pattern: string; metric: LineMetric; highest: boolean }[] = [
+    { pattern: 'most expensive|priciest|biggest|largest', metric: l => l.totalCost, highest: true },
+    { pattern: 'least expensive|cheapest|smallest', metric: l => l.totalCost, highest: false },
+    { pattern: 'best[\\s-]performing|top[\\s-]performing|best|top', metric: l => l.performance?.roas ?? 0, highest: true },
+    { pattern: 'worst[\\s-]performing|worst', metric: l => l.performance?.roas ?? 0, highest: false }
+];
+const SUPERLATIVE = SUPERLATIVES.map(s => s.pattern).join('|');
+
+const SUPERLATIVE_REF = new RegExp(`\\bthe\\s+(?:(${ORDINAL})[\\s-]+)?(${SUPERLATIVE})(?:\\s+${DESCRIPTOR})?\\s+${LINE_NOUN}\\b`, 'i');
+const ORDINAL_REF = new RegExp(`\\bthe\\s+(${ORDINAL})\\s+(?:${DESCRIPTOR}\\s+)?${LINE_NOUN}\\b`, 'i');
+const PRONOUN_REF = /\b(?:it|(?:that|this|the same)\s+(?:one|line|placement|row|spot))\b/i;
+const DESCRIPTION_REF = new RegExp(`\\bthe\\s+${DESCRIPTOR}\\s+(?:one|line|placement|spot)\\b`, 'i');
+
+const FLIGHT_PRONOUN_REF = /\b(?:that|this|the same|the current)\s+flight\b/i;
+const FLIGHT_ORDINAL_REF = new RegExp(`\\bthe\\s+(${ORDINAL})\\s+flight\\b`, 'i');
+const FLIGHT_NAME_REF = /\bthe\s+"?(.+?)"?\s+flight\b/i;
+
+function ordinalValue(text: string): number {
+    const lower = text.toLowerCase();
+    return ORDINAL_WORDS[lower] ?? parseInt(lower, 10);
+}
+
+/** Pick the nth item (1-based, -1 = last) */
+function nth<T>(items: T[], position: number): T | undefined {
+    return position === -1 ? items[items.length - 1] : items[position - 1];
+}
+
+function formatMoney(value: number): string {
+    return `$${(value / 1000).toFixed(1)}k`;
+}
+
+/**
+ * Lines whose vendor, channel, name, ad unit or segment mention every word of the description
+ */
+function matchLines(lines: Line[], description: string | undefined): Line[] {
+    const words = (description || '').toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return lines;
+
+    return lines.filter(line => {
+        const haystack = [line.vendor, line.channel, line.name, line.adUnit, line.segment].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word) || (word.endsWith('s') && haystack.includes(word.slice(0, -1))));
+    });
+}
+
+/**
+ * Line ids a recorded patch changed, added or removed
+ */
+export function linesTouchedBy(patch: Patch): string[] {
+    const ids: string[] = [];
+    patch.forEach(op => {
+        const index = op.path.indexOf('placements');
+        if (index === -1) return;
+
+        const segment = op.path[index + 1];
+        if (segment && typeof segment === 'object') {
+            ids.push(segment.id);
+        } else if (op.op !== 'set' && index === op.path.length - 1) {
+            const value = op.value as Partial<Line> | undefined;
+            if (value?.id) ids.push(value.id);
+        }
+    });
+    return [...new Set(ids)];
+}
+
+export class ReferenceResolver {
+    /**
+     * Find the first line or flight reference in the input. Focus entries are newest first.
+     */
+    resolve(input: string, plan: MediaPlan, focusHistory: ConversationFocus[] = []): ReferenceResolution {
+        return this.resolveFlight(input, plan, focusHistory) ?? this.resolveLine(input, plan, focusHistory) ?? { status: 'none' };
+    }
+
+    private resolveLine(input: string, plan: MediaPlan, focusHistory: ConversationFocus[]): ReferenceResolution | null {
+        const lines = plan.campaign.placements || [];
+        const rowOf = (line: Line) => lines.indexOf(line) + 1;
+
+        const toCandidates = (phrase: string, matches: Line[]): ReferenceCandidate[] => matches.map(line => ({
+            id: line.id,
+            label: `Row ${rowOf(line)}: ${line.name} (${line.vendor}, ${formatMoney(line.totalCost)})`,
+            rewritten: input.replace(phrase, `row ${rowOf(line)}`)
+        }));
+
+        const result = (phrase: string, matches: Line[], emptyReason: string): ReferenceResolution => {
+            if (matches.length === 0) return { status: 'unresolved', kind: 'line', phrase, reason: emptyReason };
+            const candidates = toCandidates(phrase, matches);
+            return candidates.length === 1
+                ? { status: 'resolved', kind: 'line', phrase, candidate: candidates[0] }
+                : { status: 'ambiguous', kind: 'line', phrase, candidates };
+        };
+
+        const superlative = input.match(SUPERLATIVE_REF);
+        if (superlative) {
+            const [phrase, ordinal, which, description] = superlative;
+            const rule = SUPERLATIVES.find(s => new RegExp(`^(?:${s.pattern})$`, 'i').test(which))!;
+            const ranked = [...matchLines(lines, description)].sort((a, b) =>
+                rule.highest ? rule.metric(b) - rule.metric(a) : rule.metric(a) - rule.metric(b)
+            );
+            const line = nth(ranked, ordinal ? ordinalValue(ordinal) : 1);
+            return result(phrase, line ? [line] : [], description
+                ? `I couldn't find enough lines matching "${description}" in this plan.`
+                : "There aren't enough lines in this plan to rank.");
+        }
+
+        const ordinal = input.match(ORDINAL_REF);
+        if (ordinal) {
+            const [phrase, position, description] = ordinal;
+            const line = nth(matchLines(lines, description), ordinalValue(position));
+            return result(phrase, line ? [line] : [], description
+                ? `There's no ${position} line matching "${description}" in this plan.`
+                : `There's no ${position} line in this plan.`);
+        }
+
+        const pronoun = input.match(PRONOUN_REF);
+        if (pronoun) {
+            // Newest focus whose lines still exist
+            for (const focus of focusHistory) {
+                const ids = focus.lineIds || (focus.placementId ? [focus.placementId] : []);
+                const focused = lines.filter(l => ids.includes(l.id));
+                if (focused.length > 0) return result(pronoun[0], focused, '');
+            }
+            return {
+                status: 'unresolved',
+                kind: 'line',
+                phrase: pronoun[0],
+                reason: `I'm not sure which line "${pronoun[0]}" refers to - we haven't talked about a specific one yet.`
+            };
+        }
+
+        const description = input.match(DESCRIPTION_REF);
+        if (description) {
+            return result(description[0], matchLines(lines, description[1]),
+                `I couldn't find a line matching "${description[1]}" in this plan.`);
+        }
+
+        return null;
+    }
+
+    private resolveFlight(input: string, plan: MediaPlan, focusHistory: ConversationFocus[]): ReferenceResolution | null {
+        const flights = plan.campaign.flights || [];
+
+        const toCandidate = (phrase: string, flight: Flight): ReferenceCandidate => ({
+            id: flight.id,
+            label: `${flight.name} (${flight.startDate} – ${flight.endDate}, ${formatMoney(flight.budget)})`,
+            rewritten: input.replace(phrase, `the "${flight.name}" flight`)
+        });
+
+        const pronoun = input.match(FLIGHT_PRONOUN_REF);
+        if (pronoun) {
+            const flightId = focusHistory.find(f => f.flightId)?.flightId ?? plan.activeFlightId;
+            const flight = flights.find(f => f.id === flightId);
+            return flight
+                ? { status: 'resolved', kind: 'flight', phrase: pronoun[0], candidate: toCandidate(pronoun[0], flight) }
+                : { status: 'unresolved', kind: 'flight', phrase: pronoun[0], reason: "I'm not sure which flight you mean - open one first or name it." };
+        }
+
+        const ordinal = input.match(FLIGHT_ORDINAL_REF);
+        if (ordinal) {
+            const flight = nth(flights, ordinalValue(ordinal[1]));
+            return flight
+                ? { status: 'resolved', kind: 'flight', phrase: ordinal[0], candidate: toCandidate(ordinal[0], flight) }
+                : { status: 'unresolved', kind: 'flight', phrase: ordinal[0], reason: `This campaign doesn't have a ${ordinal[1]} flight.` };
+        }
+
+        const named = input.match(FLIGHT_NAME_REF);
+        if (named) {
+            const name = named[1].toLowerCase();
+            const matches = flights.filter(f => f.name.toLowerCase().includes(name));
+            if (matches.length === 0) {
+                return { status: 'unresolved', kind: 'flight', phrase: named[0], reason: `This campaign has no flight called "${named[1]}".` };
+            }
+            const candidates = matches.map(f => toCandidate(named[0], f));
+            return candidates.length === 1
+                ? { status: 'resolved', kind: 'flight', phrase: named[0], candidate: candidates[0] }
+                : { status: 'ambiguous', kind: 'flight', phrase: named[0], candidates };
+        }
+
+        return null;
+    }
+}
+
+export const referenceResolver = new ReferenceResolver();
@@ -0,0 +1,139 @@
+/**
+ * Conversation Scenarios - Scripted multi-turn conversations for the scenario runner
+ *
+ * Each scenario starts from a fresh AgentBrain with a seeded Math.random, so line
+ * counts and channel mixes below are stable. Prefer asserting on counts, budgets
+ * and statuses over generated vendor names or exact costs.
+ */
+
+import { ConversationScenario } from './scenarioRunner';
+
+export const CONVERSATION_SCENARIOS: ConversationScenario[] = [
+    {
+        name: 'Create, add placements, pause, undo and export',
+        turns: [
+            {
+                input: 'Create plan for Acme ($250k) in Q4 2026 for sales on search and social',
+                expect: { contains: ["Here's the brief", '**Channels:** Social, Search'], suggestedActions: ['Yes'], state: 'INIT', plan: { exists: false } }
+            },
+            {
+                input: 'yes',
+                expect: { contains: ['conversion plan for **Acme**'], state: 'REFINEMENT', plan: { budget: 250000, lineCount: 2, channelCounts: { Search: 1, Social: 1 }, totalSpend: 250000 } }
+            },
+            {
+                input: 'add 2 display placements',
+                expect: { contains: ['Created **2 Display placements**'], plan: { lineCount: 4, channelCounts: { Display: 2 } } }
+            },
+            {
+                input: 'pause row 1',
+                expect: { contains: ['paused 1 placement'], suggestedActions: ['Resume placements'], plan: { lineCount: 4, pausedLines: 1 } }
+            },
+            {
+                input: 'undo',
+                expect: { contains: ['Undid'], suggestedActions: ['Redo'], plan: { lineCount: 4, pausedLines: 0 } }
+            },
+            {
+                input: 'export to excel',
+                expect: { action: 'EXPORT_XLSX', plan: { lineCount: 4 } }
+            }
+        ]
+    },
+    {
+        name: 'Brief collected over several turns, then budget change',
+        turns: [
+            {
+                input: 'I want to create a campaign',
+                expect: { contains: ['**Client**', '**Budget**', '**Objective**'], plan: { exists: false } }
+            },
+            {
+                input: 'Globex',
+                expect: { contains: ['**Client:** Globex'], excludes: ['**Client** -'] }
+            },
+            {
+                input: '$1M for awareness',
+                expect: { contains: ['When should it run?'], suggestedActions: ['Q4 2026'] }
+            },
+            {
+                input: 'Q1 2027',
+                expect: { contains: ['2027-01-01 – 2027-03-31'], suggestedActions: ['Yes', 'Cancel'] }
+            },
+            {
+                input: 'yes',
+                expect: { contains: ['awareness plan for **Globex**'], state: 'REFINEMENT', plan: { budget: 1000000, lineCount: 8, totalSpend: { max: 1000000 } } }
+            },
+            {
+                input: 'set budget to $1.2M',
+                expect: { contains: ['$1,200,000'], plan: { budget: 1200000, lineCount: 8 } }
+            }
+        ]
+    },
+    {
+        name: 'Compound message previewed, applied and undone in one step',
+        turns: [
+            { input: 'Create plan for Test Co ($500k) in Q4 2026 for consideration' },
+            {
+                input: 'yes',
+                expect: { plan: { budget: 500000, lineCount: 12, pausedLines: 0 } }
+            },
+            {
+                input: 'add 3 CTV placements on Hulu, pause row 4 and shift $10k from display to search',
+                expect: { contains: ['Preview: 3 commands'], suggestedActions: ['Yes', 'No'], plan: { lineCount: 12, pausedLines: 0 } }
+            },
+            {
+                input: 'yes',
+                expect: { contains: ['Applied **3 commands**'], plan: { lineCount: 15, pausedLines: 1 } }
+            },
+            {
+                input: 'undo',
+                expect: { contains: ['Undid'], plan: { lineCount: 12, pausedLines: 0 } }
+            }
+        ]
+    },
+    {
+        name: 'Budget shift dialog and references to lines',
+        turns: [
+            { input: 'Create plan for Initech ($300k) in Q4 2026 for consideration' },
+            { input: 'yes', expect: { plan: { lineCount: 12 } } },
+            {
+                input: 'move budget to search',
+                expect: { contains: ['**Amount**', '**From**'], excludes: ['**To** -'], suggestedActions: ['$10k'] }
+            },
+            {
+                input: 'social',
+                expect: { contains: ['**From:** social', 'How much should I move?'] }
+            },
+            {
+                input: '$15k',
+                expect: { contains: ['Shifted **$15,000** from **social**', 'Total spend is unchanged'], suggestedActions: ['Undo'], plan: { lineCount: 12 } }
+            },
+            {
+                input: 'pause the most expensive display line',
+                expect: { contains: ['paused 1 placement'], plan: { pausedLines: 1 } }
+            },
+            {
+                input: 'resume it',
+                expect: { contains: ['resumed 1 placement'], plan: { pausedLines: 0 } }
+            }
+        ]
+    },
+    {
+        name: 'Dialog answers are not reinterpreted by the LLM provider',
+        viaLLM: true,
+        turns: [
+            { input: 'Create plan for Initech ($300k) in Q4 2026 for consideration' },
+            { input: 'yes', expect: { plan: { lineCount: 12 } } },
+            {
+                input: 'move budget to search',
+                expect: { contains: ['**Amount**', '**From**'] }
+            },
+            {
+                input: 'pull it from display',
+                expect: { contains: ['**From:** display', 'How much should I move?'], excludes: ['Interpreted as'], plan: { pausedLines: 0 } }
+            },
+            {
+                input: '$15k',
+                expect: { contains: ['Shifted **$15,000** from **display**'], excludes: ['Interpreted as'], plan: { lineCount: 12, pausedLines: 0 } }
+            }
+        ]
+    }
+];
@@ -0,0 +1,400 @@
+/**
+ * Intent Corpus - Labeled utterances for the intent evaluation harness
+ *
+ * Every IntentCategory and subIntent has several utterances labeled with the
+ * intent a planner would expect, not whatever the classifier currently says.
+ * Entity expectations only list the fields that should be read from the
+ * utterance; dates are absolute so results don't depend on today's date.
+ */
+
+import { IntentCategory } from '../logic/intentClassifier';
+
+export interface ExpectedEntities {
+    budget?: number;
+    channels?: string[];
+    count?: number;
+    network?: string;
+    startDate?: string;
+    endDate?: string;
+    metrics?: string[];
+    demographics?: string[];
+    geography?: string[];
+    campaignName?: string;
+}
+
+export interface LabeledUtterance {
+    utterance: string;
+    category: IntentCategory;
+    subIntent: string;
+    entities?: ExpectedEntities;
+}
+
+export const INTENT_CORPUS: LabeledUtterance[] = [
+    // Campaign setup
+    {
+        utterance: 'I need to launch a campaign for our new product',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'create_campaign',
+        entities: { campaignName: 'our new product' }
+    },
+    {
+        utterance: 'Create a new campaign with a $500K budget across CTV and display',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'create_campaign',
+        entities: { budget: 500000, channels: ['Connected TV', 'Display'] }
+    },
+    {
+        utterance: 'Set up a campaign for "Spring Refresh" running Q2 2026',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'create_campaign',
+        entities: { campaignName: 'Spring Refresh', startDate: '2026-04-01', endDate: '2026-06-30' }
+    },
+    {
+        utterance: 'Plan a Q4 push for parents with $2.5M',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'create_campaign',
+        entities: { budget: 2500000, demographics: ['Parents'] }
+    },
+    {
+        utterance: 'Launch a campaign targeting millennials on social and search',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'create_campaign',
+        entities: { channels: ['Social', 'Search'], demographics: ['Millennials'] }
+    },
+    {
+        utterance: 'Clone the campaign from last quarter',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'clone_campaign'
+    },
+    {
+        utterance: 'Build something similar to what we ran last Black Friday',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'clone_campaign'
+    },
+    {
+        utterance: 'Duplicate campaign Summer Sale but with 20% more budget',
+        category: IntentCategory.CAMPAIGN_SETUP,
+        subIntent: 'clone_campaign'
+    },
+
+    // Budget allocation
+    {
+        utterance: 'How much should I spend on CTV?',
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'budget_inquiry',
+        entities: { channels: ['Connected TV'] }
+    },
+    {
+        utterance: "What's the minimum spend for audio?",
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'budget_inquiry',
+        entities: { channels: ['Audio'] }
+    },
+    {
+        utterance: 'What budget do I need to reach gen z?',
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'budget_inquiry',
+        entities: { demographics: ['Gen Z'] }
+    },
+    {
+        utterance: 'Allocate budget across social, search and display',
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'allocate_budget',
+        entities: { channels: ['Social', 'Search', 'Display'] }
+    },
+    {
+        utterance: 'How should I split $250k between tv and radio?',
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'allocate_budget',
+        entities: { budget: 250000, channels: ['Linear TV', 'Audio'] }
+    },
+    {
+        utterance: 'Spread $1M across the top 10 markets',
+        category: IntentCategory.BUDGET_ALLOCATION,
+        subIntent: 'allocate_budget',
+        entities: { budget: 1000000, geography: ['top 10 markets'] }
+    },
+
+    // Audience targeting
+    {
+        utterance: 'I want to target people aged 25-34 interested in fitness',
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'build_audience',
+        entities: { demographics: ['Age 25-34'] }
+    },
+    {
+        utterance: 'Build an audience of parents in the northeast',
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'build_audience',
+        entities: { demographics: ['Parents'], geography: ['northeast'] }
+    },
+    {
+        utterance: 'Find users shopping for electric cars',
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'build_audience'
+    },
+    {
+        utterance: 'How big is this audience?',
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'audience_size'
+    },
+    {
+        utterance: "What's the audience size for millennials?",
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'audience_size',
+        entities: { demographics: ['Millennials'] }
+    },
+    {
+        utterance: 'How many people fall into this segment?',
+        category: IntentCategory.AUDIENCE_TARGETING,
+        subIntent: 'audience_size'
+    },
+
+    // Performance monitoring
+    {
+        utterance: 'How is my campaign performing?',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_performance'
+    },
+    {
+        utterance: 'Show me the performance metrics',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_performance'
+    },
+    {
+        utterance: 'Why is my campaign underperforming?',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_performance'
+    },
+    {
+        utterance: 'Are we on pace to spend the full budget?',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_pacing'
+    },
+    {
+        utterance: 'Is spending on track this month?',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_pacing'
+    },
+    {
+        utterance: 'Will we hit our impression goal?',
+        category: IntentCategory.PERFORMANCE_MONITORING,
+        subIntent: 'check_pacing',
+        entities: { metrics: ['Impressions'] }
+    },
+
+    // Optimization
+    {
+        utterance: 'Optimize my plan for conversions',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'improve_performance',
+        entities: { metrics: ['Conversions'] }
+    },
+    {
+        utterance: 'Reduce CPA to $25',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'improve_performance',
+        entities: { budget: 25, metrics: ['CPA'] }
+    },
+    {
+        utterance: 'Our ROAS is too low, what should I change?',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'improve_performance',
+        entities: { metrics: ['ROAS'] }
+    },
+    {
+        utterance: 'Shift budget from display to search',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'budget_reallocation',
+        entities: { channels: ['Display', 'Search'] }
+    },
+    {
+        utterance: 'Pause the underperforming placements',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'budget_reallocation'
+    },
+    {
+        utterance: 'Give more budget to CTV',
+        category: IntentCategory.OPTIMIZATION,
+        subIntent: 'budget_reallocation',
+        entities: { channels: ['Connected TV'] }
+    },
+
+    // Forecasting
+    {
+        utterance: 'Forecast results for Q4 2026',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'predict_performance',
+        entities: { startDate: '2026-10-01', endDate: '2026-12-31' }
+    },
+    {
+        utterance: 'What results should I expect from $100k?',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'predict_performance',
+        entities: { budget: 100000 }
+    },
+    {
+        utterance: 'How many conversions will we get?',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'predict_performance',
+        entities: { metrics: ['Conversions'] }
+    },
+    {
+        utterance: 'What reach can we get with streaming?',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'reach_forecast',
+        entities: { channels: ['Connected TV'], metrics: ['Reach'] }
+    },
+    {
+        utterance: 'How many people will see the ads?',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'reach_forecast'
+    },
+    {
+        utterance: 'Estimate reach and frequency for the plan',
+        category: IntentCategory.FORECASTING,
+        subIntent: 'reach_forecast',
+        entities: { metrics: ['Reach', 'Frequency'] }
+    },
+
+    // Reporting
+    {
+        utterance: 'Generate a report for the client',
+        category: IntentCategory.REPORTING,
+        subIntent: 'generate_report'
+    },
+    {
+        utterance: 'Give me a breakdown of spend by channel',
+        category: IntentCategory.REPORTING,
+        subIntent: 'generate_report'
+    },
+    {
+        utterance: 'Export the data to a spreadsheet',
+        category: IntentCategory.REPORTING,
+        subIntent: 'generate_report'
+    },
+
+    // Creative
+    {
+        utterance: 'Which creative is performing best?',
+        category: IntentCategory.CREATIVE,
+        subIntent: 'creative_performance'
+    },
+    {
+        utterance: 'Show creative performance for display',
+        category: IntentCategory.CREATIVE,
+        subIntent: 'creative_performance',
+        entities: { channels: ['Display'] }
+    },
+    {
+        utterance: 'Rotate creative on the social placements',
+        category: IntentCategory.CREATIVE,
+        subIntent: 'creative_performance',
+        entities: { channels: ['Social'] }
+    },
+
+    // Navigation
+    {
+        utterance: 'Show me predictive analytics',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_predictive_analytics'
+    },
+    {
+        utterance: 'Open the AI insights',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_predictive_analytics'
+    },
+    {
+        utterance: 'Show attribution',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_attribution'
+    },
+    {
+        utterance: 'Go to the attribution dashboard',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_attribution'
+    },
+    {
+        utterance: 'Open portfolio',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_portfolio'
+    },
+    {
+        utterance: 'Navigate to portfolio view',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_portfolio'
+    },
+    {
+        utterance: 'Show integrations',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_integrations'
+    },
+    {
+        utterance: 'Open the platform integrations',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_integrations'
+    },
+    {
+        utterance: 'View agency analytics',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_analytics'
+    },
+    {
+        utterance: 'Go to analytics',
+        category: IntentCategory.NAVIGATION,
+        subIntent: 'view_analytics'
+    },
+
+    // Help
+    {
+        utterance: 'How does attribution work?',
+        category: IntentCategory.HELP,
+        subIntent: 'explain_feature'
+    },
+    {
+        utterance: 'Explain incrementality testing',
+        category: IntentCategory.HELP,
+        subIntent: 'explain_feature'
+    },
+    {
+        utterance: 'What is a DMA?',
+        category: IntentCategory.HELP,
+        subIntent: 'explain_feature'
+    },
+    {
+        utterance: 'What are best practices for CTV?',
+        category: IntentCategory.HELP,
+        subIntent: 'best_practice',
+        entities: { channels: ['Connected TV'] }
+    },
+    {
+        utterance: "What's the right frequency for awareness?",
+        category: IntentCategory.HELP,
+        subIntent: 'best_practice',
+        entities: { metrics: ['Frequency'] }
+    },
+    {
+        utterance: 'Recommended flight length for podcasts',
+        category: IntentCategory.HELP,
+        subIntent: 'best_practice',
+        entities: { channels: ['Audio'] }
+    },
+
+    // Unknown
+    {
+        utterance: 'Good morning',
+        category: IntentCategory.UNKNOWN,
+        subIntent: 'unknown'
+    },
+    {
+        utterance: 'Thanks, that works',
+        category: IntentCategory.UNKNOWN,
+        subIntent: 'unknown'
+    },
+    {
+        utterance: 'Add 3 CTV placements on Hulu',
+        category: IntentCategory.UNKNOWN,
+        subIntent: 'unknown',
+        entities: { count: 3, channels: ['Connected TV'], network: 'Hulu' }
+    }
+];
@@ -0,0 +1,275 @@
+/**
+ * Intent Evaluation - Accuracy report for classifyIntent and extractAllEntities
+ *
+ * Runs the labeled corpus through the classifier and the entity extractor and
+ * reports per-intent precision/recall, a category confusion matrix and
+ * entity-level accuracy. The report can be reduced to a baseline and later
+ * reports compared against it, so a pattern change that costs accuracy fails
+ * `npm run eval:intents` (scripts/evalIntents.mjs).
+ */
+
+import { classifyIntent, IntentCategory } from '../logic/intentClassifier';
+import { extractAllEntities, ExtractedEntities } from '../logic/entityExtractor';
+import { ExpectedEntities, LabeledUtterance } from './intentCorpus';
+
+type EntityField = keyof ExpectedEntities;
+
+export interface IntentMetrics {
+    support: number;       // Utterances labeled with this intent
+    predicted: number;     // Utterances the classifier assigned to it
+    truePositives: number;
+    precision: number;
+    recall: number;
+    f1: number;
+}
+
+export interface EntityFieldMetrics {
+    expected: number;
+    correct: number;
+    accuracy: number;
+}
+
+export interface UtteranceResult {
+    utterance: string;
+    expected: string;      // "category.subIntent"
+    predicted: string;
+    entityMismatches: string[];
+}
+
+export interface IntentEvaluationReport {
+    total: number;
+    intentAccuracy: number;    // category and subIntent both right
+    categoryAccuracy: number;
+    intents: Record<string, IntentMetrics>;
+    confusion: Record<string, Record<string, number>>; // expected category → predicted category → count
+    entities: Partial<Record<EntityField, EntityFieldMetrics>>;
+    entityAccuracy: number;
+    results: UtteranceResult[];
+}
+
+/**
+ * The numbers a later run must not fall below
+ */
+export interface IntentBaseline {
+    intentAccuracy: number;
+    categoryAccuracy: number;
+    entityAccuracy: number;
+    intents: Record<string, { precision: number; recall: number }>;
+    entities: Record<string, number>;
+}
+
+const CATEGORIES = Object.values(IntentCategory);
+
+function intentKey(category: string, subIntent: string): string {
+    return `${category}.${subIntent}`;
+}
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function sameSet(expected: string[], actual: string[] = []): boolean {
+    const normalize = (values: string[]) => [...new Set(values.map(v => v.toLowerCase().trim()))].sort().join('|');
+    return normalize(expected) === normalize(actual);
+}
+
+/**
+ * The extracted value for one expected field, in the corpus' shape
+ */
+function actualValue(field: EntityField, entities: ExtractedEntities): unknown {
+    switch (field) {
+        case 'budget': return entities.budget;
+        case 'channels': return entities.channels;
+        case 'count': return entities.placements?.count;
+        case 'network': return entities.placements?.network;
+        case 'startDate': return entities.dates?.startDate;
+        case 'endDate': return entities.dates?.endDate;
+        case 'metrics': return entities.metrics?.map(m => m.name);
+        case 'demographics': return entities.audience?.demographics;
+        case 'geography': return entities.audience?.geography;
+        case 'campaignName': return entities.campaignName;
+    }
+}
+
+function entityMatches(expected: unknown, actual: unknown): boolean {
+    if (Array.isArray(expected)) return sameSet(expected, actual as string[] | undefined);
+    if (typeof expected === 'string') return typeof actual === 'string' && actual.toLowerCase() === expected.toLowerCase();
+    return actual === expected;
+}
+
+/**
+ * Classify every utterance and score intents and entities
+ */
+export function evaluateIntents(corpus: LabeledUtterance[]): IntentEvaluationReport {
+    const intents: Record<string, IntentMetrics> = {};
+    const metricsFor = (key: string) => intents[key] ??= { support: 0, predicted: 0, truePositives: 0, precision: 0, recall: 0, f1: 0 };
+
+    const confusion: Record<string, Record<string, number>> = {};
+    CATEGORIES.forEach(expected => {
+        confusion[expected] = {};
+        CATEGORIES.forEach(predicted => { confusion[expected][predicted] = 0; });
+    });
+
+    const entities: Partial<Record<EntityField, EntityFieldMetrics>> = {};
+    const results: UtteranceResult[] = [];
+    let correctIntents = 0;
+    let correctCategories = 0;
+
+    for (const item of corpus) {
+        const detected = classifyIntent(item.utterance);
+        const expected = intentKey(item.category, item.subIntent);
+        const predicted = intentKey(detected.category, detected.subIntent);
+
+        metricsFor(expected).support++;
+        metricsFor(predicted).predicted++;
+        if (expected === predicted) {
+            metricsFor(expected).truePositives++;
+            correctIntents++;
+        }
+        if (item.category === detected.category) correctCategories++;
+        confusion[item.category][detected.category]++;
+
+        const extracted = extractAllEntities(item.utterance);
+        const entityMismatches: string[] = [];
+        (Object.keys(item.entities || {}) as EntityField[]).forEach(field => {
+            const expectedValue = item.entities![field];
+            const actual = actualValue(field, extracted);
+            const fieldMetrics = entities[field] ??= { expected: 0, correct: 0, accuracy: 0 };
+            fieldMetrics.expected++;
+            if (entityMatches(expectedValue, actual)) {
+                fieldMetrics.correct++;
+            } else {
+                entityMismatches.push(`${field}: expected ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actual)}`);
+            }
+        });
+
+        results.push({ utterance: item.utterance, expected, predicted, entityMismatches });
+    }
+
+    Object.values(intents).forEach(m => {
+        m.precision = ratio(m.truePositives, m.predicted);
+        m.recall = ratio(m.truePositives, m.support);
+        m.f1 = ratio(2 * m.precision * m.recall, m.precision + m.recall);
+    });
+
+    let entityExpected = 0;
+    let entityCorrect = 0;
+    Object.values(entities).forEach(m => {
+        m.accuracy = ratio(m.correct, m.expected);
+        entityExpected += m.expected;
+        entityCorrect += m.correct;
+    });
+
+    return {
+        total: corpus.length,
+        intentAccuracy: ratio(correctIntents, corpus.length),
+        categoryAccuracy: ratio(correctCategories, corpus.length),
+        intents,
+        confusion,
+        entities,
+        entityAccuracy: ratio(entityCorrect, entityExpected),
+        results
+    };
+}
+
+/**
+ * Reduce a report to the numbers stored as the baseline
+ */
+export function toBaseline(report: IntentEvaluationReport): IntentBaseline {
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+    const intents: IntentBaseline['intents'] = {};
+    Object.keys(report.intents).sort().forEach(key => {
+        intents[key] = { precision: round(report.intents[key].precision), recall: round(report.intents[key].recall) };
+    });
+    const entities: IntentBaseline['entities'] = {};
+    (Object.keys(report.entities) as EntityField[]).sort().forEach(field => {
+        entities[field] = round(report.entities[field]!.accuracy);
+    });
+
+    return {
+        intentAccuracy: round(report.intentAccuracy),
+        categoryAccuracy: round(report.categoryAccuracy),
+        entityAccuracy: round(report.entityAccuracy),
+        intents,
+        entities
+    };
+}
+
+/**
+ * Every metric that dropped more than `tolerance` below the baseline
+ */
+export function compareWithBaseline(report: IntentEvaluationReport, baseline: IntentBaseline, tolerance: number = 0.001): string[] {
+    const current = toBaseline(report);
+    const regressions: string[] = [];
+    const check = (name: string, before: number, after: number) => {
+        if (after < before - tolerance) {
+            regressions.push(`${name}: ${percent(before)} → ${percent(after)}`);
+        }
+    };
+
+    check('intent accuracy', baseline.intentAccuracy, current.intentAccuracy);
+    check('category accuracy', baseline.categoryAccuracy, current.categoryAccuracy);
+    check('entity accuracy', baseline.entityAccuracy, current.entityAccuracy);
+    Object.entries(baseline.intents).forEach(([key, before]) => {
+        const after = current.intents[key] ?? { precision: 0, recall: 0 };
+        check(`${key} precision`, before.precision, after.precision);
+        check(`${key} recall`, before.recall, after.recall);
+    });
+    Object.entries(baseline.entities).forEach(([field, before]) => {
+        check(`${field} accuracy`, before, current.entities[field] ?? 0);
+    });
+
+    return regressions;
+}
+
+function percent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Plain-text report: summary, per-intent table, confusion matrix, entities and misses
+ */
+export function formatEvaluationReport(report: IntentEvaluationReport): string {
+    const lines: string[] = [];
+    lines.push(`=== Intent Evaluation (${report.total} utterances) ===`, '');
+    lines.push(`Intent accuracy:   ${percent(report.intentAccuracy)}`);
+    lines.push(`Category accuracy: ${percent(report.categoryAccuracy)}`);
+    lines.push(`Entity accuracy:   ${percent(report.entityAccuracy)}`, '');
+
+    const keys = Object.keys(report.intents).sort();
+    const width = Math.max(...keys.map(k => k.length), 6);
+    lines.push(`${'Intent'.padEnd(width)}  Support  Precision  Recall     F1`);
+    keys.forEach(key => {
+        const m = report.intents[key];
+        lines.push(`${key.padEnd(width)}  ${String(m.support).padStart(7)}  ${percent(m.precision).padStart(9)}  ${percent(m.recall).padStart(6)}  ${percent(m.f1).padStart(6)}`);
+    });
+
+    lines.push('', 'Confusion matrix (rows = expected, columns = predicted):');
+    const labelWidth = Math.max(...CATEGORIES.map(c => c.length)) + 4;
+    lines.push(`${''.padEnd(labelWidth)}${CATEGORIES.map((_, i) => String(i + 1).padStart(4)).join('')}`);
+    CATEGORIES.forEach((expected, i) => {
+        const row = CATEGORIES.map(predicted => {
+            const count = report.confusion[expected][predicted];
+            return (count === 0 ? '.' : String(count)).padStart(4);
+        }).join('');
+        lines.push(`${`${i + 1}. ${expected}`.padEnd(labelWidth)}${row}`);
+    });
+
+    lines.push('', 'Entities:');
+    (Object.keys(report.entities) as EntityField[]).sort().forEach(field => {
+        const m = report.entities[field]!;
+        lines.push(`  ${field.padEnd(14)} ${m.correct}/${m.expected} (${percent(m.accuracy)})`);
+    });
+
+    const misses = report.results.filter(r => r.expected !== r.predicted || r.entityMismatches.length > 0);
+    if (misses.length > 0) {
+        lines.push('', 'Misses:');
+        misses.forEach(r => {
+            lines.push(`  "${r.utterance}"`);
+            if (r.expected !== r.predicted) lines.push(`    intent: expected ${r.expected}, got ${r.predicted}`);
+            r.entityMismatches.forEach(m => lines.push(`    ${m}`));
+        });
+    }
+
+    return lines.join('\n');
+}
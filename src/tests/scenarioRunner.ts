@@ -0,0 +1,227 @@
+/**
+ * Scenario Runner - Scripted multi-turn conversations against AgentBrain
+ *
+ * Each scenario feeds its turns into a fresh AgentBrain.processInput (or, with
+ * `viaLLM`, processInputAsync backed by the mock LLM provider, as App does) and checks
+ * the reply (content, action, suggested actions), the agent state and the
+ * resulting plan the way App sees it (updatedMediaPlan, else the context plan).
+ * Math.random is swapped for a seeded generator while a scenario runs, so
+ * generateLine/generateId and the placement generators produce the same plan
+ * on every run.
+ */
+
+import { AgentMessage, Line, MediaPlan } from '../types';
+import { AgentBrain } from '../logic/agentBrain';
+import { AgentState } from '../logic/AgentContext';
+import { MockLLMProvider } from '../logic/llmProvider';
+import { actionHistory } from '../utils/actionHistory';
+import { createSeededRandom } from '../utils/random';
+
+export interface PlanExpectation {
+    exists?: boolean;
+    budget?: number;
+    lineCount?: number;
+    pausedLines?: number;
+    channelCounts?: Record<string, number>;
+    totalSpend?: number | { min?: number; max?: number };
+}
+
+export interface TurnExpectation {
+    contains?: string[];           // Every string must appear in the reply
+    excludes?: string[];
+    action?: string;               // Action string, or the type of an action object
+    suggestedActions?: string[];   // Each must be offered
+    state?: AgentState;
+    plan?: PlanExpectation;
+}
+
+export interface ScenarioTurn {
+    input: string;
+    expect?: TurnExpectation;
+}
+
+export interface ConversationScenario {
+    name: string;
+    seed?: number;
+    viaLLM?: boolean;              // Send turns through processInputAsync with the mock LLM provider
+    turns: ScenarioTurn[];
+}
+
+export interface TurnResult {
+    input: string;
+    reply: string;
+    failures: string[];
+}
+
+export interface ScenarioResult {
+    name: string;
+    passed: boolean;
+    turns: TurnResult[];
+    finalPlan: MediaPlan | null;
+    error?: string;
+}
+
+export const DEFAULT_SEED = 42;
+
+/**
+ * Run `fn` with Math.random replaced by a seeded generator. The data
+ * generators' random() defers to Math.random when unseeded, so they follow too.
+ */
+export function withSeededRandom<T>(seed: number, fn: () => T): T {
+    const original = Math.random;
+    Math.random = createSeededRandom(seed);
+    try {
+        return fn();
+    } finally {
+        Math.random = original;
+    }
+}
+
+async function withSeededRandomAsync<T>(seed: number, fn: () => Promise<T>): Promise<T> {
+    const original = Math.random;
+    Math.random = createSeededRandom(seed);
+    try {
+        return await fn();
+    } finally {
+        Math.random = original;
+    }
+}
+
+function actionName(action: AgentMessage['action']): string | undefined {
+    if (!action) return undefined;
+    return typeof action === 'string' ? action : (action as { type?: string }).type;
+}
+
+function isPaused(line: Line): boolean {
+    return line.performance?.status === 'PAUSED';
+}
+
+function checkPlan(plan: MediaPlan | null, expected: PlanExpectation): string[] {
+    const failures: string[] = [];
+    if (expected.exists !== undefined && !!plan !== expected.exists) {
+        failures.push(expected.exists ? 'expected a media plan, got none' : 'expected no media plan');
+    }
+    if (!plan) {
+        if (Object.keys(expected).some(key => key !== 'exists')) failures.push('no media plan to check');
+        return failures;
+    }
+
+    const lines = plan.campaign.placements || [];
+    if (expected.budget !== undefined && plan.campaign.budget !== expected.budget) {
+        failures.push(`budget: expected ${expected.budget}, got ${plan.campaign.budget}`);
+    }
+    if (expected.lineCount !== undefined && lines.length !== expected.lineCount) {
+        failures.push(`line count: expected ${expected.lineCount}, got ${lines.length}`);
+    }
+    if (expected.pausedLines !== undefined && lines.filter(isPaused).length !== expected.pausedLines) {
+        failures.push(`paused lines: expected ${expected.pausedLines}, got ${lines.filter(isPaused).length}`);
+    }
+    Object.entries(expected.channelCounts || {}).forEach(([channel, count]) => {
+        const actual = lines.filter(l => l.channel === channel).length;
+        if (actual !== count) failures.push(`${channel} lines: expected ${count}, got ${actual}`);
+    });
+    if (expected.totalSpend !== undefined) {
+        const spend = Math.round(plan.totalSpend);
+        const { min, max } = typeof expected.totalSpend === 'number'
+            ? { min: expected.totalSpend, max: expected.totalSpend }
+            : expected.totalSpend;
+        if ((min !== undefined && spend < min) || (max !== undefined && spend > max)) {
+            failures.push(`total spend: expected ${JSON.stringify(expected.totalSpend)}, got ${spend}`);
+        }
+    }
+    return failures;
+}
+
+function checkTurn(reply: AgentMessage, brain: AgentBrain, expected: TurnExpectation): string[] {
+    const failures: string[] = [];
+    (expected.contains || []).forEach(text => {
+        if (!reply.content.includes(text)) failures.push(`reply should contain "${text}"`);
+    });
+    (expected.excludes || []).forEach(text => {
+        if (reply.content.includes(text)) failures.push(`reply should not contain "${text}"`);
+    });
+    if (expected.action !== undefined && actionName(reply.action) !== expected.action) {
+        failures.push(`action: expected ${expected.action}, got ${actionName(reply.action) ?? 'none'}`);
+    }
+    (expected.suggestedActions || []).forEach(suggestion => {
+        if (!reply.suggestedActions?.includes(suggestion)) {
+            failures.push(`suggested actions should include "${suggestion}" (got ${JSON.stringify(reply.suggestedActions || [])})`);
+        }
+    });
+    if (expected.state !== undefined && brain.getContext().state !== expected.state) {
+        failures.push(`state: expected ${expected.state}, got ${brain.getContext().state}`);
+    }
+    if (expected.plan) {
+        failures.push(...checkPlan(reply.updatedMediaPlan ?? brain.getContext().mediaPlan, expected.plan));
+    }
+    return failures;
+}
+
+/**
+ * Play one scenario against a fresh AgentBrain and history
+ */
+export async function runScenario(scenario: ConversationScenario): Promise<ScenarioResult> {
+    // The session id is created before seeding so scenarios never share a conversation
+    const brain = new AgentBrain();
+    brain.startSession();
+    if (scenario.viaLLM) brain.setLLMProvider(new MockLLMProvider());
+    actionHistory.clearHistory();
+
+    const turns: TurnResult[] = [];
+    try {
+        await withSeededRandomAsync(scenario.seed ?? DEFAULT_SEED, async () => {
+            for (const turn of scenario.turns) {
+                const reply = scenario.viaLLM ? await brain.processInputAsync(turn.input) : brain.processInput(turn.input);
+                if (reply.updatedMediaPlan) brain.setMediaPlan(reply.updatedMediaPlan);
+                turns.push({
+                    input: turn.input,
+                    reply: reply.content,
+                    failures: turn.expect ? checkTurn(reply, brain, turn.expect) : []
+                });
+            }
+        });
+    } catch (error) {
+        return {
+            name: scenario.name,
+            passed: false,
+            turns,
+            finalPlan: brain.getContext().mediaPlan,
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+
+    return {
+        name: scenario.name,
+        passed: turns.every(t => t.failures.length === 0),
+        turns,
+        finalPlan: brain.getContext().mediaPlan
+    };
+}
+
+export async function runScenarios(scenarios: ConversationScenario[]): Promise<ScenarioResult[]> {
+    const results: ScenarioResult[] = [];
+    for (const scenario of scenarios) {
+        results.push(await runScenario(scenario));
+    }
+    return results;
+}
+
+/**
+ * ✓/✗ per scenario, with the failing turns and their replies
+ */
+export function formatScenarioResults(results: ScenarioResult[]): string {
+    const lines: string[] = [];
+    results.forEach(result => {
+        lines.push(`${result.passed ? '✓' : '✗'} ${result.name} (${result.turns.length} turns)`);
+        result.turns.forEach((turn, i) => {
+            if (turn.failures.length === 0) return;
+            lines.push(`    turn ${i + 1} "${turn.input}":`);
+            turn.failures.forEach(f => lines.push(`      - ${f}`));
+            lines.push(`      reply: ${turn.reply.split('\n')[0].slice(0, 160)}`);
+        });
+        if (result.error) lines.push(`    threw after ${result.turns.length} turns: ${result.error}`);
+    });
+    const passed = results.filter(r => r.passed).length;
+    lines.push('', `${passed}/${results.length} scenarios passed`);
+    return lines.join('\n');
+}
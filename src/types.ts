@@ -29,6 +29,8 @@ export interface Brand {
     monthlySpend?: number;
     campaignCount?: number;
     lifetimeValue?: number;
+    brandColors?: { primary: string; accent: string }; // Hex, used to style exported reports and decks
+    fiscalYearStartMonth?: number; // 1-12; fiscal quarters ("fiscal Q2", "FY27") are counted from here. Defaults to January
 }
 
 export type EntityStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ARCHIVED';
@@ -146,6 +148,7 @@ export interface Campaign {
         reach?: number;
         conversions?: number;
         clicks?: number;
+        effectiveFrequency?: number; // Exposures needed for reach to count, e.g. 3 for 3+ reach
     };
     performance?: {
         spend: number;
@@ -164,6 +167,7 @@ export interface Campaign {
     tags: string[];
     forecast?: ForecastMetrics;
     delivery?: DeliveryMetrics;
+    geoPlan?: GeoPlan; // How line budgets split across their DMAs
     // Legacy support (optional, or computed)
     placements?: Line[];
     // Template tracking
@@ -171,6 +175,13 @@ export interface Campaign {
     customizations?: string[]; // List of what was changed from the template
 }
 
+export type GeoWeighting = 'HOUSEHOLDS' | 'INDEX';
+
+export interface GeoPlan {
+    weighting: GeoWeighting;
+    indexes?: Record<number, number>; // DMA id → index (100 = households alone), used by INDEX weighting
+}
+
 export type IntegrationType = 'DSP' | 'DMP' | 'ANALYTICS' | 'CONTEXTUAL' | 'IDENTITY';
 export type IntegrationStatus = 'CONNECTED' | 'DISCONNECTED' | 'ERROR' | 'SYNCING';
 
@@ -267,6 +278,8 @@ export interface PerformanceMetrics {
 
 export type PlacementStatus = 'PLANNING' | 'ACTIVE' | 'COMPLETED' | 'PAUSED';
 
+export type IOStatus = 'DRAFT' | 'SENT' | 'SIGNED';
+
 // Renamed from Placement to Line, keeping alias for backward compatibility
 export interface Line {
     id: string;
@@ -286,6 +299,7 @@ export interface Line {
 
     targeting?: {
         geo: string[];
+        dmaIds?: number[]; // Nielsen DMA ranks; none means national
         demographics: string[];
         devices: string[];
     };
@@ -298,6 +312,7 @@ export interface Line {
     buyingType?: 'Auction' | 'PMP' | 'Direct';
     dealId?: string;
     ioNumber?: string;
+    ioStatus?: IOStatus; // Insertion order contract status for this line's vendor
 
     // Creative Management
     creatives?: Creative[];
@@ -314,13 +329,22 @@ export interface CreativeAsset {
     url: string;
 }
 
+/**
+ * Side effects with a payload, carried out by the app when the message arrives
+ */
+export type AgentAction =
+    | { type: 'CREATE_CAMPAIGN'; payload: { name: string; budget?: number; startDate?: string; endDate?: string; goals?: string[] } }
+    | { type: 'CREATE_FLIGHT'; payload: { name: string } }
+    | { type: 'OPEN_FLIGHT'; payload: { flightId: string } }
+    | { type: 'RUN_SIMULATION'; payload: { iterations: number } };
+
 export interface AgentMessage {
     id: string;
     role: 'user' | 'agent';
     content: string;
     timestamp: number;
     suggestedActions?: string[];
-    action?: 'EXPORT_PDF' | 'EXPORT_PPT' | string; // Allow other action types
+    action?: 'EXPORT_PDF' | 'EXPORT_PPT' | 'EXPORT_XLSX' | 'EXPORT_IO' | 'EXPORT_REPORT' | string | AgentAction; // Allow other action types
     agentsInvoked?: string[]; // Names of agents being used for this action
     updatedMediaPlan?: MediaPlan; // Optional plan update to sync state
 }
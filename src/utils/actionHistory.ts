@@ -1,53 +1,378 @@
 /**
  * Action History and Undo/Redo System
+ *
+ * Each action stores a structural patch (see planPatch.ts) rather than full
+ * state snapshots. Undo applies the inverted patch to the live plan, redo
+ * re-applies the original, so both restore the exact previous state.
+ *
+ * Actions are scoped (e.g. `plan:<flightId>`) so undo only touches the plan
+ * it was recorded against, and history is persisted to localStorage so it
+ * survives a reload.
+ *
+ * History is a tree per scope: each action points at the action it was made
+ * on top of, and `heads` tracks where the plan currently is. Editing after an
+ * undo starts a new branch instead of discarding the undone actions, so any
+ * node (or named checkpoint) can be jumped back to later.
+ *
+ * capture() collects the commits made by several commands into one patch
+ * (reverting them afterwards), and commitPatch() applies that patch as a
+ * single action - how compound chat commands get one undo step.
  */
 
+import { Patch, PatchTransaction, applyPatch, invertPatch } from './planPatch';
+
+export type ActionType =
+    | 'add_placement'
+    | 'delete_placement'
+    | 'update_placement'
+    | 'pause_placement'
+    | 'resume_placement'
+    | 'update_segment'
+    | 'update_budget'
+    | 'update_dates'
+    | 'update_grouping'
+    | 'update_goals'
+    | 'update_flight'
+    | 'update_campaign'
+    | 'shift_budget'
+    | 'compound';
+
 export interface ActionSnapshot {
     id: string;
     timestamp: number;
-    type: 'add_placement' | 'delete_placement' | 'update_placement' | 'update_budget' | 'update_flight' | 'update_campaign';
+    type: ActionType;
     description: string;
     userCommand: string;
-    stateBefore: any;
-    stateAfter: any;
+    scope?: string;          // What the patch applies to, e.g. `plan:<flightId>`
+    patch: Patch;            // Structural change from the before-state to the after-state
+    parentId: string | null; // Action this one was made on top of (null = start of history)
     canUndo: boolean;
-    undone: boolean;
+    undone: boolean;         // True when the action is not on the path to the current state
+}
+
+/**
+ * Named pointer to a node in a scope's history tree (null = start of history)
+ */
+export interface HistoryCheckpoint {
+    name: string;
+    scope: string;
+    nodeId: string | null;
+    createdAt: number;
+}
+
+/**
+ * Row in the rendered history timeline
+ */
+export interface HistoryTimelineNode {
+    action: ActionSnapshot;
+    lane: number;            // Branch column; 0 is the first line of history
+    isCurrent: boolean;
+    checkpoints: string[];
+}
+
+/**
+ * Result of moving the current state to another node
+ */
+export interface HistoryJump {
+    reverted: ActionSnapshot[];
+    applied: ActionSnapshot[];
 }
 
+const STORAGE_KEY = 'fuseiq-action-history';
+const ROOT = 'root';
+
 export class ActionHistoryManager {
     private history: ActionSnapshot[] = [];
-    private undoneActions: ActionSnapshot[] = [];
+    private heads: Record<string, string | null> = {};
+    private preferredChild: Record<string, string> = {};
+    private checkpoints: HistoryCheckpoint[] = [];
     private readonly MAX_HISTORY = 50;
+    private captured: Patch | null = null; // Set while capture() is running
+
+    constructor() {
+        this.load();
+    }
 
     /**
      * Record an action
      */
-    recordAction(action: Omit<ActionSnapshot, 'timestamp' | 'undone'>): string {
+    recordAction(action: Omit<ActionSnapshot, 'timestamp' | 'undone' | 'parentId'>): string {
+        const key = this.scopeKey(action.scope);
+        const parentId = this.getHead(key);
         const snapshot: ActionSnapshot = {
             ...action,
+            parentId,
             timestamp: Date.now(),
             undone: false
         };
 
+        // Undone actions stay in the tree as a sibling branch of the new one
         this.history.push(snapshot);
+        this.heads[key] = snapshot.id;
+        this.preferredChild[this.childKey(key, parentId)] = snapshot.id;
+
+        this.trim();
+        this.persist();
+        return snapshot.id;
+    }
 
-        // Clear redo stack when new action is taken
-        this.undoneActions = [];
+    /**
+     * Record the changes made through a transaction. Returns null if nothing changed.
+     */
+    commit(
+        transaction: PatchTransaction<any>,
+        scope: string,
+        meta: { type: ActionType; description: string; userCommand: string }
+    ): string | null {
+        if (transaction.isEmpty) return null;
 
-        // Trim history if too long
-        if (this.history.length > this.MAX_HISTORY) {
-            this.history = this.history.slice(-this.MAX_HISTORY);
+        // Inside capture() the change joins the captured patch instead of becoming its own action
+        if (this.captured) {
+            this.captured.push(...transaction.ops);
+            return null;
         }
 
-        return snapshot.id;
+        return this.recordAction({
+            id: `${meta.type}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+            ...meta,
+            scope,
+            patch: transaction.ops,
+            canUndo: true
+        });
+    }
+
+    /**
+     * Dry-run `run`: every commit made inside it is collected into one patch, then
+     * reverted so the target ends up exactly as it started. If `run` throws, the
+     * changes made so far are reverted and the error is rethrown.
+     */
+    capture<R>(target: object, run: () => R): { result: R; patch: Patch } {
+        if (this.captured) {
+            throw new Error('capture() cannot be nested');
+        }
+
+        const patch: Patch = [];
+        this.captured = patch;
+        try {
+            const result = run();
+            return { result, patch: patch.slice() };
+        } finally {
+            this.captured = null;
+            applyPatch(target, invertPatch(patch));
+        }
+    }
+
+    /**
+     * Apply a patch from capture() to the target and record it as one action.
+     * Throws PatchConflictError (leaving the target untouched) if the target has
+     * changed since the patch was captured.
+     */
+    commitPatch(
+        target: object,
+        patch: Patch,
+        scope: string,
+        meta: { type: ActionType; description: string; userCommand: string }
+    ): string | null {
+        if (patch.length === 0) return null;
+
+        applyPatch(target, patch);
+        return this.recordAction({
+            id: `${meta.type}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+            ...meta,
+            scope,
+            patch,
+            canUndo: true
+        });
+    }
+
+    /**
+     * Undo a specific action by applying its inverse patch to the target.
+     * Undoing the current action steps back to its parent; undoing an earlier
+     * one records a new "Reverted" action so the actions after it are kept.
+     * Throws PatchConflictError (leaving the target untouched) if the state has diverged.
+     */
+    undo(actionId: string, target: object): ActionSnapshot | null {
+        const action = this.findAction(actionId);
+        if (!action || !action.canUndo || action.undone) return null;
+
+        const inverse = invertPatch(action.patch);
+        applyPatch(target, inverse);
+
+        if (this.getHead(this.scopeKey(action.scope)) === action.id) {
+            this.markAsUndone(action.id);
+        } else {
+            this.recordAction({
+                id: `revert-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+                type: action.type,
+                description: `Reverted: ${action.description}`,
+                userCommand: action.userCommand,
+                scope: action.scope,
+                patch: inverse,
+                canUndo: true
+            });
+        }
+        return action;
+    }
+
+    /**
+     * Undo the most recent action in a scope
+     */
+    undoLast(scope: string, target: object): ActionSnapshot | null {
+        const lastAction = this.getLastAction(scope);
+        return lastAction ? this.undo(lastAction.id, target) : null;
+    }
+
+    /**
+     * Undo the last `count` actions in a scope as one jump, so a conflict
+     * partway back leaves the target untouched. Returns the undone actions, newest first.
+     */
+    undoSteps(scope: string, count: number, target: object): ActionSnapshot[] {
+        const path = this.getPathToRoot(this.getHead(this.scopeKey(scope)));
+        const undone = path.slice(0, count);
+        if (undone.length === 0) return [];
+
+        this.jumpTo(this.scopeKey(scope), path[count]?.id ?? null, target);
+        return undone;
+    }
+
+    /**
+     * Re-apply the most recently undone action in a scope
+     */
+    redoLast(scope: string, target: object): ActionSnapshot | null {
+        const action = this.getLastUndoneAction(scope);
+        if (!action) return null;
+
+        applyPatch(target, action.patch);
+        this.markAsRedone(action.id);
+        return action;
+    }
+
+    /**
+     * Move the target to the state at any node of the scope's tree (null = start of history).
+     * Reverts back to the common ancestor and re-applies down the other branch as one
+     * patch, so a conflict leaves the target untouched.
+     */
+    jumpTo(scope: string, nodeId: string | null, target: object): HistoryJump {
+        const node = nodeId !== null ? this.findAction(nodeId) : null;
+        if (nodeId !== null && (!node || this.scopeKey(node.scope) !== scope)) {
+            throw new Error(`History entry "${nodeId}" does not belong to ${scope}`);
+        }
+
+        const fromPath = this.getPathToRoot(this.getHead(scope));
+        const toPath = this.getPathToRoot(nodeId);
+        const toIds = new Set(toPath.map(a => a.id));
+
+        const reverted = fromPath.filter(a => !toIds.has(a.id));
+        const fromIds = new Set(fromPath.map(a => a.id));
+        const applied = toPath.filter(a => !fromIds.has(a.id)).reverse();
+
+        applyPatch(target, [
+            ...reverted.flatMap(a => invertPatch(a.patch)),
+            ...applied.flatMap(a => a.patch)
+        ]);
+
+        this.heads[scope] = nodeId;
+        // Redo after the jump should walk back down the branch we came from
+        reverted.forEach(a => { this.preferredChild[this.childKey(scope, a.parentId)] = a.id; });
+        applied.forEach(a => { this.preferredChild[this.childKey(scope, a.parentId)] = a.id; });
+        this.refreshActivePath(scope);
+        this.persist();
+
+        return { reverted, applied };
+    }
+
+    /**
+     * Name the current state of a scope. Re-using a name moves the checkpoint.
+     */
+    createCheckpoint(scope: string, name: string): HistoryCheckpoint {
+        const checkpoint: HistoryCheckpoint = {
+            name: name.trim(),
+            scope,
+            nodeId: this.getHead(scope),
+            createdAt: Date.now()
+        };
+
+        this.checkpoints = this.checkpoints.filter(c =>
+            c.scope !== scope || c.name.toLowerCase() !== checkpoint.name.toLowerCase()
+        );
+        this.checkpoints.push(checkpoint);
+        this.persist();
+        return checkpoint;
+    }
+
+    /**
+     * Get checkpoints for a scope, newest first
+     */
+    getCheckpoints(scope: string): HistoryCheckpoint[] {
+        return this.checkpoints
+            .filter(c => c.scope === scope)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * Find a checkpoint by exact name, falling back to a partial match
+     */
+    findCheckpoint(scope: string, name: string): HistoryCheckpoint | null {
+        // "pre client review" should find "pre-client-review"
+        const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+        const query = normalize(name);
+        const checkpoints = this.getCheckpoints(scope);
+        return checkpoints.find(c => normalize(c.name) === query)
+            || checkpoints.find(c => normalize(c.name).includes(query))
+            || null;
+    }
+
+    /**
+     * Jump to a named checkpoint. Returns null if no checkpoint matches.
+     */
+    restoreCheckpoint(scope: string, name: string, target: object): { checkpoint: HistoryCheckpoint; jump: HistoryJump } | null {
+        const checkpoint = this.findCheckpoint(scope, name);
+        if (!checkpoint) return null;
+        return { checkpoint, jump: this.jumpTo(scope, checkpoint.nodeId, target) };
+    }
+
+    /**
+     * Get the id of the node the scope is currently at (null = start of history)
+     */
+    getCurrentNodeId(scope: string): string | null {
+        return this.getHead(scope);
+    }
+
+    /**
+     * Flatten a scope's tree for display. Branches are depth-first, with each
+     * branch after a node's first child placed in a new lane.
+     */
+    getTimeline(scope: string): HistoryTimelineNode[] {
+        const nodes = this.history.filter(a => this.scopeKey(a.scope) === scope);
+        const head = this.getHead(scope);
+        const rows: HistoryTimelineNode[] = [];
+        let nextLane = 0;
+
+        const visit = (parentId: string | null, lane: number) => {
+            nodes.filter(a => a.parentId === parentId).forEach((action, index) => {
+                const actionLane = index === 0 ? lane : ++nextLane;
+                rows.push({
+                    action,
+                    lane: actionLane,
+                    isCurrent: action.id === head,
+                    checkpoints: this.checkpoints
+                        .filter(c => c.scope === scope && c.nodeId === action.id)
+                        .map(c => c.name)
+                });
+                visit(action.id, actionLane);
+            });
+        };
+
+        visit(null, 0);
+        return rows;
     }
 
     /**
      * Get recent actions
      */
-    getRecentActions(count: number = 10): ActionSnapshot[] {
+    getRecentActions(count: number = 10, scope?: string): ActionSnapshot[] {
         return this.history
-            .filter(a => !a.undone)
+            .filter(a => !a.undone && this.inScope(a, scope))
             .slice(-count)
             .reverse();
     }
@@ -72,10 +397,10 @@ export class ActionHistoryManager {
     /**
      * Find last action matching a keyword
      */
-    findLastActionByKeyword(keyword: string): ActionSnapshot | null {
+    findLastActionByKeyword(keyword: string, scope?: string): ActionSnapshot | null {
         for (let i = this.history.length - 1; i >= 0; i--) {
             const action = this.history[i];
-            if (!action.undone &&
+            if (!action.undone && this.inScope(action, scope) &&
                 (action.description.toLowerCase().includes(keyword.toLowerCase()) ||
                     action.userCommand.toLowerCase().includes(keyword.toLowerCase()))) {
                 return action;
@@ -87,17 +412,17 @@ export class ActionHistoryManager {
     /**
      * Get the last action
      */
-    getLastAction(): ActionSnapshot | null {
-        const activeActions = this.history.filter(a => !a.undone);
+    getLastAction(scope?: string): ActionSnapshot | null {
+        const activeActions = this.history.filter(a => !a.undone && this.inScope(a, scope));
         return activeActions.length > 0 ? activeActions[activeActions.length - 1] : null;
     }
 
     /**
      * Get the last N actions
      */
-    getLastNActions(n: number): ActionSnapshot[] {
+    getLastNActions(n: number, scope?: string): ActionSnapshot[] {
         return this.history
-            .filter(a => !a.undone)
+            .filter(a => !a.undone && this.inScope(a, scope))
             .slice(-n);
     }
 
@@ -106,55 +431,64 @@ export class ActionHistoryManager {
      */
     markAsUndone(actionId: string): boolean {
         const action = this.findAction(actionId);
-        if (action && action.canUndo && !action.undone) {
-            action.undone = true;
-            this.undoneActions.push(action);
+        const key = this.scopeKey(action?.scope);
+        if (action && action.canUndo && this.getHead(key) === action.id) {
+            this.heads[key] = action.parentId;
+            this.preferredChild[this.childKey(key, action.parentId)] = action.id;
+            this.refreshActivePath(key);
+            this.persist();
             return true;
         }
         return false;
     }
 
     /**
-     * Get state to restore for undo
+     * Get the patch that reverts an action
      */
-    getUndoState(actionId: string): any | null {
+    getUndoPatch(actionId: string): Patch | null {
         const action = this.findAction(actionId);
-        return action?.stateBefore || null;
+        return action ? invertPatch(action.patch) : null;
     }
 
     /**
-     * Get state for redo
+     * Get the patch that re-applies an undone action
      */
-    getRedoState(actionId: string): any | null {
-        const action = this.undoneActions.find(a => a.id === actionId);
-        return action?.stateAfter || null;
+    getRedoPatch(actionId: string): Patch | null {
+        const action = this.findAction(actionId);
+        return action?.undone ? action.patch : null;
     }
 
     /**
      * Can redo last undone action
      */
-    canRedo(): boolean {
-        return this.undoneActions.length > 0;
+    canRedo(scope?: string): boolean {
+        return this.getLastUndoneAction(scope) !== null;
     }
 
     /**
-     * Get last undone action for redo
+     * Get the action redo would re-apply: the child of the current node that
+     * was last undone (or most recently recorded)
      */
-    getLastUndoneAction(): ActionSnapshot | null {
-        return this.undoneActions.length > 0
-            ? this.undoneActions[this.undoneActions.length - 1]
-            : null;
+    getLastUndoneAction(scope?: string): ActionSnapshot | null {
+        const keys = scope !== undefined ? [scope] : Array.from(new Set(this.history.map(a => this.scopeKey(a.scope))));
+        const candidates = keys
+            .map(key => this.getRedoTarget(key))
+            .filter((a): a is ActionSnapshot => !!a)
+            .sort((a, b) => a.timestamp - b.timestamp);
+        return candidates.length > 0 ? candidates[candidates.length - 1] : null;
     }
 
     /**
-     * Mark action as redone (remove from undone list)
+     * Mark action as redone (move the current node forward onto it)
      */
     markAsRedone(actionId: string): boolean {
-        const index = this.undoneActions.findIndex(a => a.id === actionId);
-        if (index !== -1) {
-            const action = this.undoneActions[index];
-            action.undone = false;
-            this.undoneActions.splice(index, 1);
+        const action = this.findAction(actionId);
+        const key = this.scopeKey(action?.scope);
+        if (action && action.parentId === this.getHead(key)) {
+            this.heads[key] = action.id;
+            this.preferredChild[this.childKey(key, action.parentId)] = action.id;
+            this.refreshActivePath(key);
+            this.persist();
             return true;
         }
         return false;
@@ -165,19 +499,161 @@ export class ActionHistoryManager {
      */
     clearHistory(): void {
         this.history = [];
-        this.undoneActions = [];
+        this.heads = {};
+        this.preferredChild = {};
+        this.checkpoints = [];
+        this.persist();
     }
 
     /**
      * Get history summary for display
      */
-    getHistorySummary(count: number = 10): string[] {
-        return this.getRecentActions(count).map(action => {
+    getHistorySummary(count: number = 10, scope?: string): string[] {
+        return this.getRecentActions(count, scope).map(action => {
             const timeAgo = this.formatTimeAgo(action.timestamp);
             return `${timeAgo}: ${action.description}`;
         });
     }
 
+    private inScope(action: ActionSnapshot, scope?: string): boolean {
+        return !scope || this.scopeKey(action.scope) === this.scopeKey(scope);
+    }
+
+    // Unscoped actions share one tree
+    private scopeKey(scope?: string): string {
+        return scope || 'global';
+    }
+
+    private childKey(scope: string, parentId: string | null): string {
+        return `${scope}|${parentId ?? ROOT}`;
+    }
+
+    private getHead(scope: string): string | null {
+        return this.heads[scope] ?? null;
+    }
+
+    private getRedoTarget(scope: string): ActionSnapshot | null {
+        const head = this.getHead(scope);
+        const children = this.history.filter(a => this.scopeKey(a.scope) === scope && a.parentId === head);
+        const preferred = this.preferredChild[this.childKey(scope, head)];
+        return children.find(a => a.id === preferred) || children[children.length - 1] || null;
+    }
+
+    /**
+     * Actions from a node back to the start of history, nearest first
+     */
+    private getPathToRoot(nodeId: string | null): ActionSnapshot[] {
+        const path: ActionSnapshot[] = [];
+        let node = nodeId ? this.findAction(nodeId) : null;
+        while (node) {
+            path.push(node);
+            node = node.parentId ? this.findAction(node.parentId) : null;
+        }
+        return path;
+    }
+
+    /**
+     * Re-derive `undone` for a scope from the path to its current node
+     */
+    private refreshActivePath(scope: string): void {
+        const active = new Set(this.getPathToRoot(this.getHead(scope)).map(a => a.id));
+        this.history
+            .filter(a => this.scopeKey(a.scope) === scope)
+            .forEach(a => { a.undone = !active.has(a.id); });
+    }
+
+    private removeSubtree(actionId: string): void {
+        const removed = new Set([actionId]);
+        // Children are always recorded after their parent
+        this.history.forEach(a => {
+            if (a.parentId && removed.has(a.parentId)) removed.add(a.id);
+        });
+        this.history = this.history.filter(a => !removed.has(a.id));
+        this.checkpoints = this.checkpoints.filter(c => !c.nodeId || !removed.has(c.nodeId));
+    }
+
+    /**
+     * Drop the oldest actions beyond MAX_HISTORY. An oldest action on the current
+     * path becomes the new start of history, which makes its other branches unreachable.
+     */
+    private trim(): void {
+        while (this.history.length > this.MAX_HISTORY) {
+            const oldest = this.history[0];
+            const key = this.scopeKey(oldest.scope);
+
+            if (oldest.undone) {
+                this.removeSubtree(oldest.id);
+                continue;
+            }
+
+            this.history
+                .filter(a => this.scopeKey(a.scope) === key && a.id !== oldest.id && (a.parentId === null || (a.parentId === oldest.id && a.undone)))
+                .forEach(a => this.removeSubtree(a.id));
+
+            this.history = this.history.slice(1);
+            this.history.forEach(a => { if (a.parentId === oldest.id) a.parentId = null; });
+            if (this.heads[key] === oldest.id) this.heads[key] = null;
+
+            const preferred = this.preferredChild[this.childKey(key, oldest.id)];
+            delete this.preferredChild[this.childKey(key, oldest.id)];
+            if (preferred) this.preferredChild[this.childKey(key, null)] = preferred;
+
+            this.checkpoints = this.checkpoints
+                .filter(c => this.scopeKey(c.scope) !== key || c.nodeId !== null)
+                .map(c => (c.nodeId === oldest.id ? { ...c, nodeId: null } : c));
+        }
+    }
+
+    /**
+     * Save history to localStorage so it survives a reload
+     */
+    private persist(): void {
+        if (typeof localStorage === 'undefined') return;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({
+                history: this.history,
+                heads: this.heads,
+                preferredChild: this.preferredChild,
+                checkpoints: this.checkpoints
+            }));
+        } catch (error) {
+            console.warn('[ActionHistory] Could not persist history:', error);
+        }
+    }
+
+    private load(): void {
+        if (typeof localStorage === 'undefined') return;
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (!saved) return;
+            const data = JSON.parse(saved) as {
+                history?: ActionSnapshot[];
+                heads?: Record<string, string | null>;
+                preferredChild?: Record<string, string>;
+                checkpoints?: HistoryCheckpoint[];
+            };
+            // Snapshots from before patches were introduced can't be replayed
+            this.history = (data.history || []).filter(a => Array.isArray(a.patch));
+            this.heads = data.heads || {};
+            this.preferredChild = data.preferredChild || {};
+            this.checkpoints = data.checkpoints || [];
+
+            // Linear history from before the tree: chain each scope in order
+            if (!data.heads) {
+                const previous: Record<string, string | null> = {};
+                this.history.forEach(a => {
+                    const key = this.scopeKey(a.scope);
+                    a.parentId = previous[key] ?? null;
+                    previous[key] = a.id;
+                    if (!a.undone) this.heads[key] = a.id;
+                });
+                Object.keys(this.heads).forEach(key => this.refreshActivePath(key));
+            }
+        } catch (error) {
+            console.warn('[ActionHistory] Could not load saved history:', error);
+        }
+    }
+
     /**
      * Format timestamp as "X minutes ago"
      */
@@ -0,0 +1,238 @@
+/**
+ * Benchmark Repository - CPM, CTR and CVR benchmarks for forecasting
+ *
+ * METHODOLOGY:
+ * ============
+ * Benchmarks are stored as entries that match on any of channel, vendor,
+ * ad unit, buying type and objective. To resolve a line:
+ * 1. Every entry whose keys all match the line applies
+ * 2. `set` values apply first, least specific entry first (channel → vendor → ...)
+ * 3. `scale` multipliers apply on top (e.g. PMP deals cost ~35% more than open auction)
+ * 4. A brand's own delivered performance replaces the benchmark where it has
+ *    enough volume: vendor history first, then channel history
+ *
+ * CPC is derived, never stored: CPC = CPM / (1000 × CTR)
+ *
+ * unitImpressions is the audience of one spot / insertion / board, used to
+ * forecast Flat and Spot lines from their quantity.
+ *
+ * Source: Industry averages (simulated for prototype)
+ */
+
+import { Brand, Line } from '../types';
+import { CampaignObjective } from './budgetOptimizer';
+
+export interface Benchmark {
+    cpm: number;
+    ctr: number;
+    cvr: number;
+    unitImpressions: number;
+}
+
+export interface BenchmarkKey {
+    channel: string;
+    vendor?: string;
+    adUnit?: string;
+    buyingType?: Line['buyingType'];
+    objective?: CampaignObjective;
+}
+
+export interface BenchmarkEntry {
+    match: Partial<BenchmarkKey>;
+    set?: Partial<Benchmark>;
+    scale?: Partial<Benchmark>;
+}
+
+export interface ResolvedBenchmark extends Benchmark {
+    cpc: number;
+    sources: string[]; // What the numbers came from, most general first
+}
+
+/** Observed totals for one channel or channel + vendor */
+export interface HistoricalPerformance {
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    spend: number;
+}
+
+export interface PerformanceHistory {
+    byChannel: Record<string, HistoricalPerformance>;
+    byVendor: Record<string, HistoricalPerformance>; // Keyed `${channel}|${vendor}`
+}
+
+// History needs this much volume before it replaces a benchmark
+const MIN_HISTORY_IMPRESSIONS = 100000;
+const MIN_HISTORY_CLICKS = 200;
+
+const FALLBACK_BENCHMARK: Benchmark = { cpm: 15, ctr: 0.02, cvr: 0.02, unitImpressions: 100000 };
+
+const DEFAULT_BENCHMARKS: BenchmarkEntry[] = [
+    // Channels
+    { match: { channel: 'Search' }, set: { cpm: 86, ctr: 0.032, cvr: 0.04 } },
+    { match: { channel: 'Social' }, set: { cpm: 10, ctr: 0.009, cvr: 0.02 } },
+    { match: { channel: 'Display' }, set: { cpm: 5, ctr: 0.0035, cvr: 0.01 } },
+    { match: { channel: 'TV' }, set: { cpm: 25, ctr: 0.001, cvr: 0.005, unitImpressions: 400000 } },
+    { match: { channel: 'Radio' }, set: { cpm: 10, ctr: 0.0005, cvr: 0.005, unitImpressions: 60000 } },
+    { match: { channel: 'Streaming Audio' }, set: { cpm: 18, ctr: 0.002, cvr: 0.008, unitImpressions: 50000 } },
+    { match: { channel: 'Podcast' }, set: { cpm: 25, ctr: 0.003, cvr: 0.01, unitImpressions: 40000 } },
+    { match: { channel: 'Place-based Audio' }, set: { cpm: 8, ctr: 0.0005, cvr: 0.004, unitImpressions: 30000 } },
+    { match: { channel: 'OOH' }, set: { cpm: 6, ctr: 0.0005, cvr: 0.003, unitImpressions: 250000 } },
+    { match: { channel: 'Print' }, set: { cpm: 12, ctr: 0.001, cvr: 0.005, unitImpressions: 150000 } },
+
+    // Vendors
+    { match: { channel: 'Search', vendor: 'Google Ads' }, set: { ctr: 0.035 } },
+    { match: { channel: 'Search', vendor: 'Microsoft Ads' }, set: { cpm: 55, ctr: 0.028 } },
+    { match: { channel: 'Search', vendor: 'Amazon Ads' }, set: { cpm: 70, cvr: 0.08 } },
+    { match: { channel: 'Social', vendor: 'Meta' }, set: { cpm: 11, ctr: 0.01 } },
+    { match: { channel: 'Social', vendor: 'TikTok' }, set: { cpm: 6, ctr: 0.008, cvr: 0.012 } },
+    { match: { channel: 'Social', vendor: 'LinkedIn' }, set: { cpm: 33, ctr: 0.005, cvr: 0.035 } },
+    { match: { channel: 'Social', vendor: 'Snapchat' }, set: { cpm: 7, ctr: 0.006 } },
+    { match: { channel: 'Display', vendor: 'Criteo' }, set: { ctr: 0.006, cvr: 0.02 } },
+    { match: { channel: 'Display', vendor: 'Taboola' }, set: { cpm: 3, ctr: 0.002 } },
+    { match: { channel: 'Display', vendor: 'Outbrain' }, set: { cpm: 3, ctr: 0.002 } },
+    { match: { channel: 'TV', vendor: 'CTV' }, set: { cpm: 32, ctr: 0.002, cvr: 0.008 } },
+    { match: { channel: 'TV', vendor: 'Hulu' }, set: { cpm: 35, ctr: 0.002 } },
+    { match: { channel: 'TV', vendor: 'Netflix' }, set: { cpm: 45, ctr: 0.002 } },
+    { match: { channel: 'Streaming Audio', vendor: 'Spotify' }, set: { cpm: 20, ctr: 0.003 } },
+
+    // Ad units
+    { match: { channel: 'TV', adUnit: ':15 Spot' }, scale: { cpm: 0.65 } },
+    { match: { channel: 'TV', adUnit: 'Sponsorship' }, scale: { cpm: 1.4 } },
+    { match: { channel: 'Search', adUnit: 'Shopping Ad' }, scale: { cvr: 1.3 } },
+    { match: { channel: 'Social', adUnit: 'Story Video' }, scale: { cpm: 1.2, ctr: 0.8 } },
+    { match: { channel: 'Display', adUnit: 'Native' }, scale: { ctr: 1.5 } },
+    { match: { channel: 'OOH', adUnit: 'Highway Bulletin' }, set: { unitImpressions: 500000 } },
+    { match: { channel: 'Print', adUnit: 'Quarter Page' }, scale: { ctr: 0.5 } },
+
+    // Buying types (open auction is the baseline)
+    { match: { buyingType: 'PMP' }, scale: { cpm: 1.35, ctr: 1.1 } },
+    { match: { buyingType: 'Direct' }, scale: { cpm: 1.6, ctr: 1.05 } },
+
+    // Objectives: what the campaign optimizes for shifts price and engagement
+    { match: { objective: 'awareness' }, scale: { cpm: 0.9, ctr: 0.85, cvr: 0.7 } },
+    { match: { objective: 'consideration' }, scale: { ctr: 1.1 } },
+    { match: { objective: 'conversion' }, scale: { cpm: 1.15, ctr: 1.2, cvr: 1.3 } }
+];
+
+const KEY_FIELDS: (keyof BenchmarkKey)[] = ['channel', 'vendor', 'adUnit', 'buyingType', 'objective'];
+
+function matches(entry: BenchmarkEntry, key: BenchmarkKey): boolean {
+    return KEY_FIELDS.every(field => entry.match[field] === undefined || entry.match[field] === key[field]);
+}
+
+function describe(entry: BenchmarkEntry): string {
+    return KEY_FIELDS.filter(f => entry.match[f] !== undefined).map(f => `${f}:${entry.match[f]}`).join(',');
+}
+
+function emptyPerformance(): HistoricalPerformance {
+    return { impressions: 0, clicks: 0, conversions: 0, spend: 0 };
+}
+
+/**
+ * Map a campaign's goal descriptions ("Brand Awareness", "Conversions") to an objective
+ */
+export function objectiveFromGoals(goals: string[] = []): CampaignObjective | undefined {
+    const text = goals.join(' ').toLowerCase();
+    if (/conver|sales|acquisition|lead|purchase/.test(text)) return 'conversion';
+    if (/consider|engage|traffic/.test(text)) return 'consideration';
+    if (/aware|reach/.test(text)) return 'awareness';
+    return undefined;
+}
+
+/**
+ * Total up a brand's delivered line performance by channel and by vendor
+ */
+export function buildPerformanceHistory(brand: Brand): PerformanceHistory {
+    const history: PerformanceHistory = { byChannel: {}, byVendor: {} };
+
+    brand.campaigns.forEach(campaign => campaign.flights.forEach(flight => flight.lines.forEach(line => {
+        const perf = line.performance;
+        if (!perf || perf.impressions <= 0) return;
+
+        const spend = line.delivery?.actualSpend ?? (perf.cpm ? perf.cpm * perf.impressions / 1000 : line.totalCost);
+        const vendorKey = `${line.channel}|${line.vendor}`;
+        [history.byChannel[line.channel] ??= emptyPerformance(), history.byVendor[vendorKey] ??= emptyPerformance()].forEach(total => {
+            total.impressions += perf.impressions;
+            total.clicks += perf.clicks;
+            total.conversions += perf.conversions;
+            total.spend += spend;
+        });
+    })));
+
+    return history;
+}
+
+export class BenchmarkRepository {
+    private entries: BenchmarkEntry[];
+
+    constructor(entries: BenchmarkEntry[] = DEFAULT_BENCHMARKS) {
+        this.entries = [...entries];
+    }
+
+    /**
+     * Add an entry (e.g. a negotiated vendor rate). Later entries win ties.
+     */
+    register(entry: BenchmarkEntry): void {
+        this.entries.push(entry);
+    }
+
+    /**
+     * Resolve the benchmark for a key, optionally overridden by brand history
+     */
+    resolve(key: BenchmarkKey, history?: PerformanceHistory): ResolvedBenchmark {
+        const matching = this.entries
+            .filter(entry => matches(entry, key))
+            .map((entry, index) => ({ entry, index, specificity: Object.keys(entry.match).length }))
+            .sort((a, b) => a.specificity - b.specificity || a.index - b.index);
+
+        const benchmark: Benchmark = { ...FALLBACK_BENCHMARK };
+        const sources: string[] = [];
+
+        matching.forEach(({ entry }) => {
+            if (!entry.set) return;
+            Object.assign(benchmark, entry.set);
+            sources.push(describe(entry));
+        });
+        matching.forEach(({ entry }) => {
+            if (!entry.scale) return;
+            (Object.keys(entry.scale) as (keyof Benchmark)[]).forEach(field => {
+                benchmark[field] *= entry.scale![field]!;
+            });
+            sources.push(describe(entry));
+        });
+
+        if (history) {
+            const vendorHistory = key.vendor ? history.byVendor[`${key.channel}|${key.vendor}`] : undefined;
+            const observed = [vendorHistory, history.byChannel[key.channel]]
+                .find(h => h && h.impressions >= MIN_HISTORY_IMPRESSIONS);
+            if (observed) {
+                benchmark.cpm = observed.spend / observed.impressions * 1000;
+                if (observed.clicks > 0) benchmark.ctr = observed.clicks / observed.impressions;
+                if (observed.clicks >= MIN_HISTORY_CLICKS) benchmark.cvr = observed.conversions / observed.clicks;
+                sources.push(observed === vendorHistory ? 'history:vendor' : 'history:channel');
+            }
+        }
+
+        return {
+            ...benchmark,
+            cpc: benchmark.ctr > 0 ? benchmark.cpm / (1000 * benchmark.ctr) : 0,
+            sources
+        };
+    }
+
+    /**
+     * Resolve the benchmark for a plan line
+     */
+    forLine(line: Line, objective?: CampaignObjective, history?: PerformanceHistory): ResolvedBenchmark {
+        return this.resolve({
+            channel: line.channel,
+            vendor: line.vendor,
+            adUnit: line.adUnit,
+            buyingType: line.buyingType || 'Auction',
+            objective
+        }, history);
+    }
+}
+
+export const benchmarkRepository = new BenchmarkRepository();
@@ -0,0 +1,195 @@
+/**
+ * Campaign Timeline - Gantt layout, weekly spend density and dark-period detection
+ *
+ * Dates are plain 'YYYY-MM-DD' strings and are handled as whole UTC days so
+ * bar positions never drift with the viewer's timezone.
+ */
+
+import { Campaign, Flight, Line } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineFlight {
+    flight: Flight;
+    lines: Line[];
+}
+
+export interface WeeklySpend {
+    weekStart: string;
+    spend: number;
+}
+
+export interface DarkPeriod {
+    startDate: string;
+    endDate: string;
+    days: number;
+}
+
+export interface CampaignTimeline {
+    startDate: string;
+    endDate: string;
+    totalDays: number;
+    flights: TimelineFlight[];
+    weeklySpend: WeeklySpend[];
+    darkPeriods: DarkPeriod[];
+}
+
+/**
+ * A reschedule of one line, or of a whole flight when lineId is omitted
+ */
+export interface DateChange {
+    flightId?: string;
+    lineId?: string;
+    startDate: string;
+    endDate: string;
+}
+
+/**
+ * Whole days since the epoch for a 'YYYY-MM-DD' (or ISO) date
+ */
+export function toDayNumber(date: string): number {
+    const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+    return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+export function fromDayNumber(day: number): string {
+    return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+export function shiftDate(date: string, days: number): string {
+    return fromDayNumber(toDayNumber(date) + days);
+}
+
+/**
+ * Inclusive number of days between two dates
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+    return toDayNumber(endDate) - toDayNumber(startDate) + 1;
+}
+
+function isValidDate(date: string | undefined): date is string {
+    return !!date && /^\d{4}-\d{2}-\d{2}/.test(date) && !isNaN(toDayNumber(date));
+}
+
+/**
+ * Flights with their lines. The active flight is read from campaign.placements,
+ * which is where edits to the open plan land.
+ */
+export function getTimelineFlights(campaign: Campaign, activeFlightId?: string): TimelineFlight[] {
+    const flights = (campaign.flights || []).map(flight => ({
+        flight,
+        lines: flight.id === activeFlightId && campaign.placements ? campaign.placements : flight.lines || []
+    }));
+
+    // Plans built before flights existed only carry placements
+    if (flights.length === 0 && campaign.placements?.length) {
+        flights.push({
+            flight: {
+                id: activeFlightId || campaign.id,
+                name: campaign.name,
+                campaignId: campaign.id,
+                startDate: campaign.startDate,
+                endDate: campaign.endDate,
+                budget: campaign.budget,
+                status: campaign.status,
+                tags: [],
+                lines: campaign.placements
+            },
+            lines: campaign.placements
+        });
+    }
+
+    return flights.sort((a, b) => toDayNumber(a.flight.startDate) - toDayNumber(b.flight.startDate));
+}
+
+/**
+ * Spend per calendar week (weeks start on Monday), prorating each line's cost evenly across its days
+ */
+export function calculateWeeklySpend(lines: Line[], startDate: string, endDate: string): WeeklySpend[] {
+    const first = toDayNumber(startDate);
+    const last = toDayNumber(endDate);
+    // 1970-01-01 was a Thursday, so (day + 3) % 7 is 0 on Mondays
+    const firstWeek = first - ((first + 3) % 7);
+    const weeks: WeeklySpend[] = [];
+    for (let day = firstWeek; day <= last; day += 7) {
+        weeks.push({ weekStart: fromDayNumber(day), spend: 0 });
+    }
+
+    lines.forEach(line => {
+        if (!isValidDate(line.startDate) || !isValidDate(line.endDate)) return;
+        const lineStart = toDayNumber(line.startDate);
+        const lineEnd = toDayNumber(line.endDate);
+        if (lineEnd < lineStart) return;
+        const daily = line.totalCost / (lineEnd - lineStart + 1);
+
+        for (let day = Math.max(lineStart, first); day <= Math.min(lineEnd, last); day++) {
+            weeks[Math.floor((day - firstWeek) / 7)].spend += daily;
+        }
+    });
+
+    return weeks;
+}
+
+/**
+ * Stretches between startDate and endDate where no line that could deliver is scheduled.
+ * Paused lines don't count as live media.
+ */
+export function findDarkPeriods(lines: Line[], startDate: string, endDate: string): DarkPeriod[] {
+    const ranges = lines
+        .filter(line => line.status !== 'PAUSED' && isValidDate(line.startDate) && isValidDate(line.endDate))
+        .map(line => [toDayNumber(line.startDate), toDayNumber(line.endDate)] as const)
+        .filter(([start, end]) => end >= start)
+        .sort((a, b) => a[0] - b[0]);
+
+    const periods: DarkPeriod[] = [];
+    const last = toDayNumber(endDate);
+    let cursor = toDayNumber(startDate);
+
+    const addGap = (from: number, to: number) => {
+        if (to >= from) {
+            periods.push({ startDate: fromDayNumber(from), endDate: fromDayNumber(to), days: to - from + 1 });
+        }
+    };
+
+    for (const [start, end] of ranges) {
+        if (cursor > last) break;
+        addGap(cursor, Math.min(start - 1, last));
+        cursor = Math.max(cursor, end + 1);
+    }
+    addGap(cursor, last);
+
+    return periods;
+}
+
+/**
+ * Everything the Gantt view needs for a campaign: the date span, bars, weekly density and gaps
+ */
+export function buildCampaignTimeline(campaign: Campaign, activeFlightId?: string): CampaignTimeline {
+    const flights = getTimelineFlights(campaign, activeFlightId);
+    const allLines = flights.flatMap(f => f.lines);
+
+    const dates = [
+        campaign.startDate,
+        campaign.endDate,
+        ...flights.flatMap(f => [f.flight.startDate, f.flight.endDate]),
+        ...allLines.flatMap(l => [l.startDate, l.endDate])
+    ].filter(isValidDate);
+
+    const days = dates.map(toDayNumber);
+    const today = Math.floor(Date.now() / DAY_MS);
+    const startDate = fromDayNumber(days.length ? Math.min(...days) : today);
+    const endDate = fromDayNumber(days.length ? Math.max(...days) : today);
+
+    // Gaps are only meaningful inside the campaign's own window
+    const darkStart = isValidDate(campaign.startDate) ? campaign.startDate : startDate;
+    const darkEnd = isValidDate(campaign.endDate) ? campaign.endDate : endDate;
+
+    return {
+        startDate,
+        endDate,
+        totalDays: daysBetween(startDate, endDate),
+        flights,
+        weeklySpend: calculateWeeklySpend(allLines, startDate, endDate),
+        darkPeriods: findDarkPeriods(allLines, darkStart, darkEnd)
+    };
+}
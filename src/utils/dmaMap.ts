@@ -0,0 +1,268 @@
+/**
+ * DMA Map - Projection, DMA shapes and shading for the DMA choropleth
+ *
+ * METHODOLOGY:
+ * ============
+ * PROJECTION:
+ * Albers equal-area conic, composed like a standard US map on a 960×510 canvas:
+ * - Lower 48: standard parallels 29.5° / 45.5°
+ * - Alaska: parallels 55° / 65°, scaled to 35% and inset bottom-left
+ * - Hawaii: parallels 8° / 18°, inset next to Alaska
+ * invertPoint() maps a click back to longitude / latitude through the inset it falls in.
+ *
+ * SHAPES:
+ * Each DMA is the area closer to its center than to any other DMA center in the
+ * same region (a Voronoi cell), built by clipping a bounding box with the
+ * perpendicular bisector to every other center. Cells are drawn clipped to the
+ * region outline. Real DMAs follow county lines; these only approximate them.
+ *
+ * SHADING:
+ * Spend, impressions and household coverage: value / max over 7 sequential steps.
+ * Pacing: under (< 95%), on track, over (> 105%), the same bands as line delivery.
+ */
+
+import { DMA_LIST } from '../data/dmaDatabase';
+import { DMA_CENTROIDS, GREAT_LAKES, LonLat, MapRegion, REGION_OUTLINES, getDMARegion } from '../data/dmaGeometry';
+import { DMAForecastRow } from './geoPlanning';
+
+export type Point = [number, number];
+
+export interface DMAShape {
+    dmaId: number;
+    region: MapRegion;
+    path: string;       // SVG path data in map coordinates
+    center: Point;
+}
+
+export type DMAMapMetric = 'spend' | 'impressions' | 'households' | 'pacing';
+
+export type PacingBand = 'UNDER_PACING' | 'ON_TRACK' | 'OVER_PACING';
+
+export const MAP_WIDTH = 960;
+export const MAP_HEIGHT = 510;
+
+export const DMA_MAP_METRICS: Record<DMAMapMetric, string> = {
+    spend: 'Spend',
+    impressions: 'Impressions',
+    households: 'Household Coverage',
+    pacing: 'Pacing'
+};
+
+/** Light to dark, for spend, impressions and households */
+export const SEQUENTIAL_COLORS = ['#f3e8ff', '#e9d5ff', '#d8b4fe', '#c084fc', '#a855f7', '#9333ea', '#7e22ce'];
+
+export const PACING_COLORS: Record<PacingBand, string> = {
+    UNDER_PACING: '#f59e0b',
+    ON_TRACK: '#22c55e',
+    OVER_PACING: '#ef4444'
+};
+
+export const NO_DATA_COLOR = '#f3f4f6';
+
+const MILES_PER_DEGREE_LATITUDE = 69.05;
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+interface AlbersParams {
+    parallels: [number, number];
+    origin: LonLat;         // Lands on `translate`
+    scale: number;
+    translate: Point;
+}
+
+const BASE_SCALE = 1070;
+
+const PROJECTIONS: Record<MapRegion, AlbersParams> = {
+    LOWER_48: { parallels: [29.5, 45.5], origin: [-96, 38.7], scale: BASE_SCALE, translate: [480, 250] },
+    ALASKA: { parallels: [55, 65], origin: [-156, 58.5], scale: BASE_SCALE * 0.35, translate: [151.5, 465] },
+    HAWAII: { parallels: [8, 18], origin: [-160, 19.9], scale: BASE_SCALE, translate: [260.5, 477] }
+};
+
+// Inset boxes a click is tested against before falling back to the lower 48
+const INSET_BOUNDS: { region: MapRegion; x: [number, number]; y: [number, number] }[] = [
+    { region: 'ALASKA', x: [25, 251], y: [378, 500] },
+    { region: 'HAWAII', x: [251, 357], y: [427, 500] }
+];
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+function albersConstants({ parallels, origin }: AlbersParams) {
+    const sin1 = Math.sin(toRad(parallels[0]));
+    const n = (sin1 + Math.sin(toRad(parallels[1]))) / 2;
+    const c = Math.cos(toRad(parallels[0])) ** 2 + 2 * n * sin1;
+    const rho0 = Math.sqrt(c - 2 * n * Math.sin(toRad(origin[1]))) / n;
+    return { n, c, rho0 };
+}
+
+/**
+ * Longitude / latitude to map coordinates, in the region's inset
+ */
+export function projectPoint([lon, lat]: LonLat, region: MapRegion = 'LOWER_48'): Point {
+    const params = PROJECTIONS[region];
+    const { n, c, rho0 } = albersConstants(params);
+    const rho = Math.sqrt(c - 2 * n * Math.sin(toRad(lat))) / n;
+    const theta = n * toRad(lon - params.origin[0]);
+    return [
+        params.translate[0] + params.scale * rho * Math.sin(theta),
+        params.translate[1] - params.scale * (rho0 - rho * Math.cos(theta))
+    ];
+}
+
+/**
+ * Which inset a point in map coordinates falls in
+ */
+export function getPointRegion([x, y]: Point): MapRegion {
+    const inset = INSET_BOUNDS.find(b => x >= b.x[0] && x < b.x[1] && y >= b.y[0] && y < b.y[1]);
+    return inset?.region ?? 'LOWER_48';
+}
+
+/**
+ * Map coordinates back to longitude / latitude
+ */
+export function invertPoint(point: Point): LonLat {
+    const [x, y] = point;
+    const params = PROJECTIONS[getPointRegion(point)];
+    const { n, c, rho0 } = albersConstants(params);
+    const px = (x - params.translate[0]) / params.scale;
+    const py = rho0 + (y - params.translate[1]) / params.scale;
+    const rho = Math.sign(n) * Math.sqrt(px * px + py * py);
+    const theta = Math.atan2(px, py);
+    const sinLat = Math.max(-1, Math.min(1, (c - (rho * n) ** 2) / (2 * n)));
+    return [params.origin[0] + toDeg(theta / n), toDeg(Math.asin(sinLat))];
+}
+
+/**
+ * Map units per mile at a point, for drawing a radius
+ */
+export function milesToMapUnits(point: LonLat, miles: number, region: MapRegion = 'LOWER_48'): number {
+    const [, y1] = projectPoint(point, region);
+    const [, y2] = projectPoint([point[0], point[1] + miles / MILES_PER_DEGREE_LATITUDE], region);
+    return Math.abs(y2 - y1);
+}
+
+function toPath(points: Point[]): string {
+    return points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join('') + 'Z';
+}
+
+/**
+ * Outline paths per region, used as clip paths
+ */
+export function getRegionPaths(): Record<MapRegion, string> {
+    const paths = {} as Record<MapRegion, string>;
+    (Object.keys(REGION_OUTLINES) as MapRegion[]).forEach(region => {
+        paths[region] = REGION_OUTLINES[region].map(ring => toPath(ring.map(p => projectPoint(p, region)))).join('');
+    });
+    return paths;
+}
+
+export function getLakePaths(): string[] {
+    return GREAT_LAKES.map(lake => toPath(lake.map(p => projectPoint(p))));
+}
+
+// =============================================================================
+// SHAPES
+// =============================================================================
+
+/**
+ * Keep the part of a convex polygon on `site`'s side of the bisector with `other`
+ */
+function clipToBisector(polygon: Point[], site: Point, other: Point): Point[] {
+    const nx = other[0] - site[0];
+    const ny = other[1] - site[1];
+    const offset = (nx * (site[0] + other[0]) + ny * (site[1] + other[1])) / 2;
+    const inside = (p: Point) => nx * p[0] + ny * p[1] <= offset;
+    const crossing = (a: Point, b: Point): Point => {
+        const da = nx * a[0] + ny * a[1] - offset;
+        const db = nx * b[0] + ny * b[1] - offset;
+        const t = da / (da - db);
+        return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    };
+
+    const result: Point[] = [];
+    polygon.forEach((current, i) => {
+        const previous = polygon[(i + polygon.length - 1) % polygon.length];
+        if (inside(current)) {
+            if (!inside(previous)) result.push(crossing(previous, current));
+            result.push(current);
+        } else if (inside(previous)) {
+            result.push(crossing(previous, current));
+        }
+    });
+    return result;
+}
+
+function boundingBox(points: Point[], padding: number): Point[] {
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    const [x0, x1] = [Math.min(...xs) - padding, Math.max(...xs) + padding];
+    const [y0, y1] = [Math.min(...ys) - padding, Math.max(...ys) + padding];
+    return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+}
+
+/**
+ * Voronoi cells around a set of sites, bounded by `bounds`
+ */
+export function buildCells(sites: Point[], bounds: Point[]): Point[][] {
+    return sites.map((site, i) => sites.reduce(
+        (cell, other, j) => (j === i || cell.length === 0 ? cell : clipToBisector(cell, site, other)),
+        bounds
+    ));
+}
+
+let cachedShapes: DMAShape[] | null = null;
+
+/**
+ * One shape per DMA, built once
+ */
+export function getDMAShapes(): DMAShape[] {
+    if (cachedShapes) return cachedShapes;
+
+    const shapes: DMAShape[] = [];
+    (Object.keys(REGION_OUTLINES) as MapRegion[]).forEach(region => {
+        const dmas = DMA_LIST.filter(dma => getDMARegion(dma.state) === region && DMA_CENTROIDS[dma.id]);
+        const sites = dmas.map(dma => projectPoint(DMA_CENTROIDS[dma.id], region));
+        const outline = REGION_OUTLINES[region].flat().map(p => projectPoint(p, region));
+        buildCells(sites, boundingBox(outline, 10)).forEach((cell, i) => {
+            shapes.push({ dmaId: dmas[i].id, region, path: toPath(cell), center: sites[i] });
+        });
+    });
+
+    cachedShapes = shapes;
+    return shapes;
+}
+
+// =============================================================================
+// SHADING
+// =============================================================================
+
+export function getPacingBand(pacing: number): PacingBand {
+    if (pacing < 95) return 'UNDER_PACING';
+    if (pacing > 105) return 'OVER_PACING';
+    return 'ON_TRACK';
+}
+
+/**
+ * A metric's value per DMA from the geo forecast rows. DMAs without data are left out.
+ */
+export function getDMAMetricValues(rows: DMAForecastRow[], metric: DMAMapMetric): Map<number, number> {
+    const values = new Map<number, number>();
+    rows.forEach(row => {
+        const value = metric === 'households' ? row.tvHouseholds : row[metric];
+        if (value !== null && value > 0) values.set(row.dmaId, value);
+    });
+    return values;
+}
+
+/**
+ * Fill color for a DMA's value
+ */
+export function getMetricColor(metric: DMAMapMetric, value: number | undefined, max: number): string {
+    if (value === undefined) return NO_DATA_COLOR;
+    if (metric === 'pacing') return PACING_COLORS[getPacingBand(value)];
+    if (max <= 0) return NO_DATA_COLOR;
+    const step = Math.min(Math.floor((value / max) * SEQUENTIAL_COLORS.length), SEQUENTIAL_COLORS.length - 1);
+    return SEQUENTIAL_COLORS[step];
+}
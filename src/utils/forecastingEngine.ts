@@ -5,25 +5,39 @@
  * ============
  * Predicts campaign performance using:
  * 1. Seasonal adjustments (monthly CPM/engagement factors)
- * 2. Audience overlap detection (reduces inflated reach)
+ * 2. Reach and frequency from the NBD model in reachFrequency.ts
  * 3. Delivery predictions with confidence intervals
- * 4. Monte Carlo simulations for uncertainty
+ * 4. Monte Carlo simulations for uncertainty (monteCarloSimulation.ts)
  * 
  * SEASONAL ADJUSTMENT FORMULA:
  * Adjusted Metric = Base Metric × Seasonal Factor
  * 
- * AUDIENCE OVERLAP FORMULA:
- * Adjusted Reach = Sum(Individual Reaches) - Overlap Amount
- * Where: Overlap = Smallest Reach × Overlap Percentage
+ * AUDIENCE OVERLAP:
+ * Overlap = Sum(Channel Reaches) - Deduplicated Reach
+ * Channels duplicate at random (Sainsbury), see reachFrequency.ts
  * 
+ * PER-LINE BENCHMARKS:
+ * CPM, CTR and CVR come from the benchmark repository for each line's channel,
+ * vendor, ad unit, buying type and the campaign objective (or the brand's own
+ * history). How a line's spend turns into delivery depends on its cost method:
+ * - CPM:       Impressions = Spend / CPM × 1000
+ * - CPC:       Clicks = Spend / CPC, Impressions = Clicks / CTR
+ * - Flat/Spot: Impressions = Quantity × Impressions per unit
+ * Auction lines price at the seasonally adjusted benchmark; PMP and Direct
+ * lines at their booked rate.
+ *
  * CONFIDENCE INTERVALS:
  * 90% CI = Mean ± (1.645 × Standard Deviation)
  * 95% CI = Mean ± (1.96 × Standard Deviation)
  * 
- * See: /docs/calculation_methodologies.md Section 10
+ * Reach, frequency and overlap: see reachFrequency.ts (per-channel NBD reach,
+ * deduplicated across channels with Sainsbury's formula)
  */
 
-import { Placement } from '../types';
+import { Brand, Campaign, Placement } from '../types';
+import { CampaignObjective } from './budgetOptimizer';
+import { BenchmarkRepository, PerformanceHistory, benchmarkRepository, buildPerformanceHistory, objectiveFromGoals } from './benchmarkRepository';
+import { ChannelDelivery, ReachFrequencyOptions, REPORTED_FREQUENCIES, estimateReach, reachAtFrequency } from './reachFrequency';
 
 export interface ForecastResult {
     impressions: { p25: number; p50: number; p75: number };
@@ -33,12 +47,54 @@ export interface ForecastResult {
     reach: number;
     adjustedReach: number; // After overlap correction
     frequency: number;
+    reachAtFrequency: Record<number, number>; // People exposed n+ times, for n in REPORTED_FREQUENCIES
     overlapPercentage: number;
     seasonalImpact: string;
     confidence: 'HIGH' | 'MEDIUM' | 'LOW';
     warnings: string[];
 }
 
+export interface ForecastOptions {
+    objective?: CampaignObjective;
+    history?: PerformanceHistory;       // Brand's own performance, see buildPerformanceHistory()
+    benchmarks?: BenchmarkRepository;   // Defaults to the shared repository
+    population?: number;                // Target audience size for reach, see reachFrequency.ts
+}
+
+/**
+ * Everything needed to turn one line's spend into delivery
+ */
+export interface LineForecastInputs {
+    channel: string;
+    costMethod: Placement['costMethod'];
+    budget: number;
+    quantity: number;
+    cpm: number;             // Booked rate, or seasonally adjusted benchmark
+    cpc: number;
+    ctr: number;             // Seasonally adjusted
+    cvr: number;
+    unitImpressions: number;
+    deliveryFactor: number;
+    bookedPrice: boolean;    // PMP/Direct lines pay their rate, whatever the market does
+}
+
+/**
+ * The uncertain quantities in a line forecast. forecastCampaign uses the
+ * expected values; the Monte Carlo simulation samples them.
+ */
+export interface LineDrivers {
+    priceMultiplier: number;
+    ctr: number;
+    cvr: number;
+    deliveryRate: number;
+}
+
+export interface LineProjection {
+    impressions: number;
+    clicks: number;
+    conversions: number;
+}
+
 export interface SeasonalFactors {
     cpmMultiplier: number;
     engagementMultiplier: number;
@@ -72,46 +128,6 @@ const SEASONAL_FACTORS: Record<number, Record<string, number>> = {
     11: { 'Social': 1.15, 'Display': 1.10, 'Search': 1.12, 'Video': 1.10, 'CTV': 1.20, 'TV': 1.20, 'Audio': 1.08, 'OOH': 0.85 }  // Dec
 };
 
-/**
- * Audience overlap percentages by channel combination
- * 
- * Represents percentage of smaller audience that overlaps with larger
- * 
- * Example: Social + Display = 35% means if Social reaches 500k and Display 400k,
- *          35% of Display's 400k (140k) are also in Social's audience
- * 
- * Based on industry research on platform user overlap
- */
-const AUDIENCE_OVERLAP: Record<string, number> = {
-    'Social+Display': 0.35,
-    'Social+Search': 0.25,
-    'Social+Video': 0.40,
-    'Social+CTV': 0.30,
-    'Social+TV': 0.15,
-    'Social+Audio': 0.20,
-
-    'Display+Search': 0.20,
-    'Display+Video': 0.45,
-    'Display+CTV': 0.25,
-    'Display+TV': 0.10,
-
-    'Search+Video': 0.22,
-    'Search+CTV': 0.18,
-    'Search+TV': 0.08,
-
-    'Video+CTV': 0.50,
-    'Video+TV': 0.35,
-
-    'CTV+TV': 0.45,
-    'CTV+Audio': 0.25,
-
-    'TV+Audio': 0.30,
-
-    'OOH+Social': 0.05,
-    'OOH+Display': 0.05,
-    'OOH+TV': 0.08
-};
-
 /**
  * Delivery reliability factors by channel
  * Represents percentage of predicted impressions actually delivered
@@ -155,79 +171,130 @@ export function getSeasonalFactors(month: number, channel: string): SeasonalFact
 }
 
 /**
- * Calculate audience overlap between multiple placements
+ * Calculate audience overlap between channels from the placements' own forecasts
  */
-export function calculateAudienceOverlap(placements: Placement[]): {
+export function calculateAudienceOverlap(placements: Placement[], options: ReachFrequencyOptions = {}): {
     totalReach: number;
     adjustedReach: number;
     overlapAmount: number;
     overlapPercentage: number;
 } {
-    if (placements.length === 0) {
-        return { totalReach: 0, adjustedReach: 0, overlapAmount: 0, overlapPercentage: 0 };
-    }
-
-    // Calculate reach per placement (simplified: impressions / frequency)
-    const placementReaches = placements.map(p => {
-        const impressions = p.forecast?.impressions || 0;
-        const frequency = p.forecast?.frequency || 5;
-        return {
-            channel: p.channel,
-            reach: impressions / frequency
-        };
+    const channelImpressions: Record<string, number> = {};
+    placements.forEach(p => {
+        channelImpressions[p.channel] = (channelImpressions[p.channel] || 0) + (p.forecast?.impressions || 0);
     });
 
-    const totalReach = placementReaches.reduce((sum, pr) => sum + pr.reach, 0);
+    const estimate = estimateReach(channelImpressions, options);
+    const totalReach = estimate.byChannel.reduce((sum, c) => sum + c.reach, 0);
+    const overlapAmount = Math.max(0, totalReach - estimate.reach);
 
-    // Calculate pairwise overlaps
-    let totalOverlap = 0;
-    const channels = placementReaches.map(pr => pr.channel);
+    return {
+        totalReach,
+        adjustedReach: estimate.reach,
+        overlapAmount,
+        overlapPercentage: totalReach > 0 ? (overlapAmount / totalReach) * 100 : 0
+    };
+}
 
-    for (let i = 0; i < placementReaches.length; i++) {
-        for (let j = i + 1; j < placementReaches.length; j++) {
-            const ch1 = placementReaches[i].channel;
-            const ch2 = placementReaches[j].channel;
-            const reach1 = placementReaches[i].reach;
-            const reach2 = placementReaches[j].reach;
+/**
+ * Month (0-11) of a YYYY-MM-DD start date. Date-only strings parse as UTC midnight,
+ * so the local month would be the previous one west of Greenwich on the 1st.
+ */
+export function getStartMonth(startDate: string): number {
+    return new Date(startDate).getUTCMonth();
+}
 
-            // Get overlap percentage from matrix
-            const key1 = `${ch1}+${ch2}`;
-            const key2 = `${ch2}+${ch1}`;
-            const overlapPct = AUDIENCE_OVERLAP[key1] || AUDIENCE_OVERLAP[key2] || 0.15; // Default 15% if not in matrix
+/**
+ * Benchmarks, seasonality and delivery factor for one line in the campaign's start month
+ */
+export function getLineForecastInputs(placement: Placement, month: number, options: ForecastOptions = {}): LineForecastInputs {
+    const benchmarks = options.benchmarks || benchmarkRepository;
+    const seasonal = getSeasonalFactors(month, placement.channel);
+    const benchmark = benchmarks.forLine(placement, options.objective, options.history);
+    const bookedRate = placement.buyingType === 'PMP' || placement.buyingType === 'Direct' ? placement.rate : 0;
 
-            // Overlap is percentage of smaller reach
-            const smallerReach = Math.min(reach1, reach2);
-            const overlap = smallerReach * overlapPct;
-            totalOverlap += overlap;
-        }
+    return {
+        channel: placement.channel,
+        costMethod: placement.costMethod,
+        budget: placement.totalCost,
+        quantity: placement.quantity,
+        cpm: (placement.costMethod === 'CPM' && bookedRate) || benchmark.cpm * seasonal.cpmMultiplier,
+        cpc: (placement.costMethod === 'CPC' && bookedRate) || benchmark.cpc * seasonal.cpmMultiplier,
+        ctr: benchmark.ctr * seasonal.engagementMultiplier,
+        cvr: benchmark.cvr,
+        unitImpressions: benchmark.unitImpressions,
+        deliveryFactor: DELIVERY_FACTORS[placement.channel] || 0.90,
+        bookedPrice: bookedRate > 0
+    };
+}
+
+/**
+ * Turn a line's spend (or quantity, for Flat/Spot) into delivery
+ */
+export function projectLine(inputs: LineForecastInputs, drivers: LineDrivers = {
+    priceMultiplier: 1,
+    ctr: inputs.ctr,
+    cvr: inputs.cvr,
+    deliveryRate: inputs.deliveryFactor
+}): LineProjection {
+    let impressions: number;
+    let clicks: number;
+    if (inputs.costMethod === 'CPC') {
+        const cpc = inputs.cpc * drivers.priceMultiplier;
+        clicks = cpc > 0 ? (inputs.budget / cpc) * drivers.deliveryRate : 0;
+        impressions = drivers.ctr > 0 ? clicks / drivers.ctr : 0;
+    } else if (inputs.costMethod === 'Flat' || inputs.costMethod === 'Spot') {
+        impressions = inputs.quantity * inputs.unitImpressions * drivers.deliveryRate;
+        clicks = impressions * drivers.ctr;
+    } else {
+        const cpm = inputs.cpm * drivers.priceMultiplier;
+        impressions = cpm > 0 ? (inputs.budget / cpm) * 1000 * drivers.deliveryRate : 0;
+        clicks = impressions * drivers.ctr;
     }
 
-    const adjustedReach = Math.max(0, totalReach - totalOverlap);
-    const overlapPercentage = totalReach > 0 ? (totalOverlap / totalReach) * 100 : 0;
+    return { impressions, clicks, conversions: clicks * drivers.cvr };
+}
 
+/**
+ * Forecast options for a campaign: its objective, and the brand's history when known
+ */
+export function getForecastOptions(campaign: Pick<Campaign, 'goals'>, brand?: Brand | null): ForecastOptions {
     return {
-        totalReach,
-        adjustedReach,
-        overlapAmount: totalOverlap,
-        overlapPercentage
+        objective: objectiveFromGoals(campaign.goals),
+        history: brand ? buildPerformanceHistory(brand) : undefined
     };
 }
 
+/**
+ * Spend and forecast impressions per channel, the input to the reach & frequency model
+ */
+export function getChannelDelivery(placements: Placement[], startDate: string, options: ForecastOptions = {}): ChannelDelivery[] {
+    const month = getStartMonth(startDate);
+    const byChannel = new Map<string, ChannelDelivery>();
+    placements.forEach(placement => {
+        const delivery = byChannel.get(placement.channel) ?? { channel: placement.channel, spend: 0, impressions: 0 };
+        delivery.spend += placement.totalCost;
+        delivery.impressions += projectLine(getLineForecastInputs(placement, month, options)).impressions;
+        byChannel.set(placement.channel, delivery);
+    });
+    return Array.from(byChannel.values());
+}
+
 /**
  * Forecast campaign performance with confidence intervals
- * 
- * Uses Monte Carlo-style simulation (simplified):
- * - Runs multiple scenarios with variance
- * - Returns P25, P50 (median), P75 predictions
+ *
+ * Analytic estimate: expected values per line, with P25/P75 from fixed
+ * standard deviations. simulateForecast() in monteCarloSimulation.ts samples
+ * the full distributions instead.
  */
 export function forecastCampaign(
     placements: Placement[],
     startDate: string,
-    endDate: string
+    endDate: string,
+    options: ForecastOptions = {}
 ): ForecastResult {
-    const start = new Date(startDate);
     const end = new Date(endDate);
-    const month = start.getMonth();
+    const month = getStartMonth(startDate);
 
     // Aggregate forecasts from all placements
     let totalImpressions = 0;
@@ -236,28 +303,15 @@ export function forecastCampaign(
     let totalSpend = 0;
 
     const warnings: string[] = [];
+    const channelImpressions: Record<string, number> = {};
 
     placements.forEach(placement => {
-        const channel = placement.channel;
         const budget = placement.totalCost;
-
-        // Get seasonal adjustment
-        const seasonal = getSeasonalFactors(month, channel);
-        const deliveryFactor = DELIVERY_FACTORS[channel] || 0.90;
-
-        // Base calculations
-        const baseCPM = 15; // Simplified - would use channel benchmarks
-        const adjustedCPM = baseCPM * seasonal.cpmMultiplier;
-        const impressions = (budget / adjustedCPM) * 1000 * deliveryFactor;
-
-        const baseCTR = 0.02; // 2% baseline
-        const adjustedCTR = baseCTR * seasonal.engagementMultiplier;
-        const clicks = impressions * adjustedCTR;
-
-        const baseCVR = 0.02; // 2% conversion rate
-        const conversions = clicks * baseCVR;
+        const seasonal = getSeasonalFactors(month, placement.channel);
+        const { impressions, clicks, conversions } = projectLine(getLineForecastInputs(placement, month, options));
 
         totalImpressions += impressions;
+        channelImpressions[placement.channel] = (channelImpressions[placement.channel] || 0) + impressions;
         totalClicks += clicks;
         totalConversions += conversions;
         totalSpend += budget;
@@ -280,9 +334,12 @@ export function forecastCampaign(
     // Z-score for 50% intervals around median (approximates P25/P75)
     const z = 0.674; // For 50% of distribution
 
-    // Calculate audience overlap
-    const { adjustedReach, overlapPercentage } = calculateAudienceOverlap(placements);
-    const avgFrequency = adjustedReach > 0 ? totalImpressions / adjustedReach : 5;
+    // Deduplicated reach across channels
+    const reachEstimate = estimateReach(channelImpressions, { population: options.population });
+    const adjustedReach = reachEstimate.reach;
+    const channelReach = reachEstimate.byChannel.reduce((sum, c) => sum + c.reach, 0);
+    const overlapPercentage = channelReach > 0 ? ((channelReach - adjustedReach) / channelReach) * 100 : 0;
+    const avgFrequency = adjustedReach > 0 ? totalImpressions / adjustedReach : 0;
 
     // Determine confidence level
     let confidence: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
@@ -313,6 +370,7 @@ export function forecastCampaign(
         reach: Math.round(adjustedReach),
         adjustedReach: Math.round(adjustedReach),
         frequency: parseFloat(avgFrequency.toFixed(1)),
+        reachAtFrequency: Object.fromEntries(REPORTED_FREQUENCIES.map(n => [n, Math.round(reachAtFrequency(reachEstimate, n))])),
         overlapPercentage: parseFloat(overlapPercentage.toFixed(1)),
         seasonalImpact: getSeasonalImpactMessage(month, placements),
         confidence,
@@ -0,0 +1,237 @@
+/**
+ * Geo Planning - DMA budget splits, per-DMA forecasts and household coverage
+ *
+ * METHODOLOGY:
+ * ============
+ * DMA TARGETING:
+ * A line targets its targeting.dmaIds, or else the DMAs its free-text geo names
+ * match ("Chicago", "NYC"). A line with neither runs nationally, across all 210 DMAs.
+ *
+ * BUDGET SPLIT:
+ * Weight = TV Households × Index / 100
+ * DMA Budget = Line Budget × Weight / Sum(Weights of the line's DMAs)
+ * HOUSEHOLDS weighting uses index 100 everywhere. INDEX weighting reads
+ * Campaign.geoPlan.indexes (e.g. a brand development index), 100 when unset.
+ *
+ * FORECAST ROLL-UP:
+ * Each line is forecast once (forecastingEngine.ts), then its spend, impressions,
+ * clicks and conversions split across its DMAs by the same weights. Reach is
+ * modeled per DMA (reachFrequency.ts) with the DMA's share of US TV households
+ * as its population. DMAs don't overlap, so national reach is their sum.
+ * Pacing is the spend-weighted average of the lines' delivery pacing.
+ */
+
+import { GeoPlan, Line } from '../types';
+import { DMA, DMA_LIST, calculateTotalHouseholds, calculateUSCoverage, getDMAById, getDMAByName, searchDMAs, US_TV_HOUSEHOLDS } from '../data/dmaDatabase';
+import { ForecastOptions, getLineForecastInputs, getStartMonth, projectLine } from './forecastingEngine';
+import { DEFAULT_POPULATION, estimateReach } from './reachFrequency';
+
+export interface DMAShare {
+    dma: DMA;
+    index: number;
+    share: number;          // Of the line's budget, 0-1
+}
+
+export interface DMABudget {
+    dmaId: number;
+    name: string;
+    share: number;
+    budget: number;
+}
+
+export interface DMAForecastRow {
+    dmaId: number;
+    name: string;
+    tvHouseholds: number;
+    index: number;
+    lines: number;          // Lines delivering in the DMA, national ones included
+    spend: number;
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    reach: number;
+    pacing: number | null;  // Spend-weighted delivery pacing (%) of lines that have delivered
+}
+
+export interface GeoCoverage {
+    national: boolean;      // At least one line runs nationally
+    dmaCount: number;
+    households: number;
+    percentUS: number;
+}
+
+export interface GeoForecast {
+    rows: DMAForecastRow[];         // DMAs with spend, highest spend first
+    national: {
+        spend: number;
+        impressions: number;
+        clicks: number;
+        conversions: number;
+        reach: number;
+        frequency: number;
+    };
+    coverage: GeoCoverage;
+}
+
+// Running totals for one DMA while lines are split
+interface DMATotals extends Omit<DMAForecastRow, 'reach' | 'pacing'> {
+    channelImpressions: Record<string, number>;
+    pacedSpend: number;     // Spend of lines with delivery
+    pacingSum: number;      // Their pacing × spend
+}
+
+const DEFAULT_INDEX = 100;
+const ALL_DMA_IDS = DMA_LIST.map(dma => dma.id);
+
+/**
+ * DMA ids for free-text markets. Names that match no DMA, or several, are skipped.
+ */
+export function resolveGeoNames(names: string[]): number[] {
+    const ids = names
+        .map(name => {
+            const exact = getDMAByName(name);
+            if (exact) return exact.id;
+            const partial = searchDMAs(name);
+            return partial.length === 1 ? partial[0].id : undefined;
+        })
+        .filter((id): id is number => id !== undefined);
+    return Array.from(new Set(ids));
+}
+
+/**
+ * DMAs a line targets; empty means national
+ */
+export function resolveLineDMAs(line: Pick<Line, 'targeting'>): number[] {
+    const dmaIds = line.targeting?.dmaIds?.filter(id => getDMAById(id));
+    if (dmaIds && dmaIds.length > 0) return dmaIds;
+    return resolveGeoNames(line.targeting?.geo || []);
+}
+
+/**
+ * A line's targeting with a DMA added, or removed when it's already targeted.
+ * Removing the last DMA makes the line national again.
+ */
+export function toggleLineDMA(line: Pick<Line, 'targeting'>, dmaId: number): NonNullable<Line['targeting']> {
+    const current = resolveLineDMAs(line);
+    const dmaIds = current.includes(dmaId) ? current.filter(id => id !== dmaId) : [...current, dmaId];
+    return {
+        demographics: [],
+        devices: [],
+        ...line.targeting,
+        geo: dmaIds.map(id => getDMAById(id)!.name),
+        dmaIds
+    };
+}
+
+export function getDMAIndex(dmaId: number, geoPlan?: GeoPlan): number {
+    return geoPlan?.weighting === 'INDEX' ? geoPlan.indexes?.[dmaId] ?? DEFAULT_INDEX : DEFAULT_INDEX;
+}
+
+/**
+ * Each DMA's share of a budget spread over `dmaIds` (all DMAs when empty)
+ */
+export function splitByDMA(dmaIds: number[], geoPlan?: GeoPlan): DMAShare[] {
+    const ids = new Set(dmaIds.length > 0 ? dmaIds : ALL_DMA_IDS);
+    const weighted = DMA_LIST
+        .filter(dma => ids.has(dma.id))
+        .map(dma => {
+            const index = getDMAIndex(dma.id, geoPlan);
+            return { dma, index, weight: dma.tvHouseholds * index / 100 };
+        });
+    const total = weighted.reduce((sum, w) => sum + w.weight, 0);
+    return weighted.map(({ dma, index, weight }) => ({ dma, index, share: total > 0 ? weight / total : 0 }));
+}
+
+/**
+ * Split a budget across DMAs by households (or households × index)
+ */
+export function splitBudgetByDMA(budget: number, dmaIds: number[], geoPlan?: GeoPlan): DMABudget[] {
+    return splitByDMA(dmaIds, geoPlan).map(({ dma, share }) => ({
+        dmaId: dma.id,
+        name: dma.name,
+        share,
+        budget: budget * share
+    }));
+}
+
+/**
+ * TV households the plan's lines can reach
+ */
+export function calculatePlanCoverage(lines: Pick<Line, 'targeting'>[]): GeoCoverage {
+    const perLine = lines.map(resolveLineDMAs);
+    const national = perLine.some(ids => ids.length === 0);
+    const dmaIds = national ? ALL_DMA_IDS : Array.from(new Set(perLine.flat()));
+
+    return {
+        national,
+        dmaCount: dmaIds.length,
+        households: calculateTotalHouseholds(dmaIds),
+        percentUS: calculateUSCoverage(dmaIds)
+    };
+}
+
+/**
+ * Forecast each line, split it across its DMAs and roll up per DMA and nationally
+ */
+export function forecastByDMA(
+    lines: Line[],
+    startDate: string,
+    geoPlan?: GeoPlan,
+    options: ForecastOptions = {}
+): GeoForecast {
+    const month = getStartMonth(startDate);
+    const rows = new Map<number, DMATotals>();
+
+    lines.forEach(line => {
+        const projected = projectLine(getLineForecastInputs(line, month, options));
+        splitByDMA(resolveLineDMAs(line), geoPlan).forEach(({ dma, index, share }) => {
+            let row = rows.get(dma.id);
+            if (!row) {
+                row = {
+                    dmaId: dma.id, name: dma.name, tvHouseholds: dma.tvHouseholds, index,
+                    lines: 0, spend: 0, impressions: 0, clicks: 0, conversions: 0,
+                    channelImpressions: {}, pacedSpend: 0, pacingSum: 0
+                };
+                rows.set(dma.id, row);
+            }
+            row.lines++;
+            row.spend += line.totalCost * share;
+            row.impressions += projected.impressions * share;
+            row.clicks += projected.clicks * share;
+            row.conversions += projected.conversions * share;
+            row.channelImpressions[line.channel] = (row.channelImpressions[line.channel] || 0) + projected.impressions * share;
+            if (line.delivery) {
+                row.pacedSpend += line.totalCost * share;
+                row.pacingSum += line.delivery.pacing * line.totalCost * share;
+            }
+        });
+    });
+
+    const dmaRows: DMAForecastRow[] = Array.from(rows.values()).map(({ channelImpressions, pacedSpend, pacingSum, ...row }) => {
+        const population = DEFAULT_POPULATION * row.tvHouseholds / US_TV_HOUSEHOLDS;
+        return {
+            ...row,
+            reach: estimateReach(channelImpressions, { population }).reach,
+            pacing: pacedSpend > 0 ? pacingSum / pacedSpend : null
+        };
+    });
+    dmaRows.sort((a, b) => b.spend - a.spend || a.dmaId - b.dmaId);
+
+    const sum = (key: 'spend' | 'impressions' | 'clicks' | 'conversions' | 'reach') =>
+        dmaRows.reduce((total, row) => total + row[key], 0);
+    const reach = sum('reach');
+    const impressions = sum('impressions');
+
+    return {
+        rows: dmaRows,
+        national: {
+            spend: sum('spend'),
+            impressions,
+            clicks: sum('clicks'),
+            conversions: sum('conversions'),
+            reach,
+            frequency: reach > 0 ? impressions / reach : 0
+        },
+        coverage: calculatePlanCoverage(lines)
+    };
+}
@@ -0,0 +1,196 @@
+/**
+ * IO Generator - Insertion orders per vendor
+ *
+ * Groups a plan's lines by vendor, gives each vendor a sequential IO number
+ * (keeping numbers that were already issued) and renders one PDF insertion
+ * order per vendor with jsPDF, like pdfGenerator.ts.
+ */
+
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { MediaPlan, Line, IOStatus } from '../types';
+
+export interface InsertionOrder {
+    ioNumber: string;
+    vendor: string;
+    advertiser: string;
+    campaignName: string;
+    startDate: string;
+    endDate: string;
+    lines: Line[];
+    totalCost: number;
+    status: IOStatus;
+}
+
+export interface InsertionOrderOptions {
+    agencyName?: string;
+    preparedBy?: string;
+}
+
+export const IO_STATUS_LABELS: Record<IOStatus, string> = {
+    DRAFT: 'Draft',
+    SENT: 'Sent',
+    SIGNED: 'Signed'
+};
+
+const DEFAULT_AGENCY = 'FuseIQ';
+
+const IO_TERMS = [
+    'Billing is based on the lesser of ordered or delivered units, net of agency commission unless stated otherwise.',
+    'Vendor will provide third-party verified delivery reports weekly and a final reconciliation within 30 days of the flight end.',
+    'Makegoods for under-delivery must be approved in writing by the agency before they run.',
+    'Either party may cancel this order with 14 days written notice; fees for delivered units remain payable.',
+    'This order is governed by the current IAB/4A\'s Standard Terms and Conditions for Internet Advertising where applicable.'
+];
+
+/**
+ * Group the plan's lines by vendor into insertion orders. Vendors that already
+ * have an IO number keep it; new vendors continue the plan's sequence.
+ */
+export function buildInsertionOrders(mediaPlan: MediaPlan): InsertionOrder[] {
+    const { campaign } = mediaPlan;
+    const lines = campaign.placements || [];
+    const byVendor = new Map<string, Line[]>();
+
+    lines.forEach(line => {
+        const vendor = line.vendor || 'Unknown Vendor';
+        byVendor.set(vendor, [...(byVendor.get(vendor) || []), line]);
+    });
+
+    const year = (campaign.startDate || new Date().toISOString()).slice(0, 4);
+    let nextSequence = getMaxIOSequence(lines, year) + 1;
+
+    return Array.from(byVendor.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([vendor, vendorLines]) => {
+            const existing = vendorLines.find(l => l.ioNumber)?.ioNumber;
+            const ioNumber = existing || `IO-${year}-${String(nextSequence++).padStart(3, '0')}`;
+
+            return {
+                ioNumber,
+                vendor,
+                advertiser: campaign.advertiser,
+                campaignName: campaign.name,
+                startDate: vendorLines.map(l => l.startDate).sort()[0],
+                endDate: vendorLines.map(l => l.endDate).sort().reverse()[0],
+                lines: vendorLines,
+                totalCost: vendorLines.reduce((sum, l) => sum + l.totalCost, 0),
+                status: getVendorIOStatus(vendorLines)
+            };
+        });
+}
+
+/**
+ * A vendor is only as far along as its least-advanced line
+ */
+export function getVendorIOStatus(lines: Line[]): IOStatus {
+    if (lines.length > 0 && lines.every(l => l.ioStatus === 'SIGNED')) return 'SIGNED';
+    if (lines.length > 0 && lines.every(l => l.ioStatus === 'SIGNED' || l.ioStatus === 'SENT')) return 'SENT';
+    return 'DRAFT';
+}
+
+function getMaxIOSequence(lines: Line[], year: string): number {
+    const pattern = new RegExp(`^IO-${year}-(\\d+)$`);
+    return lines.reduce((max, line) => {
+        const match = line.ioNumber?.match(pattern);
+        return match ? Math.max(max, parseInt(match[1])) : max;
+    }, 0);
+}
+
+function formatCurrency(value: number): string {
+    return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Render one insertion order as a PDF document
+ */
+export function createInsertionOrderPDF(order: InsertionOrder, options: InsertionOrderOptions = {}): jsPDF {
+    const doc = new jsPDF();
+    const agency = options.agencyName || DEFAULT_AGENCY;
+
+    // Title
+    doc.setFontSize(20);
+    doc.text('Insertion Order', 14, 22);
+    doc.setFontSize(12);
+    doc.text(order.ioNumber, 196, 22, { align: 'right' });
+
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Status: ${IO_STATUS_LABELS[order.status]}`, 196, 28, { align: 'right' });
+
+    // Parties & Flight
+    doc.setTextColor(60);
+    doc.text(`Advertiser: ${order.advertiser}`, 14, 36);
+    doc.text(`Agency: ${agency}`, 14, 42);
+    doc.text(`Vendor: ${order.vendor}`, 14, 48);
+    doc.text(`Campaign: ${order.campaignName}`, 110, 36);
+    doc.text(`Flight: ${order.startDate} to ${order.endDate}`, 110, 42);
+    doc.text(`Issued: ${new Date().toISOString().split('T')[0]}`, 110, 48);
+
+    // Line Details
+    autoTable(doc, {
+        head: [['Line', 'Ad Unit', 'Dates', 'Cost Method', 'Rate', 'Qty', 'Cost']],
+        body: order.lines.map(l => [
+            l.name,
+            l.adUnit,
+            `${l.startDate} - ${l.endDate}`,
+            l.costMethod,
+            formatCurrency(l.rate),
+            l.quantity.toLocaleString(),
+            formatCurrency(l.totalCost)
+        ]),
+        foot: [['Total', '', '', '', '', '', formatCurrency(order.totalCost)]],
+        startY: 56,
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [124, 58, 237] }, // Purple
+        footStyles: { fillColor: [243, 244, 246], textColor: 20, fontStyle: 'bold' }
+    });
+
+    // Terms
+    let y = ((doc as any).lastAutoTable.finalY || 56) + 10;
+    doc.setFontSize(11);
+    doc.setTextColor(20);
+    doc.text('Terms & Conditions', 14, y);
+    doc.setFontSize(8);
+    doc.setTextColor(90);
+    IO_TERMS.forEach((term, i) => {
+        const wrapped = doc.splitTextToSize(`${i + 1}. ${term}`, 182);
+        y += 5;
+        doc.text(wrapped, 14, y);
+        y += (wrapped.length - 1) * 4;
+    });
+
+    // Signature Lines
+    if (y > 240) {
+        doc.addPage();
+        y = 20;
+    }
+    y += 20;
+    doc.setDrawColor(150);
+    doc.setTextColor(60);
+    doc.setFontSize(9);
+    [[14, agency], [110, order.vendor]].forEach(([x, party]) => {
+        doc.line(x as number, y, (x as number) + 82, y);
+        doc.text(`${party} - Authorized Signature`, x as number, y + 5);
+        doc.line(x as number, y + 18, (x as number) + 82, y + 18);
+        doc.text('Name / Title / Date', x as number, y + 23);
+    });
+
+    if (options.preparedBy) {
+        doc.setFontSize(8);
+        doc.text(`Prepared by ${options.preparedBy}`, 14, 287);
+    }
+
+    return doc;
+}
+
+/**
+ * Download one PDF per insertion order
+ */
+export function generateInsertionOrderPDFs(orders: InsertionOrder[], options: InsertionOrderOptions = {}): void {
+    orders.forEach(order => {
+        const doc = createInsertionOrderPDF(order, options);
+        doc.save(`${order.ioNumber}_${order.vendor.replace(/[^a-z0-9]+/gi, '_')}.pdf`);
+    });
+}
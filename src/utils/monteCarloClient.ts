@@ -0,0 +1,56 @@
+/**
+ * Monte Carlo Client - Run forecast simulations in a Web Worker
+ *
+ * One worker is started on first use and reused. Where workers are not
+ * available (Node, tests) the simulation runs on the calling thread instead.
+ */
+
+import { MonteCarloRequest, MonteCarloResult, simulateForecast } from './monteCarloSimulation';
+
+type PendingRequest = { resolve: (result: MonteCarloResult) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+function getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+    if (worker) return worker;
+
+    worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: MonteCarloResult; error?: string }>) => {
+        const request = pending.get(event.data.id);
+        if (!request) return;
+        pending.delete(event.data.id);
+        if (event.data.result) request.resolve(event.data.result);
+        else request.reject(new Error(event.data.error || 'Simulation failed'));
+    };
+    worker.onerror = (event) => {
+        // A crashed worker fails everything in flight; the next call starts a new one
+        pending.forEach(request => request.reject(new Error(event.message || 'Simulation worker crashed')));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+}
+
+/**
+ * Simulate a forecast without blocking the UI
+ */
+export function runMonteCarlo(request: MonteCarloRequest): Promise<MonteCarloResult> {
+    const target = getWorker();
+    if (!target) {
+        try {
+            return Promise.resolve(simulateForecast(request.placements, request.startDate, request.endDate, request.options));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        target.postMessage({ id, request });
+    });
+}
@@ -0,0 +1,298 @@
+/**
+ * Monte Carlo Simulation - Sampled forecast distributions and goal probabilities
+ *
+ * METHODOLOGY:
+ * ============
+ * Each iteration samples, for every line:
+ * - Price (CPM/CPC):  lognormal around the line's benchmark or booked rate
+ * - CTR and CVR:      lognormal around the benchmark
+ * - Delivery rate:    normal around DELIVERY_FACTORS[channel], clamped to 0-1
+ *
+ * and projects the line with the same formulas as forecastCampaign(). Reach is
+ * deduplicated from each iteration's impressions by channel (reachFrequency.ts).
+ *
+ * CHANNEL CORRELATION:
+ * Lines in the same channel move together (a hot auction makes every Social
+ * line expensive). Each driver's standard normal draw is
+ *   z = ρ × z_channel + √(1 − ρ²) × z_line
+ * with one z_channel per channel and iteration.
+ *
+ * Spend is the booked budget, reduced when a line under-delivers against its
+ * channel's typical delivery rate. Booked-price lines (PMP/Direct) do not vary in price.
+ *
+ * GOAL PROBABILITY:
+ * P(goal) = share of iterations where the metric reaches Campaign.numericGoals
+ *
+ * Runs synchronously; use runMonteCarlo() in monteCarloClient.ts to run it in
+ * a Web Worker.
+ */
+
+import { Campaign, Placement } from '../types';
+import { ForecastOptions, getLineForecastInputs, getStartMonth, projectLine } from './forecastingEngine';
+import { estimateReach } from './reachFrequency';
+import { createSeededRandom, RandomSource } from './random';
+
+export type SimulatedMetric = 'impressions' | 'reach' | 'clicks' | 'conversions' | 'spend';
+export type GoalMetric = Exclude<keyof NonNullable<Campaign['numericGoals']>, 'effectiveFrequency'>;
+
+export interface MonteCarloOptions extends ForecastOptions {
+    iterations?: number;
+    seed?: number;
+    channelCorrelation?: number;    // ρ, 0 = independent lines, 1 = channel moves as one
+    goals?: Campaign['numericGoals'];
+}
+
+export interface HistogramBin {
+    min: number;
+    max: number;
+    count: number;
+}
+
+export interface MetricDistribution {
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    p5: number;
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+    p95: number;
+    histogram: HistogramBin[];
+    samples: number[];              // One value per iteration, sorted ascending
+}
+
+export interface GoalProbability {
+    metric: GoalMetric;
+    target: number;
+    probability: number;            // 0-1
+    message: string;                // "73% chance of reaching 1M conversions"
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    seed: number;
+    metrics: Record<SimulatedMetric, MetricDistribution>;
+    goals: GoalProbability[];
+}
+
+/** Request passed to the worker */
+export interface MonteCarloRequest {
+    placements: Placement[];
+    startDate: string;
+    endDate: string;
+    options?: MonteCarloOptions;
+}
+
+/**
+ * Spread of each driver per channel
+ *
+ * - cpm, ctr, cvr: lognormal sigma (0.15 ≈ ±15% for one standard deviation)
+ * - delivery: standard deviation as a share of the channel's delivery factor
+ *
+ * Auction channels vary most; negotiated and fixed-inventory channels least.
+ * Source: Industry averages (simulated for prototype)
+ */
+const CHANNEL_VARIANCE: Record<string, { cpm: number; ctr: number; cvr: number; delivery: number }> = {
+    'Search': { cpm: 0.15, ctr: 0.15, cvr: 0.20, delivery: 0.04 },
+    'Social': { cpm: 0.20, ctr: 0.25, cvr: 0.30, delivery: 0.07 },
+    'Display': { cpm: 0.20, ctr: 0.30, cvr: 0.35, delivery: 0.10 },
+    'TV': { cpm: 0.10, ctr: 0.30, cvr: 0.35, delivery: 0.06 },
+    'Radio': { cpm: 0.10, ctr: 0.30, cvr: 0.35, delivery: 0.06 },
+    'Streaming Audio': { cpm: 0.12, ctr: 0.25, cvr: 0.30, delivery: 0.07 },
+    'Podcast': { cpm: 0.12, ctr: 0.30, cvr: 0.35, delivery: 0.08 },
+    'Place-based Audio': { cpm: 0.10, ctr: 0.30, cvr: 0.35, delivery: 0.08 },
+    'OOH': { cpm: 0.08, ctr: 0.35, cvr: 0.40, delivery: 0.04 },
+    'Print': { cpm: 0.08, ctr: 0.35, cvr: 0.40, delivery: 0.05 }
+};
+const DEFAULT_VARIANCE = { cpm: 0.15, ctr: 0.25, cvr: 0.30, delivery: 0.08 };
+
+export const DEFAULT_ITERATIONS = 5000;
+const DEFAULT_CORRELATION = 0.6;
+const HISTOGRAM_BINS = 20;
+
+const METRICS: SimulatedMetric[] = ['impressions', 'reach', 'clicks', 'conversions', 'spend'];
+const GOAL_METRICS: GoalMetric[] = ['impressions', 'reach', 'clicks', 'conversions'];
+
+/**
+ * Standard normal draws (Box-Muller)
+ */
+function createNormalSampler(random: RandomSource): () => number {
+    let spare: number | null = null;
+    return () => {
+        if (spare !== null) {
+            const value = spare;
+            spare = null;
+            return value;
+        }
+        const u = 1 - random(); // (0, 1] so log() stays finite
+        const v = random();
+        const radius = Math.sqrt(-2 * Math.log(u));
+        spare = radius * Math.sin(2 * Math.PI * v);
+        return radius * Math.cos(2 * Math.PI * v);
+    };
+}
+
+/**
+ * Lognormal multiplier with a mean of 1
+ */
+function lognormal(z: number, sigma: number): number {
+    return Math.exp(sigma * z - (sigma * sigma) / 2);
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+    return sorted[index];
+}
+
+function summarize(samples: number[]): MetricDistribution {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const n = sorted.length;
+    const mean = n > 0 ? sorted.reduce((sum, v) => sum + v, 0) / n : 0;
+    const variance = n > 1 ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+    const min = sorted[0] ?? 0;
+    const max = sorted[n - 1] ?? 0;
+
+    const width = (max - min) / HISTOGRAM_BINS;
+    const histogram: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+        min: min + i * width,
+        max: min + (i + 1) * width,
+        count: 0
+    }));
+    sorted.forEach(value => {
+        const bin = width > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width)) : 0;
+        histogram[bin].count++;
+    });
+
+    return {
+        mean,
+        stdDev: Math.sqrt(variance),
+        min,
+        max,
+        p5: percentile(sorted, 0.05),
+        p10: percentile(sorted, 0.10),
+        p25: percentile(sorted, 0.25),
+        p50: percentile(sorted, 0.50),
+        p75: percentile(sorted, 0.75),
+        p90: percentile(sorted, 0.90),
+        p95: percentile(sorted, 0.95),
+        histogram,
+        samples: sorted
+    };
+}
+
+function formatGoalValue(value: number): string {
+    if (value >= 1000000) return `${parseFloat((value / 1000000).toFixed(1))}M`;
+    if (value >= 1000) return `${parseFloat((value / 1000).toFixed(1))}K`;
+    return value.toLocaleString();
+}
+
+/**
+ * "73% chance of reaching 1M conversions"
+ */
+export function formatGoalProbability(metric: GoalMetric, target: number, probability: number): string {
+    const pct = probability > 0.99 && probability < 1 ? '>99' : probability < 0.01 && probability > 0 ? '<1' : Math.round(probability * 100).toString();
+    return `${pct}% chance of reaching ${formatGoalValue(target)} ${metric}`;
+}
+
+/**
+ * Run the simulation on the current thread
+ */
+export function simulateForecast(
+    placements: Placement[],
+    startDate: string,
+    _endDate: string,
+    options: MonteCarloOptions = {}
+): MonteCarloResult {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+    const seed = options.seed ?? 1;
+    const rho = Math.min(1, Math.max(0, options.channelCorrelation ?? DEFAULT_CORRELATION));
+    const idiosyncratic = Math.sqrt(1 - rho * rho);
+    const normal = createNormalSampler(createSeededRandom(seed));
+    const month = getStartMonth(startDate);
+
+    const lines = placements.map(p => getLineForecastInputs(p, month, options));
+    const channels = Array.from(new Set(lines.map(l => l.channel)));
+
+    const samples: Record<SimulatedMetric, number[]> = { impressions: [], reach: [], clicks: [], conversions: [], spend: [] };
+
+    for (let i = 0; i < iterations; i++) {
+        // One shock per channel and driver, shared by the channel's lines
+        const shocks = new Map(channels.map(channel => [channel, { price: normal(), ctr: normal(), cvr: normal(), delivery: normal() }]));
+        const draw = (shared: number) => rho * shared + idiosyncratic * normal();
+
+        let impressions = 0;
+        let clicks = 0;
+        let conversions = 0;
+        let spend = 0;
+        const channelImpressions: Record<string, number> = {};
+
+        lines.forEach(line => {
+            const variance = CHANNEL_VARIANCE[line.channel] || DEFAULT_VARIANCE;
+            const shock = shocks.get(line.channel)!;
+            const deliveryRate = Math.min(1, Math.max(0, line.deliveryFactor * (1 + variance.delivery * draw(shock.delivery))));
+
+            const projected = projectLine(line, {
+                priceMultiplier: line.bookedPrice ? 1 : lognormal(draw(shock.price), variance.cpm),
+                ctr: line.ctr * lognormal(draw(shock.ctr), variance.ctr),
+                cvr: line.cvr * lognormal(draw(shock.cvr), variance.cvr),
+                deliveryRate
+            });
+
+            impressions += projected.impressions;
+            channelImpressions[line.channel] = (channelImpressions[line.channel] || 0) + projected.impressions;
+            clicks += projected.clicks;
+            conversions += projected.conversions;
+            spend += line.budget * Math.min(1, deliveryRate / line.deliveryFactor);
+        });
+
+        samples.impressions.push(impressions);
+        // Only 1+ reach is needed here, so skip the full frequency distribution
+        samples.reach.push(estimateReach(channelImpressions, { population: options.population, maxFrequency: 1 }).reach);
+        samples.clicks.push(clicks);
+        samples.conversions.push(conversions);
+        samples.spend.push(spend);
+    }
+
+    const metrics = Object.fromEntries(METRICS.map(metric => [metric, summarize(samples[metric])])) as Record<SimulatedMetric, MetricDistribution>;
+
+    const goals: GoalProbability[] = GOAL_METRICS
+        .filter(metric => (options.goals?.[metric] ?? 0) > 0)
+        .map(metric => {
+            const target = options.goals![metric]!;
+            const probability = samples[metric].filter(value => value >= target).length / iterations;
+            return { metric, target, probability, message: formatGoalProbability(metric, target, probability) };
+        });
+
+    return { iterations, seed, metrics, goals };
+}
+
+/**
+ * Chat summary of a simulation
+ */
+export function formatMonteCarloResult(result: MonteCarloResult): string {
+    const row = (label: string, d: MetricDistribution, prefix = '') =>
+        `• **${label}:** ${prefix}${formatGoalValue(Math.round(d.p50))} (80% range ${prefix}${formatGoalValue(Math.round(d.p10))} – ${prefix}${formatGoalValue(Math.round(d.p90))})`;
+
+    let content = `🎲 **Monte Carlo Forecast** (${result.iterations.toLocaleString()} simulations)\n\n`;
+    content += `${row('Impressions', result.metrics.impressions)}\n`;
+    content += `${row('Reach', result.metrics.reach)}\n`;
+    content += `${row('Clicks', result.metrics.clicks)}\n`;
+    content += `${row('Conversions', result.metrics.conversions)}\n`;
+    content += `${row('Spend', result.metrics.spend, '$')}\n`;
+
+    if (result.goals.length > 0) {
+        content += `\n**Goals:**\n`;
+        result.goals.forEach(goal => {
+            const icon = goal.probability >= 0.8 ? '✅' : goal.probability >= 0.5 ? '⚠️' : '🔴';
+            content += `${icon} ${goal.message}\n`;
+        });
+    } else {
+        content += `\nSet a goal (e.g. "set goal conversions 5000") to see the chance of hitting it.`;
+    }
+
+    return content;
+}
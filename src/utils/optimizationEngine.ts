@@ -22,12 +22,20 @@ export interface OptimizationReport {
     quickWins: OptimizationRecommendation[]; // Easy + high impact
 }
 
+export interface OptimizationOptions {
+    effectiveFrequency?: number; // Campaign goal: frequency caps never go below it
+}
+
+// Weekly cap suggested for fatigued lines when no effective frequency is set
+const DEFAULT_FREQUENCY_CAP = 5;
+
 /**
  * Generate optimization recommendations from performance analysis
  */
 export function generateOptimizationReport(
     placements: Placement[],
-    totalBudget: number
+    totalBudget: number,
+    options: OptimizationOptions = {}
 ): OptimizationReport {
     // First, analyze the plan
     const analysis = analyzePlan(placements, totalBudget);
@@ -36,7 +44,7 @@ export function generateOptimizationReport(
     const recommendations: OptimizationRecommendation[] = [];
 
     analysis.issues.forEach(issue => {
-        const recommendation = issueToRecommendation(issue, placements);
+        const recommendation = issueToRecommendation(issue, placements, options);
         if (recommendation) {
             recommendations.push(recommendation);
         }
@@ -78,7 +86,8 @@ export function generateOptimizationReport(
  */
 function issueToRecommendation(
     issue: PerformanceIssue,
-    placements: Placement[]
+    placements: Placement[],
+    options: OptimizationOptions
 ): OptimizationRecommendation | null {
     const placement = placements.find(p => p.id === issue.placementId);
     if (!placement && issue.placementId !== 'PLAN_LEVEL') return null;
@@ -174,7 +183,10 @@ function issueToRecommendation(
                 };
             }
 
-        case 'FREQUENCY':
+        case 'FREQUENCY': {
+            // Frequency the planner asked for is not fatigue, and a cap below it would block the goal
+            if (options.effectiveFrequency && issue.currentValue <= options.effectiveFrequency) return null;
+            const cap = Math.max(DEFAULT_FREQUENCY_CAP, options.effectiveFrequency || 0);
             return {
                 priority: issue.severity === 'CRITICAL' ? 'HIGH' : 'MEDIUM',
                 action: 'CAP_FREQUENCY',
@@ -182,10 +194,11 @@ function issueToRecommendation(
                 placementName: issue.placementName,
                 description: `Add frequency cap to prevent ad fatigue`,
                 currentMetric: `Frequency: ${issue.currentValue.toFixed(1)}`,
-                targetMetric: `Cap at 5 per week`,
+                targetMetric: `Cap at ${cap} per week`,
                 estimatedImpact: placement ? placement.totalCost * 0.15 : 0, // Estimate 15% waste from fatigue
-                specificAction: `Set frequency cap of 5 impressions per user per week`
+                specificAction: `Set frequency cap of ${cap} impressions per user per week`
             };
+        }
 
         case 'PACING':
             if (issue.currentValue < 50) {
@@ -44,7 +44,7 @@ export const generateMediaPlanPDF = (mediaPlan: MediaPlan) => {
     // Footer
     const finalY = (doc as any).lastAutoTable.finalY || 60;
     doc.setFontSize(10);
-    doc.text('Generated by OmniChannel Media Planner Agent', 14, finalY + 10);
+    doc.text('Generated by FuseIQ Media Planner', 14, finalY + 10);
 
     doc.save(`${campaign.name.replace(/\s+/g, '_')}_MediaPlan.pdf`);
 };
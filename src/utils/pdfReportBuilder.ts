@@ -0,0 +1,820 @@
+/**
+ * PDF Report Builder - Branded, multi-section media plan reports
+ *
+ * Users pick which sections to include and how the report is styled; each
+ * section starts on its own page, a table of contents links to them and charts
+ * are drawn on a canvas and embedded as images.
+ */
+
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { MediaPlan, Brand, ExecutiveSummary, Line, Segment } from '../types';
+import { calculatePlanMetrics, generateConversionPaths } from '../logic/dummyData';
+import { ForecastOptions, forecastCampaign, getForecastOptions } from './forecastingEngine';
+import { generateOptimizationReport } from './optimizationEngine';
+import { analyzePlan } from './performanceAnalyzer';
+import { AttributionEngine } from './attributionEngine';
+import { analyzeBudgetPacing, BudgetPacingAnalysis } from './predictiveAnalytics';
+import { calculateOverlapMatrix, calculateUniqueReach } from './audienceInsights';
+
+export type ReportSectionId =
+    | 'executive_summary'
+    | 'goal_progress'
+    | 'forecast'
+    | 'optimization'
+    | 'attribution'
+    | 'pacing'
+    | 'segment_overlap'
+    | 'line_items';
+
+export interface ReportSectionDefinition {
+    id: ReportSectionId;
+    title: string;
+    description: string;
+}
+
+export interface ReportBranding {
+    brandName?: string;
+    logoUrl?: string;
+    primaryColor: string; // Hex, used for headers and table heads
+    accentColor: string; // Hex, used for charts and highlights
+}
+
+export interface ReportConfig {
+    title: string;
+    sections: ReportSectionId[];
+    branding: ReportBranding;
+}
+
+export const REPORT_SECTIONS: ReportSectionDefinition[] = [
+    { id: 'executive_summary', title: 'Executive Summary', description: 'Key metrics, findings and recommendations' },
+    { id: 'goal_progress', title: 'Goal Progress', description: 'Numeric goals against the forecast' },
+    { id: 'forecast', title: 'Forecast', description: 'P25/P50/P75 delivery and impressions by channel' },
+    { id: 'optimization', title: 'Optimization Report', description: 'Plan score and prioritized recommendations' },
+    { id: 'attribution', title: 'Attribution Comparison', description: 'Channel credit across attribution models' },
+    { id: 'pacing', title: 'Pacing Alerts', description: 'Budget pacing for the campaign, flights and lines' },
+    { id: 'segment_overlap', title: 'Segment Overlap', description: 'Audience overlap between targeted segments' },
+    { id: 'line_items', title: 'Line Items', description: 'Every placement with rate, quantity and cost' }
+];
+
+const DEFAULT_PRIMARY = '#7c3aed'; // Purple
+const DEFAULT_ACCENT = '#0ea5e9';
+const FOOTER_TEXT = 'Generated by FuseIQ Media Planner';
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+const CONTENT_TOP = 30;
+
+type RGB = [number, number, number];
+
+interface ReportContext {
+    doc: jsPDF;
+    mediaPlan: MediaPlan;
+    lines: Line[];
+    forecastOptions: ForecastOptions;
+    primary: RGB;
+    accent: RGB;
+    y: number;
+}
+
+/**
+ * Default report settings for a plan, styled with the brand's logo and colors
+ */
+export function getDefaultReportConfig(mediaPlan: MediaPlan, brand?: Brand | null): ReportConfig {
+    return {
+        title: `${mediaPlan.campaign.name} Media Plan Report`,
+        sections: REPORT_SECTIONS.map(s => s.id),
+        branding: {
+            brandName: brand?.name || mediaPlan.campaign.advertiser,
+            logoUrl: brand?.logoUrl,
+            primaryColor: brand?.brandColors?.primary || DEFAULT_PRIMARY,
+            accentColor: brand?.brandColors?.accent || DEFAULT_ACCENT
+        }
+    };
+}
+
+/**
+ * Use the plan's stored executive summary, or derive one from the analyzers
+ */
+export function buildExecutiveSummary(mediaPlan: MediaPlan): ExecutiveSummary {
+    if (mediaPlan.executiveSummary) return mediaPlan.executiveSummary;
+
+    const lines = mediaPlan.campaign.placements || [];
+    const analysis = analyzePlan(lines, mediaPlan.campaign.budget);
+    const optimization = generateOptimizationReport(lines, mediaPlan.campaign.budget);
+    const channelSpend = groupSpendByChannel(lines);
+    const topChannel = channelSpend[0];
+
+    const findings = [
+        `${lines.length} placements across ${channelSpend.length} channels, $${Math.round(mediaPlan.totalSpend).toLocaleString()} of $${mediaPlan.campaign.budget.toLocaleString()} allocated`,
+        ...(topChannel ? [`${topChannel.label} carries the largest share of spend (${Math.round(topChannel.value / Math.max(1, mediaPlan.totalSpend) * 100)}%)`] : []),
+        ...analysis.issues.filter(i => i.severity === 'CRITICAL').slice(0, 3).map(i => `${i.placementName}: ${i.message}`)
+    ];
+
+    return {
+        id: `summary-${mediaPlan.id}`,
+        planId: mediaPlan.id,
+        generatedAt: Date.now(),
+        sections: {
+            metrics: mediaPlan.metrics || calculatePlanMetrics(lines),
+            findings,
+            recommendations: optimization.recommendations.slice(0, 4).map(r => `${r.placementName}: ${r.specificAction}`),
+            impact: optimization.recommendations.length > 0
+                ? `Applying the recommendations is worth an estimated $${Math.round(optimization.netImpact).toLocaleString()}.`
+                : 'No optimization changes are recommended.',
+            risk: analysis.criticalCount > 0
+                ? `${analysis.criticalCount} critical issue${analysis.criticalCount === 1 ? '' : 's'} need attention before launch.`
+                : 'No critical issues detected.',
+            nextSteps: ['Review recommendations with the client', 'Confirm flight dates and budget', 'Issue insertion orders to vendors']
+        },
+        contributionTags: ['Performance Agent', 'Insights Agent']
+    };
+}
+
+/**
+ * Build the report as a jsPDF document
+ */
+export async function buildMediaPlanReport(mediaPlan: MediaPlan, config: ReportConfig): Promise<jsPDF> {
+    const doc = new jsPDF();
+    const ctx: ReportContext = {
+        doc,
+        mediaPlan,
+        lines: mediaPlan.campaign.placements || [],
+        forecastOptions: getForecastOptions(mediaPlan.campaign),
+        primary: hexToRgb(config.branding.primaryColor, DEFAULT_PRIMARY),
+        accent: hexToRgb(config.branding.accentColor, DEFAULT_ACCENT),
+        y: CONTENT_TOP
+    };
+    const logo = config.branding.logoUrl ? await loadImage(config.branding.logoUrl) : null;
+
+    renderCoverPage(ctx, config, logo);
+
+    // Sections (each on its own page so the table of contents can link to it)
+    const toc: { title: string; page: number }[] = [];
+    REPORT_SECTIONS.filter(s => config.sections.includes(s.id)).forEach(section => {
+        doc.addPage();
+        ctx.y = CONTENT_TOP;
+        toc.push({ title: section.title, page: doc.getNumberOfPages() });
+        renderSectionTitle(ctx, section.title);
+        SECTION_RENDERERS[section.id](ctx);
+    });
+
+    // Table of Contents (inserted after the cover, shifting sections by one page)
+    if (toc.length > 0) {
+        doc.insertPage(2);
+        doc.setPage(2);
+        ctx.y = CONTENT_TOP;
+        renderSectionTitle(ctx, 'Contents');
+        toc.forEach((entry, i) => {
+            const page = entry.page + 1;
+            doc.setFontSize(11);
+            doc.setTextColor(40);
+            doc.textWithLink(`${i + 1}. ${entry.title}`, MARGIN, ctx.y, { pageNumber: page });
+            doc.setTextColor(120);
+            doc.text(String(page), PAGE_WIDTH - MARGIN, ctx.y, { align: 'right' });
+            doc.setDrawColor(230);
+            doc.line(MARGIN, ctx.y + 2.5, PAGE_WIDTH - MARGIN, ctx.y + 2.5);
+            ctx.y += 9;
+        });
+    }
+
+    renderPageChrome(ctx, config, logo);
+    return doc;
+}
+
+/**
+ * Build the report and download it
+ */
+export async function generateMediaPlanReport(mediaPlan: MediaPlan, config: ReportConfig): Promise<void> {
+    const doc = await buildMediaPlanReport(mediaPlan, config);
+    doc.save(`${mediaPlan.campaign.name.replace(/\s+/g, '_')}_Report.pdf`);
+}
+
+// =============================================================================
+// PAGE LAYOUT
+// =============================================================================
+
+export interface LoadedImage {
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+function renderCoverPage(ctx: ReportContext, config: ReportConfig, logo: LoadedImage | null): void {
+    const { doc, mediaPlan, primary } = ctx;
+    const { campaign } = mediaPlan;
+
+    doc.setFillColor(...primary);
+    doc.rect(0, 0, PAGE_WIDTH, 110, 'F');
+
+    if (logo) {
+        const { w, h } = fitImage(logo, 40, 24);
+        doc.setFillColor(255, 255, 255);
+        doc.roundedRect(MARGIN - 2, 18, w + 4, h + 4, 2, 2, 'F');
+        doc.addImage(logo.dataUrl, 'PNG', MARGIN, 20, w, h);
+    }
+
+    doc.setTextColor(255);
+    doc.setFontSize(26);
+    doc.text(doc.splitTextToSize(config.title, PAGE_WIDTH - MARGIN * 2), MARGIN, 66);
+    doc.setFontSize(13);
+    doc.text(config.branding.brandName || campaign.advertiser, MARGIN, 98);
+
+    const details: [string, string][] = [
+        ['Campaign', campaign.name],
+        ['Advertiser', campaign.advertiser],
+        ['Dates', `${campaign.startDate} to ${campaign.endDate}`],
+        ['Budget', formatCurrency(campaign.budget)],
+        ['Planned Spend', formatCurrency(mediaPlan.totalSpend)],
+        ['Plan Version', `v${mediaPlan.version}`],
+        ['Prepared', new Date().toLocaleDateString()]
+    ];
+    let y = 130;
+    details.forEach(([label, value]) => {
+        doc.setFontSize(10);
+        doc.setTextColor(120);
+        doc.text(label, MARGIN, y);
+        doc.setFontSize(12);
+        doc.setTextColor(30);
+        doc.text(value, 60, y);
+        y += 10;
+    });
+}
+
+function renderSectionTitle(ctx: ReportContext, title: string): void {
+    const { doc, primary } = ctx;
+    doc.setFontSize(18);
+    doc.setTextColor(...primary);
+    doc.text(title, MARGIN, ctx.y);
+    doc.setDrawColor(...primary);
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, ctx.y + 3, MARGIN + 30, ctx.y + 3);
+    doc.setLineWidth(0.2);
+    ctx.y += 14;
+}
+
+/**
+ * Header band, logo and "page x of y" footer on every page after the cover
+ */
+function renderPageChrome(ctx: ReportContext, config: ReportConfig, logo: LoadedImage | null): void {
+    const { doc, primary } = ctx;
+    const pageCount = doc.getNumberOfPages();
+
+    for (let page = 2; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFillColor(...primary);
+        doc.rect(0, 0, PAGE_WIDTH, 4, 'F');
+        doc.setFontSize(8);
+        doc.setTextColor(120);
+        doc.text(config.title, MARGIN, 12);
+        if (logo) {
+            const { w, h } = fitImage(logo, 20, 9);
+            doc.addImage(logo.dataUrl, 'PNG', PAGE_WIDTH - MARGIN - w, 6, w, h);
+        }
+
+        doc.setDrawColor(220);
+        doc.line(MARGIN, PAGE_HEIGHT - 14, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 14);
+        doc.text(FOOTER_TEXT, MARGIN, PAGE_HEIGHT - 8);
+        doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+    }
+}
+
+function ensureSpace(ctx: ReportContext, height: number): void {
+    if (ctx.y + height > PAGE_HEIGHT - 20) {
+        ctx.doc.addPage();
+        ctx.y = CONTENT_TOP;
+    }
+}
+
+function renderSubheading(ctx: ReportContext, text: string): void {
+    ensureSpace(ctx, 12);
+    ctx.doc.setFontSize(12);
+    ctx.doc.setTextColor(40);
+    ctx.doc.text(text, MARGIN, ctx.y);
+    ctx.y += 6;
+}
+
+function renderParagraph(ctx: ReportContext, text: string): void {
+    const wrapped = ctx.doc.splitTextToSize(text, PAGE_WIDTH - MARGIN * 2);
+    ensureSpace(ctx, wrapped.length * 5);
+    ctx.doc.setFontSize(10);
+    ctx.doc.setTextColor(70);
+    ctx.doc.text(wrapped, MARGIN, ctx.y);
+    ctx.y += wrapped.length * 5 + 3;
+}
+
+function renderBullets(ctx: ReportContext, items: string[]): void {
+    items.forEach(item => renderParagraph(ctx, `•  ${item}`));
+}
+
+function renderTable(ctx: ReportContext, head: string[], body: (string | number)[][], extra: Record<string, unknown> = {}): void {
+    autoTable(ctx.doc, {
+        head: [head],
+        body,
+        startY: ctx.y,
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: ctx.primary },
+        margin: { top: CONTENT_TOP, bottom: 20 },
+        ...extra
+    });
+    ctx.y = (ctx.doc as any).lastAutoTable.finalY + 8;
+}
+
+function renderChart(ctx: ReportContext, chart: BarChartOptions, height = 70): void {
+    const image = renderBarChart(chart);
+    if (!image) return;
+
+    ensureSpace(ctx, height + 4);
+    ctx.doc.addImage(image, 'PNG', MARGIN, ctx.y, PAGE_WIDTH - MARGIN * 2, height);
+    ctx.y += height + 6;
+}
+
+function renderKpis(ctx: ReportContext, kpis: [string, string][]): void {
+    const { doc, primary } = ctx;
+    const width = (PAGE_WIDTH - MARGIN * 2 - (kpis.length - 1) * 4) / kpis.length;
+    ensureSpace(ctx, 24);
+    kpis.forEach(([label, value], i) => {
+        const x = MARGIN + i * (width + 4);
+        doc.setFillColor(246, 246, 250);
+        doc.roundedRect(x, ctx.y, width, 20, 2, 2, 'F');
+        doc.setFontSize(8);
+        doc.setTextColor(120);
+        doc.text(label, x + 4, ctx.y + 7);
+        doc.setFontSize(13);
+        doc.setTextColor(...primary);
+        doc.text(value, x + 4, ctx.y + 16);
+    });
+    ctx.y += 28;
+}
+
+// =============================================================================
+// SECTIONS
+// =============================================================================
+
+const SECTION_RENDERERS: Record<ReportSectionId, (ctx: ReportContext) => void> = {
+    executive_summary: renderExecutiveSummary,
+    goal_progress: renderGoalProgress,
+    forecast: renderForecast,
+    optimization: renderOptimization,
+    attribution: renderAttribution,
+    pacing: renderPacing,
+    segment_overlap: renderSegmentOverlap,
+    line_items: renderLineItems
+};
+
+function renderExecutiveSummary(ctx: ReportContext): void {
+    const summary = buildExecutiveSummary(ctx.mediaPlan);
+    const { metrics } = summary.sections;
+
+    renderKpis(ctx, [
+        ['Impressions', formatNumber(metrics.impressions)],
+        ['Reach', formatNumber(metrics.reach)],
+        ['Frequency', metrics.frequency.toFixed(1)],
+        ['CPM', formatCurrency(metrics.cpm)]
+    ]);
+
+    renderSubheading(ctx, 'Key Findings');
+    renderBullets(ctx, summary.sections.findings);
+    if (summary.sections.recommendations.length > 0) {
+        renderSubheading(ctx, 'Recommendations');
+        renderBullets(ctx, summary.sections.recommendations);
+    }
+    renderSubheading(ctx, 'Impact & Risk');
+    renderParagraph(ctx, `${summary.sections.impact} ${summary.sections.risk}`);
+    renderSubheading(ctx, 'Next Steps');
+    renderBullets(ctx, summary.sections.nextSteps);
+
+    const channelSpend = groupSpendByChannel(ctx.lines);
+    if (channelSpend.length > 0) {
+        renderSubheading(ctx, 'Spend by Channel');
+        renderChart(ctx, {
+            labels: channelSpend.map(c => c.label),
+            series: [{ name: 'Spend', values: channelSpend.map(c => c.value), color: ctx.accent }],
+            formatValue: v => `$${formatNumber(v)}`
+        });
+    }
+}
+
+function renderGoalProgress(ctx: ReportContext): void {
+    const { campaign } = ctx.mediaPlan;
+    const goals = campaign.numericGoals || {};
+    const forecast = forecastCampaign(ctx.lines, campaign.startDate, campaign.endDate, ctx.forecastOptions);
+    const projected: Record<string, number> = {
+        impressions: forecast.impressions.p50,
+        reach: forecast.adjustedReach,
+        clicks: forecast.clicks.p50,
+        conversions: forecast.conversions.p50
+    };
+
+    renderParagraph(ctx, `Objectives: ${campaign.goals.join(', ') || 'None set'}`);
+
+    const rows = (Object.keys(projected) as (keyof typeof goals)[])
+        .filter(metric => goals[metric])
+        .map(metric => ({ metric, goal: goals[metric]!, projected: projected[metric] }));
+
+    if (rows.length === 0) {
+        renderParagraph(ctx, 'No numeric goals have been set for this campaign. Ask the planner to "set goal impressions 1M" to track progress here.');
+        return;
+    }
+
+    renderTable(ctx, ['Goal', 'Target', 'Forecast (P50)', 'Progress', 'Status'], rows.map(r => {
+        const pct = r.projected / r.goal * 100;
+        return [
+            capitalize(r.metric),
+            formatNumber(r.goal),
+            formatNumber(r.projected),
+            `${pct.toFixed(0)}%`,
+            pct >= 100 ? 'On track' : pct >= 80 ? 'At risk' : 'Behind'
+        ];
+    }));
+
+    renderChart(ctx, {
+        labels: rows.map(r => capitalize(r.metric)),
+        series: [{ name: 'Forecast % of goal', values: rows.map(r => Math.round(r.projected / r.goal * 100)), color: ctx.accent }],
+        formatValue: v => `${v}%`,
+        referenceLine: { value: 100, label: 'Goal' }
+    }, 60);
+}
+
+function renderForecast(ctx: ReportContext): void {
+    const { campaign } = ctx.mediaPlan;
+    const forecast = forecastCampaign(ctx.lines, campaign.startDate, campaign.endDate, ctx.forecastOptions);
+
+    renderKpis(ctx, [
+        ['Reach (dedup.)', formatNumber(forecast.adjustedReach)],
+        ['Frequency', forecast.frequency.toFixed(1)],
+        ['Channel Overlap', `${forecast.overlapPercentage}%`],
+        ['Confidence', capitalize(forecast.confidence.toLowerCase())]
+    ]);
+
+    renderTable(ctx, ['Metric', 'P25', 'P50', 'P75'], [
+        ['Impressions', formatNumber(forecast.impressions.p25), formatNumber(forecast.impressions.p50), formatNumber(forecast.impressions.p75)],
+        ['Clicks', formatNumber(forecast.clicks.p25), formatNumber(forecast.clicks.p50), formatNumber(forecast.clicks.p75)],
+        ['Conversions', formatNumber(forecast.conversions.p25), formatNumber(forecast.conversions.p50), formatNumber(forecast.conversions.p75)],
+        ['Spend', formatCurrency(forecast.spend.p25), formatCurrency(forecast.spend.p50), formatCurrency(forecast.spend.p75)]
+    ]);
+
+    const byChannel = Array.from(new Set(ctx.lines.map(l => l.channel))).map(channel => ({
+        label: channel,
+        value: forecastCampaign(ctx.lines.filter(l => l.channel === channel), campaign.startDate, campaign.endDate, ctx.forecastOptions).impressions.p50
+    })).sort((a, b) => b.value - a.value);
+    if (byChannel.length > 0) {
+        renderSubheading(ctx, 'Forecast Impressions by Channel');
+        renderChart(ctx, {
+            labels: byChannel.map(c => c.label),
+            series: [{ name: 'Impressions (P50)', values: byChannel.map(c => c.value), color: ctx.accent }],
+            formatValue: formatNumber
+        });
+    }
+
+    renderSubheading(ctx, 'Seasonality');
+    renderParagraph(ctx, forecast.seasonalImpact);
+    if (forecast.warnings.length > 0) {
+        renderBullets(ctx, Array.from(new Set(forecast.warnings)));
+    }
+}
+
+function renderOptimization(ctx: ReportContext): void {
+    const report = generateOptimizationReport(ctx.lines, ctx.mediaPlan.campaign.budget);
+
+    renderKpis(ctx, [
+        ['Plan Score', `${report.analysis.overallScore}/100`],
+        ['Critical Issues', String(report.analysis.criticalCount)],
+        ['Potential Savings', formatCurrency(report.totalSavings)],
+        ['Potential Gains', formatCurrency(report.totalGains)]
+    ]);
+
+    if (report.recommendations.length === 0) {
+        renderParagraph(ctx, 'No optimization opportunities were found - the plan is in good shape.');
+        return;
+    }
+
+    renderTable(ctx, ['Priority', 'Placement', 'Action', 'Current', 'Target', 'Impact'], report.recommendations.map(r => [
+        r.priority,
+        r.placementName,
+        r.specificAction,
+        r.currentMetric,
+        r.targetMetric,
+        formatCurrency(Math.abs(r.estimatedImpact))
+    ]), { columnStyles: { 2: { cellWidth: 55 } } });
+}
+
+function renderAttribution(ctx: ReportContext): void {
+    const paths = generateConversionPaths(ctx.mediaPlan.campaign, 60);
+    if (paths.length === 0) {
+        renderParagraph(ctx, 'No conversion paths are available for this campaign yet.');
+        return;
+    }
+
+    const comparison = new AttributionEngine().compareModels(paths);
+    const models = Array.from(comparison.keys());
+    const channels = Array.from(new Set(Array.from(comparison.values()).flat().map(r => r.channel))).sort();
+    const share = (model: typeof models[number], channel: string) => {
+        const results = comparison.get(model) || [];
+        const total = results.reduce((sum, r) => sum + r.credit, 0);
+        const credit = results.find(r => r.channel === channel)?.credit || 0;
+        return total > 0 ? credit / total * 100 : 0;
+    };
+
+    renderParagraph(ctx, `Share of conversion credit by channel across ${paths.length} sampled conversion paths.`);
+    renderTable(ctx, ['Channel', ...models.map(formatModel)], channels.map(channel => [
+        channel,
+        ...models.map(model => `${share(model, channel).toFixed(1)}%`)
+    ]));
+
+    const palette: RGB[] = [ctx.primary, ctx.accent, [245, 158, 11], [16, 185, 129], [239, 68, 68]];
+    renderChart(ctx, {
+        labels: channels,
+        series: models.map((model, i) => ({
+            name: formatModel(model),
+            values: channels.map(channel => share(model, channel)),
+            color: palette[i % palette.length]
+        })),
+        formatValue: v => `${v.toFixed(0)}%`
+    }, 80);
+}
+
+function renderPacing(ctx: ReportContext): void {
+    const { campaign } = ctx.mediaPlan;
+    const analyses: (BudgetPacingAnalysis & { level: string })[] = [];
+
+    const campaignPacing = analyzeBudgetPacing(campaign, 'CAMPAIGN');
+    if (campaignPacing) analyses.push({ ...campaignPacing, level: 'Campaign' });
+    campaign.flights.forEach(flight => {
+        const pacing = analyzeBudgetPacing(flight, 'FLIGHT');
+        if (pacing) analyses.push({ ...pacing, level: 'Flight' });
+    });
+    ctx.lines.forEach(line => {
+        const pacing = analyzeBudgetPacing(line, 'LINE');
+        if (pacing) analyses.push({ ...pacing, level: 'Line' });
+    });
+
+    if (analyses.length === 0) {
+        renderParagraph(ctx, 'No delivery data is available yet, so pacing cannot be assessed.');
+        return;
+    }
+
+    const alerts = analyses.filter(a => a.alert);
+    renderParagraph(ctx, alerts.length > 0
+        ? `${alerts.length} of ${analyses.length} budgets are off pace.`
+        : `All ${analyses.length} budgets are pacing on track.`);
+
+    alerts.forEach(a => renderBullets(ctx, [`${a.alert!.title}: ${a.alert!.message}${a.alert!.recommendation ? ` ${a.alert!.recommendation}` : ''}`]));
+
+    renderTable(ctx, ['Level', 'Name', 'Budget', 'Spent', 'Ideal', 'Variance', 'Status'], analyses.map(a => [
+        a.level,
+        a.entityName,
+        formatCurrency(a.budget),
+        formatCurrency(a.actualSpend),
+        formatCurrency(a.idealSpend),
+        `${a.paceVariance > 0 ? '+' : ''}${a.paceVariance.toFixed(0)}%`,
+        a.status.replace('_', ' ')
+    ]), {
+        didParseCell: (data: any) => {
+            if (data.section === 'body' && data.column.index === 6 && data.cell.raw !== 'ON TRACK') {
+                data.cell.styles.textColor = [220, 38, 38];
+                data.cell.styles.fontStyle = 'bold';
+            }
+        }
+    });
+}
+
+function renderSegmentOverlap(ctx: ReportContext): void {
+    const segments: Segment[] = [];
+    ctx.lines.forEach(line => (line.segments || []).forEach(segment => {
+        if (!segments.some(s => s.id === segment.id)) segments.push(segment);
+    }));
+
+    if (segments.length < 2) {
+        renderParagraph(ctx, segments.length === 0
+            ? 'No audience segments are targeted in this plan.'
+            : `Only one segment (${segments[0].name}) is targeted, so there is no overlap to report.`);
+        return;
+    }
+
+    const shown = segments.slice(0, 8);
+    const matrix = calculateOverlapMatrix(shown);
+    const totalReach = shown.reduce((sum, s) => sum + (s.reach || 0), 0);
+    const uniqueReach = calculateUniqueReach(shown);
+
+    renderKpis(ctx, [
+        ['Segments', String(segments.length)],
+        ['Combined Reach', formatNumber(totalReach)],
+        ['Unique Reach', formatNumber(uniqueReach)],
+        ['Duplication', totalReach > 0 ? `${((1 - uniqueReach / totalReach) * 100).toFixed(0)}%` : '0%']
+    ]);
+
+    if (segments.length > shown.length) {
+        renderParagraph(ctx, `Showing the first ${shown.length} of ${segments.length} segments.`);
+    }
+
+    const short = (name: string) => name.length > 14 ? `${name.slice(0, 13)}…` : name;
+    renderTable(ctx, ['', ...shown.map(s => short(s.name))], shown.map((s, i) => [
+        short(s.name),
+        ...matrix[i].map(v => `${Math.round(v * 100)}%`)
+    ]), {
+        styles: { fontSize: 7, halign: 'center' },
+        didParseCell: (data: any) => {
+            if (data.section !== 'body' || data.column.index === 0) return;
+            const value = matrix[data.row.index][data.column.index - 1];
+            const [r, g, b] = ctx.accent;
+            const mix = (c: number) => Math.round(255 - (255 - c) * value * 0.8);
+            data.cell.styles.fillColor = [mix(r), mix(g), mix(b)];
+        }
+    });
+}
+
+function renderLineItems(ctx: ReportContext): void {
+    renderTable(ctx, ['Channel', 'Vendor', 'Ad Unit', 'Dates', 'Rate', 'Qty', 'Cost'], ctx.lines.map(p => [
+        p.channel,
+        p.vendor,
+        p.adUnit,
+        `${p.startDate} - ${p.endDate}`,
+        `$${p.rate.toLocaleString()} / ${p.costMethod}`,
+        p.quantity.toLocaleString(),
+        `$${p.totalCost.toLocaleString()}`
+    ]), {
+        foot: [['Total', '', '', '', '', '', formatCurrency(ctx.mediaPlan.totalSpend)]],
+        footStyles: { fillColor: [243, 244, 246], textColor: 20, fontStyle: 'bold' }
+    });
+}
+
+// =============================================================================
+// CHARTS
+// =============================================================================
+
+interface BarChartOptions {
+    labels: string[];
+    series: { name: string; values: number[]; color: RGB }[];
+    formatValue: (value: number) => string;
+    referenceLine?: { value: number; label: string };
+}
+
+/**
+ * Draw a vertical (grouped) bar chart on an offscreen canvas and return it as a PNG
+ * data URL. Returns null outside the browser.
+ */
+function renderBarChart({ labels, series, formatValue, referenceLine }: BarChartOptions): string | null {
+    if (typeof document === 'undefined' || labels.length === 0) return null;
+
+    const width = 1100;
+    const height = 420;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const g = canvas.getContext('2d');
+    if (!g) return null;
+
+    const left = 90;
+    const right = 20;
+    const top = series.length > 1 ? 50 : 20;
+    const bottom = 70;
+    const plotWidth = width - left - right;
+    const plotHeight = height - top - bottom;
+    const max = Math.max(1, referenceLine?.value || 0, ...series.flatMap(s => s.values)) * 1.1;
+    const rgb = ([r, gr, b]: RGB) => `rgb(${r}, ${gr}, ${b})`;
+
+    g.fillStyle = '#ffffff';
+    g.fillRect(0, 0, width, height);
+    g.font = '18px Helvetica, Arial, sans-serif';
+
+    // Gridlines & axis labels
+    g.textAlign = 'right';
+    g.textBaseline = 'middle';
+    for (let i = 0; i <= 4; i++) {
+        const value = max / 4 * i;
+        const y = top + plotHeight - plotHeight * i / 4;
+        g.strokeStyle = '#e5e7eb';
+        g.beginPath();
+        g.moveTo(left, y);
+        g.lineTo(width - right, y);
+        g.stroke();
+        g.fillStyle = '#6b7280';
+        g.fillText(formatValue(value), left - 10, y);
+    }
+
+    // Bars
+    const groupWidth = plotWidth / labels.length;
+    const barWidth = Math.min(60, groupWidth * 0.8 / series.length);
+    labels.forEach((label, i) => {
+        const groupStart = left + groupWidth * i + (groupWidth - barWidth * series.length) / 2;
+        series.forEach((s, j) => {
+            const barHeight = plotHeight * (s.values[i] || 0) / max;
+            g.fillStyle = rgb(s.color);
+            g.fillRect(groupStart + barWidth * j, top + plotHeight - barHeight, barWidth - 2, barHeight);
+            if (series.length === 1) {
+                g.fillStyle = '#374151';
+                g.textAlign = 'center';
+                g.textBaseline = 'bottom';
+                g.fillText(formatValue(s.values[i] || 0), groupStart + barWidth / 2, top + plotHeight - barHeight - 4);
+            }
+        });
+
+        g.fillStyle = '#374151';
+        g.textAlign = 'center';
+        g.textBaseline = 'top';
+        const text = label.length > 16 ? `${label.slice(0, 15)}…` : label;
+        g.fillText(text, left + groupWidth * (i + 0.5), top + plotHeight + 12);
+    });
+
+    if (referenceLine) {
+        const y = top + plotHeight - plotHeight * referenceLine.value / max;
+        g.strokeStyle = '#dc2626';
+        g.setLineDash([8, 6]);
+        g.beginPath();
+        g.moveTo(left, y);
+        g.lineTo(width - right, y);
+        g.stroke();
+        g.setLineDash([]);
+        g.fillStyle = '#dc2626';
+        g.textAlign = 'right';
+        g.textBaseline = 'bottom';
+        g.fillText(referenceLine.label, width - right, y - 4);
+    }
+
+    // Legend
+    if (series.length > 1) {
+        let x = left;
+        g.textAlign = 'left';
+        g.textBaseline = 'middle';
+        series.forEach(s => {
+            g.fillStyle = rgb(s.color);
+            g.fillRect(x, 16, 16, 16);
+            g.fillStyle = '#374151';
+            g.fillText(s.name, x + 22, 24);
+            x += g.measureText(s.name).width + 50;
+        });
+    }
+
+    return canvas.toDataURL('image/png');
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Load an image (e.g. the brand logo) into a PNG data URL; null if it can't be read
+ */
+export function loadImage(url: string): Promise<LoadedImage | null> {
+    if (typeof document === 'undefined') return Promise.resolve(null);
+
+    return new Promise(resolve => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = img.naturalWidth;
+                canvas.height = img.naturalHeight;
+                canvas.getContext('2d')!.drawImage(img, 0, 0);
+                resolve({ dataUrl: canvas.toDataURL('image/png'), width: img.naturalWidth, height: img.naturalHeight });
+            } catch (error) {
+                // Tainted canvas - the logo host doesn't allow cross-origin reads
+                console.warn('Could not embed report logo:', error);
+                resolve(null);
+            }
+        };
+        img.onerror = () => resolve(null);
+        img.src = url;
+    });
+}
+
+function fitImage(image: LoadedImage, maxWidth: number, maxHeight: number): { w: number; h: number } {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    return { w: image.width * scale, h: image.height * scale };
+}
+
+function groupSpendByChannel(lines: Line[]): { label: string; value: number }[] {
+    const spend = new Map<string, number>();
+    lines.forEach(l => spend.set(l.channel, (spend.get(l.channel) || 0) + l.totalCost));
+    return Array.from(spend.entries())
+        .map(([label, value]) => ({ label, value }))
+        .sort((a, b) => b.value - a.value);
+}
+
+function hexToRgb(hex: string, fallback: string): RGB {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex) || /^#?([0-9a-f]{6})$/i.exec(fallback)!;
+    const value = parseInt(match[1], 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function formatCurrency(value: number): string {
+    return `$${Math.round(value).toLocaleString()}`;
+}
+
+function formatNumber(value: number): string {
+    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+    if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+    return Math.round(value).toLocaleString();
+}
+
+function formatModel(model: string): string {
+    return model.split('_').map(w => capitalize(w.toLowerCase())).join(' ');
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -5,7 +5,7 @@
  */
 
 import { Line, Flight } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { generateId } from '../logic/dummyData';
 
 export interface PlacementTemplate {
     channel: Line['channel'] | 'Connected TV' | 'Linear TV' | 'Audio';
@@ -313,7 +313,7 @@ function createPlacement(params: {
     const quantity = 1;
 
     return {
-        id: uuidv4(),
+        id: generateId(),
         name: `${vendor} - ${adUnit}`,
         channel,
         status: 'PLANNING',
@@ -0,0 +1,302 @@
+/**
+ * Plan Diff Engine - What changed between two versions of a media plan
+ *
+ * Compares two MediaPlans down to the Line level and rolls the deltas up to
+ * flight and campaign budget. Lines are matched by id; a line present in only
+ * one plan is reported as added/removed, otherwise each tracked field is compared.
+ *
+ * The active flight's lines are read from campaign.placements (the working copy
+ * that the agent and table edit); other flights are read from campaign.flights.
+ */
+
+import { Line, MediaPlan } from '../types';
+
+export type LineChangeType = 'added' | 'removed' | 'modified';
+
+export type DiffField =
+    | 'name' | 'vendor' | 'channel' | 'adUnit' | 'status' | 'costMethod' | 'buyingType'
+    | 'rate' | 'quantity' | 'totalCost' | 'startDate' | 'endDate'
+    | 'segment' | 'segments' | 'targeting.geo' | 'targeting.demographics' | 'targeting.devices';
+
+export interface FieldChange {
+    field: DiffField;
+    before: unknown;
+    after: unknown;
+}
+
+export interface LineDiff {
+    lineId: string;
+    flightId: string;
+    name: string;
+    channel: string;
+    vendor: string;
+    changeType: LineChangeType;
+    changes: FieldChange[];
+    costBefore: number;
+    costAfter: number;
+    costDelta: number;
+}
+
+export interface FlightDiff {
+    flightId: string;
+    name: string;
+    budgetBefore: number;
+    budgetAfter: number;
+    budgetDelta: number;
+    spendBefore: number;
+    spendAfter: number;
+    spendDelta: number;
+    added: number;
+    removed: number;
+    modified: number;
+}
+
+export interface PlanDiff {
+    fromVersion: number;
+    toVersion: number;
+    lines: LineDiff[];
+    flights: FlightDiff[];
+    campaign: {
+        budgetBefore: number;
+        budgetAfter: number;
+        budgetDelta: number;
+        spendBefore: number;
+        spendAfter: number;
+        spendDelta: number;
+    };
+    summary: {
+        added: number;
+        removed: number;
+        modified: number;
+        unchanged: number;
+    };
+    hasChanges: boolean;
+}
+
+// Fields compared on every matched line, in display order
+const TRACKED_FIELDS: Array<{ field: DiffField; get: (line: Line) => unknown }> = [
+    { field: 'name', get: l => l.name },
+    { field: 'vendor', get: l => l.vendor },
+    { field: 'channel', get: l => l.channel },
+    { field: 'adUnit', get: l => l.adUnit },
+    { field: 'status', get: l => l.performance?.status || l.status },
+    { field: 'costMethod', get: l => l.costMethod },
+    { field: 'buyingType', get: l => l.buyingType },
+    { field: 'rate', get: l => l.rate },
+    { field: 'quantity', get: l => l.quantity },
+    { field: 'totalCost', get: l => l.totalCost },
+    { field: 'startDate', get: l => l.startDate },
+    { field: 'endDate', get: l => l.endDate },
+    { field: 'segment', get: l => l.segment },
+    { field: 'segments', get: l => (l.segments || []).map(s => s.name).sort() },
+    { field: 'targeting.geo', get: l => l.targeting?.geo || [] },
+    { field: 'targeting.demographics', get: l => l.targeting?.demographics || [] },
+    { field: 'targeting.devices', get: l => l.targeting?.devices || [] }
+];
+
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+    'name': 'Name',
+    'vendor': 'Vendor',
+    'channel': 'Channel',
+    'adUnit': 'Ad Unit',
+    'status': 'Status',
+    'costMethod': 'Cost Method',
+    'buyingType': 'Buying Type',
+    'rate': 'Rate',
+    'quantity': 'Quantity',
+    'totalCost': 'Total Cost',
+    'startDate': 'Start Date',
+    'endDate': 'End Date',
+    'segment': 'Segment',
+    'segments': 'Segments',
+    'targeting.geo': 'Geo Targeting',
+    'targeting.demographics': 'Demographics',
+    'targeting.devices': 'Devices'
+};
+
+// Rates are floats; ignore sub-cent noise
+const NUMERIC_TOLERANCE = 0.005;
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return Math.abs(a - b) < NUMERIC_TOLERANCE;
+    }
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+interface FlightLines {
+    name: string;
+    budget: number;
+    lines: Line[];
+}
+
+/**
+ * Collect lines per flight, preferring the live placements for the active flight
+ */
+function collectFlightLines(plan: MediaPlan): Map<string, FlightLines> {
+    const result = new Map<string, FlightLines>();
+    const campaign = plan.campaign;
+
+    (campaign.flights || []).forEach(flight => {
+        const isActive = flight.id === plan.activeFlightId;
+        result.set(flight.id, {
+            name: flight.name,
+            budget: flight.budget,
+            lines: isActive && campaign.placements ? campaign.placements : flight.lines
+        });
+    });
+
+    // Plans without an active flight (or whose flight isn't on the campaign) still diff their placements
+    const activeKey = plan.activeFlightId || 'plan';
+    if (!result.has(activeKey)) {
+        result.set(activeKey, {
+            name: 'Current Plan',
+            budget: campaign.budget,
+            lines: campaign.placements || []
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Compare one line against its previous version
+ */
+export function diffLine(before: Line, after: Line): FieldChange[] {
+    return TRACKED_FIELDS
+        .map(({ field, get }) => ({ field, before: get(before), after: get(after) }))
+        .filter(change => !valuesEqual(change.before, change.after));
+}
+
+/**
+ * Compare two plans. `before` is the older version.
+ */
+export function diffPlans(before: MediaPlan, after: MediaPlan): PlanDiff {
+    const beforeFlights = collectFlightLines(before);
+    const afterFlights = collectFlightLines(after);
+    const flightIds = Array.from(new Set([...beforeFlights.keys(), ...afterFlights.keys()]));
+
+    const lines: LineDiff[] = [];
+    const flights: FlightDiff[] = [];
+    let unchanged = 0;
+
+    flightIds.forEach(flightId => {
+        const prev = beforeFlights.get(flightId);
+        const next = afterFlights.get(flightId);
+        const prevLines = new Map((prev?.lines || []).map(l => [l.id, l]));
+        const nextLines = new Map((next?.lines || []).map(l => [l.id, l]));
+
+        const flightDiff: FlightDiff = {
+            flightId,
+            name: next?.name || prev?.name || flightId,
+            budgetBefore: prev?.budget || 0,
+            budgetAfter: next?.budget || 0,
+            budgetDelta: (next?.budget || 0) - (prev?.budget || 0),
+            spendBefore: sumCost(prev?.lines),
+            spendAfter: sumCost(next?.lines),
+            spendDelta: sumCost(next?.lines) - sumCost(prev?.lines),
+            added: 0,
+            removed: 0,
+            modified: 0
+        };
+
+        nextLines.forEach((line, id) => {
+            const oldLine = prevLines.get(id);
+            if (!oldLine) {
+                flightDiff.added++;
+                lines.push(buildLineDiff(flightId, undefined, line, 'added', []));
+                return;
+            }
+            const changes = diffLine(oldLine, line);
+            if (changes.length === 0) {
+                unchanged++;
+                return;
+            }
+            flightDiff.modified++;
+            lines.push(buildLineDiff(flightId, oldLine, line, 'modified', changes));
+        });
+
+        prevLines.forEach((line, id) => {
+            if (nextLines.has(id)) return;
+            flightDiff.removed++;
+            lines.push(buildLineDiff(flightId, line, undefined, 'removed', []));
+        });
+
+        flights.push(flightDiff);
+    });
+
+    const spendBefore = flights.reduce((sum, f) => sum + f.spendBefore, 0);
+    const spendAfter = flights.reduce((sum, f) => sum + f.spendAfter, 0);
+    const summary = {
+        added: lines.filter(l => l.changeType === 'added').length,
+        removed: lines.filter(l => l.changeType === 'removed').length,
+        modified: lines.filter(l => l.changeType === 'modified').length,
+        unchanged
+    };
+
+    return {
+        fromVersion: before.version,
+        toVersion: after.version,
+        lines,
+        flights,
+        campaign: {
+            budgetBefore: before.campaign.budget,
+            budgetAfter: after.campaign.budget,
+            budgetDelta: after.campaign.budget - before.campaign.budget,
+            spendBefore,
+            spendAfter,
+            spendDelta: spendAfter - spendBefore
+        },
+        summary,
+        hasChanges: lines.length > 0 || before.campaign.budget !== after.campaign.budget || flights.some(f => f.budgetDelta !== 0)
+    };
+}
+
+/**
+ * Line id -> change type, for highlighting rows in the plan table
+ */
+export function getLineChangeMap(diff: PlanDiff): Record<string, LineChangeType> {
+    return diff.lines.reduce((map, line) => {
+        map[line.lineId] = line.changeType;
+        return map;
+    }, {} as Record<string, LineChangeType>);
+}
+
+/**
+ * Format a changed value for display
+ */
+export function formatDiffValue(field: DiffField, value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'rate' || field === 'totalCost') {
+        return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+    if (field === 'quantity') return Number(value).toLocaleString();
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+        return entries.length > 0 ? entries.map(([k, v]) => `${k}: ${Array.isArray(v) ? v.join('/') : v}`).join('; ') : '—';
+    }
+    return String(value);
+}
+
+function buildLineDiff(flightId: string, before: Line | undefined, after: Line | undefined, changeType: LineChangeType, changes: FieldChange[]): LineDiff {
+    const line = (after || before)!;
+    const costBefore = before?.totalCost || 0;
+    const costAfter = after?.totalCost || 0;
+    return {
+        lineId: line.id,
+        flightId,
+        name: line.name,
+        channel: line.channel,
+        vendor: line.vendor,
+        changeType,
+        changes,
+        costBefore,
+        costAfter,
+        costDelta: costAfter - costBefore
+    };
+}
+
+function sumCost(lines?: Line[]): number {
+    return (lines || []).reduce((sum, l) => sum + (l.totalCost || 0), 0);
+}
@@ -0,0 +1,431 @@
+/**
+ * Plan Importer - CSV/XLSX media plan import
+ *
+ * Turns vendor and legacy plan spreadsheets into `Line` objects in three steps:
+ * 1. Parse the file into a header row plus data rows (parseImportFile)
+ * 2. Map spreadsheet columns to line fields (suggestColumnMapping, user-editable)
+ * 3. Build and validate lines row by row (buildImportPreview)
+ *
+ * Channels are normalized with the same vendor→channel logic the chat uses
+ * when adding placements, and rows are checked with the utils/validation rules.
+ */
+
+import JSZip from 'jszip';
+import { Line, CostMethod, Flight } from '../types';
+import { getChannelFromVendor } from '../logic/ChannelManager';
+import { generateId } from '../logic/dummyData';
+import { validateRate, validateQuantity, validateCostMethod, validateDateRange } from './validation';
+
+export type ImportField = 'name' | 'vendor' | 'channel' | 'adUnit' | 'rate' | 'costMethod' | 'startDate' | 'endDate' | 'quantity';
+
+export interface ImportTable {
+    headers: string[];
+    rows: string[][];
+    rowNumbers: number[];    // 1-based spreadsheet row of each data row, counting blank rows
+}
+
+/** Field -> column index (null = not mapped) */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportFieldDefinition {
+    field: ImportField;
+    label: string;
+    required: boolean;
+    aliases: string[];
+}
+
+export interface ImportRow {
+    rowNumber: number;       // 1-based spreadsheet row (header is row 1)
+    line: Line | null;       // null when the row has errors
+    errors: string[];
+    warnings: string[];
+}
+
+export interface ImportPreview {
+    rows: ImportRow[];
+    validLines: Line[];
+    errorCount: number;
+    warningCount: number;
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+    { field: 'vendor', label: 'Vendor', required: true, aliases: ['vendor', 'publisher', 'partner', 'network', 'platform', 'supplier'] },
+    { field: 'channel', label: 'Channel', required: false, aliases: ['channel', 'media type', 'media', 'tactic type'] },
+    { field: 'adUnit', label: 'Ad Unit', required: true, aliases: ['ad unit', 'adunit', 'placement', 'format', 'unit', 'program', 'daypart'] },
+    { field: 'rate', label: 'Rate', required: true, aliases: ['rate', 'unit cost', 'unit rate', 'price', 'cpm', 'net rate', 'gross rate'] },
+    { field: 'costMethod', label: 'Cost Method', required: true, aliases: ['cost method', 'cost type', 'buy type', 'pricing', 'rate type', 'pricing model'] },
+    { field: 'startDate', label: 'Start Date', required: false, aliases: ['start date', 'start', 'from', 'flight start', 'begin'] },
+    { field: 'endDate', label: 'End Date', required: false, aliases: ['end date', 'end', 'to', 'flight end', 'finish'] },
+    { field: 'quantity', label: 'Quantity', required: true, aliases: ['quantity', 'qty', 'units', 'impressions', 'imps', 'spots', 'clicks', 'volume'] },
+    { field: 'name', label: 'Line Name', required: false, aliases: ['line', 'line name', 'name', 'description', 'line item'] }
+];
+
+const LINE_CHANNELS: Record<string, Line['channel']> = {
+    'search': 'Search',
+    'sem': 'Search',
+    'paid search': 'Search',
+    'social': 'Social',
+    'paid social': 'Social',
+    'display': 'Display',
+    'programmatic': 'Display',
+    'native': 'Display',
+    'tv': 'TV',
+    'ctv': 'TV',
+    'connected tv': 'TV',
+    'linear tv': 'TV',
+    'video': 'TV',
+    'olv': 'TV',
+    'radio': 'Radio',
+    'streaming audio': 'Streaming Audio',
+    'audio': 'Streaming Audio',
+    'podcast': 'Podcast',
+    'podcasts': 'Podcast',
+    'place-based audio': 'Place-based Audio',
+    'place-based': 'Place-based Audio',
+    'in-store': 'Place-based Audio',
+    'ooh': 'OOH',
+    'dooh': 'OOH',
+    'out of home': 'OOH',
+    'print': 'Print'
+};
+
+const COST_METHODS: Record<string, CostMethod> = {
+    'cpm': 'CPM',
+    'vcpm': 'CPM',
+    'cpc': 'CPC',
+    'flat': 'Flat',
+    'flat fee': 'Flat',
+    'flat rate': 'Flat',
+    'fixed': 'Flat',
+    'sponsorship': 'Flat',
+    'spot': 'Spot',
+    'per spot': 'Spot',
+    'unit': 'Spot'
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a .csv or .xlsx file into a header row plus data rows
+ */
+export async function parseImportFile(file: File): Promise<ImportTable> {
+    const isExcel = /\.xlsx$/i.test(file.name);
+    const grid = isExcel ? await parseXLSX(await file.arrayBuffer()) : parseCSV(await file.text());
+
+    // Drop fully empty rows so trailing blank lines don't become errors, keeping
+    // each row's position so errors still point at the right spreadsheet row
+    const rows = grid
+        .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+        .filter(row => row.cells.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) {
+        throw new Error(`${file.name} doesn't contain any rows`);
+    }
+
+    const [headers, ...data] = rows;
+    return {
+        headers: headers.cells.map(h => h.trim()),
+        rows: data.map(row => row.cells),
+        rowNumbers: data.map(row => row.rowNumber)
+    };
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, newlines in quotes)
+ */
+export function parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 BOM left by Excel's "CSV UTF-8" export
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook into a grid of strings
+ */
+export async function parseXLSX(data: ArrayBuffer): Promise<string[][]> {
+    const zip = await JSZip.loadAsync(data);
+    const parser = new DOMParser();
+    const read = async (path: string) => {
+        const file = zip.file(path);
+        return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+    };
+
+    const sharedStrings = Array.from((await read('xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+        .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+    // Resolve the first sheet through the workbook relationships rather than assuming sheet1.xml
+    const workbook = await read('xl/workbook.xml');
+    const rels = await read('xl/_rels/workbook.xml.rels');
+    const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id');
+    const target = Array.from(rels?.getElementsByTagName('Relationship') || [])
+        .find(r => r.getAttribute('Id') === relId)
+        ?.getAttribute('Target');
+    const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+
+    const sheet = await read(sheetPath);
+    if (!sheet) {
+        throw new Error('The workbook has no readable worksheet');
+    }
+
+    const grid: string[][] = [];
+    Array.from(sheet.getElementsByTagName('row')).forEach(rowEl => {
+        const rowIndex = parseInt(rowEl.getAttribute('r') || `${grid.length + 1}`) - 1;
+        const row: string[] = [];
+
+        Array.from(rowEl.getElementsByTagName('c')).forEach((cell, position) => {
+            const ref = cell.getAttribute('r');
+            const col = ref ? columnIndex(ref) : position;
+            const type = cell.getAttribute('t');
+            const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+            let value = raw;
+            if (type === 's') value = sharedStrings[parseInt(raw)] ?? '';
+            else if (type === 'inlineStr') value = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+            while (row.length < col) row.push('');
+            row[col] = value;
+        });
+
+        while (grid.length < rowIndex) grid.push([]);
+        grid[rowIndex] = row;
+    });
+
+    return grid;
+}
+
+function columnIndex(ref: string): number {
+    const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    return letters.split('').reduce((index, letter) => index * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+// =============================================================================
+// Column mapping
+// =============================================================================
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(h => h.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim());
+    const used = new Set<number>();
+    const mapping = {} as ColumnMapping;
+
+    IMPORT_FIELDS.forEach(({ field, aliases }) => {
+        // Exact alias match first, then headers that contain an alias ("Net Rate (USD)")
+        let index = normalized.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+        if (index === -1) {
+            index = normalized.findIndex((h, i) => !used.has(i) && aliases.some(a => h.includes(a)));
+        }
+        mapping[field] = index === -1 ? null : index;
+        if (index !== -1) used.add(index);
+    });
+
+    return mapping;
+}
+
+/**
+ * Required fields that have no column assigned
+ */
+export function getUnmappedRequiredFields(mapping: ColumnMapping): ImportFieldDefinition[] {
+    return IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+}
+
+// =============================================================================
+// Row conversion & validation
+// =============================================================================
+
+function parseNumber(value: string): number {
+    const cleaned = value.replace(/[$,\s]/g, '');
+    return cleaned === '' ? NaN : Number(cleaned);
+}
+
+/**
+ * YYYY-MM-DD for a calendar date, or null when it doesn't exist (Feb 30, month 13)
+ */
+function toISODate(year: number, month: number, day: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Normalize a date cell to YYYY-MM-DD. Accepts ISO dates, US-style M/D/YYYY,
+ * Excel serial day numbers (how unformatted XLSX dates arrive) and written-out
+ * dates with a year ("March 5, 2026"). Dates that don't exist are rejected.
+ */
+export function normalizeImportDate(value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return toISODate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (us) {
+        const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+        return toISODate(year, Number(us[1]), Number(us[2]));
+    }
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const serial = Math.floor(parseFloat(trimmed));
+        // Excel's day 0 is 1899-12-30 (accounting for its 1900 leap-year bug)
+        const date = new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+        return date.toISOString().slice(0, 10);
+    }
+
+    // Without a year the browser guesses one ("Mar 5" parses as 2001)
+    if (!/\b\d{4}\b/.test(trimmed)) return null;
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : toISODate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+/**
+ * Resolve the line channel: an explicit channel column wins, otherwise it is
+ * inferred from the vendor the same way chat-added placements are
+ */
+export function normalizeImportChannel(channelValue: string, vendor: string): { channel: Line['channel'] | null; vendorName: string; inferred: boolean } {
+    const fromVendor = getChannelFromVendor(vendor.trim());
+    const explicit = LINE_CHANNELS[channelValue.trim().toLowerCase()];
+
+    if (channelValue.trim()) {
+        return { channel: explicit || null, vendorName: fromVendor.vendorName, inferred: false };
+    }
+    return { channel: fromVendor.channel as Line['channel'], vendorName: fromVendor.vendorName, inferred: true };
+}
+
+/**
+ * Convert and validate every row. Rows with errors produce no line.
+ */
+export function buildImportPreview(table: ImportTable, mapping: ColumnMapping, flight?: Pick<Flight, 'startDate' | 'endDate'>): ImportPreview {
+    const rows = table.rows.map((cells, index): ImportRow => {
+        const get = (field: ImportField) => {
+            const col = mapping[field];
+            return col === null ? '' : (cells[col] ?? '').trim();
+        };
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        const vendorValue = get('vendor');
+        const adUnit = get('adUnit');
+        if (!vendorValue) errors.push('Vendor is required');
+        if (!adUnit) errors.push('Ad unit is required');
+
+        const { channel, vendorName, inferred } = normalizeImportChannel(get('channel'), vendorValue);
+        if (!channel) {
+            errors.push(`Unknown channel "${get('channel')}"`);
+        } else if (inferred && vendorValue) {
+            warnings.push(`Channel inferred from vendor as ${channel}`);
+        }
+
+        const rate = parseNumber(get('rate'));
+        const rateCheck = validateRate(rate);
+        if (!rateCheck.isValid) errors.push(rateCheck.error!);
+
+        const quantity = parseNumber(get('quantity'));
+        const quantityCheck = validateQuantity(quantity);
+        if (!quantityCheck.isValid) errors.push(quantityCheck.error!);
+
+        const costMethod = COST_METHODS[get('costMethod').toLowerCase()] || get('costMethod');
+        const costCheck = validateCostMethod(costMethod);
+        if (!costCheck.isValid) errors.push(costCheck.error!);
+
+        // Missing dates fall back to the flight's dates
+        const startDate = mapping.startDate !== null && get('startDate') ? normalizeImportDate(get('startDate')) : flight?.startDate || null;
+        const endDate = mapping.endDate !== null && get('endDate') ? normalizeImportDate(get('endDate')) : flight?.endDate || null;
+        if (!startDate || !endDate) {
+            errors.push(!startDate ? `Invalid start date "${get('startDate')}"` : `Invalid end date "${get('endDate')}"`);
+        } else {
+            const dateCheck = validateDateRange(new Date(startDate), new Date(endDate));
+            if (!dateCheck.isValid) errors.push(dateCheck.error!);
+            if (flight && (startDate < flight.startDate || endDate > flight.endDate)) {
+                warnings.push(`Dates fall outside the flight (${flight.startDate} to ${flight.endDate})`);
+            }
+        }
+
+        if (errors.length > 0) {
+            return { rowNumber: table.rowNumbers[index], line: null, errors, warnings };
+        }
+
+        const method = costMethod as CostMethod;
+        const totalCost = method === 'CPM' ? (rate * quantity) / 1000 : rate * quantity;
+        const impressions = method === 'CPM' ? quantity : 0;
+        // Same 40% unique reach assumption as calculatePlanMetrics
+        const reach = Math.floor(impressions * 0.4);
+
+        const line: Line = {
+            id: generateId(),
+            name: get('name') || `${vendorName} - ${adUnit}`,
+            channel: channel!,
+            status: 'PLANNING',
+            vendor: vendorName,
+            adUnit,
+            rate,
+            costMethod: method,
+            startDate: startDate!,
+            endDate: endDate!,
+            quantity,
+            totalCost,
+            forecast: {
+                impressions,
+                spend: totalCost,
+                reach,
+                frequency: reach > 0 ? impressions / reach : 0,
+                source: 'Internal'
+            }
+        };
+
+        return { rowNumber: table.rowNumbers[index], line, errors, warnings };
+    });
+
+    return {
+        rows,
+        validLines: rows.filter(r => r.line).map(r => r.line!),
+        errorCount: rows.filter(r => r.errors.length > 0).length,
+        warningCount: rows.filter(r => r.warnings.length > 0).length
+    };
+}
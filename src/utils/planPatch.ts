@@ -0,0 +1,222 @@
+/**
+ * Plan Patches - Structural, invertible changes to plan state
+ *
+ * Every mutation is expressed as a list of PatchOps instead of a full
+ * before/after snapshot:
+ * - set:    replace the value at a path (before/after kept for inversion)
+ * - insert: insert a value into the array at a path
+ * - remove: remove a value from the array at a path
+ *
+ * Paths address arrays by `{ id }` where possible so a patch still finds its
+ * line after rows are re-ordered, inserted or edited elsewhere.
+ *
+ * PatchTransaction applies ops to a live object while recording them, so
+ * callers mutate through the transaction and get an exact inverse for free.
+ */
+
+import { MediaPlan } from '../types';
+
+export type PatchPathSegment = string | number | { id: string };
+export type PatchPath = PatchPathSegment[];
+
+export type PatchOp =
+    | { op: 'set'; path: PatchPath; before?: unknown; after?: unknown }
+    | { op: 'insert'; path: PatchPath; index: number; value: unknown }
+    | { op: 'remove'; path: PatchPath; index: number; value: unknown };
+
+export type Patch = PatchOp[];
+
+/**
+ * Thrown when a patch no longer matches the state it is applied to
+ * (e.g. the value was edited elsewhere after the action was recorded)
+ */
+export class PatchConflictError extends Error {
+    constructor(message: string, public readonly path: PatchPath) {
+        super(message);
+        this.name = 'PatchConflictError';
+    }
+}
+
+/**
+ * History scope for a media plan. Flight ids are stable across sessions; plan ids are not.
+ */
+export function getPlanScope(plan: MediaPlan): string {
+    return `plan:${plan.activeFlightId || plan.id}`;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function formatPath(path: PatchPath): string {
+    return path.map(s => (typeof s === 'object' ? `[${s.id}]` : String(s))).join('.');
+}
+
+function resolveSegment(container: any, segment: PatchPathSegment): string | number {
+    if (typeof segment !== 'object') return segment;
+    if (!Array.isArray(container)) {
+        throw new PatchConflictError(`Expected a list when looking up "${segment.id}"`, [segment]);
+    }
+    const index = container.findIndex((item: any) => item?.id === segment.id);
+    if (index === -1) {
+        throw new PatchConflictError(`Item "${segment.id}" no longer exists`, [segment]);
+    }
+    return index;
+}
+
+/**
+ * Walk to the parent of the last path segment
+ */
+function resolveParent(root: any, path: PatchPath, createMissing: boolean): { parent: any; key: string | number } {
+    let node = root;
+    for (let i = 0; i < path.length - 1; i++) {
+        const key = resolveSegment(node, path[i]);
+        if (node[key] === undefined || node[key] === null) {
+            if (!createMissing) {
+                throw new PatchConflictError(`Path ${formatPath(path)} no longer exists`, path);
+            }
+            node[key] = typeof path[i + 1] === 'number' ? [] : {};
+        }
+        node = node[key];
+    }
+    return { parent: node, key: resolveSegment(node, path[path.length - 1]) };
+}
+
+/**
+ * Read the value at a path (undefined if any segment is missing)
+ */
+export function getAtPath(root: any, path: PatchPath): unknown {
+    try {
+        const { parent, key } = resolveParent(root, path, false);
+        return parent[key];
+    } catch {
+        return undefined;
+    }
+}
+
+function resolveArray(root: any, path: PatchPath, createMissing: boolean): any[] {
+    if (path.length === 0) return root;
+    const { parent, key } = resolveParent(root, path, createMissing);
+    if (!Array.isArray(parent[key])) {
+        if (!createMissing) {
+            throw new PatchConflictError(`Path ${formatPath(path)} is not a list`, path);
+        }
+        parent[key] = [];
+    }
+    return parent[key];
+}
+
+function applyOp(root: any, op: PatchOp, verify: boolean): void {
+    if (op.op === 'set') {
+        const { parent, key } = resolveParent(root, op.path, true);
+        if (verify && !isEqual(parent[key], op.before)) {
+            throw new PatchConflictError(`${formatPath(op.path)} was changed after this action`, op.path);
+        }
+        if (op.after === undefined) {
+            delete parent[key];
+        } else {
+            parent[key] = clone(op.after);
+        }
+        return;
+    }
+
+    const list = resolveArray(root, op.path, op.op === 'insert');
+    const valueId = (op.value as any)?.id;
+
+    if (op.op === 'insert') {
+        if (verify && valueId !== undefined && list.some(item => item?.id === valueId)) {
+            throw new PatchConflictError(`Item "${valueId}" already exists`, op.path);
+        }
+        list.splice(Math.min(op.index, list.length), 0, clone(op.value));
+        return;
+    }
+
+    const index = valueId !== undefined ? list.findIndex(item => item?.id === valueId) : op.index;
+    if (index < 0 || index >= list.length) {
+        throw new PatchConflictError(`Item to remove at ${formatPath(op.path)} no longer exists`, op.path);
+    }
+    if (verify && valueId === undefined && !isEqual(list[index], op.value)) {
+        throw new PatchConflictError(`${formatPath(op.path)} was changed after this action`, op.path);
+    }
+    list.splice(index, 1);
+}
+
+/**
+ * Apply a patch in place. Ops are verified against their expected "before"
+ * state first, so a conflicting patch leaves the target untouched.
+ */
+export function applyPatch<T>(target: T, patch: Patch): T {
+    // Dry run on a copy to detect conflicts before touching live state
+    const scratch = clone(target);
+    patch.forEach(op => applyOp(scratch, op, true));
+    patch.forEach(op => applyOp(target, op, false));
+    return target;
+}
+
+/**
+ * Build the patch that exactly reverses `patch`
+ */
+export function invertPatch(patch: Patch): Patch {
+    return patch.slice().reverse().map((op): PatchOp => {
+        if (op.op === 'set') return { op: 'set', path: op.path, before: op.after, after: op.before };
+        if (op.op === 'insert') return { op: 'remove', path: op.path, index: op.index, value: op.value };
+        return { op: 'insert', path: op.path, index: op.index, value: op.value };
+    });
+}
+
+/**
+ * Records every change made through it as a PatchOp while applying it to the target
+ */
+export class PatchTransaction<T extends object = MediaPlan> {
+    readonly ops: Patch = [];
+
+    constructor(public readonly target: T) { }
+
+    /**
+     * Set a value (no-op if unchanged)
+     */
+    set(path: PatchPath, value: unknown): this {
+        const before = getAtPath(this.target, path);
+        if (isEqual(before, value)) return this;
+        const op: PatchOp = { op: 'set', path, before: clone(before), after: clone(value) };
+        applyOp(this.target, op, false);
+        this.ops.push(op);
+        return this;
+    }
+
+    /**
+     * Append a value to the array at path
+     */
+    push(path: PatchPath, value: unknown): this {
+        const list = resolveArray(this.target, path, true);
+        return this.insert(path, list.length, value);
+    }
+
+    insert(path: PatchPath, index: number, value: unknown): this {
+        const op: PatchOp = { op: 'insert', path, index, value: clone(value) };
+        applyOp(this.target, op, false);
+        this.ops.push(op);
+        return this;
+    }
+
+    /**
+     * Remove the item with the given id from the array at path
+     */
+    removeById(path: PatchPath, id: string): this {
+        const list = resolveArray(this.target, path, false);
+        const index = list.findIndex(item => item?.id === id);
+        if (index === -1) return this;
+        const op: PatchOp = { op: 'remove', path, index, value: clone(list[index]) };
+        applyOp(this.target, op, false);
+        this.ops.push(op);
+        return this;
+    }
+
+    get isEmpty(): boolean {
+        return this.ops.length === 0;
+    }
+}
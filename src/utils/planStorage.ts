@@ -0,0 +1,443 @@
+/**
+ * Plan Storage - Versioned persistence for media plans and brand workspaces
+ *
+ * Every save writes an immutable plan version (keyed by brand + flight) and a
+ * snapshot of the brand's campaigns/flights so work survives a reload.
+ *
+ * Storage is pluggable: IndexedDB is used in the browser, and any object that
+ * implements PlanStorageAdapter (in-memory, local JSON file, ...) can be
+ * swapped in via planStorage.setAdapter() - e.g. for tests.
+ *
+ * SCHEMA MIGRATIONS:
+ * Each record stores the format version it was written with. When a record is
+ * read, PLAN_MIGRATIONS (or BRAND_MIGRATIONS for brand snapshots) are applied in
+ * order until it reaches PLAN_STORAGE_FORMAT_VERSION, so old saves keep loading
+ * after types.ts changes.
+ */
+
+import { Brand, MediaPlan } from '../types';
+
+// =============================================================================
+// RECORD TYPES
+// =============================================================================
+
+export const PLAN_STORAGE_FORMAT_VERSION = 1;
+
+export interface StoredPlanVersion {
+    id: string;              // `${brandId}:${planKey}:v${version}`
+    brandId: string;
+    planKey: string;         // Active flight id (falls back to plan id)
+    version: number;
+    formatVersion: number;
+    savedAt: number;
+    label?: string;
+    plan: MediaPlan;
+}
+
+export interface StoredBrandSnapshot {
+    brandId: string;
+    formatVersion: number;
+    savedAt: number;
+    brand: Brand;
+}
+
+export interface PlanVersionSummary {
+    id: string;
+    version: number;
+    savedAt: number;
+    label?: string;
+    totalSpend: number;
+    placementCount: number;
+}
+
+// =============================================================================
+// ADAPTERS
+// =============================================================================
+
+export interface PlanStorageAdapter {
+    readonly name: string;
+    /**
+     * Write the next version of a plan. Reading the latest version number and
+     * writing the record happen atomically, so concurrent saves never share a version.
+     */
+    addPlanVersion(brandId: string, planKey: string, create: (latestVersion: number) => StoredPlanVersion): Promise<StoredPlanVersion>;
+    getPlanVersions(brandId: string, planKey?: string): Promise<StoredPlanVersion[]>;
+    putBrand(snapshot: StoredBrandSnapshot): Promise<void>;
+    getBrand(brandId: string): Promise<StoredBrandSnapshot | null>;
+    listBrands(): Promise<StoredBrandSnapshot[]>;
+    clear(): Promise<void>;
+}
+
+/**
+ * In-memory adapter. Records are cloned on the way in and out so callers can
+ * never mutate stored state. serialize()/fromSerialized() allow the whole
+ * store to be written to and read from a local JSON file.
+ */
+export class InMemoryPlanStorageAdapter implements PlanStorageAdapter {
+    readonly name: string = 'memory';
+    private planVersions = new Map<string, StoredPlanVersion>();
+    private brands = new Map<string, StoredBrandSnapshot>();
+
+    async addPlanVersion(brandId: string, planKey: string, create: (latestVersion: number) => StoredPlanVersion): Promise<StoredPlanVersion> {
+        const record = create(latestVersion(Array.from(this.planVersions.values()), brandId, planKey));
+        this.planVersions.set(record.id, clone(record));
+        return clone(record);
+    }
+
+    async getPlanVersions(brandId: string, planKey?: string): Promise<StoredPlanVersion[]> {
+        return Array.from(this.planVersions.values())
+            .filter(r => r.brandId === brandId && (!planKey || r.planKey === planKey))
+            .map(clone);
+    }
+
+    async putBrand(snapshot: StoredBrandSnapshot): Promise<void> {
+        this.brands.set(snapshot.brandId, clone(snapshot));
+    }
+
+    async getBrand(brandId: string): Promise<StoredBrandSnapshot | null> {
+        const snapshot = this.brands.get(brandId);
+        return snapshot ? clone(snapshot) : null;
+    }
+
+    async listBrands(): Promise<StoredBrandSnapshot[]> {
+        return Array.from(this.brands.values()).map(clone);
+    }
+
+    async clear(): Promise<void> {
+        this.planVersions.clear();
+        this.brands.clear();
+    }
+
+    /**
+     * Dump the store as JSON (e.g. to write to a local file)
+     */
+    serialize(): string {
+        return JSON.stringify({
+            planVersions: Array.from(this.planVersions.values()),
+            brands: Array.from(this.brands.values())
+        });
+    }
+
+    /**
+     * Rebuild a store from serialize() output
+     */
+    static fromSerialized(json: string): InMemoryPlanStorageAdapter {
+        const adapter = new InMemoryPlanStorageAdapter();
+        const data = JSON.parse(json) as { planVersions?: StoredPlanVersion[]; brands?: StoredBrandSnapshot[] };
+        (data.planVersions || []).forEach(r => adapter.planVersions.set(r.id, r));
+        (data.brands || []).forEach(b => adapter.brands.set(b.brandId, b));
+        return adapter;
+    }
+}
+
+const DB_NAME = 'fuseiq-plans';
+const DB_VERSION = 1;
+const PLAN_STORE = 'planVersions';
+const BRAND_STORE = 'brands';
+
+/**
+ * IndexedDB adapter used in the browser
+ */
+export class IndexedDBPlanStorageAdapter implements PlanStorageAdapter {
+    readonly name: string = 'indexeddb';
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private openDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(PLAN_STORE)) {
+                        const store = db.createObjectStore(PLAN_STORE, { keyPath: 'id' });
+                        store.createIndex('brandId', 'brandId', { unique: false });
+                    }
+                    if (!db.objectStoreNames.contains(BRAND_STORE)) {
+                        db.createObjectStore(BRAND_STORE, { keyPath: 'brandId' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async run<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.openDb();
+        return new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(storeName, mode);
+            const request = fn(tx.objectStore(storeName));
+            tx.oncomplete = () => resolve(request.result as T);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async addPlanVersion(brandId: string, planKey: string, create: (latestVersion: number) => StoredPlanVersion): Promise<StoredPlanVersion> {
+        const db = await this.openDb();
+        return new Promise<StoredPlanVersion>((resolve, reject) => {
+            // One readwrite transaction: a second save queues behind it and sees this version
+            const tx = db.transaction(PLAN_STORE, 'readwrite');
+            const store = tx.objectStore(PLAN_STORE);
+            let record: StoredPlanVersion;
+            const request = store.index('brandId').getAll(brandId);
+            request.onsuccess = () => {
+                try {
+                    record = create(latestVersion(request.result as StoredPlanVersion[], brandId, planKey));
+                    store.put(record);
+                } catch (error) {
+                    tx.abort();
+                    reject(error);
+                }
+            };
+            tx.oncomplete = () => resolve(record);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async getPlanVersions(brandId: string, planKey?: string): Promise<StoredPlanVersion[]> {
+        const records = await this.run<StoredPlanVersion[]>(PLAN_STORE, 'readonly', store => store.index('brandId').getAll(brandId));
+        return planKey ? records.filter(r => r.planKey === planKey) : records;
+    }
+
+    async putBrand(snapshot: StoredBrandSnapshot): Promise<void> {
+        await this.run(BRAND_STORE, 'readwrite', store => store.put(snapshot));
+    }
+
+    async getBrand(brandId: string): Promise<StoredBrandSnapshot | null> {
+        const snapshot = await this.run<StoredBrandSnapshot | undefined>(BRAND_STORE, 'readonly', store => store.get(brandId));
+        return snapshot || null;
+    }
+
+    async listBrands(): Promise<StoredBrandSnapshot[]> {
+        return this.run<StoredBrandSnapshot[]>(BRAND_STORE, 'readonly', store => store.getAll());
+    }
+
+    async clear(): Promise<void> {
+        await this.run(PLAN_STORE, 'readwrite', store => store.clear());
+        await this.run(BRAND_STORE, 'readwrite', store => store.clear());
+    }
+}
+
+// =============================================================================
+// MIGRATIONS
+// =============================================================================
+
+/**
+ * Migrations keyed by the format version they upgrade FROM.
+ * PLAN_MIGRATIONS[n] turns a format-n plan into a format-(n+1) plan.
+ */
+export const PLAN_MIGRATIONS: Record<number, (plan: any) => any> = {
+    // v0 -> v1: saves written before format versioning. Older plans could be
+    // missing legacy placements, grouping mode or a numeric version.
+    0: (plan: any) => {
+        const campaign = plan.campaign || {};
+        const activeFlight = (campaign.flights || []).find((f: any) => f.id === plan.activeFlightId);
+        return {
+            ...plan,
+            version: typeof plan.version === 'number' ? plan.version : 1,
+            groupingMode: plan.groupingMode || 'DETAILED',
+            strategy: plan.strategy || 'BALANCED',
+            campaign: {
+                ...campaign,
+                flights: campaign.flights || [],
+                placements: campaign.placements || activeFlight?.lines || []
+            }
+        };
+    }
+};
+
+/**
+ * Brand snapshot migrations, keyed the same way as PLAN_MIGRATIONS
+ */
+export const BRAND_MIGRATIONS: Record<number, (brand: any) => any> = {
+    // v0 -> v1: snapshots written before format versioning could be missing
+    // campaign, flight or line arrays
+    0: (brand: any) => ({
+        ...brand,
+        campaigns: (brand.campaigns || []).map((campaign: any) => ({
+            ...campaign,
+            flights: (campaign.flights || []).map((flight: any) => ({ ...flight, lines: flight.lines || [] }))
+        }))
+    })
+};
+
+function migrate(record: any, fromVersion: number, migrations: Record<number, (record: any) => any>, kind: string): any {
+    let migrated = record;
+    for (let v = fromVersion; v < PLAN_STORAGE_FORMAT_VERSION; v++) {
+        const migration = migrations[v];
+        if (!migration) {
+            throw new Error(`No ${kind} migration registered for format version ${v}`);
+        }
+        migrated = migration(migrated);
+    }
+    return migrated;
+}
+
+/**
+ * Bring a stored plan up to the current format version
+ */
+export function migratePlan(plan: any, fromVersion: number): MediaPlan {
+    return migrate(plan, fromVersion, PLAN_MIGRATIONS, 'plan') as MediaPlan;
+}
+
+/**
+ * Bring a stored brand up to the current format version
+ */
+export function migrateBrand(brand: any, fromVersion: number): Brand {
+    return migrate(brand, fromVersion, BRAND_MIGRATIONS, 'brand') as Brand;
+}
+
+// =============================================================================
+// STORAGE MANAGER
+// =============================================================================
+
+export class PlanStorageManager {
+    private adapter: PlanStorageAdapter;
+
+    constructor(adapter: PlanStorageAdapter) {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Swap the backing store (e.g. in-memory for tests)
+     */
+    setAdapter(adapter: PlanStorageAdapter): void {
+        this.adapter = adapter;
+    }
+
+    getAdapterName(): string {
+        return this.adapter.name;
+    }
+
+    /**
+     * Key used to group versions of the same plan across sessions.
+     * Plan ids are regenerated whenever a flight is opened, flight ids are not.
+     */
+    getPlanKey(plan: MediaPlan): string {
+        return plan.activeFlightId || plan.id;
+    }
+
+    /**
+     * Save a new version of a plan. Returns the plan with its incremented version.
+     */
+    async savePlan(brandId: string, plan: MediaPlan, label?: string): Promise<MediaPlan> {
+        const planKey = this.getPlanKey(plan);
+        const record = await this.adapter.addPlanVersion(brandId, planKey, latestStored => {
+            const version = Math.max(latestStored, plan.version || 0) + 1;
+            return {
+                id: `${brandId}:${planKey}:v${version}`,
+                brandId,
+                planKey,
+                version,
+                formatVersion: PLAN_STORAGE_FORMAT_VERSION,
+                savedAt: Date.now(),
+                label,
+                plan: { ...plan, version }
+            };
+        });
+
+        return { ...plan, version: record.version };
+    }
+
+    /**
+     * List saved versions of a plan, newest first
+     */
+    async listVersions(brandId: string, planKey: string): Promise<PlanVersionSummary[]> {
+        const records = await this.adapter.getPlanVersions(brandId, planKey);
+        return records
+            .sort((a, b) => b.version - a.version)
+            .map(r => ({
+                id: r.id,
+                version: r.version,
+                savedAt: r.savedAt,
+                label: r.label,
+                totalSpend: r.plan.totalSpend || 0,
+                placementCount: r.plan.campaign?.placements?.length || 0
+            }));
+    }
+
+    /**
+     * Load a specific saved version (migrated to the current format)
+     */
+    async loadVersion(brandId: string, planKey: string, version: number): Promise<MediaPlan | null> {
+        const records = await this.adapter.getPlanVersions(brandId, planKey);
+        const record = records.find(r => r.version === version);
+        return record ? this.readRecord(record) : null;
+    }
+
+    /**
+     * Load the most recent saved version of a plan
+     */
+    async loadLatest(brandId: string, planKey: string): Promise<MediaPlan | null> {
+        const records = await this.adapter.getPlanVersions(brandId, planKey);
+        if (records.length === 0) return null;
+        const latest = records.reduce((a, b) => (b.version > a.version ? b : a));
+        return this.readRecord(latest);
+    }
+
+    /**
+     * Persist the brand's campaigns/flights so they survive a reload
+     */
+    async saveBrand(brand: Brand): Promise<void> {
+        await this.adapter.putBrand({
+            brandId: brand.id,
+            formatVersion: PLAN_STORAGE_FORMAT_VERSION,
+            savedAt: Date.now(),
+            brand
+        });
+    }
+
+    async loadBrand(brandId: string): Promise<Brand | null> {
+        const snapshot = await this.adapter.getBrand(brandId);
+        return snapshot ? this.readBrand(snapshot) : null;
+    }
+
+    /**
+     * Load every saved brand workspace
+     */
+    async loadBrands(): Promise<Brand[]> {
+        const snapshots = await this.adapter.listBrands();
+        return snapshots.map(s => this.readBrand(s));
+    }
+
+    async clear(): Promise<void> {
+        await this.adapter.clear();
+    }
+
+    private readRecord(record: StoredPlanVersion): MediaPlan {
+        const formatVersion = typeof record.formatVersion === 'number' ? record.formatVersion : 0;
+        const plan = migratePlan(record.plan, formatVersion);
+        return { ...plan, version: record.version };
+    }
+
+    private readBrand(snapshot: StoredBrandSnapshot): Brand {
+        const formatVersion = typeof snapshot.formatVersion === 'number' ? snapshot.formatVersion : 0;
+        return migrateBrand(snapshot.brand, formatVersion);
+    }
+}
+
+/**
+ * Highest stored version of a plan, 0 when it has none
+ */
+function latestVersion(records: StoredPlanVersion[], brandId: string, planKey: string): number {
+    return records
+        .filter(r => r.brandId === brandId && r.planKey === planKey)
+        .reduce((max, r) => Math.max(max, r.version), 0);
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function createDefaultAdapter(): PlanStorageAdapter {
+    if (typeof indexedDB !== 'undefined') {
+        return new IndexedDBPlanStorageAdapter();
+    }
+    return new InMemoryPlanStorageAdapter();
+}
+
+// Export singleton instance
+export const planStorage = new PlanStorageManager(createDefaultAdapter());
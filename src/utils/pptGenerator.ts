@@ -1,35 +1,202 @@
 import pptxgen from 'pptxgenjs';
-import { MediaPlan } from '../types';
+import { MediaPlan, Brand, Line } from '../types';
+import { getTemplateById } from '../logic/campaignTemplates';
+import { forecastCampaign, getForecastOptions } from './forecastingEngine';
+import { generateOptimizationReport } from './optimizationEngine';
+import { buildExecutiveSummary, loadImage } from './pdfReportBuilder';
 
-export const generateMediaPlanPPT = (mediaPlan: MediaPlan) => {
+const DEFAULT_PRIMARY = '7C3AED'; // Purple
+const DEFAULT_ACCENT = '0EA5E9';
+const SERIES_COLORS = ['F59E0B', '10B981', 'EF4444', '6366F1', 'EC4899', '14B8A6', '84CC16'];
+
+const MASTER_TITLE = 'BRAND_TITLE';
+const MASTER_CONTENT = 'BRAND_CONTENT';
+
+interface DeckTheme {
+    primary: string;
+    accent: string;
+    brandName: string;
+    logo: string | null; // pptxgenjs base64 image data
+}
+
+export const generateMediaPlanPPT = async (mediaPlan: MediaPlan, brand?: Brand | null) => {
     const pres = new pptxgen();
+    pres.layout = 'LAYOUT_16x9';
     const { campaign } = mediaPlan;
+    const placements = campaign.placements || [];
+
+    const logo = brand?.logoUrl ? await loadImage(brand.logoUrl) : null;
+    const theme: DeckTheme = {
+        primary: toPptColor(brand?.brandColors?.primary, DEFAULT_PRIMARY),
+        accent: toPptColor(brand?.brandColors?.accent, DEFAULT_ACCENT),
+        brandName: brand?.name || campaign.advertiser,
+        logo: logo ? logo.dataUrl.replace(/^data:/, '') : null
+    };
+    defineMasters(pres, theme);
+
+    const channels = groupByChannel(placements);
+    const palette = [theme.primary, theme.accent, ...SERIES_COLORS];
 
     // Slide 1: Title Slide
-    const slide1 = pres.addSlide();
-    slide1.addText('Media Plan Recommendation', { x: 1, y: 1.5, fontSize: 36, color: '363636', bold: true, align: 'center', w: '80%' });
-    slide1.addText(`Client: ${campaign.advertiser}`, { x: 1, y: 3, fontSize: 18, color: '666666', align: 'center', w: '80%' });
-    slide1.addText(`Campaign: ${campaign.name}`, { x: 1, y: 3.5, fontSize: 18, color: '666666', align: 'center', w: '80%' });
-    slide1.addText(`Budget: $${campaign.budget.toLocaleString()}`, { x: 1, y: 4, fontSize: 18, color: '666666', align: 'center', w: '80%' });
+    const slide1 = pres.addSlide({ masterName: MASTER_TITLE });
+    slide1.addText('Media Plan Recommendation', { x: 0.6, y: 1.6, w: 8.8, fontSize: 36, color: 'FFFFFF', bold: true });
+    slide1.addText(campaign.name, { x: 0.6, y: 2.5, w: 8.8, fontSize: 22, color: 'FFFFFF' });
+    slide1.addText(`Client: ${campaign.advertiser}  |  Budget: $${campaign.budget.toLocaleString()}  |  ${campaign.startDate} to ${campaign.endDate}`, {
+        x: 0.6, y: 3.2, w: 8.8, fontSize: 14, color: 'FFFFFF'
+    });
 
     // Slide 2: Executive Summary (Stats)
-    const slide2 = pres.addSlide();
-    slide2.addText('Executive Summary', { x: 0.5, y: 0.5, fontSize: 24, color: '363636', bold: true });
+    const summary = buildExecutiveSummary(mediaPlan);
+    const slide2 = addContentSlide(pres, 'Executive Summary');
+    const stats: [string, string, string][] = [
+        ['Total Spend', `$${mediaPlan.totalSpend.toLocaleString()}`, theme.primary],
+        ['Remaining Budget', `$${mediaPlan.remainingBudget.toLocaleString()}`, '28A745'],
+        ['Total Placements', placements.length.toString(), 'FF8C00'],
+        ['Est. Reach', formatNumber(summary.sections.metrics.reach), theme.accent]
+    ];
+    stats.forEach(([label, value, color], i) => {
+        slide2.addText(label, { x: 0.5 + i * 2.3, y: 1.1, w: 2.2, fontSize: 12, color: '666666' });
+        slide2.addText(value, { x: 0.5 + i * 2.3, y: 1.45, w: 2.2, fontSize: 24, color, bold: true });
+    });
+    slide2.addText(summary.sections.findings.map(text => ({ text, options: { bullet: true } })), {
+        x: 0.5, y: 2.3, w: 9, h: 2.6, fontSize: 14, color: '363636', valign: 'top'
+    });
 
-    slide2.addText('Total Spend', { x: 1, y: 2, fontSize: 14, color: '666666' });
-    slide2.addText(`$${mediaPlan.totalSpend.toLocaleString()}`, { x: 1, y: 2.5, fontSize: 32, color: '0078D7', bold: true });
+    // Slide 3: Channel Mix
+    const slide3 = addContentSlide(pres, 'Channel Mix');
+    if (channels.length > 0) {
+        slide3.addChart(pres.ChartType.doughnut, [{
+            name: 'Spend',
+            labels: channels.map(c => c.channel),
+            values: channels.map(c => Math.round(c.spend))
+        }], {
+            x: 0.3, y: 1.0, w: 5.2, h: 4.1,
+            chartColors: palette,
+            holeSize: 50,
+            showPercent: true,
+            showLegend: true,
+            legendPos: 'r',
+            legendFontSize: 11,
+            dataLabelColor: 'FFFFFF'
+        });
+        slide3.addTable([
+            headerRow(['Channel', 'Spend', 'Share'], theme.primary),
+            ...channels.map(c => toRow([c.channel, `$${Math.round(c.spend).toLocaleString()}`, `${(c.spend / Math.max(1, mediaPlan.totalSpend) * 100).toFixed(0)}%`]))
+        ], { x: 5.8, y: 1.2, w: 3.8, colW: [1.6, 1.3, 0.9], fontSize: 11, border: { pt: 1, color: 'E1E1E1' } });
+    }
 
-    slide2.addText('Remaining Budget', { x: 4, y: 2, fontSize: 14, color: '666666' });
-    slide2.addText(`$${mediaPlan.remainingBudget.toLocaleString()}`, { x: 4, y: 2.5, fontSize: 32, color: '28A745', bold: true });
+    // Slide 4: Flight Timeline (stacked bar Gantt - the offset series is drawn in the background color)
+    const slide4 = addContentSlide(pres, 'Flight Timeline');
+    const timeline = getTimelineRows(mediaPlan);
+    if (timeline.length > 0) {
+        const rows = [...timeline].reverse(); // Bar charts draw the first category at the bottom
+        slide4.addChart(pres.ChartType.bar, [
+            { name: 'Start', labels: rows.map(r => r.label), values: rows.map(r => r.offset) },
+            { name: 'Duration (days)', labels: rows.map(r => r.label), values: rows.map(r => r.duration) }
+        ], {
+            x: 0.3, y: 1.0, w: 9.4, h: 4.1,
+            barDir: 'bar',
+            barGrouping: 'stacked',
+            chartColors: ['FFFFFF', theme.primary],
+            valAxisTitle: `Days from ${campaign.startDate}`,
+            showValAxisTitle: true,
+            valAxisMinVal: 0,
+            catAxisLabelFontSize: 11,
+            valAxisLabelFontSize: 10,
+            showLegend: false
+        });
+    }
 
-    const placements = campaign.placements || [];
+    // Per-channel slides with placements and rationale
+    const template = campaign.templateId ? getTemplateById(campaign.templateId) : undefined;
+    channels.forEach(({ channel, spend, lines }) => {
+        const slide = addContentSlide(pres, channel);
+        const share = spend / Math.max(1, mediaPlan.totalSpend) * 100;
+        const mix = template?.channelMix.find(m => m.channel === channel) ||
+            template?.channelMix.find(m => channel.toLowerCase().includes(m.channel.toLowerCase()));
+        const vendors = Array.from(new Set(lines.map(l => l.vendor)));
+        const rationale = mix
+            ? `${mix.rationale} (${template!.name} template: ${mix.percentage}% of budget)`
+            : `${channel} carries ${share.toFixed(0)}% of planned spend across ${lines.length} placement${lines.length === 1 ? '' : 's'} with ${vendors.join(', ')}.`;
+
+        slide.addText(`$${Math.round(spend).toLocaleString()}  ·  ${share.toFixed(0)}% of spend  ·  ${lines.length} placement${lines.length === 1 ? '' : 's'}`, {
+            x: 0.5, y: 0.95, w: 9, fontSize: 13, color: theme.primary, bold: true
+        });
+        slide.addText([{ text: 'Why this channel: ', options: { bold: true } }, { text: rationale }], {
+            x: 0.5, y: 1.35, w: 9, h: 0.7, fontSize: 12, color: '363636', fill: { color: 'F5F5F7' }, valign: 'middle'
+        });
+        slide.addTable([
+            headerRow(['Vendor', 'Ad Unit', 'Dates', 'Rate', 'Qty', 'Cost'], theme.primary),
+            ...lines.map(p => toRow([
+                p.vendor,
+                p.adUnit,
+                `${p.startDate} - ${p.endDate}`,
+                `$${p.rate.toLocaleString()} ${p.costMethod}`,
+                p.quantity.toLocaleString(),
+                `$${p.totalCost.toLocaleString()}`
+            ]))
+        ], {
+            x: 0.5, y: 2.25, w: 9,
+            colW: [1.6, 1.8, 2, 1.2, 1.1, 1.3],
+            fontSize: 10,
+            border: { pt: 1, color: 'E1E1E1' },
+            autoPage: true,
+            autoPageRepeatHeader: true,
+            autoPageSlideStartY: 1.0
+        });
+    });
 
-    slide2.addText('Total Placements', { x: 7, y: 2, fontSize: 14, color: '666666' });
-    slide2.addText(placements.length.toString(), { x: 7, y: 2.5, fontSize: 32, color: 'FF8C00', bold: true });
+    // Forecast ranges
+    const forecastOptions = getForecastOptions(campaign, brand);
+    const forecast = forecastCampaign(placements, campaign.startDate, campaign.endDate, forecastOptions);
+    const slideForecast = addContentSlide(pres, 'Forecast');
+    slideForecast.addTable([
+        headerRow(['Metric', 'P25', 'P50', 'P75'], theme.primary),
+        toRow(['Impressions', formatNumber(forecast.impressions.p25), formatNumber(forecast.impressions.p50), formatNumber(forecast.impressions.p75)]),
+        toRow(['Clicks', formatNumber(forecast.clicks.p25), formatNumber(forecast.clicks.p50), formatNumber(forecast.clicks.p75)]),
+        toRow(['Conversions', formatNumber(forecast.conversions.p25), formatNumber(forecast.conversions.p50), formatNumber(forecast.conversions.p75)]),
+        toRow(['Spend', `$${formatNumber(forecast.spend.p25)}`, `$${formatNumber(forecast.spend.p50)}`, `$${formatNumber(forecast.spend.p75)}`])
+    ], { x: 0.5, y: 1.1, w: 3.8, colW: [1.3, 0.8, 0.85, 0.85], fontSize: 11, border: { pt: 1, color: 'E1E1E1' } });
+    slideForecast.addText(`Reach ${formatNumber(forecast.adjustedReach)} · Frequency ${forecast.frequency} · ${forecast.confidence.toLowerCase()} confidence`, {
+        x: 0.5, y: 3.0, w: 3.8, fontSize: 11, color: '666666'
+    });
+    slideForecast.addText(forecast.seasonalImpact, { x: 0.5, y: 3.5, w: 3.8, h: 1.4, fontSize: 10, color: '666666', valign: 'top' });
+    if (channels.length > 0) {
+        const byChannel = channels.map(c => ({ channel: c.channel, forecast: forecastCampaign(c.lines, campaign.startDate, campaign.endDate, forecastOptions) }));
+        const labels = byChannel.map(c => c.channel);
+        slideForecast.addChart(pres.ChartType.bar, [
+            { name: 'P25', labels, values: byChannel.map(c => c.forecast.impressions.p25) },
+            { name: 'P50', labels, values: byChannel.map(c => c.forecast.impressions.p50) },
+            { name: 'P75', labels, values: byChannel.map(c => c.forecast.impressions.p75) }
+        ], {
+            x: 4.6, y: 1.0, w: 5.1, h: 4.1,
+            barDir: 'col',
+            barGrouping: 'clustered',
+            chartColors: ['CBD5E1', theme.primary, theme.accent],
+            showTitle: true,
+            title: 'Impressions by Channel',
+            titleFontSize: 12,
+            showLegend: true,
+            legendPos: 'b',
+            valAxisLabelFormatCode: '#,##0',
+            catAxisLabelFontSize: 10,
+            valAxisLabelFontSize: 9
+        });
+    }
+
+    // Recommendations
+    const optimization = generateOptimizationReport(placements, campaign.budget);
+    const slideRecs = addContentSlide(pres, 'Recommendations');
+    const recommendations = optimization.recommendations.length > 0
+        ? optimization.recommendations.slice(0, 6).map(r => `${r.placementName}: ${r.specificAction}`)
+        : summary.sections.nextSteps;
+    slideRecs.addText(recommendations.map(text => ({ text, options: { bullet: true } })), {
+        x: 0.5, y: 1.1, w: 9, h: 3.4, fontSize: 14, color: '363636', valign: 'top', paraSpaceAfter: 6
+    });
+    slideRecs.addText(`${summary.sections.impact} ${summary.sections.risk}`, { x: 0.5, y: 4.5, w: 9, fontSize: 12, color: theme.primary, italic: true });
 
-    // Slide 3: Detailed Placements Table
-    const slide3 = pres.addSlide();
-    slide3.addText('Detailed Media Schedule', { x: 0.5, y: 0.5, fontSize: 24, color: '363636', bold: true });
+    // Detailed Placements Table
+    const slideSchedule = addContentSlide(pres, 'Detailed Media Schedule');
 
     const rows: (string | { text: string })[][] = placements.map(p => [
         p.channel,
@@ -46,17 +213,99 @@ export const generateMediaPlanPPT = (mediaPlan: MediaPlan) => {
 
     // String arrays work as table rows in pptxgenjs
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    slide3.addTable(rows as any, {
+    slideSchedule.addTable(rows as any, {
         x: 0.5,
-        y: 1.2,
+        y: 1.0,
         w: 9,
         colW: [1, 1.5, 1.5, 2, 1, 1, 1],
         fontSize: 10,
         border: { pt: 1, color: 'E1E1E1' },
         fill: { color: 'F9F9F9' },
         autoPage: true,
-        autoPageLineWeight: -1
+        autoPageLineWeight: -1,
+        autoPageSlideStartY: 1.0
     });
 
-    pres.writeFile({ fileName: `${campaign.name.replace(/\s+/g, '_')}_MediaPlan.pptx` });
+    await pres.writeFile({ fileName: `${campaign.name.replace(/\s+/g, '_')}_MediaPlan.pptx` });
 };
+
+/**
+ * Title and content masters in the brand's colors; charts and text stay editable
+ */
+function defineMasters(pres: pptxgen, theme: DeckTheme): void {
+    const logo = theme.logo ? [{ image: { x: 8.6, y: 0.25, w: 1.0, h: 0.5, data: theme.logo, sizing: { type: 'contain' as const, w: 1.0, h: 0.5 } } }] : [];
+
+    pres.defineSlideMaster({
+        title: MASTER_TITLE,
+        background: { color: theme.primary },
+        objects: [
+            { rect: { x: 0, y: 4.9, w: '100%', h: 0.725, fill: { color: theme.accent } } },
+            { text: { text: theme.brandName, options: { x: 0.6, y: 5.0, w: 6, h: 0.5, fontSize: 14, color: 'FFFFFF', bold: true } } },
+            ...logo
+        ]
+    });
+
+    pres.defineSlideMaster({
+        title: MASTER_CONTENT,
+        background: { color: 'FFFFFF' },
+        objects: [
+            { rect: { x: 0, y: 0, w: '100%', h: 0.1, fill: { color: theme.primary } } },
+            { line: { x: 0.5, y: 5.2, w: 9, h: 0, line: { color: 'E1E1E1', width: 1 } } },
+            { text: { text: `${theme.brandName}  |  Generated by FuseIQ Media Planner`, options: { x: 0.5, y: 5.25, w: 7, h: 0.3, fontSize: 9, color: '888888' } } },
+            ...logo
+        ],
+        slideNumber: { x: 9.2, y: 5.25, w: 0.5, h: 0.3, fontSize: 9, color: '888888' }
+    });
+}
+
+function addContentSlide(pres: pptxgen, title: string): pptxgen.Slide {
+    const slide = pres.addSlide({ masterName: MASTER_CONTENT });
+    slide.addText(title, { x: 0.5, y: 0.3, w: 8, h: 0.55, fontSize: 24, color: '363636', bold: true });
+    return slide;
+}
+
+function headerRow(labels: string[], color: string): pptxgen.TableRow {
+    return labels.map(text => ({ text, options: { bold: true, color: 'FFFFFF', fill: { color } } }));
+}
+
+function toRow(values: string[]): pptxgen.TableRow {
+    return values.map(text => ({ text }));
+}
+
+function groupByChannel(placements: Line[]): { channel: string; spend: number; lines: Line[] }[] {
+    const groups = new Map<string, Line[]>();
+    placements.forEach(p => groups.set(p.channel, [...(groups.get(p.channel) || []), p]));
+    return Array.from(groups.entries())
+        .map(([channel, lines]) => ({ channel, lines, spend: lines.reduce((sum, l) => sum + l.totalCost, 0) }))
+        .sort((a, b) => b.spend - a.spend);
+}
+
+/**
+ * One row per flight (or per placement when the campaign has no flights),
+ * as day offsets from the campaign start
+ */
+function getTimelineRows(mediaPlan: MediaPlan): { label: string; offset: number; duration: number }[] {
+    const { campaign } = mediaPlan;
+    const items = campaign.flights.length > 0
+        ? campaign.flights.map(f => ({ label: f.name, startDate: f.startDate, endDate: f.endDate }))
+        : (campaign.placements || []).map(p => ({ label: `${p.vendor} - ${p.adUnit}`, startDate: p.startDate, endDate: p.endDate }));
+    const origin = new Date(campaign.startDate).getTime();
+    const day = 24 * 60 * 60 * 1000;
+
+    return items.map(item => ({
+        label: item.label,
+        offset: Math.max(0, Math.round((new Date(item.startDate).getTime() - origin) / day)),
+        duration: Math.max(1, Math.round((new Date(item.endDate).getTime() - new Date(item.startDate).getTime()) / day) + 1)
+    }));
+}
+
+function toPptColor(hex: string | undefined, fallback: string): string {
+    const match = hex && /^#?([0-9a-f]{6})$/i.exec(hex);
+    return match ? match[1].toUpperCase() : fallback;
+}
+
+function formatNumber(value: number): string {
+    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+    if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+    return Math.round(value).toLocaleString();
+}
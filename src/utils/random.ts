@@ -0,0 +1,80 @@
+/**
+ * Random - Seedable random source for the data generators
+ *
+ * Generators call random() instead of Math.random(). By default it defers to
+ * Math.random; setRandomSeed(seed), or withRandomSeed(seed, fn) for a single
+ * call, switches to a mulberry32 generator so the same seed always produces
+ * the same data.
+ */
+
+export type RandomSource = () => number;
+
+const unseeded: RandomSource = () => Math.random();
+let source: RandomSource = unseeded;
+
+/**
+ * mulberry32 - small, fast 32-bit seeded generator
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** A number in [0, 1) from the current source */
+export function random(): number {
+    return source();
+}
+
+/**
+ * Seed every generator from now on, or pass null to go back to Math.random
+ */
+export function setRandomSeed(seed: number | null): void {
+    source = seed === null ? unseeded : createSeededRandom(seed);
+}
+
+/**
+ * Run `fn` with a seeded source, then restore the previous one
+ */
+export function withRandomSeed<T>(seed: number, fn: () => T): T {
+    const previous = source;
+    source = createSeededRandom(seed);
+    try {
+        return fn();
+    } finally {
+        source = previous;
+    }
+}
+
+/** Integer in [min, max] */
+export function randomInt(min: number, max: number): number {
+    return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/** Float in [min, max) */
+export function randomBetween(min: number, max: number): number {
+    return min + random() * (max - min);
+}
+
+export function randomItem<T>(items: readonly T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Pick a key with probability proportional to its weight
+ */
+export function weightedItem<K extends string>(weights: Partial<Record<K, number>>): K {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, weight]) => weight > 0);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = random() * total;
+    for (const [key, weight] of entries) {
+        roll -= weight;
+        if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+}
@@ -0,0 +1,321 @@
+/**
+ * Reach & Frequency Model - Deduplicated reach, frequency distributions and reach curves
+ *
+ * METHODOLOGY:
+ * ============
+ * PER CHANNEL (negative binomial distribution, NBD):
+ * Each channel can reach a share of the population (its penetration). Within that
+ * universe U, exposures per person follow an NBD with mean m = Impressions / U and
+ * shape k (low k = impressions pile up on heavy users, high k = spread evenly):
+ *   P(0) = (k / (k + m))^k
+ *   P(x) = P(x − 1) × (x − 1 + k) / x × m / (k + m)
+ * Reach (1+) = U × (1 − P(0)), so reach flattens as spend grows.
+ *
+ * ACROSS CHANNELS (random duplication):
+ * Channels are assumed to reach people independently, so the plan's exposure
+ * distribution is the convolution of the channel distributions. For 1+ reach this
+ * is Sainsbury's formula:
+ *   Reach = Population × (1 − Π(1 − Reach_c / Population))
+ *
+ * EFFECTIVE FREQUENCY:
+ * n+ reach = people exposed at least n times. optimizeEffectiveReach() moves budget
+ * between channels, one step at a time, while it raises n+ reach.
+ *
+ * Lines in the same channel share its universe: their impressions are added up
+ * before the channel's reach is computed, so more lines raise frequency, not
+ * just reach.
+ *
+ * Source: Industry averages (simulated for prototype)
+ */
+
+export interface ChannelReachModel {
+    penetration: number;    // Share of the population the channel can reach
+    k: number;              // NBD shape
+}
+
+/** One channel's planned spend and impressions */
+export interface ChannelDelivery {
+    channel: string;
+    spend: number;
+    impressions: number;
+}
+
+export interface ReachFrequencyOptions {
+    population?: number;    // People the campaign targets, defaults to US adults
+    maxFrequency?: number;  // Last bucket of the distribution holds this many exposures or more
+}
+
+export interface ChannelReach {
+    channel: string;
+    impressions: number;
+    reach: number;
+    averageFrequency: number;
+}
+
+export interface ReachEstimate {
+    population: number;
+    impressions: number;
+    reach: number;              // 1+ deduplicated
+    reachPercent: number;       // Of the population, 0-100
+    averageFrequency: number;   // Among people reached
+    distribution: number[];     // Share of the population exposed exactly n times (index n, last bucket is n+)
+    byChannel: ChannelReach[];
+}
+
+export interface ReachCurvePoint {
+    spendMultiplier: number;
+    spend: number;
+    impressions: number;
+    reach: number;
+    reachPercent: number;
+    effectiveReach: number;     // n+ reach at the requested effective frequency
+}
+
+export interface ChannelAllocation {
+    channel: string;
+    currentSpend: number;
+    recommendedSpend: number;
+}
+
+export interface EffectiveReachPlan {
+    effectiveFrequency: number;
+    currentReach: number;       // n+ reach of the plan as it stands
+    optimizedReach: number;     // n+ reach after the reallocation
+    channels: ChannelAllocation[];
+}
+
+export interface EffectiveReachOptions extends ReachFrequencyOptions {
+    stepShare?: number;         // Budget moved per step, as a share of total spend
+    minChannelShare?: number;   // No channel drops below this share of its current spend
+}
+
+export const DEFAULT_POPULATION = 260000000;
+export const DEFAULT_EFFECTIVE_FREQUENCY = 3;
+export const REPORTED_FREQUENCIES = [1, 3, 5];
+
+const DEFAULT_MAX_FREQUENCY = 20;
+const DEFAULT_CURVE_MULTIPLIERS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3];
+const DEFAULT_STEP_SHARE = 0.025;
+const DEFAULT_MIN_CHANNEL_SHARE = 0.25;
+const MAX_REALLOCATION_STEPS = 400;
+
+/**
+ * Channel penetration and NBD shape
+ *
+ * - Search/Display: near-universal, but impressions concentrate on heavy users (low k)
+ * - TV/Radio/OOH: broad, evenly spread exposure (higher k)
+ * - Podcast/Print: smaller, loyal audiences
+ */
+const CHANNEL_REACH_MODELS: Record<string, ChannelReachModel> = {
+    'Search': { penetration: 0.85, k: 0.5 },
+    'Social': { penetration: 0.75, k: 0.8 },
+    'Display': { penetration: 0.90, k: 0.6 },
+    'Video': { penetration: 0.80, k: 0.7 },
+    'CTV': { penetration: 0.60, k: 1.0 },
+    'TV': { penetration: 0.90, k: 1.2 },
+    'Radio': { penetration: 0.80, k: 1.0 },
+    'Audio': { penetration: 0.60, k: 0.9 },
+    'Streaming Audio': { penetration: 0.45, k: 0.9 },
+    'Podcast': { penetration: 0.35, k: 0.6 },
+    'Place-based Audio': { penetration: 0.40, k: 1.0 },
+    'OOH': { penetration: 0.85, k: 1.5 },
+    'Print': { penetration: 0.35, k: 0.8 }
+};
+
+const DEFAULT_REACH_MODEL: ChannelReachModel = { penetration: 0.60, k: 0.8 };
+
+export function getChannelReachModel(channel: string): ChannelReachModel {
+    return CHANNEL_REACH_MODELS[channel] || DEFAULT_REACH_MODEL;
+}
+
+/**
+ * Share of the channel's universe exposed 0..maxFrequency times (last bucket is maxFrequency+)
+ */
+export function nbdExposureDistribution(impressions: number, universe: number, k: number, maxFrequency: number = DEFAULT_MAX_FREQUENCY): number[] {
+    const distribution = new Array(maxFrequency + 1).fill(0);
+    const mean = universe > 0 ? Math.max(0, impressions) / universe : 0;
+    if (mean === 0) {
+        distribution[0] = 1;
+        return distribution;
+    }
+
+    const p = mean / (k + mean);
+    distribution[0] = Math.pow(k / (k + mean), k);
+    let assigned = distribution[0];
+    for (let x = 1; x < maxFrequency; x++) {
+        distribution[x] = distribution[x - 1] * (x - 1 + k) / x * p;
+        assigned += distribution[x];
+    }
+    distribution[maxFrequency] = Math.max(0, 1 - assigned);
+    return distribution;
+}
+
+/**
+ * Exposure distribution over the whole population for one channel
+ */
+function channelDistribution(channel: string, impressions: number, population: number, maxFrequency: number): number[] {
+    const model = getChannelReachModel(channel);
+    const distribution = nbdExposureDistribution(impressions, population * model.penetration, model.k, maxFrequency)
+        .map(share => share * model.penetration);
+    distribution[0] += 1 - model.penetration;
+    return distribution;
+}
+
+/**
+ * Random duplication: distribution of the sum of independent exposures
+ */
+function convolve(a: number[], b: number[]): number[] {
+    const maxFrequency = a.length - 1;
+    const result = new Array(maxFrequency + 1).fill(0);
+    a.forEach((pa, i) => {
+        if (pa === 0) return;
+        b.forEach((pb, j) => {
+            result[Math.min(maxFrequency, i + j)] += pa * pb;
+        });
+    });
+    return result;
+}
+
+/**
+ * Deduplicated reach and frequency for impressions by channel
+ */
+export function estimateReach(channelImpressions: Record<string, number>, options: ReachFrequencyOptions = {}): ReachEstimate {
+    const population = options.population ?? DEFAULT_POPULATION;
+    const maxFrequency = Math.max(1, options.maxFrequency ?? DEFAULT_MAX_FREQUENCY);
+
+    let distribution = new Array(maxFrequency + 1).fill(0);
+    distribution[0] = 1;
+    let impressions = 0;
+    const byChannel: ChannelReach[] = [];
+
+    Object.entries(channelImpressions).forEach(([channel, channelTotal]) => {
+        if (!(channelTotal > 0)) return;
+        const channelDist = channelDistribution(channel, channelTotal, population, maxFrequency);
+        const reach = (1 - channelDist[0]) * population;
+        byChannel.push({ channel, impressions: channelTotal, reach, averageFrequency: reach > 0 ? channelTotal / reach : 0 });
+        distribution = convolve(distribution, channelDist);
+        impressions += channelTotal;
+    });
+
+    const reach = (1 - distribution[0]) * population;
+    return {
+        population,
+        impressions,
+        reach,
+        reachPercent: population > 0 ? (reach / population) * 100 : 0,
+        averageFrequency: reach > 0 ? impressions / reach : 0,
+        distribution,
+        byChannel
+    };
+}
+
+/**
+ * People exposed at least `frequency` times
+ */
+export function reachAtFrequency(estimate: ReachEstimate, frequency: number): number {
+    const from = Math.max(1, Math.min(estimate.distribution.length - 1, Math.floor(frequency)));
+    return estimate.distribution.slice(from).reduce((sum, share) => sum + share, 0) * estimate.population;
+}
+
+function impressionsByChannel(delivery: ChannelDelivery[], spendFor: (d: ChannelDelivery) => number): Record<string, number> {
+    const totals: Record<string, number> = {};
+    delivery.forEach(d => {
+        const perDollar = d.spend > 0 ? d.impressions / d.spend : 0;
+        totals[d.channel] = (totals[d.channel] || 0) + spendFor(d) * perDollar;
+    });
+    return totals;
+}
+
+/**
+ * Reach as the plan's spend scales up or down, keeping its channel mix and cost per impression
+ */
+export function buildReachCurve(
+    delivery: ChannelDelivery[],
+    effectiveFrequency: number = DEFAULT_EFFECTIVE_FREQUENCY,
+    multipliers: number[] = DEFAULT_CURVE_MULTIPLIERS,
+    options: ReachFrequencyOptions = {}
+): ReachCurvePoint[] {
+    const spend = delivery.reduce((sum, d) => sum + d.spend, 0);
+    return multipliers.map(multiplier => {
+        const estimate = estimateReach(impressionsByChannel(delivery, d => d.spend * multiplier), options);
+        return {
+            spendMultiplier: multiplier,
+            spend: spend * multiplier,
+            impressions: estimate.impressions,
+            reach: estimate.reach,
+            reachPercent: estimate.reachPercent,
+            effectiveReach: reachAtFrequency(estimate, effectiveFrequency)
+        };
+    });
+}
+
+/**
+ * Reallocate the same total spend across channels to maximize n+ reach
+ *
+ * Local search from the current mix: each step moves stepShare of total spend
+ * between the pair of channels that gains the most n+ reach, and stops when no
+ * move helps. Starting from the planner's mix (rather than from zero) matters
+ * because n+ reach is S-shaped in spend for n > 1.
+ */
+export function optimizeEffectiveReach(
+    delivery: ChannelDelivery[],
+    effectiveFrequency: number = DEFAULT_EFFECTIVE_FREQUENCY,
+    options: EffectiveReachOptions = {}
+): EffectiveReachPlan {
+    // Merge lines into one entry per channel that can actually buy impressions
+    const channels: ChannelDelivery[] = [];
+    delivery.forEach(d => {
+        const existing = channels.find(c => c.channel === d.channel);
+        if (existing) {
+            existing.spend += d.spend;
+            existing.impressions += d.impressions;
+        } else {
+            channels.push({ ...d });
+        }
+    });
+    const buyable = channels.filter(c => c.spend > 0 && c.impressions > 0);
+
+    const totalSpend = buyable.reduce((sum, c) => sum + c.spend, 0);
+    const step = totalSpend * (options.stepShare ?? DEFAULT_STEP_SHARE);
+    const floors = buyable.map(c => c.spend * (options.minChannelShare ?? DEFAULT_MIN_CHANNEL_SHARE));
+    const perDollar = buyable.map(c => c.impressions / c.spend);
+
+    const evaluate = (spend: number[]) => {
+        const impressions: Record<string, number> = {};
+        buyable.forEach((c, i) => { impressions[c.channel] = spend[i] * perDollar[i]; });
+        return reachAtFrequency(estimateReach(impressions, options), effectiveFrequency);
+    };
+
+    const spend = buyable.map(c => c.spend);
+    const currentReach = evaluate(spend);
+    let optimizedReach = currentReach;
+
+    for (let moves = 0; step > 0 && buyable.length > 1 && moves < MAX_REALLOCATION_STEPS; moves++) {
+        let best: { from: number; to: number; reach: number } | null = null;
+        for (let from = 0; from < spend.length; from++) {
+            if (spend[from] - step < floors[from]) continue;
+            for (let to = 0; to < spend.length; to++) {
+                if (to === from) continue;
+                spend[from] -= step;
+                spend[to] += step;
+                const reach = evaluate(spend);
+                spend[from] += step;
+                spend[to] -= step;
+                if (reach > (best?.reach ?? optimizedReach * (1 + 1e-6))) {
+                    best = { from, to, reach };
+                }
+            }
+        }
+        if (!best) break;
+        spend[best.from] -= step;
+        spend[best.to] += step;
+        optimizedReach = best.reach;
+    }
+
+    return {
+        effectiveFrequency,
+        currentReach,
+        optimizedReach,
+        channels: buyable.map((c, i) => ({ channel: c.channel, currentSpend: c.spend, recommendedSpend: spend[i] }))
+    };
+}
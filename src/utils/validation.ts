@@ -186,3 +186,60 @@ export function validateUrl(url: string): ValidationResult {
         return { isValid: false, error: 'Invalid URL format' };
     }
 }
+
+/**
+ * Validates a line item rate
+ */
+export function validateRate(value: number | string): ValidationResult {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+
+    if (isNaN(num)) {
+        return { isValid: false, error: 'Rate must be a valid number' };
+    }
+
+    if (num <= 0) {
+        return { isValid: false, error: 'Rate must be greater than zero' };
+    }
+
+    if (num > 10_000_000) {
+        return { isValid: false, error: 'Rate exceeds maximum limit ($10M)' };
+    }
+
+    return { isValid: true };
+}
+
+/**
+ * Validates a line item quantity (impressions, clicks, spots...)
+ */
+export function validateQuantity(value: number | string): ValidationResult {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+
+    if (isNaN(num)) {
+        return { isValid: false, error: 'Quantity must be a valid number' };
+    }
+
+    if (num <= 0) {
+        return { isValid: false, error: 'Quantity must be greater than zero' };
+    }
+
+    if (!Number.isInteger(num)) {
+        return { isValid: false, error: 'Quantity must be a whole number' };
+    }
+
+    return { isValid: true };
+}
+
+/**
+ * Validates a cost method
+ */
+export function validateCostMethod(value: string): ValidationResult {
+    if (!value || value.trim().length === 0) {
+        return { isValid: false, error: 'Cost method is required' };
+    }
+
+    if (!['CPM', 'CPC', 'Flat', 'Spot'].includes(value)) {
+        return { isValid: false, error: `Unknown cost method "${value}" (use CPM, CPC, Flat or Spot)` };
+    }
+
+    return { isValid: true };
+}
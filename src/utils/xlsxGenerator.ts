@@ -0,0 +1,383 @@
+/**
+ * XLSX Generator - Excel media plan export
+ *
+ * Writes a workbook with a campaign summary tab plus one tab per flight.
+ * Costs, subtotals and remaining budget are live formulas so buyers can edit
+ * rates and quantities in Excel and see the plan recalculate.
+ *
+ * The SpreadsheetML parts are written directly and zipped with JSZip (the
+ * same zip library pptxgenjs uses), so no spreadsheet dependency is needed.
+ */
+
+import JSZip from 'jszip';
+import { MediaPlan, Flight, Line } from '../types';
+
+type CellStyle = 'default' | 'header' | 'currency' | 'number' | 'bold' | 'boldCurrency' | 'title';
+
+interface SheetCell {
+    value?: string | number;
+    formula?: string;       // Without the leading "="; `value` is the cached result
+    style?: CellStyle;
+}
+
+interface Sheet {
+    name: string;
+    columnWidths: number[];
+    rows: (SheetCell | null)[][];
+    freezeRows?: number;
+}
+
+// Index into cellXfs in styles.xml
+const STYLE_INDEX: Record<CellStyle, number> = {
+    default: 0,
+    header: 1,
+    currency: 2,
+    number: 3,
+    bold: 4,
+    boldCurrency: 5,
+    title: 6
+};
+
+const FLIGHT_COLUMNS = ['Line', 'Channel', 'Vendor', 'Ad Unit', 'Start', 'End', 'Cost Method', 'Rate', 'Quantity', 'Total Cost', 'Est. Impressions'];
+const RATE_COL = 'H';
+const QUANTITY_COL = 'I';
+const COST_COL = 'J';
+const IMPRESSIONS_COL = 'K';
+
+/**
+ * Build and download the plan as an .xlsx workbook
+ */
+export const generateMediaPlanXLSX = async (mediaPlan: MediaPlan): Promise<void> => {
+    const blob = await buildMediaPlanWorkbook(mediaPlan);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${mediaPlan.campaign.name.replace(/\s+/g, '_')}_MediaPlan.xlsx`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Build the workbook without downloading it
+ */
+export const buildMediaPlanWorkbook = async (mediaPlan: MediaPlan): Promise<Blob> => {
+    const flights = getExportFlights(mediaPlan);
+    const usedNames = new Set<string>(['summary']);
+    const flightSheets = flights.map(flight => buildFlightSheet(flight, uniqueSheetName(flight.name, usedNames)));
+    const summary = buildSummarySheet(mediaPlan, flights, flightSheets);
+    return writeWorkbook([summary, ...flightSheets.map(f => f.sheet)]);
+};
+
+/**
+ * Flights to export, using the live placements for the flight being edited
+ */
+function getExportFlights(mediaPlan: MediaPlan): Flight[] {
+    const { campaign } = mediaPlan;
+    const flights = (campaign.flights || []).map(flight =>
+        flight.id === mediaPlan.activeFlightId && campaign.placements
+            ? { ...flight, lines: campaign.placements }
+            : flight
+    );
+
+    // Plans built outside a flight still export their placements
+    if (flights.length === 0 && campaign.placements && campaign.placements.length > 0) {
+        flights.push({
+            id: mediaPlan.activeFlightId || mediaPlan.id,
+            name: 'Current Plan',
+            campaignId: campaign.id,
+            startDate: campaign.startDate,
+            endDate: campaign.endDate,
+            budget: campaign.budget,
+            status: campaign.status,
+            tags: [],
+            lines: campaign.placements
+        });
+    }
+
+    return flights;
+}
+
+function lineCost(line: Line): number {
+    return line.costMethod === 'CPM' ? (line.rate * line.quantity) / 1000 : line.rate * line.quantity;
+}
+
+function lineImpressions(line: Line): number {
+    return line.forecast?.impressions ?? line.performance?.impressions ?? (line.costMethod === 'CPM' ? line.quantity : 0);
+}
+
+interface FlightSheet {
+    sheet: Sheet;
+    subtotalRow: number;
+    subtotal: number;
+    lineCount: number;
+}
+
+function buildFlightSheet(flight: Flight, sheetName: string): FlightSheet {
+    const rows: (SheetCell | null)[][] = [FLIGHT_COLUMNS.map(label => ({ value: label, style: 'header' as CellStyle }))];
+    const lines = flight.lines || [];
+
+    lines.forEach((line, index) => {
+        const r = index + 2;
+        const costFormula = line.costMethod === 'CPM'
+            ? `${RATE_COL}${r}*${QUANTITY_COL}${r}/1000`
+            : `${RATE_COL}${r}*${QUANTITY_COL}${r}`;
+
+        rows.push([
+            { value: line.name },
+            { value: line.channel },
+            { value: line.vendor },
+            { value: line.adUnit },
+            { value: line.startDate },
+            { value: line.endDate },
+            { value: line.costMethod },
+            { value: line.rate, style: 'currency' },
+            { value: line.quantity, style: 'number' },
+            { formula: costFormula, value: lineCost(line), style: 'currency' },
+            { value: lineImpressions(line), style: 'number' }
+        ]);
+    });
+
+    const firstLine = 2;
+    const lastLine = Math.max(lines.length + 1, firstLine);
+    const subtotal = lines.reduce((sum, line) => sum + lineCost(line), 0);
+    const impressions = lines.reduce((sum, line) => sum + lineImpressions(line), 0);
+
+    const subtotalRow = lines.length + 3;
+    const budgetRow = subtotalRow + 1;
+    const labelCells = (label: string): (SheetCell | null)[] => [{ value: label, style: 'bold' }, null, null, null, null, null, null, null, null];
+
+    rows.push([]);
+    rows.push([
+        ...labelCells('Flight Subtotal'),
+        { formula: `SUM(${COST_COL}${firstLine}:${COST_COL}${lastLine})`, value: subtotal, style: 'boldCurrency' },
+        { formula: `SUM(${IMPRESSIONS_COL}${firstLine}:${IMPRESSIONS_COL}${lastLine})`, value: impressions, style: 'number' }
+    ]);
+    rows.push([...labelCells('Flight Budget'), { value: flight.budget, style: 'currency' }]);
+    rows.push([
+        ...labelCells('Remaining Budget'),
+        { formula: `${COST_COL}${budgetRow}-${COST_COL}${subtotalRow}`, value: flight.budget - subtotal, style: 'boldCurrency' }
+    ]);
+
+    return {
+        sheet: {
+            name: sheetName,
+            columnWidths: [32, 16, 20, 20, 12, 12, 12, 12, 14, 16, 16],
+            rows,
+            freezeRows: 1
+        },
+        subtotalRow,
+        subtotal,
+        lineCount: lines.length
+    };
+}
+
+function buildSummarySheet(mediaPlan: MediaPlan, flights: Flight[], flightSheets: FlightSheet[]): Sheet {
+    const { campaign } = mediaPlan;
+    const rows: (SheetCell | null)[][] = [
+        [{ value: `Campaign Summary - ${campaign.name}`, style: 'title' }],
+        [{ value: 'Client', style: 'bold' }, { value: campaign.advertiser }],
+        [{ value: 'Campaign', style: 'bold' }, { value: campaign.name }],
+        [{ value: 'Dates', style: 'bold' }, { value: `${campaign.startDate} to ${campaign.endDate}` }],
+        [{ value: 'Plan Version', style: 'bold' }, { value: mediaPlan.version }],
+        [],
+        ['Flight', 'Start', 'End', 'Lines', 'Budget', 'Planned Spend', 'Remaining'].map(label => ({ value: label, style: 'header' as CellStyle }))
+    ];
+
+    const firstFlightRow = rows.length + 1;
+    flights.forEach((flight, index) => {
+        const r = rows.length + 1;
+        const { sheet, subtotalRow, subtotal, lineCount } = flightSheets[index];
+        rows.push([
+            { value: flight.name },
+            { value: flight.startDate },
+            { value: flight.endDate },
+            { value: lineCount, style: 'number' },
+            { value: flight.budget, style: 'currency' },
+            { formula: `${sheetRef(sheet.name)}!${COST_COL}${subtotalRow}`, value: subtotal, style: 'currency' },
+            { formula: `E${r}-F${r}`, value: flight.budget - subtotal, style: 'currency' }
+        ]);
+    });
+    const lastFlightRow = Math.max(rows.length, firstFlightRow);
+
+    const totalBudget = flights.reduce((sum, f) => sum + f.budget, 0);
+    const totalSpend = flightSheets.reduce((sum, f) => sum + f.subtotal, 0);
+    const totalsRow = rows.length + 1;
+    const sumColumn = (col: string) => `SUM(${col}${firstFlightRow}:${col}${lastFlightRow})`;
+
+    rows.push([
+        { value: 'Total', style: 'bold' },
+        null,
+        null,
+        { formula: sumColumn('D'), value: flightSheets.reduce((sum, f) => sum + f.lineCount, 0), style: 'number' },
+        { formula: sumColumn('E'), value: totalBudget, style: 'boldCurrency' },
+        { formula: sumColumn('F'), value: totalSpend, style: 'boldCurrency' },
+        { formula: sumColumn('G'), value: totalBudget - totalSpend, style: 'boldCurrency' }
+    ]);
+
+    rows.push([]);
+    const campaignBudgetRow = rows.length + 1;
+    rows.push([{ value: 'Campaign Budget', style: 'bold' }, null, null, null, null, { value: campaign.budget, style: 'currency' }]);
+    rows.push([
+        { value: 'Remaining Campaign Budget', style: 'bold' }, null, null, null, null,
+        { formula: `F${campaignBudgetRow}-F${totalsRow}`, value: campaign.budget - totalSpend, style: 'boldCurrency' }
+    ]);
+
+    return {
+        name: 'Summary',
+        columnWidths: [32, 12, 12, 8, 16, 16, 16],
+        rows
+    };
+}
+
+// =============================================================================
+// SpreadsheetML writing
+// =============================================================================
+
+/**
+ * Excel sheet names are max 31 chars, can't contain []:*?/\ and must be unique
+ */
+function uniqueSheetName(name: string, used: Set<string>): string {
+    const base = (name.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Flight').slice(0, 31);
+    let candidate = base;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+        const suffix = ` (${i})`;
+        candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+function sheetRef(name: string): string {
+    return `'${name.replace(/'/g, "''")}'`;
+}
+
+function columnLetter(index: number): string {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function writeCell(cell: SheetCell, ref: string): string {
+    const style = STYLE_INDEX[cell.style || 'default'];
+    const s = style ? ` s="${style}"` : '';
+
+    if (cell.formula) {
+        const cached = typeof cell.value === 'number' && isFinite(cell.value) ? `<v>${cell.value}</v>` : '';
+        return `<c r="${ref}"${s}><f>${escapeXml(cell.formula)}</f>${cached}</c>`;
+    }
+    if (typeof cell.value === 'number') {
+        return `<c r="${ref}"${s}><v>${isFinite(cell.value) ? cell.value : 0}</v></c>`;
+    }
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value ?? '')}</t></is></c>`;
+}
+
+function writeSheet(sheet: Sheet): string {
+    const rows = sheet.rows.map((row, rowIndex) => {
+        const r = rowIndex + 1;
+        const cells = row
+            .map((cell, colIndex) => (cell ? writeCell(cell, `${columnLetter(colIndex)}${r}`) : ''))
+            .join('');
+        return `<row r="${r}">${cells}</row>`;
+    }).join('');
+
+    const pane = sheet.freezeRows
+        ? `<pane ySplit="${sheet.freezeRows}" topLeftCell="A${sheet.freezeRows + 1}" activePane="bottomLeft" state="frozen"/>`
+        : '';
+    const cols = sheet.columnWidths
+        .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+        .join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+        `<cols>${cols}</cols>` +
+        `<sheetData>${rows}</sheetData>` +
+        '</worksheet>';
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>' +
+    '<fonts count="3">' +
+    '<font><sz val="11"/><name val="Calibri"/></font>' +
+    '<font><b/><sz val="11"/><name val="Calibri"/></font>' +
+    '<font><b/><sz val="14"/><name val="Calibri"/></font>' +
+    '</fonts>' +
+    '<fills count="3">' +
+    '<fill><patternFill patternType="none"/></fill>' +
+    '<fill><patternFill patternType="gray125"/></fill>' +
+    '<fill><patternFill patternType="solid"><fgColor rgb="FFEDE9FE"/><bgColor indexed="64"/></patternFill></fill>' +
+    '</fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="7">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +                                  // default
+    '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +    // header
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +        // currency
+    '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +          // number
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +                  // bold
+    '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' + // bold currency
+    '<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +                  // title
+    '</cellXfs>' +
+    '</styleSheet>';
+
+async function writeWorkbook(sheets: Sheet[]): Promise<Blob> {
+    const zip = new JSZip();
+
+    zip.file('[Content_Types].xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>');
+
+    zip.file('_rels/.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>');
+
+    zip.file('xl/workbook.xml',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets>' +
+        sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets>' +
+        // Recalculate on open so edited inputs and cached values never disagree
+        '<calcPr calcId="191029" fullCalcOnLoad="1"/>' +
+        '</workbook>');
+
+    zip.file('xl/_rels/workbook.xml.rels',
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>');
+
+    zip.file('xl/styles.xml', STYLES_XML);
+    sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, writeSheet(sheet)));
+
+    return zip.generateAsync({
+        type: 'blob',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    });
+}
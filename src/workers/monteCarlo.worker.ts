@@ -0,0 +1,18 @@
+/**
+ * Monte Carlo Worker - Runs forecast simulations off the main thread
+ *
+ * Receives { id, request } and answers { id, result } or { id, error }.
+ * Started by runMonteCarlo() in utils/monteCarloClient.ts.
+ */
+
+import { MonteCarloRequest, simulateForecast } from '../utils/monteCarloSimulation';
+
+self.onmessage = (event: MessageEvent<{ id: number; request: MonteCarloRequest }>) => {
+    const { id, request } = event.data;
+    try {
+        const result = simulateForecast(request.placements, request.startDate, request.endDate, request.options);
+        self.postMessage({ id, result });
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};